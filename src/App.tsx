@@ -11,6 +11,12 @@ import { ClientManagement } from './pages/ClientManagement'
 import { ClientProfile } from './pages/ClientProfile'
 import { Settings } from './pages/Settings'
 import { ScanDataManagement } from './pages/ScanDataManagement'
+import { WellnessPassport } from './pages/WellnessPassport'
+import { Bookings } from './pages/Bookings'
+import { Invoices } from './pages/Invoices'
+import { Reports } from './pages/Reports'
+import { Analytics } from './pages/Analytics'
+import { Progress } from './pages/Progress'
 
 function App() {
   return (
@@ -85,10 +91,51 @@ function App() {
             element={
               <ProtectedRoute>
                 <Layout>
-                  <div className="text-center py-12">
-                    <h2 className="text-2xl font-bold text-gray-900 mb-4">Booking System</h2>
-                    <p className="text-gray-600">Coming soon...</p>
-                  </div>
+                  <Bookings />
+                </Layout>
+              </ProtectedRoute>
+            }
+          />
+          
+          <Route
+            path="/invoices"
+            element={
+              <ProtectedRoute>
+                <Layout>
+                  <Invoices />
+                </Layout>
+              </ProtectedRoute>
+            }
+          />
+          
+          <Route
+            path="/reports"
+            element={
+              <ProtectedRoute>
+                <Layout>
+                  <Reports />
+                </Layout>
+              </ProtectedRoute>
+            }
+          />
+          
+          <Route
+            path="/analytics"
+            element={
+              <ProtectedRoute requiredRole="admin">
+                <Layout>
+                  <Analytics />
+                </Layout>
+              </ProtectedRoute>
+            }
+          />
+          
+          <Route
+            path="/progress"
+            element={
+              <ProtectedRoute requiredRole="client">
+                <Layout>
+                  <Progress />
                 </Layout>
               </ProtectedRoute>
             }
@@ -99,10 +146,7 @@ function App() {
             element={
               <ProtectedRoute requiredRole="client">
                 <Layout>
-                  <div className="text-center py-12">
-                    <h2 className="text-2xl font-bold text-gray-900 mb-4">Wellness Passport</h2>
-                    <p className="text-gray-600">Your digital wellness journey documentation</p>
-                  </div>
+                  <WellnessPassport />
                 </Layout>
               </ProtectedRoute>
             }
@@ -29,6 +29,7 @@ import { Input } from '../ui/Input'
 import { useAuth } from '../../hooks/useAuth'
 import { supabase } from '../../lib/supabase'
 import { formatSADate, generateClientCode } from '../../lib/utils'
+import { SA_PROVINCES } from '../../lib/saAddress'
 
 // Enhanced schema for editing comprehensive onboarding data
 const editOnboardingSchema = z.object({
@@ -155,11 +156,6 @@ interface EnhancedClientOnboardingData {
   updated_at: string
 }
 
-const provinces = [
-  'Eastern Cape', 'Free State', 'Gauteng', 'KwaZulu-Natal', 
-  'Limpopo', 'Mpumalanga', 'Northern Cape', 'North West', 'Western Cape'
-]
-
 const transformationReasonOptions = [
   'Career & Education',
   'Financial Wellness',
@@ -880,7 +876,7 @@ export function ClientOnboardingManager() {
                           {...register('province')}
                         >
                           <option value="">Select province</option>
-                          {provinces.map((province) => (
+                          {SA_PROVINCES.map((province) => (
                             <option key={province} value={province}>{province}</option>
                           ))}
                         </select>
@@ -0,0 +1,101 @@
+import { useState } from 'react'
+import {
+  ResponsiveContainer,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend
+} from 'recharts'
+import { Card, CardHeader, CardContent } from '../ui/Card'
+import {
+  AcquisitionRow,
+  AnalyticsRange,
+  AnalyticsService,
+  ACQUISITION_SOURCE_LABELS,
+  CHART_COLOURS
+} from '../../lib/analytics'
+
+interface AcquisitionChartProps {
+  rows: AcquisitionRow[]
+  range: AnalyticsRange
+}
+
+type Breakdown = 'source' | 'treatment_centre'
+
+export function AcquisitionChart({ rows, range }: AcquisitionChartProps) {
+  const [breakdown, setBreakdown] = useState<Breakdown>('source')
+
+  const labelOf = (row: AcquisitionRow) =>
+    breakdown === 'source' ? ACQUISITION_SOURCE_LABELS[row.source] || row.source : row.treatment_centre
+  const { series, data } = AnalyticsService.pivot(rows, range, labelOf, row => row.clients)
+  const totals = AnalyticsService.totals(rows, labelOf, row => row.clients)
+  const total = totals.reduce((sum, entry) => sum + entry.value, 0)
+
+  return (
+    <Card hover={false}>
+      <CardHeader
+        title="Client Acquisition"
+        description={`${total} new client${total === 1 ? '' : 's'} in the period`}
+        action={
+          <select
+            value={breakdown}
+            onChange={(e) => setBreakdown(e.target.value as Breakdown)}
+            className="wellness-input"
+          >
+            <option value="source">By referral source</option>
+            <option value="treatment_centre">By treatment centre</option>
+          </select>
+        }
+      />
+      <CardContent>
+        {total === 0 ? (
+          <p className="text-sm text-gray-500 py-12 text-center">No new clients registered in this period.</p>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2 h-72">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={data} margin={{ top: 10, right: 10, bottom: 0, left: -20 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" />
+                  <XAxis dataKey="label" tick={{ fontSize: 12, fill: '#6B7280' }} />
+                  <YAxis allowDecimals={false} tick={{ fontSize: 12, fill: '#6B7280' }} />
+                  <Tooltip />
+                  <Legend wrapperStyle={{ fontSize: 12 }} />
+                  {series.map((name, index) => (
+                    <Bar key={name} dataKey={name} stackId="clients" fill={CHART_COLOURS[index % CHART_COLOURS.length]} />
+                  ))}
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="space-y-3">
+              {totals.map(entry => (
+                <div key={entry.name}>
+                  <div className="flex justify-between text-sm mb-1">
+                    <span className="flex items-center space-x-2 text-gray-700">
+                      <span className="w-2 h-2 rounded-full" style={{ backgroundColor: CHART_COLOURS[series.indexOf(entry.name) % CHART_COLOURS.length] }} />
+                      <span>{entry.name}</span>
+                    </span>
+                    <span className="font-medium text-gray-900">
+                      {entry.value} ({AnalyticsService.percentage(entry.value, total)}%)
+                    </span>
+                  </div>
+                  <div className="h-1.5 bg-gray-100 rounded-full">
+                    <div
+                      className="h-1.5 rounded-full"
+                      style={{
+                        width: `${AnalyticsService.percentage(entry.value, totals[0].value)}%`,
+                        backgroundColor: CHART_COLOURS[series.indexOf(entry.name) % CHART_COLOURS.length]
+                      }}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,90 @@
+import { Card, CardHeader, CardContent } from '../ui/Card'
+import { AnalyticsService, UtilisationRow } from '../../lib/analytics'
+import { BookingService, StaffMember } from '../../lib/bookings'
+
+interface BookingUtilisationProps {
+  rows: UtilisationRow[]
+  practitioners: StaffMember[]
+}
+
+const formatHours = (minutes: number) => `${Math.round((minutes / 60) * 10) / 10}h`
+
+export function BookingUtilisation({ rows, practitioners }: BookingUtilisationProps) {
+  const sorted = [...rows].sort((a, b) => b.booked_minutes - a.booked_minutes)
+  const available = rows.reduce((sum, row) => sum + row.available_minutes, 0)
+  const booked = rows.reduce((sum, row) => sum + row.booked_minutes, 0)
+
+  const utilisationColour = (value: number) => {
+    if (value >= 75) return 'bg-wellness-sage-500'
+    if (value >= 40) return 'bg-amber-400'
+    return 'bg-red-400'
+  }
+
+  return (
+    <Card hover={false}>
+      <CardHeader
+        title="Booking Utilisation"
+        description={available
+          ? `${AnalyticsService.percentage(booked, available)}% of available practitioner time booked`
+          : 'Booked time against weekly availability'}
+      />
+      <CardContent>
+        {sorted.length === 0 ? (
+          <p className="text-sm text-gray-500 py-12 text-center">No availability or bookings in this period.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+                  <th className="py-2 pr-4 font-medium">Practitioner</th>
+                  <th className="py-2 pr-4 font-medium">Booked / Available</th>
+                  <th className="py-2 pr-4 font-medium w-48">Utilisation</th>
+                  <th className="py-2 pr-4 font-medium text-right">Bookings</th>
+                  <th className="py-2 pr-4 font-medium text-right">Cancelled</th>
+                  <th className="py-2 font-medium text-right">No-shows</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {sorted.map(row => {
+                  const utilisation = AnalyticsService.percentage(row.booked_minutes, row.available_minutes)
+                  return (
+                    <tr key={row.staff_id}>
+                      <td className="py-3 pr-4 font-medium text-gray-900">
+                        {BookingService.staffName(practitioners, row.staff_id)}
+                      </td>
+                      <td className="py-3 pr-4 text-gray-600">
+                        {formatHours(row.booked_minutes)} / {formatHours(row.available_minutes)}
+                      </td>
+                      <td className="py-3 pr-4">
+                        {row.available_minutes > 0 ? (
+                          <div className="flex items-center space-x-2">
+                            <div className="flex-1 h-2 bg-gray-100 rounded-full">
+                              <div
+                                className={`h-2 rounded-full ${utilisationColour(utilisation)}`}
+                                style={{ width: `${Math.min(utilisation, 100)}%` }}
+                              />
+                            </div>
+                            <span className="text-gray-900 w-12 text-right">{utilisation}%</span>
+                          </div>
+                        ) : (
+                          <span className="text-xs text-gray-500">No availability set</span>
+                        )}
+                      </td>
+                      <td className="py-3 pr-4 text-right text-gray-900">{row.bookings}</td>
+                      <td className="py-3 pr-4 text-right text-gray-600">
+                        {row.cancelled} ({AnalyticsService.percentage(row.cancelled, row.bookings)}%)
+                      </td>
+                      <td className="py-3 text-right text-gray-600">
+                        {row.no_show} ({AnalyticsService.percentage(row.no_show, row.bookings)}%)
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
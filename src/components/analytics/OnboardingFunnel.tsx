@@ -0,0 +1,68 @@
+import { Card, CardHeader, CardContent } from '../ui/Card'
+import { AnalyticsService, FunnelRow, ONBOARDING_STEP_LABELS } from '../../lib/analytics'
+
+interface OnboardingFunnelProps {
+  rows: FunnelRow[]
+}
+
+export function OnboardingFunnel({ rows }: OnboardingFunnelProps) {
+  const registered = rows.find(row => row.step === 0)?.clients || 0
+  const completed = rows.find(row => row.step === ONBOARDING_STEP_LABELS.length - 1)?.clients || 0
+
+  // Biggest drop between consecutive steps, where most clients give up
+  const dropOffs = rows.slice(1).map((row, index) => ({ step: row.step, lost: rows[index].clients - row.clients }))
+  const worst = dropOffs.reduce<{ step: number; lost: number } | null>(
+    (max, entry) => entry.lost > 0 && (!max || entry.lost > max.lost) ? entry : max,
+    null
+  )
+
+  return (
+    <Card hover={false}>
+      <CardHeader
+        title="Onboarding Funnel"
+        description={`${AnalyticsService.percentage(completed, registered)}% of new clients completed onboarding`}
+      />
+      <CardContent>
+        {registered === 0 ? (
+          <p className="text-sm text-gray-500 py-12 text-center">No clients registered in this period.</p>
+        ) : (
+          <div className="space-y-3">
+            {rows.map((row, index) => {
+              const previous = index > 0 ? rows[index - 1].clients : row.clients
+              const lost = previous - row.clients
+              return (
+                <div key={row.step}>
+                  <div className="flex justify-between text-sm mb-1">
+                    <span className="text-gray-700">
+                      {row.step > 0 && <span className="text-gray-400 mr-2">{row.step}.</span>}
+                      {ONBOARDING_STEP_LABELS[row.step]}
+                    </span>
+                    <span className="text-gray-900">
+                      <span className="font-medium">{row.clients}</span>
+                      {lost > 0 && (
+                        <span className={`ml-2 text-xs ${worst?.step === row.step ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+                          -{AnalyticsService.percentage(lost, previous)}%
+                        </span>
+                      )}
+                    </span>
+                  </div>
+                  <div className="h-3 bg-gray-100 rounded-full">
+                    <div
+                      className="h-3 rounded-full bg-gradient-to-r from-wellness-sage-500 to-wellness-eucalyptus-500"
+                      style={{ width: `${AnalyticsService.percentage(row.clients, registered)}%` }}
+                    />
+                  </div>
+                </div>
+              )
+            })}
+            {worst && (
+              <p className="text-xs text-gray-500 pt-2">
+                Most clients drop off at {ONBOARDING_STEP_LABELS[worst.step]} ({worst.lost} client{worst.lost === 1 ? '' : 's'}).
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,71 @@
+import { format, parseISO } from 'date-fns'
+import {
+  ResponsiveContainer,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend
+} from 'recharts'
+import { Card, CardHeader, CardContent } from '../ui/Card'
+import { RevenueRow, CHART_COLOURS } from '../../lib/analytics'
+import { formatZAR } from '../../lib/utils'
+
+interface RevenueChartProps {
+  rows: RevenueRow[]
+}
+
+export function RevenueChart({ rows }: RevenueChartProps) {
+  const data = rows.map(row => ({
+    label: format(parseISO(row.period), 'MMM yy'),
+    Invoiced: row.invoiced,
+    Collected: row.collected - row.refunded
+  }))
+
+  const sum = (key: keyof Omit<RevenueRow, 'period'>) => rows.reduce((total, row) => total + row[key], 0)
+  const invoiced = sum('invoiced')
+  const collected = sum('collected')
+  const refunded = sum('refunded')
+
+  const stats = [
+    { label: 'Invoiced', value: formatZAR(invoiced) },
+    { label: 'VAT', value: formatZAR(sum('vat')) },
+    { label: 'Collected', value: formatZAR(collected) },
+    { label: 'Refunded', value: formatZAR(refunded) }
+  ]
+
+  return (
+    <Card hover={false}>
+      <CardHeader title="Revenue" description="Invoiced versus collected (net of refunds) per month" />
+      <CardContent>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+          {stats.map(stat => (
+            <div key={stat.label} className="p-3 bg-gray-50 rounded-lg">
+              <p className="text-xs text-gray-500">{stat.label}</p>
+              <p className="text-lg font-bold text-gray-900">{stat.value}</p>
+            </div>
+          ))}
+        </div>
+        {invoiced === 0 && collected === 0 ? (
+          <p className="text-sm text-gray-500 py-12 text-center">No invoices or payments in this period.</p>
+        ) : (
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={data} margin={{ top: 10, right: 10, bottom: 0, left: 10 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" />
+                <XAxis dataKey="label" tick={{ fontSize: 12, fill: '#6B7280' }} />
+                <YAxis tick={{ fontSize: 12, fill: '#6B7280' }} tickFormatter={(value: number) => `R${Math.round(value / 1000)}k`} />
+                <Tooltip formatter={(value: number) => formatZAR(value)} />
+                <Legend wrapperStyle={{ fontSize: 12 }} />
+                <Bar dataKey="Invoiced" fill={CHART_COLOURS[1]} />
+                <Bar dataKey="Collected" fill={CHART_COLOURS[0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
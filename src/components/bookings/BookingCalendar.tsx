@@ -0,0 +1,365 @@
+import { useState, useEffect, useCallback } from 'react'
+import {
+  addDays,
+  addWeeks,
+  format,
+  isSameDay,
+  isToday,
+  parseISO,
+  startOfDay,
+  startOfWeek
+} from 'date-fns'
+import {
+  Calendar,
+  ChevronLeft,
+  ChevronRight,
+  Plus,
+  AlertCircle,
+  CheckCircle
+} from 'lucide-react'
+import { Card, CardContent } from '../ui/Card'
+import { Button } from '../ui/Button'
+import { BookingForm } from './BookingForm'
+import { BookingDetails } from './BookingDetails'
+import {
+  Booking,
+  BookingService,
+  BookingSetup,
+  BOOKING_STATUS_COLORS,
+  StaffMember
+} from '../../lib/bookings'
+
+type CalendarView = 'day' | 'week'
+
+interface CalendarColumn {
+  key: string
+  label: string
+  day: Date
+  staffId?: string
+}
+
+// Visible hours; bookings outside them are clipped
+const START_HOUR = 6
+const END_HOUR = 20
+const HOUR_HEIGHT = 64
+
+const minutesFromStart = (date: Date) => (date.getHours() - START_HOUR) * 60 + date.getMinutes()
+
+const getRange = (view: CalendarView, date: Date) => {
+  const start = view === 'day' ? date : startOfWeek(date, { weekStartsOn: 1 })
+  return { start, end: addDays(start, view === 'day' ? 1 : 7) }
+}
+
+export function BookingCalendar() {
+  const [view, setView] = useState<CalendarView>('week')
+  const [date, setDate] = useState(startOfDay(new Date()))
+  const [staffFilter, setStaffFilter] = useState('')
+  const [showCancelled, setShowCancelled] = useState(false)
+  const [setup, setSetup] = useState<BookingSetup | null>(null)
+  const [practitioners, setPractitioners] = useState<StaffMember[]>([])
+  const [bookings, setBookings] = useState<Booking[]>([])
+  const [loading, setLoading] = useState(true)
+  const [selectedBooking, setSelectedBooking] = useState<Booking | null>(null)
+  const [formBooking, setFormBooking] = useState<Booking | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  const { start: rangeStart, end: rangeEnd } = getRange(view, date)
+
+  useEffect(() => {
+    const loadSetup = async () => {
+      try {
+        const [bookingSetup, staff] = await Promise.all([
+          BookingService.fetchSetup(),
+          BookingService.fetchPractitioners()
+        ])
+        setSetup(bookingSetup)
+        setPractitioners(staff)
+      } catch (error) {
+        console.error('Error loading booking setup:', error)
+        setError('Error loading services and availability. Please try again.')
+      }
+    }
+
+    loadSetup()
+  }, [])
+
+  const fetchBookings = useCallback(async () => {
+    try {
+      setLoading(true)
+      const range = getRange(view, date)
+      setBookings(await BookingService.fetchBookings(range.start, range.end))
+    } catch (error) {
+      console.error('Error fetching bookings:', error)
+      setError('Error loading bookings. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }, [view, date])
+
+  useEffect(() => {
+    fetchBookings()
+  }, [fetchBookings])
+
+  useEffect(() => {
+    if (error || success) {
+      const timer = setTimeout(() => {
+        setError(null)
+        setSuccess(null)
+      }, 5000)
+      return () => clearTimeout(timer)
+    }
+  }, [error, success])
+
+  const handleSaved = (message: string) => {
+    setSuccess(message)
+    setSelectedBooking(null)
+    setFormBooking(null)
+    setShowForm(false)
+    fetchBookings()
+  }
+
+  const move = (direction: number) => {
+    setDate(current => view === 'day' ? addDays(current, direction) : addWeeks(current, direction))
+  }
+
+  const visibleBookings = bookings.filter(booking =>
+    (showCancelled || booking.status !== 'cancelled') &&
+    (!staffFilter || booking.staff_id === staffFilter)
+  )
+
+  // Day view has a column per practitioner; week view a column per day
+  const columns: CalendarColumn[] = view === 'day'
+    ? practitioners
+      .filter(member => staffFilter ? member.id === staffFilter : (
+        setup?.availability.some(window => window.staff_id === member.id && window.weekday === date.getDay()) ||
+        visibleBookings.some(booking => booking.staff_id === member.id)
+      ))
+      .map(member => ({ key: member.id, label: BookingService.staffName(practitioners, member.id), day: date, staffId: member.id }))
+      .concat(visibleBookings.some(booking => !booking.staff_id) ? [{ key: 'unassigned', label: 'Unassigned', day: date, staffId: '' }] : [])
+    : Array.from({ length: 7 }, (_, index) => {
+      const day = addDays(rangeStart, index)
+      return { key: day.toISOString(), label: format(day, 'EEE d MMM'), day, staffId: staffFilter || undefined }
+    })
+
+  const columnBookings = (column: CalendarColumn) => visibleBookings.filter(booking =>
+    isSameDay(parseISO(booking.appointment_date), column.day) &&
+    (column.staffId === undefined || (booking.staff_id || '') === column.staffId)
+  )
+
+  const columnAvailability = (column: CalendarColumn) => column.staffId
+    ? (setup?.availability || []).filter(window => window.staff_id === column.staffId && window.weekday === column.day.getDay())
+    : []
+
+  const timeToMinutes = (time: string) => {
+    const [hours, minutes] = time.split(':').map(Number)
+    return (hours - START_HOUR) * 60 + (minutes || 0)
+  }
+
+  const hours = Array.from({ length: END_HOUR - START_HOUR }, (_, index) => START_HOUR + index)
+  const gridHeight = (END_HOUR - START_HOUR) * HOUR_HEIGHT
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Bookings</h1>
+          <p className="text-gray-600 mt-1">Practitioner calendars, rooms and appointments</p>
+        </div>
+        <Button
+          variant="primary"
+          icon={Plus}
+          onClick={() => setShowForm(true)}
+          disabled={!setup}
+        >
+          New Booking
+        </Button>
+      </div>
+
+      {/* Status Messages */}
+      {error && (
+        <Card variant="minimal" className="border-red-200 bg-red-50">
+          <CardContent>
+            <div className="flex items-center space-x-3">
+              <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {success && (
+        <Card variant="minimal" className="border-green-200 bg-green-50">
+          <CardContent>
+            <div className="flex items-center space-x-3">
+              <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0" />
+              <p className="text-sm text-green-700">{success}</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Toolbar */}
+      <Card hover={false}>
+        <CardContent>
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div className="flex items-center space-x-2">
+              <Button variant="outline" size="sm" icon={ChevronLeft} onClick={() => move(-1)} />
+              <Button variant="outline" size="sm" onClick={() => setDate(startOfDay(new Date()))}>
+                Today
+              </Button>
+              <Button variant="outline" size="sm" icon={ChevronRight} onClick={() => move(1)} />
+              <h2 className="text-lg font-semibold text-gray-900 ml-2">
+                {view === 'day'
+                  ? format(date, 'EEEE d MMMM yyyy')
+                  : `${format(rangeStart, 'd MMM')} - ${format(addDays(rangeEnd, -1), 'd MMM yyyy')}`}
+              </h2>
+            </div>
+
+            <div className="flex items-center space-x-3">
+              <select
+                value={staffFilter}
+                onChange={(e) => setStaffFilter(e.target.value)}
+                className="wellness-input"
+              >
+                <option value="">All practitioners</option>
+                {practitioners.map(member => (
+                  <option key={member.id} value={member.id}>{BookingService.staffName(practitioners, member.id)}</option>
+                ))}
+              </select>
+              <label className="flex items-center space-x-2 text-sm text-gray-600 whitespace-nowrap">
+                <input
+                  type="checkbox"
+                  checked={showCancelled}
+                  onChange={(e) => setShowCancelled(e.target.checked)}
+                  className="rounded border-gray-300 text-wellness-sage-600 focus:ring-wellness-sage-500"
+                />
+                <span>Show cancelled</span>
+              </label>
+              <div className="flex border border-gray-200 rounded-lg overflow-hidden">
+                {(['day', 'week'] as CalendarView[]).map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setView(option)}
+                    className={`px-3 py-2 text-sm font-medium capitalize ${
+                      view === option ? 'bg-wellness-sage-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    {option}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Calendar */}
+      <Card hover={false} padding="sm">
+        {loading && bookings.length === 0 ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="w-8 h-8 border-4 border-wellness-sage-200 border-t-wellness-sage-600 rounded-full animate-spin"></div>
+          </div>
+        ) : columns.length === 0 ? (
+          <div className="text-center py-12">
+            <Calendar className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No practitioners available</h3>
+            <p className="text-gray-600">Add staff availability under Settings to open the calendar for bookings.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <div className="flex min-w-max">
+              {/* Hour labels */}
+              <div className="w-14 flex-shrink-0 pt-10">
+                {hours.map(hour => (
+                  <div key={hour} className="text-xs text-gray-500 text-right pr-2" style={{ height: HOUR_HEIGHT }}>
+                    {`${hour.toString().padStart(2, '0')}:00`}
+                  </div>
+                ))}
+              </div>
+
+              {columns.map(column => (
+                <div key={column.key} className="flex-1 min-w-[140px] border-l border-gray-100">
+                  <div className={`h-10 flex items-center justify-center text-sm font-medium border-b border-gray-200 ${
+                    isToday(column.day) && view === 'week' ? 'text-wellness-sage-700' : 'text-gray-700'
+                  }`}>
+                    {column.label}
+                  </div>
+                  <div className={`relative ${column.staffId ? 'bg-gray-50' : 'bg-white'}`} style={{ height: gridHeight }}>
+                    {/* Working hours */}
+                    {columnAvailability(column).map(window => (
+                      <div
+                        key={window.id}
+                        className="absolute inset-x-0 bg-white"
+                        style={{
+                          top: Math.max(0, timeToMinutes(window.start_time)) * HOUR_HEIGHT / 60,
+                          height: (timeToMinutes(window.end_time) - Math.max(0, timeToMinutes(window.start_time))) * HOUR_HEIGHT / 60
+                        }}
+                      />
+                    ))}
+
+                    {hours.map(hour => (
+                      <div
+                        key={hour}
+                        className="absolute inset-x-0 border-t border-gray-100"
+                        style={{ top: (hour - START_HOUR) * HOUR_HEIGHT }}
+                      />
+                    ))}
+
+                    {columnBookings(column).map(booking => {
+                      const top = Math.max(0, minutesFromStart(parseISO(booking.appointment_date)))
+                      const bottom = Math.min(gridHeight * 60 / HOUR_HEIGHT, minutesFromStart(parseISO(booking.ends_at)))
+                      return (
+                        <button
+                          key={booking.id}
+                          onClick={() => setSelectedBooking(booking)}
+                          className={`absolute left-1 right-1 text-left px-2 py-1 rounded-md border text-xs overflow-hidden hover:shadow-md transition-shadow ${BOOKING_STATUS_COLORS[booking.status]}`}
+                          style={{ top: top * HOUR_HEIGHT / 60, height: Math.max(20, (bottom - top) * HOUR_HEIGHT / 60) }}
+                        >
+                          <p className="font-medium truncate">{BookingService.clientName(booking)}</p>
+                          <p className="truncate">{booking.service_type}</p>
+                          <p className="truncate opacity-75">{BookingService.formatTimeRange(booking)}</p>
+                        </button>
+                      )
+                    })}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </Card>
+
+      {selectedBooking && setup && (
+        <BookingDetails
+          booking={selectedBooking}
+          practitioners={practitioners}
+          rooms={setup.rooms}
+          onClose={() => setSelectedBooking(null)}
+          onReschedule={(booking) => {
+            setSelectedBooking(null)
+            setFormBooking(booking)
+          }}
+          onSaved={handleSaved}
+        />
+      )}
+
+      {(showForm || formBooking) && setup && (
+        <BookingForm
+          setup={setup}
+          isStaff
+          practitioners={practitioners}
+          booking={formBooking || undefined}
+          initialDate={formBooking ? undefined : date}
+          onClose={() => {
+            setShowForm(false)
+            setFormBooking(null)
+          }}
+          onSaved={handleSaved}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,251 @@
+import { useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import { X, Calendar, CheckCircle, UserX, XCircle, Save, AlertCircle, Receipt } from 'lucide-react'
+import { Card, CardHeader, CardContent } from '../ui/Card'
+import { Button } from '../ui/Button'
+import { InvoiceForm } from '../invoices/InvoiceForm'
+import {
+  Booking,
+  BookingService,
+  BookingStatus,
+  BOOKING_STATUS_COLORS,
+  BOOKING_STATUS_LABELS,
+  StaffMember,
+  TreatmentRoom
+} from '../../lib/bookings'
+import { InvoiceService, InvoiceSettings } from '../../lib/invoicing'
+
+interface BookingDetailsProps {
+  booking: Booking
+  practitioners: StaffMember[]
+  rooms: TreatmentRoom[]
+  onClose: () => void
+  onReschedule: (booking: Booking) => void
+  onSaved: (message: string) => void
+}
+
+export function BookingDetails({ booking, practitioners, rooms, onClose, onReschedule, onSaved }: BookingDetailsProps) {
+  const [notes, setNotes] = useState(booking.notes || '')
+  const [cancellationReason, setCancellationReason] = useState('')
+  const [confirmingCancel, setConfirmingCancel] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [invoiceSettings, setInvoiceSettings] = useState<InvoiceSettings | null>(null)
+  const [invoicing, setInvoicing] = useState(false)
+
+  const room = rooms.find(candidate => candidate.id === booking.room_id)
+
+  const changeStatus = async (status: BookingStatus) => {
+    try {
+      setSaving(true)
+      setError(null)
+      await BookingService.updateStatus(booking, status, cancellationReason)
+      onSaved(`Booking marked as ${BOOKING_STATUS_LABELS[status].toLowerCase()}.`)
+    } catch (error) {
+      console.error('Error updating booking status:', error)
+      setError(BookingService.describeError(error))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const saveNotes = async () => {
+    try {
+      setSaving(true)
+      setError(null)
+      await BookingService.updateNotes(booking.id, notes)
+      onSaved('Practitioner notes saved.')
+    } catch (error) {
+      console.error('Error saving booking notes:', error)
+      setError(BookingService.describeError(error))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const startInvoice = async () => {
+    try {
+      setError(null)
+      const existing = await InvoiceService.findForBooking(booking.id)
+      if (existing) {
+        setError(`This booking is already invoiced on ${existing.invoice_number}.`)
+        return
+      }
+      setInvoiceSettings(await InvoiceService.fetchSettings())
+      setInvoicing(true)
+    } catch (error) {
+      console.error('Error preparing invoice:', error)
+      setError(InvoiceService.describeError(error))
+    }
+  }
+
+  const canChange = (status: BookingStatus) => !BookingService.transitionError(booking, status)
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <Card className="w-full max-w-lg max-h-[90vh] overflow-y-auto" hover={false}>
+        <CardHeader
+          title={booking.service_type}
+          description={`${format(parseISO(booking.appointment_date), 'EEEE d MMMM yyyy')} • ${BookingService.formatTimeRange(booking)}`}
+          action={
+            <Button
+              variant="ghost"
+              size="sm"
+              icon={X}
+              onClick={onClose}
+            />
+          }
+        />
+        <CardContent>
+          <div className="space-y-6">
+            {error && (
+              <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg">
+                <AlertCircle className="w-4 h-4 text-red-600 flex-shrink-0" />
+                <p className="text-sm text-red-700">{error}</p>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4 text-sm">
+              <div>
+                <p className="text-gray-500">Client</p>
+                <p className="font-medium text-gray-900">{BookingService.clientName(booking)}</p>
+                {booking.client?.client_code && <p className="text-xs text-gray-500">{booking.client.client_code}</p>}
+              </div>
+              <div>
+                <p className="text-gray-500">Status</p>
+                <span className={`inline-block px-2 py-0.5 text-xs font-medium rounded-full border ${BOOKING_STATUS_COLORS[booking.status]}`}>
+                  {BOOKING_STATUS_LABELS[booking.status]}
+                </span>
+              </div>
+              <div>
+                <p className="text-gray-500">Practitioner</p>
+                <p className="font-medium text-gray-900">{BookingService.staffName(practitioners, booking.staff_id)}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">Room</p>
+                <p className="font-medium text-gray-900">{room ? `${room.name} (${room.treatment_centre})` : 'Not assigned'}</p>
+              </div>
+            </div>
+
+            {booking.client_notes && (
+              <div className="p-3 bg-gray-50 rounded-lg">
+                <p className="text-xs font-medium text-gray-700 mb-1">Client notes</p>
+                <p className="text-sm text-gray-700 whitespace-pre-line">{booking.client_notes}</p>
+              </div>
+            )}
+
+            {booking.status === 'cancelled' && (
+              <div className="p-3 bg-gray-50 rounded-lg text-sm text-gray-700">
+                Cancelled{booking.cancelled_at && ` on ${format(parseISO(booking.cancelled_at), 'd MMM yyyy, HH:mm')}`}
+                {booking.cancellation_reason && `: ${booking.cancellation_reason}`}
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Practitioner Notes</label>
+              <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={4}
+                className="wellness-input"
+              />
+              <div className="flex justify-end mt-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  icon={Save}
+                  onClick={saveNotes}
+                  disabled={saving || notes === (booking.notes || '')}
+                >
+                  Save Notes
+                </Button>
+              </div>
+            </div>
+
+            {confirmingCancel ? (
+              <div className="space-y-3 p-4 border border-red-200 bg-red-50 rounded-lg">
+                <label className="block text-sm font-medium text-gray-700">Reason for cancellation (optional)</label>
+                <input
+                  value={cancellationReason}
+                  onChange={(e) => setCancellationReason(e.target.value)}
+                  className="wellness-input"
+                />
+                <div className="flex justify-end space-x-2">
+                  <Button variant="outline" size="sm" onClick={() => setConfirmingCancel(false)}>
+                    Keep Booking
+                  </Button>
+                  <Button variant="danger" size="sm" onClick={() => changeStatus('cancelled')} loading={saving}>
+                    Cancel Booking
+                  </Button>
+                </div>
+              </div>
+            ) : booking.status === 'completed' ? (
+              <div className="flex justify-end pt-6 border-t">
+                <Button
+                  variant="primary"
+                  size="sm"
+                  icon={Receipt}
+                  onClick={startInvoice}
+                >
+                  Create Invoice
+                </Button>
+              </div>
+            ) : booking.status === 'scheduled' && (
+              <div className="flex flex-wrap justify-end gap-2 pt-6 border-t">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  icon={Calendar}
+                  onClick={() => onReschedule(booking)}
+                >
+                  Reschedule
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  icon={XCircle}
+                  onClick={() => setConfirmingCancel(true)}
+                  className="text-red-600 hover:text-red-700"
+                >
+                  Cancel
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  icon={UserX}
+                  onClick={() => changeStatus('no_show')}
+                  disabled={saving || !canChange('no_show')}
+                  title={BookingService.transitionError(booking, 'no_show') || undefined}
+                >
+                  No Show
+                </Button>
+                <Button
+                  variant="primary"
+                  size="sm"
+                  icon={CheckCircle}
+                  onClick={() => changeStatus('completed')}
+                  disabled={saving || !canChange('completed')}
+                  title={BookingService.transitionError(booking, 'completed') || undefined}
+                >
+                  Complete
+                </Button>
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {invoicing && (
+        <InvoiceForm
+          settings={invoiceSettings}
+          booking={booking}
+          onClose={() => setInvoicing(false)}
+          onSaved={(invoice) => {
+            setInvoicing(false)
+            onSaved(`Invoice ${invoice.invoice_number} issued.`)
+          }}
+        />
+      )}
+    </div>
+  )
+}
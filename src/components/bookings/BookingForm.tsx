@@ -0,0 +1,394 @@
+import { useState, useEffect } from 'react'
+import { addDays, format, parseISO, startOfDay } from 'date-fns'
+import { X, Search, Clock, AlertCircle, User } from 'lucide-react'
+import { Card, CardHeader, CardContent } from '../ui/Card'
+import { Button } from '../ui/Button'
+import { Input } from '../ui/Input'
+import {
+  Booking,
+  BookingService,
+  BookingSetup,
+  BookingSlot,
+  BusyTime,
+  ServiceType,
+  StaffMember
+} from '../../lib/bookings'
+import { ClientCandidate, ClientResolver } from '../../lib/clientResolver'
+import { formatZAR } from '../../lib/utils'
+
+interface BookingFormProps {
+  setup: BookingSetup
+  // Staff can book any client, any service and times outside availability
+  isStaff: boolean
+  practitioners?: StaffMember[]
+  // The signed-in client's clients.id when a client books for themselves
+  clientId?: string
+  // Set when rescheduling an existing booking
+  booking?: Booking
+  initialDate?: Date
+  onClose: () => void
+  onSaved: (message: string) => void
+}
+
+export function BookingForm({
+  setup,
+  isStaff,
+  practitioners = setup.staff,
+  clientId,
+  booking,
+  initialDate,
+  onClose,
+  onSaved
+}: BookingFormProps) {
+  const bookableServices = setup.services.filter(service => isStaff || service.client_bookable)
+
+  // Legacy bookings without a service type keep their own label and duration
+  const bookingService: ServiceType | undefined = booking
+    ? setup.services.find(service => service.id === booking.service_type_id) || {
+      id: '',
+      name: booking.service_type,
+      description: '',
+      duration_minutes: booking.duration_minutes,
+      price: null,
+      client_bookable: false,
+      is_active: true
+    }
+    : undefined
+
+  const [client, setClient] = useState<ClientCandidate | null>(null)
+  const [clientSearchTerm, setClientSearchTerm] = useState('')
+  const [clientSearchResults, setClientSearchResults] = useState<ClientCandidate[]>([])
+  const [serviceId, setServiceId] = useState(bookingService?.id || bookableServices[0]?.id || '')
+  const [staffId, setStaffId] = useState(booking?.staff_id || '')
+  const [day, setDay] = useState(format(initialDate || (booking ? parseISO(booking.appointment_date) : new Date()), 'yyyy-MM-dd'))
+  const [busy, setBusy] = useState<BusyTime[]>([])
+  const [loadingSlots, setLoadingSlots] = useState(false)
+  const [selectedSlot, setSelectedSlot] = useState<BookingSlot | null>(null)
+  const [customTime, setCustomTime] = useState(false)
+  const [time, setTime] = useState('09:00')
+  const [roomId, setRoomId] = useState(booking?.room_id || '')
+  const [notes, setNotes] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const service = booking ? bookingService : setup.services.find(candidate => candidate.id === serviceId)
+  const dayStart = startOfDay(parseISO(day))
+
+  useEffect(() => {
+    const loadBusyTimes = async () => {
+      try {
+        setLoadingSlots(true)
+        const start = startOfDay(parseISO(day))
+        setBusy(await BookingService.fetchBusyTimes(start, addDays(start, 1)))
+      } catch (error) {
+        console.error('Error loading busy times:', error)
+        setError('Error loading available times. Please try again.')
+      } finally {
+        setLoadingSlots(false)
+      }
+    }
+
+    setSelectedSlot(null)
+    loadBusyTimes()
+  }, [day])
+
+  const slots = service
+    ? BookingService.availableSlots({
+      day: dayStart,
+      service,
+      availability: setup.availability,
+      rooms: setup.rooms,
+      busy,
+      staffId: staffId || undefined,
+      ignoreBookingId: booking?.id
+    })
+    : []
+
+  // With "any practitioner" each start time is offered once
+  const visibleSlots = staffId ? slots : BookingService.uniqueStartTimes(slots)
+
+  const searchClients = async (term: string) => {
+    setClientSearchTerm(term)
+    try {
+      setClientSearchResults(await ClientResolver.search(term))
+    } catch (error) {
+      console.error('Error searching clients:', error)
+    }
+  }
+
+  const handleSave = async () => {
+    if (!service) {
+      setError('Please select a service.')
+      return
+    }
+
+    let slot: { start: Date; staff_id: string | null; room_id: string | null } | null = selectedSlot
+    if (customTime) {
+      const [hours, minutes] = time.split(':').map(Number)
+      const start = new Date(dayStart)
+      start.setHours(hours, minutes || 0, 0, 0)
+      slot = { start, staff_id: staffId || null, room_id: roomId || null }
+    }
+
+    if (!slot) {
+      setError('Please select a time.')
+      return
+    }
+
+    try {
+      setSaving(true)
+      setError(null)
+
+      if (booking) {
+        await BookingService.reschedule(booking.id, slot)
+        onSaved(`Booking moved to ${format(slot.start, 'EEEE d MMMM, HH:mm')}.`)
+      } else {
+        const bookingClientId = isStaff ? client?.id : clientId
+        if (!bookingClientId) {
+          setError('Please select a client.')
+          return
+        }
+
+        await BookingService.create({
+          client_id: bookingClientId,
+          service,
+          slot,
+          ...(isStaff ? { notes } : { client_notes: notes })
+        })
+        onSaved(`${service.name} booked for ${format(slot.start, 'EEEE d MMMM, HH:mm')}.`)
+      }
+    } catch (error) {
+      console.error('Error saving booking:', error)
+      setError(BookingService.describeError(error))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <Card className="w-full max-w-2xl max-h-[90vh] overflow-y-auto" hover={false}>
+        <CardHeader
+          title={booking ? 'Reschedule Booking' : 'New Booking'}
+          description={booking ? `${booking.service_type} • currently ${format(parseISO(booking.appointment_date), 'EEEE d MMMM, HH:mm')}` : 'Choose a service, day and time'}
+          action={
+            <Button
+              variant="ghost"
+              size="sm"
+              icon={X}
+              onClick={onClose}
+            />
+          }
+        />
+        <CardContent>
+          <div className="space-y-6">
+            {error && (
+              <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg">
+                <AlertCircle className="w-4 h-4 text-red-600 flex-shrink-0" />
+                <p className="text-sm text-red-700">{error}</p>
+              </div>
+            )}
+
+            {/* Client (staff only) */}
+            {isStaff && !booking && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Client</label>
+                {client ? (
+                  <div className="flex items-center justify-between p-3 bg-wellness-sage-50 border border-wellness-sage-200 rounded-lg">
+                    <div className="flex items-center space-x-3">
+                      <User className="w-5 h-5 text-wellness-sage-600" />
+                      <div>
+                        <p className="text-sm font-medium text-gray-900">{client.first_name} {client.last_name}</p>
+                        <p className="text-xs text-gray-600">{client.client_code} • {client.email}</p>
+                      </div>
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={() => setClient(null)}>
+                      Change
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    <Input
+                      placeholder="Search by name, email or client code..."
+                      icon={Search}
+                      value={clientSearchTerm}
+                      onChange={(e) => searchClients(e.target.value)}
+                    />
+                    {clientSearchResults.length > 0 && (
+                      <div className="border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-48 overflow-y-auto">
+                        {clientSearchResults.map(candidate => (
+                          <button
+                            key={candidate.id}
+                            onClick={() => setClient(candidate)}
+                            className="w-full text-left px-3 py-2 hover:bg-gray-50"
+                          >
+                            <p className="text-sm font-medium text-gray-900">{candidate.first_name} {candidate.last_name}</p>
+                            <p className="text-xs text-gray-600">{candidate.client_code} • {candidate.email}</p>
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {!booking && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Service</label>
+                  <select
+                    value={serviceId}
+                    onChange={(e) => {
+                      setServiceId(e.target.value)
+                      setSelectedSlot(null)
+                    }}
+                    className="wellness-input"
+                  >
+                    {bookableServices.map(option => (
+                      <option key={option.id} value={option.id}>
+                        {option.name} ({option.duration_minutes} min{option.price !== null ? `, ${formatZAR(option.price)}` : ''})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Practitioner</label>
+                <select
+                  value={staffId}
+                  onChange={(e) => {
+                    setStaffId(e.target.value)
+                    setSelectedSlot(null)
+                  }}
+                  className="wellness-input"
+                >
+                  <option value="">Any practitioner</option>
+                  {(customTime ? practitioners : setup.staff).map(member => (
+                    <option key={member.id} value={member.id}>
+                      {BookingService.staffName(practitioners, member.id)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <Input
+                label="Date"
+                type="date"
+                value={day}
+                min={isStaff ? undefined : format(new Date(), 'yyyy-MM-dd')}
+                onChange={(e) => e.target.value && setDay(e.target.value)}
+              />
+            </div>
+
+            {service?.description && (
+              <p className="text-sm text-gray-600">{service.description}</p>
+            )}
+
+            {/* Time */}
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-sm font-medium text-gray-700">Time</label>
+                {isStaff && (
+                  <label className="flex items-center space-x-2 text-sm text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={customTime}
+                      onChange={(e) => setCustomTime(e.target.checked)}
+                      className="rounded border-gray-300 text-wellness-sage-600 focus:ring-wellness-sage-500"
+                    />
+                    <span>Custom time outside availability</span>
+                  </label>
+                )}
+              </div>
+
+              {customTime ? (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <Input
+                    type="time"
+                    value={time}
+                    onChange={(e) => setTime(e.target.value)}
+                  />
+                  <select
+                    value={roomId}
+                    onChange={(e) => setRoomId(e.target.value)}
+                    className="wellness-input"
+                  >
+                    <option value="">No room</option>
+                    {setup.rooms.map(room => (
+                      <option key={room.id} value={room.id}>{room.treatment_centre} - {room.name}</option>
+                    ))}
+                  </select>
+                </div>
+              ) : loadingSlots ? (
+                <div className="flex items-center justify-center py-6">
+                  <div className="w-6 h-6 border-4 border-wellness-sage-200 border-t-wellness-sage-600 rounded-full animate-spin"></div>
+                </div>
+              ) : visibleSlots.length === 0 ? (
+                <div className="text-center py-6 bg-gray-50 rounded-lg">
+                  <Clock className="w-8 h-8 text-gray-400 mx-auto mb-2" />
+                  <p className="text-sm text-gray-600">No available times on this day. Please try another date.</p>
+                </div>
+              ) : (
+                <div className="grid grid-cols-3 md:grid-cols-5 gap-2">
+                  {visibleSlots.map(slot => {
+                    const selected = selectedSlot?.start.getTime() === slot.start.getTime() && selectedSlot?.staff_id === slot.staff_id
+                    return (
+                      <button
+                        key={`${slot.staff_id}-${slot.start.getTime()}`}
+                        onClick={() => setSelectedSlot(slot)}
+                        className={`px-3 py-2 text-sm rounded-lg border transition-colors ${
+                          selected
+                            ? 'bg-wellness-sage-600 border-wellness-sage-600 text-white'
+                            : 'bg-white border-gray-200 text-gray-700 hover:border-wellness-sage-300'
+                        }`}
+                      >
+                        {format(slot.start, 'HH:mm')}
+                      </button>
+                    )
+                  })}
+                </div>
+              )}
+
+              {selectedSlot && !customTime && (
+                <p className="text-sm text-gray-600 mt-2">
+                  {format(selectedSlot.start, 'HH:mm')} - {format(selectedSlot.end, 'HH:mm')} with {BookingService.staffName(practitioners, selectedSlot.staff_id)}
+                  {selectedSlot.room_id && ` • ${setup.rooms.find(room => room.id === selectedSlot.room_id)?.name}`}
+                </p>
+              )}
+            </div>
+
+            {!booking && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  {isStaff ? 'Practitioner Notes' : 'Notes for your practitioner'}
+                </label>
+                <textarea
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  rows={3}
+                  className="wellness-input"
+                />
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-3 pt-6 border-t">
+              <Button variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button
+                variant="primary"
+                onClick={handleSave}
+                loading={saving}
+                disabled={!customTime && !selectedSlot}
+              >
+                {booking ? 'Reschedule' : 'Book Appointment'}
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
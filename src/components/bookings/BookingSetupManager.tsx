@@ -0,0 +1,532 @@
+import { useState, useEffect } from 'react'
+import {
+  Plus,
+  Edit,
+  Trash2,
+  X,
+  Clock,
+  DoorOpen,
+  Briefcase,
+  AlertCircle,
+  CheckCircle
+} from 'lucide-react'
+import { Card, CardHeader, CardContent } from '../ui/Card'
+import { Button } from '../ui/Button'
+import { Input } from '../ui/Input'
+import {
+  BookingService,
+  BookingSetup,
+  BookingSetupTable,
+  ServiceType,
+  StaffAvailability,
+  StaffMember,
+  TreatmentRoom,
+  WEEKDAYS
+} from '../../lib/bookings'
+import { formatZAR } from '../../lib/utils'
+
+const treatmentCentres = [
+  'Pretoria - Life Arrow Silverwoods'
+]
+
+type Editing =
+  | { table: 'service_types'; item: Partial<ServiceType> }
+  | { table: 'treatment_rooms'; item: Partial<TreatmentRoom> }
+  | { table: 'staff_availability'; item: Partial<StaffAvailability> }
+
+const tableLabels: Record<BookingSetupTable, string> = {
+  service_types: 'service',
+  treatment_rooms: 'room',
+  staff_availability: 'availability'
+}
+
+export function BookingSetupManager() {
+  const [setup, setSetup] = useState<BookingSetup | null>(null)
+  const [practitioners, setPractitioners] = useState<StaffMember[]>([])
+  const [loading, setLoading] = useState(true)
+  const [editing, setEditing] = useState<Editing | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchSetup()
+  }, [])
+
+  useEffect(() => {
+    if (error || success) {
+      const timer = setTimeout(() => {
+        setError(null)
+        setSuccess(null)
+      }, 5000)
+      return () => clearTimeout(timer)
+    }
+  }, [error, success])
+
+  const fetchSetup = async () => {
+    try {
+      setLoading(true)
+      const [bookingSetup, staff] = await Promise.all([
+        BookingService.fetchSetup(true),
+        BookingService.fetchPractitioners()
+      ])
+      setSetup(bookingSetup)
+      setPractitioners(staff)
+    } catch (error) {
+      console.error('Error loading booking setup:', error)
+      setError('Error loading booking setup. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const saveItem = async () => {
+    if (!editing) return
+
+    const { table, item } = editing
+    if (table === 'service_types' && !item.name?.trim()) {
+      setError('Service name is required.')
+      return
+    }
+    if (table === 'treatment_rooms' && !item.name?.trim()) {
+      setError('Room name is required.')
+      return
+    }
+    if (table === 'staff_availability' && (!item.staff_id || !item.start_time || !item.end_time || item.end_time <= item.start_time)) {
+      setError('Choose a practitioner and an end time after the start time.')
+      return
+    }
+
+    try {
+      setSaving(true)
+      await BookingService.saveSetupItem(table, item)
+      setEditing(null)
+      setSuccess(`The ${tableLabels[table]} was saved successfully!`)
+      await fetchSetup()
+    } catch (error) {
+      console.error('Error saving booking setup:', error)
+      setError(`Error saving the ${tableLabels[table]}. Please try again.`)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const removeItem = async (table: BookingSetupTable, id: string) => {
+    if (!confirm(`Are you sure you want to delete this ${tableLabels[table]}? Existing bookings are kept.`)) return
+
+    try {
+      await BookingService.removeSetupItem(table, id)
+      setSuccess(`The ${tableLabels[table]} was deleted.`)
+      await fetchSetup()
+    } catch (error) {
+      console.error('Error deleting booking setup:', error)
+      setError(`Error deleting the ${tableLabels[table]}. Please try again.`)
+    }
+  }
+
+  if (loading && !setup) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="w-8 h-8 border-4 border-wellness-sage-200 border-t-wellness-sage-600 rounded-full animate-spin"></div>
+      </div>
+    )
+  }
+
+  const services = setup?.services || []
+  const rooms = setup?.rooms || []
+  const availability = setup?.availability || []
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Booking Setup</h1>
+        <p className="text-gray-600 mt-1">Services, treatment rooms and practitioner working hours</p>
+      </div>
+
+      {/* Status Messages */}
+      {error && (
+        <Card variant="minimal" className="border-red-200 bg-red-50">
+          <CardContent>
+            <div className="flex items-center space-x-3">
+              <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {success && (
+        <Card variant="minimal" className="border-green-200 bg-green-50">
+          <CardContent>
+            <div className="flex items-center space-x-3">
+              <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0" />
+              <p className="text-sm text-green-700">{success}</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Services */}
+      <Card>
+        <CardHeader
+          title="Services"
+          description="What can be booked and how long it takes"
+          action={
+            <Button
+              variant="outline"
+              size="sm"
+              icon={Plus}
+              onClick={() => setEditing({
+                table: 'service_types',
+                item: { name: '', description: '', duration_minutes: 60, price: null, client_bookable: true, is_active: true }
+              })}
+            >
+              Add Service
+            </Button>
+          }
+        />
+        <CardContent>
+          {services.length === 0 ? (
+            <p className="text-sm text-gray-600">No services yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-3 px-4 font-medium text-gray-700">Service</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-700">Duration</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-700">Price</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-700">Online Booking</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-700">Status</th>
+                    <th className="py-3 px-4"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {services.map(service => (
+                    <tr key={service.id} className="border-b border-gray-100 hover:bg-gray-50">
+                      <td className="py-3 px-4">
+                        <p className="text-sm font-medium text-gray-900">{service.name}</p>
+                        {service.description && <p className="text-xs text-gray-500">{service.description}</p>}
+                      </td>
+                      <td className="py-3 px-4 text-sm text-gray-600">{service.duration_minutes} min</td>
+                      <td className="py-3 px-4 text-sm text-gray-600">{service.price !== null ? formatZAR(service.price) : '-'}</td>
+                      <td className="py-3 px-4 text-sm text-gray-600">{service.client_bookable ? 'Yes' : 'Staff only'}</td>
+                      <td className="py-3 px-4 text-sm text-gray-600">{service.is_active ? 'Active' : 'Inactive'}</td>
+                      <td className="py-3 px-4">
+                        <div className="flex items-center justify-end space-x-2">
+                          <Button variant="ghost" size="sm" icon={Edit} onClick={() => setEditing({ table: 'service_types', item: service })} />
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            icon={Trash2}
+                            onClick={() => removeItem('service_types', service.id)}
+                            className="text-red-600 hover:text-red-700"
+                          />
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Rooms */}
+      <Card>
+        <CardHeader
+          title="Treatment Rooms"
+          description="Rooms are assigned automatically when a slot is booked"
+          action={
+            <Button
+              variant="outline"
+              size="sm"
+              icon={Plus}
+              onClick={() => setEditing({
+                table: 'treatment_rooms',
+                item: { name: '', treatment_centre: treatmentCentres[0], is_active: true }
+              })}
+            >
+              Add Room
+            </Button>
+          }
+        />
+        <CardContent>
+          {rooms.length === 0 ? (
+            <p className="text-sm text-gray-600">No rooms yet. Bookings are made without a room.</p>
+          ) : (
+            <div className="space-y-2">
+              {rooms.map(room => (
+                <div key={room.id} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg">
+                  <div className="flex items-center space-x-3">
+                    <DoorOpen className="w-5 h-5 text-wellness-sage-600" />
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">{room.name}</p>
+                      <p className="text-xs text-gray-500">{room.treatment_centre}{!room.is_active && ' • Inactive'}</p>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Button variant="ghost" size="sm" icon={Edit} onClick={() => setEditing({ table: 'treatment_rooms', item: room })} />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      icon={Trash2}
+                      onClick={() => removeItem('treatment_rooms', room.id)}
+                      className="text-red-600 hover:text-red-700"
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Availability */}
+      <Card>
+        <CardHeader
+          title="Practitioner Availability"
+          description="Weekly working hours clients can book into (South African time)"
+          action={
+            <Button
+              variant="outline"
+              size="sm"
+              icon={Plus}
+              onClick={() => setEditing({
+                table: 'staff_availability',
+                item: {
+                  staff_id: practitioners[0]?.id || '',
+                  weekday: 1,
+                  start_time: '08:00',
+                  end_time: '17:00',
+                  treatment_centre: treatmentCentres[0],
+                  is_active: true
+                }
+              })}
+            >
+              Add Hours
+            </Button>
+          }
+        />
+        <CardContent>
+          {availability.length === 0 ? (
+            <p className="text-sm text-gray-600">No working hours yet. Clients can't book until availability is added.</p>
+          ) : (
+            <div className="space-y-4">
+              {practitioners
+                .filter(member => availability.some(window => window.staff_id === member.id))
+                .map(member => (
+                  <div key={member.id}>
+                    <div className="flex items-center space-x-2 mb-2">
+                      <Briefcase className="w-4 h-4 text-gray-500" />
+                      <h4 className="text-sm font-medium text-gray-900">{BookingService.staffName(practitioners, member.id)}</h4>
+                    </div>
+                    <div className="space-y-2">
+                      {availability
+                        .filter(window => window.staff_id === member.id)
+                        .map(window => (
+                          <div key={window.id} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg">
+                            <div className="flex items-center space-x-3">
+                              <Clock className="w-5 h-5 text-wellness-eucalyptus-600" />
+                              <div>
+                                <p className="text-sm font-medium text-gray-900">
+                                  {WEEKDAYS[window.weekday]} {window.start_time.slice(0, 5)} - {window.end_time.slice(0, 5)}
+                                </p>
+                                <p className="text-xs text-gray-500">{window.treatment_centre}{!window.is_active && ' • Inactive'}</p>
+                              </div>
+                            </div>
+                            <div className="flex items-center space-x-2">
+                              <Button variant="ghost" size="sm" icon={Edit} onClick={() => setEditing({ table: 'staff_availability', item: window })} />
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                icon={Trash2}
+                                onClick={() => removeItem('staff_availability', window.id)}
+                                className="text-red-600 hover:text-red-700"
+                              />
+                            </div>
+                          </div>
+                        ))}
+                    </div>
+                  </div>
+                ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Edit Modal */}
+      {editing && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <Card className="w-full max-w-lg" hover={false}>
+            <CardHeader
+              title={`${editing.item.id ? 'Edit' : 'Add'} ${tableLabels[editing.table]}`}
+              action={
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  icon={X}
+                  onClick={() => setEditing(null)}
+                />
+              }
+            />
+            <CardContent>
+              <div className="space-y-4">
+                {editing.table === 'service_types' && (
+                  <>
+                    <Input
+                      label="Name"
+                      value={editing.item.name || ''}
+                      onChange={(e) => setEditing({ ...editing, item: { ...editing.item, name: e.target.value } })}
+                    />
+                    <div className="grid grid-cols-2 gap-4">
+                      <Input
+                        label="Duration (minutes)"
+                        type="number"
+                        min={5}
+                        step={5}
+                        value={editing.item.duration_minutes ?? 60}
+                        onChange={(e) => setEditing({ ...editing, item: { ...editing.item, duration_minutes: parseInt(e.target.value) || 0 } })}
+                      />
+                      <Input
+                        label="Price (ZAR, incl. VAT)"
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        value={editing.item.price ?? ''}
+                        onChange={(e) => setEditing({ ...editing, item: { ...editing.item, price: e.target.value === '' ? null : parseFloat(e.target.value) } })}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Description</label>
+                      <textarea
+                        value={editing.item.description || ''}
+                        onChange={(e) => setEditing({ ...editing, item: { ...editing.item, description: e.target.value } })}
+                        rows={2}
+                        className="wellness-input"
+                      />
+                    </div>
+                    <label className="flex items-center space-x-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={!!editing.item.client_bookable}
+                        onChange={(e) => setEditing({ ...editing, item: { ...editing.item, client_bookable: e.target.checked } })}
+                        className="rounded border-gray-300 text-wellness-sage-600 focus:ring-wellness-sage-500"
+                      />
+                      <span>Clients can book this service online</span>
+                    </label>
+                  </>
+                )}
+
+                {editing.table === 'treatment_rooms' && (
+                  <>
+                    <Input
+                      label="Room Name"
+                      value={editing.item.name || ''}
+                      onChange={(e) => setEditing({ ...editing, item: { ...editing.item, name: e.target.value } })}
+                    />
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Treatment Centre</label>
+                      <select
+                        value={editing.item.treatment_centre}
+                        onChange={(e) => setEditing({ ...editing, item: { ...editing.item, treatment_centre: e.target.value } })}
+                        className="wellness-input"
+                      >
+                        {treatmentCentres.map(centre => (
+                          <option key={centre} value={centre}>{centre}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </>
+                )}
+
+                {editing.table === 'staff_availability' && (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Practitioner</label>
+                      <select
+                        value={editing.item.staff_id}
+                        onChange={(e) => setEditing({ ...editing, item: { ...editing.item, staff_id: e.target.value } })}
+                        className="wellness-input"
+                      >
+                        {practitioners.map(member => (
+                          <option key={member.id} value={member.id}>{BookingService.staffName(practitioners, member.id)}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="grid grid-cols-3 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">Day</label>
+                        <select
+                          value={editing.item.weekday}
+                          onChange={(e) => setEditing({ ...editing, item: { ...editing.item, weekday: parseInt(e.target.value) } })}
+                          className="wellness-input"
+                        >
+                          {WEEKDAYS.map((day, index) => (
+                            <option key={day} value={index}>{day}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <Input
+                        label="From"
+                        type="time"
+                        value={editing.item.start_time?.slice(0, 5) || ''}
+                        onChange={(e) => setEditing({ ...editing, item: { ...editing.item, start_time: e.target.value } })}
+                      />
+                      <Input
+                        label="To"
+                        type="time"
+                        value={editing.item.end_time?.slice(0, 5) || ''}
+                        onChange={(e) => setEditing({ ...editing, item: { ...editing.item, end_time: e.target.value } })}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Treatment Centre</label>
+                      <select
+                        value={editing.item.treatment_centre}
+                        onChange={(e) => setEditing({ ...editing, item: { ...editing.item, treatment_centre: e.target.value } })}
+                        className="wellness-input"
+                      >
+                        {treatmentCentres.map(centre => (
+                          <option key={centre} value={centre}>{centre}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </>
+                )}
+
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={editing.item.is_active !== false}
+                    onChange={(e) => setEditing({ ...editing, item: { ...editing.item, is_active: e.target.checked } } as Editing)}
+                    className="rounded border-gray-300 text-wellness-sage-600 focus:ring-wellness-sage-500"
+                  />
+                  <span>Active</span>
+                </label>
+
+                <div className="flex justify-end space-x-3 pt-6 border-t">
+                  <Button
+                    variant="outline"
+                    onClick={() => setEditing(null)}
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    variant="primary"
+                    onClick={saveItem}
+                    loading={saving}
+                  >
+                    Save
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,324 @@
+import { useState, useEffect, useCallback } from 'react'
+import { addYears, format, isBefore, parseISO } from 'date-fns'
+import {
+  Calendar,
+  Clock,
+  Plus,
+  MapPin,
+  User,
+  XCircle,
+  AlertCircle,
+  CheckCircle
+} from 'lucide-react'
+import { Card, CardHeader, CardContent } from '../ui/Card'
+import { Button } from '../ui/Button'
+import { BookingForm } from './BookingForm'
+import {
+  Booking,
+  BookingService,
+  BookingSetup,
+  BOOKING_STATUS_COLORS,
+  BOOKING_STATUS_LABELS
+} from '../../lib/bookings'
+import { useAuth } from '../../hooks/useAuth'
+import { supabase } from '../../lib/supabase'
+
+// How far back the appointment history goes
+const HISTORY_YEARS = 2
+
+export function ClientAppointments() {
+  const [clientId, setClientId] = useState<string | null>(null)
+  const [setup, setSetup] = useState<BookingSetup | null>(null)
+  const [bookings, setBookings] = useState<Booking[]>([])
+  const [loading, setLoading] = useState(true)
+  const [showForm, setShowForm] = useState(false)
+  const [rescheduling, setRescheduling] = useState<Booking | null>(null)
+  const [cancelling, setCancelling] = useState<Booking | null>(null)
+  const [cancellationReason, setCancellationReason] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+  const { user } = useAuth()
+
+  const loadAppointments = useCallback(async () => {
+    if (!user) return
+
+    try {
+      setLoading(true)
+      const [clientResponse, bookingSetup] = await Promise.all([
+        supabase
+          .from('clients')
+          .select('id')
+          .eq('profile_id', user.id)
+          .order('created_at', { ascending: false })
+          .limit(1),
+        BookingService.fetchSetup()
+      ])
+
+      if (clientResponse.error) throw clientResponse.error
+      setSetup(bookingSetup)
+
+      const client = clientResponse.data?.[0]
+      if (!client) return
+
+      setClientId(client.id)
+      const now = new Date()
+      setBookings(await BookingService.fetchBookings(addYears(now, -HISTORY_YEARS), addYears(now, 1), client.id))
+    } catch (error) {
+      console.error('Error loading appointments:', error)
+      setError('Error loading your appointments. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }, [user])
+
+  useEffect(() => {
+    loadAppointments()
+  }, [loadAppointments])
+
+  useEffect(() => {
+    if (error || success) {
+      const timer = setTimeout(() => {
+        setError(null)
+        setSuccess(null)
+      }, 5000)
+      return () => clearTimeout(timer)
+    }
+  }, [error, success])
+
+  const handleSaved = (message: string) => {
+    setSuccess(message)
+    setShowForm(false)
+    setRescheduling(null)
+    loadAppointments()
+  }
+
+  const cancelBooking = async () => {
+    if (!cancelling) return
+
+    try {
+      setSaving(true)
+      await BookingService.updateStatus(cancelling, 'cancelled', cancellationReason)
+      setCancelling(null)
+      setCancellationReason('')
+      handleSaved('Your appointment has been cancelled.')
+    } catch (error) {
+      console.error('Error cancelling booking:', error)
+      setError(BookingService.describeError(error))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const now = new Date()
+  const upcoming = bookings.filter(booking => booking.status === 'scheduled' && isBefore(now, parseISO(booking.appointment_date)))
+  const past = bookings
+    .filter(booking => !upcoming.includes(booking))
+    .reverse()
+
+  const roomName = (booking: Booking) => {
+    const room = setup?.rooms.find(candidate => candidate.id === booking.room_id)
+    return room ? `${room.treatment_centre} • ${room.name}` : null
+  }
+
+  if (loading && !setup) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="w-8 h-8 border-4 border-wellness-sage-200 border-t-wellness-sage-600 rounded-full animate-spin"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Appointments</h1>
+          <p className="text-gray-600 mt-1">Book, reschedule or cancel your sessions</p>
+        </div>
+        <Button
+          variant="primary"
+          icon={Plus}
+          onClick={() => setShowForm(true)}
+          disabled={!clientId || !setup}
+        >
+          Book Appointment
+        </Button>
+      </div>
+
+      {/* Status Messages */}
+      {error && (
+        <Card variant="minimal" className="border-red-200 bg-red-50">
+          <CardContent>
+            <div className="flex items-center space-x-3">
+              <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {success && (
+        <Card variant="minimal" className="border-green-200 bg-green-50">
+          <CardContent>
+            <div className="flex items-center space-x-3">
+              <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0" />
+              <p className="text-sm text-green-700">{success}</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {!clientId && (
+        <Card variant="minimal" className="border-amber-200 bg-amber-50">
+          <CardContent>
+            <p className="text-sm text-amber-800">
+              Your client record hasn't been set up yet. Please contact the practice to book your first appointment.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Upcoming */}
+      <Card hover={false}>
+        <CardHeader
+          title="Upcoming Appointments"
+          description={upcoming.length ? `${upcoming.length} scheduled` : 'Nothing scheduled yet'}
+        />
+        <CardContent>
+          {upcoming.length === 0 ? (
+            <div className="text-center py-8">
+              <Calendar className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-600">You have no upcoming appointments.</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {upcoming.map(booking => (
+                <div key={booking.id} className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 p-4 border border-gray-200 rounded-lg">
+                  <div className="flex items-start space-x-4">
+                    <div className="w-14 text-center bg-wellness-sage-50 rounded-lg py-2">
+                      <p className="text-xs text-wellness-sage-700 uppercase">{format(parseISO(booking.appointment_date), 'MMM')}</p>
+                      <p className="text-xl font-bold text-gray-900">{format(parseISO(booking.appointment_date), 'd')}</p>
+                    </div>
+                    <div>
+                      <h4 className="font-medium text-gray-900">{booking.service_type}</h4>
+                      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-gray-600 mt-1">
+                        <span className="flex items-center space-x-1">
+                          <Clock className="w-4 h-4" />
+                          <span>{format(parseISO(booking.appointment_date), 'EEEE')}, {BookingService.formatTimeRange(booking)}</span>
+                        </span>
+                        {booking.staff_id && setup && (
+                          <span className="flex items-center space-x-1">
+                            <User className="w-4 h-4" />
+                            <span>{BookingService.staffName(setup.staff, booking.staff_id)}</span>
+                          </span>
+                        )}
+                        {roomName(booking) && (
+                          <span className="flex items-center space-x-1">
+                            <MapPin className="w-4 h-4" />
+                            <span>{roomName(booking)}</span>
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      icon={Calendar}
+                      onClick={() => setRescheduling(booking)}
+                    >
+                      Reschedule
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      icon={XCircle}
+                      onClick={() => setCancelling(booking)}
+                      className="text-red-600 hover:text-red-700"
+                    >
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* History */}
+      {past.length > 0 && (
+        <Card hover={false}>
+          <CardHeader title="Appointment History" />
+          <CardContent>
+            <div className="divide-y divide-gray-100">
+              {past.map(booking => (
+                <div key={booking.id} className="flex items-center justify-between py-3">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">{booking.service_type}</p>
+                    <p className="text-xs text-gray-500">
+                      {format(parseISO(booking.appointment_date), 'd MMM yyyy, HH:mm')}
+                    </p>
+                  </div>
+                  <span className={`px-2 py-0.5 text-xs font-medium rounded-full border ${BOOKING_STATUS_COLORS[booking.status]}`}>
+                    {BOOKING_STATUS_LABELS[booking.status]}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Cancel confirmation */}
+      {cancelling && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <Card className="w-full max-w-md" hover={false}>
+            <CardHeader
+              title="Cancel Appointment"
+              description={`${cancelling.service_type} on ${format(parseISO(cancelling.appointment_date), 'EEEE d MMMM, HH:mm')}`}
+            />
+            <CardContent>
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Reason (optional)</label>
+                  <textarea
+                    value={cancellationReason}
+                    onChange={(e) => setCancellationReason(e.target.value)}
+                    rows={3}
+                    className="wellness-input"
+                  />
+                </div>
+                <div className="flex justify-end space-x-3 pt-4 border-t">
+                  <Button variant="outline" onClick={() => setCancelling(null)}>
+                    Keep Appointment
+                  </Button>
+                  <Button variant="danger" onClick={cancelBooking} loading={saving}>
+                    Cancel Appointment
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {(showForm || rescheduling) && setup && clientId && (
+        <BookingForm
+          setup={setup}
+          isStaff={false}
+          clientId={clientId}
+          booking={rescheduling || undefined}
+          onClose={() => {
+            setShowForm(false)
+            setRescheduling(null)
+          }}
+          onSaved={handleSaved}
+        />
+      )}
+    </div>
+  )
+}
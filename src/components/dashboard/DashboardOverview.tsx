@@ -1,7 +1,10 @@
-import React from 'react'
+import React, { useState, useEffect, useCallback } from 'react'
+import { differenceInCalendarDays, format, parseISO } from 'date-fns'
 import { Card, CardHeader, CardContent } from '../ui/Card'
 import { Users, Activity, Calendar, TrendingUp, Heart, Zap } from 'lucide-react'
 import { useAuth } from '../../hooks/useAuth'
+import { DashboardMetrics, DashboardMetricsService } from '../../lib/dashboardMetrics'
+import { formatZAR, getWellnessStatus } from '../../lib/utils'
 
 interface MetricCardProps {
   title: string
@@ -49,107 +52,114 @@ function MetricCard({ title, value, change, changeType, icon, color = 'sage' }:
 
 export function DashboardOverview() {
   const { profile } = useAuth()
+  const [metrics, setMetrics] = useState<DashboardMetrics | null>(null)
+  const [error, setError] = useState<string | null>(null)
 
-  const getMetrics = () => {
-    switch (profile?.role) {
-      case 'admin':
-        return [
-          {
-            title: 'Total Clients',
-            value: '1,247',
-            change: '+12% from last month',
-            changeType: 'positive' as const,
-            icon: <Users className="w-6 h-6" />,
-            color: 'sage' as const,
-          },
-          {
-            title: 'Scans This Month',
-            value: '89',
-            change: '+8% from last month',
-            changeType: 'positive' as const,
-            icon: <Activity className="w-6 h-6" />,
-            color: 'eucalyptus' as const,
-          },
-          {
-            title: 'Appointments',
-            value: '156',
-            change: '+23% from last month',
-            changeType: 'positive' as const,
-            icon: <Calendar className="w-6 h-6" />,
-            color: 'rose' as const,
-          },
-          {
-            title: 'Revenue (ZAR)',
-            value: 'R 245,680',
-            change: '+15% from last month',
-            changeType: 'positive' as const,
-            icon: <TrendingUp className="w-6 h-6" />,
-            color: 'sage' as const,
-          },
-        ]
-      
-      case 'staff':
-        return [
-          {
-            title: 'My Clients',
-            value: '67',
-            change: '+3 new this week',
-            changeType: 'positive' as const,
-            icon: <Users className="w-6 h-6" />,
-            color: 'sage' as const,
-          },
-          {
-            title: 'Scans Today',
-            value: '8',
-            change: '2 pending review',
-            changeType: 'neutral' as const,
-            icon: <Activity className="w-6 h-6" />,
-            color: 'eucalyptus' as const,
-          },
-          {
-            title: 'Today\'s Appointments',
-            value: '12',
-            change: '3 completed',
-            changeType: 'positive' as const,
-            icon: <Calendar className="w-6 h-6" />,
-            color: 'rose' as const,
-          },
-        ]
-      
-      case 'client':
-        return [
-          {
-            title: 'Wellness Score',
-            value: '85',
-            change: '+5 points this month',
-            changeType: 'positive' as const,
-            icon: <Heart className="w-6 h-6" />,
-            color: 'sage' as const,
-          },
-          {
-            title: 'Total Scans',
-            value: '12',
-            change: 'Last scan: 3 days ago',
-            changeType: 'neutral' as const,
-            icon: <Activity className="w-6 h-6" />,
-            color: 'eucalyptus' as const,
-          },
-          {
-            title: 'Cellular Health',
-            value: 'Excellent',
-            change: 'Improving trend',
-            changeType: 'positive' as const,
-            icon: <Zap className="w-6 h-6" />,
-            color: 'rose' as const,
-          },
-        ]
-      
-      default:
-        return []
+  const loadMetrics = useCallback(async () => {
+    if (!profile) return
+
+    try {
+      setMetrics(await DashboardMetricsService.fetch())
+      setError(null)
+    } catch (error) {
+      console.error('Error loading dashboard metrics:', error)
+      setError('Live metrics are unavailable right now.')
     }
+  }, [profile])
+
+  useEffect(() => {
+    loadMetrics()
+  }, [loadMetrics])
+
+  // Refresh whenever the underlying bookings, scans, onboarding or payments change
+  const audience = metrics?.role
+  const clientId = metrics?.role === 'client' ? metrics.client_id : null
+  useEffect(() => {
+    if (!audience || (audience === 'client' && !clientId)) return
+    return DashboardMetricsService.subscribe(audience, clientId, loadMetrics)
+  }, [audience, clientId, loadMetrics])
+
+  const getMetrics = (): MetricCardProps[] => {
+    if (!metrics) return []
+
+    if (metrics.role === 'staff') {
+      const revenueChange = metrics.revenue_this_month - metrics.revenue_last_month
+      return [
+        {
+          title: 'Today\'s Appointments',
+          value: metrics.today_bookings,
+          change: `${metrics.today_completed} completed`,
+          changeType: 'neutral',
+          icon: <Calendar className="w-6 h-6" />,
+          color: 'rose',
+        },
+        {
+          title: 'Scans Awaiting Assignment',
+          value: metrics.pending_scan_assignments,
+          change: metrics.pending_scan_assignments ? 'Need a client assigned' : 'All scans assigned',
+          changeType: metrics.pending_scan_assignments ? 'negative' : 'positive',
+          icon: <Activity className="w-6 h-6" />,
+          color: 'eucalyptus',
+        },
+        {
+          title: 'Onboarding In Progress',
+          value: metrics.onboarding_in_progress,
+          change: 'Clients yet to finish onboarding',
+          changeType: 'neutral',
+          icon: <Users className="w-6 h-6" />,
+          color: 'sage',
+        },
+        {
+          title: 'Revenue This Month',
+          value: formatZAR(metrics.revenue_this_month),
+          change: `${formatZAR(metrics.revenue_last_month)} last month`,
+          changeType: revenueChange > 0 ? 'positive' : revenueChange < 0 ? 'negative' : 'neutral',
+          icon: <TrendingUp className="w-6 h-6" />,
+          color: 'sage',
+        },
+      ]
+    }
+
+    const score = metrics.latest_score !== null && metrics.latest_score !== undefined ? Number(metrics.latest_score) : null
+    const previousScore = metrics.previous_score !== null && metrics.previous_score !== undefined ? Number(metrics.previous_score) : null
+    const scoreChange = score !== null && previousScore !== null ? Math.round((score - previousScore) * 10) / 10 : null
+    const wellness = score !== null ? getWellnessStatus(score) : null
+    const daysSinceScan = metrics.last_scan_date
+      ? differenceInCalendarDays(new Date(), parseISO(metrics.last_scan_date))
+      : null
+    const nextAppointment = metrics.next_appointment
+
+    return [
+      {
+        title: 'Wellness Score',
+        value: score !== null ? Math.round(score) : '—',
+        change: wellness
+          ? `${wellness.status}${scoreChange !== null ? ` • ${scoreChange > 0 ? '+' : ''}${scoreChange} since last scan` : ''}`
+          : 'Available after your first scan',
+        changeType: scoreChange === null || scoreChange === 0 ? 'neutral' : scoreChange > 0 ? 'positive' : 'negative',
+        icon: <Heart className="w-6 h-6" />,
+        color: 'sage',
+      },
+      {
+        title: 'Next Appointment',
+        value: nextAppointment ? format(parseISO(nextAppointment.appointment_date), 'd MMM, HH:mm') : 'None booked',
+        change: nextAppointment?.service_type,
+        changeType: 'neutral',
+        icon: <Calendar className="w-6 h-6" />,
+        color: 'rose',
+      },
+      {
+        title: 'Days Since Last Scan',
+        value: daysSinceScan !== null ? daysSinceScan : '—',
+        change: metrics.scan_count ? `${metrics.scan_count} scan${metrics.scan_count === 1 ? '' : 's'} in total` : 'No scans yet',
+        changeType: 'neutral',
+        icon: <Activity className="w-6 h-6" />,
+        color: 'eucalyptus',
+      },
+    ]
   }
 
-  const metrics = getMetrics()
+  const cards = getMetrics()
 
   return (
     <div className="space-y-6">
@@ -166,11 +176,15 @@ export function DashboardOverview() {
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-        {metrics.map((metric, index) => (
-          <MetricCard key={index} {...metric} />
+        {cards.map((metric) => (
+          <MetricCard key={metric.title} {...metric} />
         ))}
       </div>
 
+      {error && (
+        <p className="text-sm text-gray-500">{error}</p>
+      )}
+
       {/* Welcome Message with Cellular Inspiration */}
       <Card variant="sage" className="pastel-gradient">
         <CardHeader
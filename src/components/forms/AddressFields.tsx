@@ -0,0 +1,135 @@
+import { useState } from 'react'
+import { MapPin } from 'lucide-react'
+import { Input } from '../ui/Input'
+import { SAAddress, SAAddresses, SALocality, SA_PROVINCES } from '../../lib/saAddress'
+
+interface AddressFieldsProps {
+  value: SAAddress
+  onChange: (value: SAAddress) => void
+  errors?: Partial<Record<keyof SAAddress, string>>
+  // Marks the parts a required address needs
+  required?: boolean
+}
+
+type LookupInput = 'suburb' | 'postalCode'
+
+// South African street address. Typing a suburb, town or postal code suggests matching
+// localities; choosing one fills in the suburb, city, province and postal code.
+export function AddressFields({ value, onChange, errors = {}, required = false }: AddressFieldsProps) {
+  const [lookupInput, setLookupInput] = useState<LookupInput | null>(null)
+  const marker = required ? ' *' : ''
+
+  const update = (changes: Partial<SAAddress>) => onChange({ ...value, ...changes })
+
+  const suggestions = lookupInput ? SAAddresses.search(value[lookupInput]) : []
+
+  const chooseLocality = (locality: SALocality) => {
+    onChange(SAAddresses.fromLocality(value, locality))
+    setLookupInput(null)
+  }
+
+  const renderSuggestions = (input: LookupInput) => lookupInput === input && suggestions.length > 0 && (
+    <ul className="absolute z-10 left-0 right-0 mt-1 bg-white border border-gray-200 rounded-lg shadow-lg max-h-60 overflow-y-auto">
+      {suggestions.map(locality => (
+        <li key={`${locality.suburb}-${locality.postalCode}`}>
+          <button
+            type="button"
+            // Keeps focus on the input so the list isn't closed before the click lands
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => chooseLocality(locality)}
+            className="w-full flex items-center justify-between px-3 py-2 text-left text-sm hover:bg-wellness-sage-50"
+          >
+            <span className="flex items-center space-x-2">
+              <MapPin className="w-4 h-4 text-gray-400" />
+              <span className="text-gray-900">{locality.suburb}, {locality.city}</span>
+            </span>
+            <span className="text-gray-500">{locality.postalCode}</span>
+          </button>
+        </li>
+      ))}
+    </ul>
+  )
+
+  return (
+    <div className="space-y-4">
+      <Input
+        label={`Address Line 1${marker}`}
+        type="text"
+        value={value.address1}
+        onChange={(e) => update({ address1: e.target.value })}
+        error={errors.address1}
+      />
+
+      <Input
+        label="Address Line 2"
+        type="text"
+        value={value.address2}
+        onChange={(e) => update({ address2: e.target.value })}
+        error={errors.address2}
+      />
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="relative">
+          <Input
+            label="Suburb"
+            type="text"
+            autoComplete="off"
+            value={value.suburb}
+            onChange={(e) => {
+              update({ suburb: e.target.value })
+              setLookupInput('suburb')
+            }}
+            onFocus={() => setLookupInput('suburb')}
+            onBlur={() => setLookupInput(null)}
+            error={errors.suburb}
+          />
+          {renderSuggestions('suburb')}
+        </div>
+        <Input
+          label={`City / Town${marker}`}
+          type="text"
+          value={value.city}
+          onChange={(e) => update({ city: e.target.value })}
+          error={errors.city}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Province{marker}
+          </label>
+          <select
+            className="wellness-input"
+            value={value.province}
+            onChange={(e) => update({ province: e.target.value as SAAddress['province'] })}
+          >
+            <option value="">Select province</option>
+            {SA_PROVINCES.map((province) => (
+              <option key={province} value={province}>{province}</option>
+            ))}
+          </select>
+          {errors.province && <p className="text-sm text-red-600 mt-1">{errors.province}</p>}
+        </div>
+        <div className="relative">
+          <Input
+            label={`Postal Code${marker}`}
+            type="text"
+            inputMode="numeric"
+            autoComplete="off"
+            maxLength={4}
+            value={value.postalCode}
+            onChange={(e) => {
+              update({ postalCode: e.target.value.replace(/\D/g, '') })
+              setLookupInput('postalCode')
+            }}
+            onFocus={() => setLookupInput('postalCode')}
+            onBlur={() => setLookupInput(null)}
+            error={errors.postalCode}
+          />
+          {renderSuggestions('postalCode')}
+        </div>
+      </div>
+    </div>
+  )
+}
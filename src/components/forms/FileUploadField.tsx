@@ -0,0 +1,210 @@
+import { useState, useEffect, useRef } from 'react'
+import type { DragEvent } from 'react'
+import { Upload, FileText, X, AlertCircle } from 'lucide-react'
+import { Button } from '../ui/Button'
+import { FormUploads, FormUploadSettings, StoredUpload } from '../../lib/formUploads'
+import { ScanStorage } from '../../lib/scanStorage'
+
+interface FileUploadFieldProps {
+  id: string
+  settings: Required<FormUploadSettings>
+  value: StoredUpload[]
+  onChange: (value: StoredUpload[]) => void
+  image?: boolean
+  // Previews show the picker without uploading anything
+  disabled?: boolean
+}
+
+interface PendingUpload {
+  id: string
+  name: string
+  progress: number
+  previewUrl?: string
+}
+
+// Uploads files as soon as they're chosen; the field's value only ever holds stored files
+export function FileUploadField({ id, settings, value, onChange, image = false, disabled = false }: FileUploadFieldProps) {
+  const [pending, setPending] = useState<PendingUpload[]>([])
+  const [rejections, setRejections] = useState<string[]>([])
+  const [previews, setPreviews] = useState<Record<string, string>>({})
+  const [dragging, setDragging] = useState(false)
+  const inputRef = useRef<HTMLInputElement>(null)
+  // Uploads finish after later renders; this keeps removals made meanwhile
+  const valueRef = useRef(value)
+  valueRef.current = value
+
+  // Signed preview links for stored images, e.g. from a resumed draft
+  useEffect(() => {
+    const missing = value.filter(upload => FormUploads.isImage(upload) && !previews[upload.path])
+    if (missing.length === 0) return
+
+    Promise.all(missing.map(async upload => [upload.path, await FormUploads.createUrl(upload)] as const))
+      .then(entries => setPreviews(current => ({ ...current, ...Object.fromEntries(entries) })))
+      .catch(error => console.error('Error loading upload previews:', error))
+  }, [value, previews])
+
+  const uploadFiles = async (files: File[]) => {
+    const problems: string[] = []
+    const slots = settings.maxFiles - value.length - pending.length
+    if (files.length > slots) {
+      problems.push(`You can upload up to ${settings.maxFiles} file${settings.maxFiles === 1 ? '' : 's'} here`)
+    }
+
+    const accepted = files.slice(0, Math.max(slots, 0)).filter(file => {
+      const rejection = FormUploads.rejection(file, settings)
+      if (rejection) problems.push(rejection)
+      return !rejection
+    })
+    setRejections(problems)
+    if (accepted.length === 0) return
+
+    const started = accepted.map(file => ({
+      file,
+      entry: {
+        id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        name: file.name,
+        progress: 0,
+        previewUrl: file.type.startsWith('image/') ? URL.createObjectURL(file) : undefined
+      }
+    }))
+    setPending(current => [...current, ...started.map(({ entry }) => entry)])
+
+    const results = await Promise.all(started.map(async ({ file, entry }) => {
+      try {
+        return await FormUploads.upload(file, progress =>
+          setPending(current => current.map(item => item.id === entry.id ? { ...item, progress } : item))
+        )
+      } catch (error) {
+        console.error('Error uploading file:', error)
+        setRejections(current => [...current, `${file.name} couldn't be uploaded. Please try again.`])
+        return null
+      } finally {
+        if (entry.previewUrl) URL.revokeObjectURL(entry.previewUrl)
+        setPending(current => current.filter(item => item.id !== entry.id))
+      }
+    }))
+
+    const stored = results.filter((upload): upload is StoredUpload => upload !== null)
+    if (stored.length > 0) onChange([...valueRef.current, ...stored])
+  }
+
+  const removeUpload = async (upload: StoredUpload) => {
+    onChange(value.filter(item => item.path !== upload.path))
+    try {
+      await FormUploads.remove(upload)
+    } catch (error) {
+      console.error('Error removing uploaded file:', error)
+    }
+  }
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault()
+    setDragging(false)
+    if (!disabled) uploadFiles(Array.from(e.dataTransfer.files))
+  }
+
+  const limits = [
+    settings.maxFiles > 1 ? `Up to ${settings.maxFiles} files` : 'One file',
+    `${settings.maxSizeMb} MB each`,
+    settings.accept.length ? settings.accept.join(', ') : null
+  ].filter(Boolean).join(' · ')
+
+  const canAddMore = value.length + pending.length < settings.maxFiles
+
+  return (
+    <div className="space-y-3">
+      {canAddMore && (
+        <div
+          onDragOver={(e) => { e.preventDefault(); setDragging(true) }}
+          onDragLeave={() => setDragging(false)}
+          onDrop={handleDrop}
+          className={`border-2 border-dashed rounded-lg p-6 text-center transition-colors ${
+            dragging ? 'border-wellness-sage-400 bg-wellness-sage-50' : 'border-gray-300 hover:border-gray-400'
+          }`}
+        >
+          <Upload className="w-8 h-8 text-gray-400 mx-auto mb-2" />
+          <p className="text-sm text-gray-600 mb-1">
+            {image ? 'Drop an image here or' : 'Drop a file here or'}
+          </p>
+          <input
+            ref={inputRef}
+            type="file"
+            id={id}
+            className="hidden"
+            accept={settings.accept.join(',') || undefined}
+            multiple={settings.maxFiles > 1}
+            disabled={disabled}
+            onChange={(e) => {
+              uploadFiles(Array.from(e.target.files || []))
+              e.target.value = ''
+            }}
+          />
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => inputRef.current?.click()}
+            disabled={disabled}
+          >
+            {settings.maxFiles > 1 ? 'Choose Files' : 'Choose File'}
+          </Button>
+          <p className="text-xs text-gray-500 mt-2">
+            {disabled ? 'Uploads are turned off in previews' : limits}
+          </p>
+        </div>
+      )}
+
+      {rejections.map(message => (
+        <p key={message} className="flex items-center space-x-1 text-sm text-red-600">
+          <AlertCircle className="w-4 h-4" />
+          <span>{message}</span>
+        </p>
+      ))}
+
+      {(value.length > 0 || pending.length > 0) && (
+        <ul className="space-y-2">
+          {value.map(upload => (
+            <li key={upload.path} className="flex items-center space-x-3 p-2 border border-gray-200 rounded-lg">
+              {FormUploads.isImage(upload) && previews[upload.path] ? (
+                <img src={previews[upload.path]} alt={upload.name} className="w-12 h-12 object-cover rounded" />
+              ) : (
+                <FileText className="w-8 h-8 text-gray-400" />
+              )}
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-gray-900 truncate">{upload.name}</p>
+                <p className="text-xs text-gray-500">{ScanStorage.formatSize(upload.size)}</p>
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                icon={X}
+                onClick={() => removeUpload(upload)}
+                title="Remove"
+              />
+            </li>
+          ))}
+          {pending.map(item => (
+            <li key={item.id} className="flex items-center space-x-3 p-2 border border-gray-200 rounded-lg">
+              {item.previewUrl ? (
+                <img src={item.previewUrl} alt={item.name} className="w-12 h-12 object-cover rounded opacity-60" />
+              ) : (
+                <FileText className="w-8 h-8 text-gray-300" />
+              )}
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-gray-700 truncate">{item.name}</p>
+                <div className="w-full bg-gray-200 rounded-full h-2 mt-1">
+                  <div
+                    className="bg-wellness-sage-600 h-2 rounded-full transition-all duration-300"
+                    style={{ width: `${item.progress}%` }}
+                  />
+                </div>
+              </div>
+              <span className="text-xs text-gray-500">{item.progress}%</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
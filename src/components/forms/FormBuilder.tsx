@@ -32,12 +32,19 @@ import {
   ChevronUp,
   Columns,
   Grid3X3,
-  Square
+  Square,
+  GitBranch,
+  AlertCircle,
+  SeparatorHorizontal
 } from 'lucide-react'
 import { Card, CardHeader, CardContent } from '../ui/Card'
 import { Button } from '../ui/Button'
 import { Input } from '../ui/Input'
 import { supabase } from '../../lib/supabase'
+import { FormLogic, LogicRule, NON_INPUT_FIELD_TYPES } from '../../lib/formLogic'
+import { FormPages } from '../../lib/formPages'
+import { LogicEditor } from './LogicEditor'
+import { FormUploadSettings, MAX_UPLOAD_SIZE_MB } from '../../lib/formUploads'
 
 // Field type definitions
 export interface FormField {
@@ -54,10 +61,14 @@ export interface FormField {
     max?: number
     pattern?: string
   }
+  // Legacy single-field equality; superseded by logic and converted when the field is edited
   conditional?: {
     dependsOn: string
     value: string
   }
+  logic?: LogicRule[]
+  // File and image fields only
+  upload?: FormUploadSettings
   description?: string
   defaultValue?: string | string[] | boolean
   layout?: {
@@ -90,6 +101,7 @@ export type FieldType =
   | 'divider'
   | 'heading'
   | 'paragraph'
+  | 'pageBreak'
 
 export interface FormTemplate {
   id: string
@@ -97,11 +109,15 @@ export interface FormTemplate {
   description: string
   fields: FormField[]
   settings: {
+    // Set when the form has page breaks
     multiPage: boolean
     progressBar: boolean
+    // Lets respondents save a draft and resume later
     saveProgress: boolean
     theme: string
   }
+  // Goes up whenever the fields change; set by the database
+  version?: number
   created_at: string
   updated_at: string
   created_by: string
@@ -143,6 +159,7 @@ const fieldTypes: Array<{
   { type: 'heading', label: 'Heading', icon: Type, category: 'layout' },
   { type: 'paragraph', label: 'Paragraph', icon: FileText, category: 'layout' },
   { type: 'divider', label: 'Divider', icon: Type, category: 'layout' },
+  { type: 'pageBreak', label: 'Page Break', icon: SeparatorHorizontal, category: 'layout' },
 ]
 
 const fieldSchema = z.object({
@@ -161,6 +178,11 @@ const fieldSchema = z.object({
     max: z.number().optional(),
     pattern: z.string().optional(),
   }).optional(),
+  upload: z.object({
+    accept: z.string().optional(),
+    maxSizeMb: z.number().min(1).max(MAX_UPLOAD_SIZE_MB, `The storage limit is ${MAX_UPLOAD_SIZE_MB} MB`).optional(),
+    maxFiles: z.number().min(1).optional(),
+  }).optional(),
 })
 
 type FieldFormData = z.infer<typeof fieldSchema>
@@ -178,6 +200,9 @@ export function FormBuilder({ template, onSave, onCancel }: FormBuilderProps) {
   const [formName, setFormName] = useState(template?.name || '')
   const [formDescription, setFormDescription] = useState(template?.description || '')
   const [previewMode, setPreviewMode] = useState(false)
+  const [fieldLogic, setFieldLogic] = useState<LogicRule[]>([])
+  const [progressBar, setProgressBar] = useState(template?.settings?.progressBar ?? true)
+  const [saveProgress, setSaveProgress] = useState(template?.settings?.saveProgress ?? true)
   const [expandedCategories, setExpandedCategories] = useState<Record<string, boolean>>({
     input: true,
     choice: true,
@@ -236,12 +261,14 @@ export function FormBuilder({ template, onSave, onCancel }: FormBuilderProps) {
 
     setFields([...fields, newField])
     setSelectedField(newField)
+    setFieldLogic([])
     setShowFieldEditor(true)
   }
 
   const editField = (field: FormField) => {
     console.log('Editing field:', field) // Debug log
     setSelectedField(field)
+    setFieldLogic(FormLogic.rules(field))
     setShowFieldEditor(true)
     
     // Populate form with field data - CRITICAL: Include type
@@ -255,6 +282,11 @@ export function FormBuilder({ template, onSave, onCancel }: FormBuilderProps) {
       options: field.options || [],
       width: field.layout?.width || 'full',
       validation: field.validation,
+      upload: {
+        accept: field.upload?.accept?.join(', ') || '',
+        maxSizeMb: field.upload?.maxSizeMb,
+        maxFiles: field.upload?.maxFiles,
+      },
     })
   }
 
@@ -269,6 +301,7 @@ export function FormBuilder({ template, onSave, onCancel }: FormBuilderProps) {
 
     // CRITICAL: Ensure we get the latest form values
     const currentValues = getValues()
+    const accept = (currentValues.upload?.accept || '').split(',').map(type => type.trim()).filter(Boolean)
     
     const updatedField: FormField = {
       ...selectedField,
@@ -284,6 +317,13 @@ export function FormBuilder({ template, onSave, onCancel }: FormBuilderProps) {
         width: currentValues.width,
       },
       validation: currentValues.validation,
+      upload: ['file', 'image'].includes(currentValues.type) ? {
+        accept: accept.length > 0 ? accept : undefined,
+        maxSizeMb: currentValues.upload?.maxSizeMb,
+        maxFiles: currentValues.upload?.maxFiles,
+      } : undefined,
+      conditional: undefined,
+      logic: fieldLogic.length > 0 ? fieldLogic : undefined,
     }
 
     console.log('Updated field object:', updatedField) // Debug log
@@ -301,6 +341,11 @@ export function FormBuilder({ template, onSave, onCancel }: FormBuilderProps) {
   }
 
   const deleteField = (fieldId: string) => {
+    const dependents = FormLogic.dependents(fields, fieldId)
+    if (dependents.length > 0 && !confirm(
+      `The logic of ${dependents.map(field => `"${field.label}"`).join(', ')} depends on this field. Delete it anyway?`
+    )) return
+
     setFields(fields.filter(f => f.id !== fieldId))
     if (selectedField?.id === fieldId) {
       setShowFieldEditor(false)
@@ -358,16 +403,23 @@ export function FormBuilder({ template, onSave, onCancel }: FormBuilderProps) {
       return
     }
 
+    const logicIssues = FormLogic.validate(fields)
+    if (logicIssues.length > 0) {
+      alert(`Please fix the form logic before saving:\n\n${logicIssues.map(issue => `• ${issue.message}`).join('\n')}`)
+      return
+    }
+
     const templateData: FormTemplate = {
       id: template?.id || generateFieldId(),
       name: formName,
       description: formDescription,
       fields,
       settings: {
-        multiPage: false,
-        progressBar: true,
-        saveProgress: true,
-        theme: 'default',
+        ...template?.settings,
+        multiPage: FormPages.hasPageBreaks(fields),
+        progressBar,
+        saveProgress,
+        theme: template?.settings?.theme || 'default',
       },
       created_at: template?.created_at || new Date().toISOString(),
       updated_at: new Date().toISOString(),
@@ -601,6 +653,38 @@ export function FormBuilder({ template, onSave, onCancel }: FormBuilderProps) {
           </div>
         )
       
+      case 'address':
+        return (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              {field.label} {field.required && '*'}
+            </label>
+            <div className="space-y-2">
+              <Input placeholder="Address Line 1" disabled />
+              <div className="grid grid-cols-2 gap-2">
+                <Input placeholder="Suburb" disabled />
+                <Input placeholder="City / Town" disabled />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <Input placeholder="Province" disabled />
+                <Input placeholder="Postal Code" disabled />
+              </div>
+            </div>
+          </div>
+        )
+
+      case 'signature':
+        return (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              {field.label} {field.required && '*'}
+            </label>
+            <div className="border-2 border-dashed border-gray-300 rounded-lg h-32 flex items-center justify-center">
+              <p className="text-sm text-gray-400">Sign here</p>
+            </div>
+          </div>
+        )
+
       case 'heading':
         return (
           <h3 className="text-lg font-semibold text-gray-900 mb-2">
@@ -618,6 +702,17 @@ export function FormBuilder({ template, onSave, onCancel }: FormBuilderProps) {
       case 'divider':
         return <hr className="border-gray-200 my-6" />
       
+      case 'pageBreak':
+        return (
+          <div className="flex items-center space-x-3 py-2">
+            <div className="flex-1 border-t-2 border-dashed border-wellness-sage-300" />
+            <span className="text-sm font-medium text-wellness-sage-700">
+              New page: {field.label}
+            </span>
+            <div className="flex-1 border-t-2 border-dashed border-wellness-sage-300" />
+          </div>
+        )
+      
       default:
         return <Input {...commonProps} />
     }
@@ -634,6 +729,8 @@ export function FormBuilder({ template, onSave, onCancel }: FormBuilderProps) {
     }
   }
 
+  const logicIssues = FormLogic.validate(fields)
+
   const groupedFieldTypes = fieldTypes.reduce((acc, fieldType) => {
     if (!acc[fieldType.category]) {
       acc[fieldType.category] = []
@@ -730,6 +827,33 @@ export function FormBuilder({ template, onSave, onCancel }: FormBuilderProps) {
           </div>
         </div>
 
+        {/* Multi-page Settings */}
+        {FormPages.hasPageBreaks(fields) && (
+          <div className="bg-white border-b border-gray-200 px-4 py-3 flex items-center space-x-6">
+            <span className="text-sm font-medium text-gray-700">
+              {FormPages.split(fields).length} pages
+            </span>
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={progressBar}
+                onChange={(e) => setProgressBar(e.target.checked)}
+                className="rounded border-gray-300 text-wellness-sage-600 focus:ring-wellness-sage-500"
+              />
+              <span className="text-sm text-gray-700">Show progress bar</span>
+            </label>
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={saveProgress}
+                onChange={(e) => setSaveProgress(e.target.checked)}
+                className="rounded border-gray-300 text-wellness-sage-600 focus:ring-wellness-sage-500"
+              />
+              <span className="text-sm text-gray-700">Let respondents save and resume later</span>
+            </label>
+          </div>
+        )}
+
         {/* Form Canvas - CONSISTENT SIZE FOR BOTH MODES */}
         <div className="flex-1 overflow-y-auto p-6">
           <div className="max-w-4xl mx-auto">
@@ -799,6 +923,20 @@ export function FormBuilder({ template, onSave, onCancel }: FormBuilderProps) {
                                       {field.required && (
                                         <span className="text-xs text-red-500">Required</span>
                                       )}
+                                      {FormLogic.rules(field).length > 0 && (
+                                        <span
+                                          className="flex items-center space-x-1 text-xs text-wellness-sage-700 bg-wellness-sage-100 px-2 py-1 rounded"
+                                          title={FormLogic.rules(field).map(rule => FormLogic.describe(rule, fields)).join('\n')}
+                                        >
+                                          <GitBranch className="w-3 h-3" />
+                                          <span>Logic</span>
+                                        </span>
+                                      )}
+                                      {logicIssues.some(issue => issue.fieldId === field.id) && (
+                                        <span title={logicIssues.filter(issue => issue.fieldId === field.id).map(issue => issue.message).join('\n')}>
+                                          <AlertCircle className="w-4 h-4 text-red-500" />
+                                        </span>
+                                      )}
                                       <span className="text-xs text-blue-500 bg-blue-100 px-2 py-1 rounded">
                                         {field.layout?.width === 'full' ? 'Full Width' : 
                                          field.layout?.width === 'half' ? 'Half Width' : 'Third Width'}
@@ -933,7 +1071,7 @@ export function FormBuilder({ template, onSave, onCancel }: FormBuilderProps) {
                   {...register('label', { required: 'Label is required' })}
                 />
                 
-                {!['heading', 'paragraph', 'divider'].includes(watchedType) && (
+                {!NON_INPUT_FIELD_TYPES.includes(watchedType) && (
                   <Input
                     label="Placeholder Text"
                     {...register('placeholder')}
@@ -1032,6 +1170,35 @@ export function FormBuilder({ template, onSave, onCancel }: FormBuilderProps) {
                   </div>
                 )}
                 
+                {/* Upload limits for file/image fields */}
+                {watchedType && ['file', 'image'].includes(watchedType) && (
+                  <div className="space-y-4">
+                    <h4 className="text-sm font-medium text-gray-700">Uploads</h4>
+                    <Input
+                      label="Allowed File Types"
+                      placeholder={watchedType === 'image' ? 'image/*' : 'e.g., application/pdf, .docx, image/*'}
+                      helperText="Comma separated MIME types or extensions; leave blank to allow any"
+                      {...register('upload.accept')}
+                    />
+                    <div className="grid grid-cols-2 gap-4">
+                      <Input
+                        label="Max Size (MB)"
+                        type="number"
+                        placeholder="10"
+                        error={errors.upload?.maxSizeMb?.message}
+                        {...register('upload.maxSizeMb', { setValueAs: (value) => value === '' ? undefined : Number(value) })}
+                      />
+                      <Input
+                        label="Max Files"
+                        type="number"
+                        placeholder="1"
+                        error={errors.upload?.maxFiles?.message}
+                        {...register('upload.maxFiles', { setValueAs: (value) => value === '' ? undefined : Number(value) })}
+                      />
+                    </div>
+                  </div>
+                )}
+                
                 {/* Validation for text/number fields */}
                 {watchedType && ['text', 'textarea', 'number'].includes(watchedType) && (
                   <div className="space-y-4">
@@ -1075,6 +1242,15 @@ export function FormBuilder({ template, onSave, onCancel }: FormBuilderProps) {
                   </div>
                 )}
                 
+                <div className="pt-6 border-t">
+                  <LogicEditor
+                    field={selectedField}
+                    fields={fields}
+                    rules={fieldLogic}
+                    onChange={setFieldLogic}
+                  />
+                </div>
+                
                 <div className="flex justify-end space-x-2 pt-6 border-t">
                   <Button
                     type="button"
@@ -4,7 +4,6 @@ import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
 import {
   Star,
-  Upload,
   Calendar,
   Clock,
   MapPin,
@@ -14,30 +13,60 @@ import {
   Hash,
   Type,
   FileText,
-  CheckSquare
+  CheckSquare,
+  ArrowLeft,
+  ArrowRight,
+  Save
 } from 'lucide-react'
 import { FormTemplate, FormField } from './FormBuilder'
 import { Card, CardHeader, CardContent } from '../ui/Card'
 import { Button } from '../ui/Button'
 import { Input } from '../ui/Input'
+import { ProgressBar } from '../ui/ProgressBar'
+import { FormLogic, LogicState } from '../../lib/formLogic'
+import { FormPages, FormProgress } from '../../lib/formPages'
+import { FormSignatures } from '../../lib/formSignatures'
+import { SignaturePad } from './SignaturePad'
+import { SignatureRecordView } from './SignatureRecordView'
+import { AddressFields } from './AddressFields'
+import { SAAddress, SAAddresses } from '../../lib/saAddress'
+import { FileUploadField } from './FileUploadField'
+import { FormUploads } from '../../lib/formUploads'
 
 interface FormRendererProps {
   template: FormTemplate
   onSubmit: (data: any) => void
   initialData?: Record<string, any>
+  // Where a saved draft left off
+  initialProgress?: FormProgress
+  // Saves a draft; called when moving between pages and from "Save and continue later"
+  onSaveProgress?: (data: Record<string, unknown>, progress: FormProgress) => Promise<void> | void
+  // Previews submit drawn signatures as they are instead of storing them
+  preview?: boolean
 }
 
-export function FormRenderer({ template, onSubmit, initialData = {} }: FormRendererProps) {
-  const [currentPage, setCurrentPage] = useState(0)
+export function FormRenderer({ template, onSubmit, initialData = {}, initialProgress, onSaveProgress, preview = false }: FormRendererProps) {
+  // A draft saved before the pages were rearranged starts again from the first page
+  const resumable = initialProgress?.page_count === FormPages.split(template.fields).length
+  const [currentPage, setCurrentPage] = useState(resumable ? initialProgress.current_page : 0)
+  const [completedPages, setCompletedPages] = useState<number[]>(resumable ? initialProgress.completed_pages : [])
   const [isSubmitting, setIsSubmitting] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [lastSaved, setLastSaved] = useState<Date | null>(null)
 
-  // Generate dynamic schema based on form fields
-  const generateSchema = () => {
+  // Generate dynamic schema based on form fields. Hidden and skipped fields aren't
+  // validated, and rules can make a field required.
+  const generateSchema = (logicState: LogicState) => {
     const schemaFields: Record<string, any> = {}
 
     template.fields.forEach((field) => {
       let fieldSchema: any
 
+      if (!FormLogic.isActive(logicState, field.id)) {
+        schemaFields[field.id] = z.any().optional()
+        return
+      }
+
       switch (field.type) {
         case 'email':
           fieldSchema = z.string().email('Please enter a valid email address')
@@ -72,11 +101,17 @@ export function FormRenderer({ template, onSubmit, initialData = {} }: FormRende
           break
         case 'file':
         case 'image':
-          fieldSchema = z.any()
+          fieldSchema = FormUploads.schema(FormUploads.settings(field))
           break
         case 'rating':
           fieldSchema = z.number().min(1).max(5)
           break
+        case 'signature':
+          fieldSchema = z.any()
+          break
+        case 'address':
+          fieldSchema = SAAddresses.schema(logicState.required.has(field.id))
+          break
         default:
           fieldSchema = z.string()
           if (field.validation?.minLength) {
@@ -90,7 +125,17 @@ export function FormRenderer({ template, onSubmit, initialData = {} }: FormRende
           }
       }
 
-      if (!field.required) {
+      const required = logicState.required.has(field.id)
+      if (required && (fieldSchema instanceof z.ZodString || fieldSchema instanceof z.ZodArray)) {
+        fieldSchema = fieldSchema.min(1, 'This field is required')
+      }
+      if (required && field.type === 'signature') {
+        fieldSchema = fieldSchema.refine((value: unknown) => !FormLogic.isEmpty(value), 'Please sign here')
+      }
+      if (required && (field.type === 'file' || field.type === 'image')) {
+        fieldSchema = fieldSchema.refine((value: unknown) => !FormLogic.isEmpty(value), 'Please upload a file')
+      }
+      if (!required) {
         fieldSchema = fieldSchema.optional()
       }
 
@@ -100,26 +145,84 @@ export function FormRenderer({ template, onSubmit, initialData = {} }: FormRende
     return z.object(schemaFields)
   }
 
-  const schema = generateSchema()
-  
   const {
     register,
     handleSubmit,
     control,
     watch,
     setValue,
+    getValues,
+    trigger,
     formState: { errors },
   } = useForm({
-    resolver: zodResolver(schema),
+    // Rebuilt on every validation so the schema follows the current answers
+    resolver: (values, context, options) =>
+      zodResolver(generateSchema(FormLogic.evaluate(template.fields, values)))(values, context, options),
     defaultValues: initialData,
   })
 
   const watchedValues = watch()
+  const logicState = FormLogic.evaluate(template.fields, watchedValues)
+  const isRequired = (field: FormField) => logicState.required.has(field.id)
+
+  // Page breaks split the form into pages, each validated before moving on. Pages
+  // whose fields are all hidden or skipped are left out.
+  const pages = FormPages.split(template.fields)
+  const isPaged = pages.length > 1
+  const activePages = FormPages.activeIndexes(pages, logicState)
+  const pageIndex = activePages.includes(currentPage)
+    ? currentPage
+    : FormPages.next(pages, logicState, currentPage) ?? activePages[activePages.length - 1] ?? 0
+  const page = pages[pageIndex]
+  const isLastPage = FormPages.next(pages, logicState, pageIndex) === null
+  const canSaveProgress = !!onSaveProgress && template.settings?.saveProgress !== false
+
+  const saveProgress = async (nextPage: number, completed: number[]) => {
+    if (!onSaveProgress) return
+
+    setIsSaving(true)
+    try {
+      await onSaveProgress(getValues(), {
+        current_page: nextPage,
+        completed_pages: completed,
+        page_count: pages.length
+      })
+      setLastSaved(new Date())
+    } catch (error) {
+      console.error('Error saving form progress:', error)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const nextPage = async () => {
+    const fieldsToValidate = page.fields
+      .filter(field => FormLogic.isActive(logicState, field.id))
+      .map(field => field.id)
+    const isValid = await trigger(fieldsToValidate)
+    const next = FormPages.next(pages, logicState, pageIndex)
+
+    if (isValid && next !== null) {
+      const completed = Array.from(new Set([...completedPages, pageIndex]))
+      setCompletedPages(completed)
+      setCurrentPage(next)
+      if (canSaveProgress) await saveProgress(next, completed)
+    }
+  }
+
+  const prevPage = () => {
+    const previous = FormPages.previous(pages, logicState, pageIndex)
+    if (previous !== null) {
+      setCurrentPage(previous)
+    }
+  }
 
   const handleFormSubmit = async (data: any) => {
     setIsSubmitting(true)
     try {
-      await onSubmit(data)
+      // Answers to hidden or skipped questions aren't submitted
+      const answers = FormLogic.activeValues(template.fields, data)
+      await onSubmit(preview ? answers : await FormSignatures.sign(template.id, template.fields, answers))
     } catch (error) {
       console.error('Form submission error:', error)
     } finally {
@@ -177,14 +280,6 @@ export function FormRenderer({ template, onSubmit, initialData = {} }: FormRende
   }
 
   const renderField = (field: FormField) => {
-    // Check conditional logic
-    if (field.conditional) {
-      const dependentValue = watchedValues[field.conditional.dependsOn]
-      if (dependentValue !== field.conditional.value) {
-        return null
-      }
-    }
-
     const error = errors[field.id]?.message as string
 
     switch (field.type) {
@@ -208,7 +303,7 @@ export function FormRenderer({ template, onSubmit, initialData = {} }: FormRende
         return (
           <div key={field.id}>
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              {field.label} {field.required && '*'}
+              {field.label} {isRequired(field) && '*'}
             </label>
             <textarea
               className="wellness-input"
@@ -276,7 +371,7 @@ export function FormRenderer({ template, onSubmit, initialData = {} }: FormRende
         return (
           <div key={field.id}>
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              {field.label} {field.required && '*'}
+              {field.label} {isRequired(field) && '*'}
             </label>
             <select className="wellness-input" {...register(field.id)}>
               <option value="">{field.placeholder || 'Select an option'}</option>
@@ -297,7 +392,7 @@ export function FormRenderer({ template, onSubmit, initialData = {} }: FormRende
         return (
           <div key={field.id}>
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              {field.label} {field.required && '*'}
+              {field.label} {isRequired(field) && '*'}
             </label>
             <select
               className="wellness-input"
@@ -322,7 +417,7 @@ export function FormRenderer({ template, onSubmit, initialData = {} }: FormRende
         return (
           <div key={field.id}>
             <label className="block text-sm font-medium text-gray-700 mb-3">
-              {field.label} {field.required && '*'}
+              {field.label} {isRequired(field) && '*'}
             </label>
             <div className="space-y-2">
               {field.options?.map((option, index) => (
@@ -354,7 +449,7 @@ export function FormRenderer({ template, onSubmit, initialData = {} }: FormRende
             render={({ field: controllerField }) => (
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-3">
-                  {field.label} {field.required && '*'}
+                  {field.label} {isRequired(field) && '*'}
                 </label>
                 <div className="space-y-2">
                   {field.options?.map((option, index) => (
@@ -398,7 +493,7 @@ export function FormRenderer({ template, onSubmit, initialData = {} }: FormRende
                 {...register(field.id)}
               />
               <span className="text-sm text-gray-700">
-                {field.label} {field.required && '*'}
+                {field.label} {isRequired(field) && '*'}
               </span>
             </label>
             {field.description && (
@@ -419,7 +514,7 @@ export function FormRenderer({ template, onSubmit, initialData = {} }: FormRende
               <div>
                 <div className="flex items-center justify-between">
                   <span className="text-sm font-medium text-gray-700">
-                    {field.label} {field.required && '*'}
+                    {field.label} {isRequired(field) && '*'}
                   </span>
                   <button
                     type="button"
@@ -454,7 +549,7 @@ export function FormRenderer({ template, onSubmit, initialData = {} }: FormRende
             render={({ field: controllerField }) => (
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  {field.label} {field.required && '*'}
+                  {field.label} {isRequired(field) && '*'}
                 </label>
                 <div className="flex space-x-1">
                   {[1, 2, 3, 4, 5].map((star) => (
@@ -484,34 +579,100 @@ export function FormRenderer({ template, onSubmit, initialData = {} }: FormRende
       case 'file':
       case 'image':
         return (
-          <div key={field.id}>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              {field.label} {field.required && '*'}
-            </label>
-            <div className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-center hover:border-gray-400 transition-colors">
-              <Upload className="w-8 h-8 text-gray-400 mx-auto mb-2" />
-              <p className="text-sm text-gray-600 mb-2">
-                {field.type === 'image' ? 'Upload an image' : 'Upload a file'}
-              </p>
-              <input
-                type="file"
-                accept={field.type === 'image' ? 'image/*' : '*/*'}
-                className="hidden"
-                id={field.id}
-                {...register(field.id)}
-              />
-              <label
-                htmlFor={field.id}
-                className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 cursor-pointer"
-              >
-                Choose File
-              </label>
-            </div>
-            {field.description && (
-              <p className="text-xs text-gray-500 mt-1">{field.description}</p>
+          <Controller
+            key={field.id}
+            name={field.id}
+            control={control}
+            defaultValue={[]}
+            render={({ field: controllerField }) => (
+              <div>
+                <label htmlFor={field.id} className="block text-sm font-medium text-gray-700 mb-2">
+                  {field.label} {isRequired(field) && '*'}
+                </label>
+                <FileUploadField
+                  id={field.id}
+                  settings={FormUploads.settings(field)}
+                  value={Array.isArray(controllerField.value) ? controllerField.value : []}
+                  onChange={controllerField.onChange}
+                  image={field.type === 'image'}
+                  disabled={preview}
+                />
+                {field.description && (
+                  <p className="text-xs text-gray-500 mt-1">{field.description}</p>
+                )}
+                {error && <p className="text-sm text-red-600 mt-1">{error}</p>}
+              </div>
             )}
-            {error && <p className="text-sm text-red-600 mt-1">{error}</p>}
-          </div>
+          />
+        )
+
+      case 'address': {
+        const addressErrors = errors[field.id] as Partial<Record<keyof SAAddress, { message?: string }>> | undefined
+        return (
+          <Controller
+            key={field.id}
+            name={field.id}
+            control={control}
+            render={({ field: controllerField }) => (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  {field.label} {isRequired(field) && '*'}
+                </label>
+                <AddressFields
+                  value={SAAddresses.normalise(controllerField.value)}
+                  onChange={controllerField.onChange}
+                  required={isRequired(field)}
+                  errors={Object.fromEntries(
+                    Object.entries(addressErrors || {}).map(([part, partError]) => [part, partError?.message])
+                  )}
+                />
+                {field.description && (
+                  <p className="text-xs text-gray-500 mt-1">{field.description}</p>
+                )}
+              </div>
+            )}
+          />
+        )
+      }
+
+      case 'signature':
+        return (
+          <Controller
+            key={field.id}
+            name={field.id}
+            control={control}
+            defaultValue=""
+            render={({ field: controllerField }) => (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  {field.label} {isRequired(field) && '*'}
+                </label>
+                {FormSignatures.isRecord(controllerField.value) ? (
+                  <div className="space-y-2">
+                    <SignatureRecordView record={controllerField.value} />
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => controllerField.onChange('')}
+                    >
+                      Sign again
+                    </Button>
+                  </div>
+                ) : (
+                  <SignaturePad
+                    value={controllerField.value}
+                    onChange={controllerField.onChange}
+                    error={error}
+                  />
+                )}
+                {field.description && (
+                  <p className="text-xs text-gray-500 mt-1">{field.description}</p>
+                )}
+                {error && <p className="text-sm text-red-600 mt-1">{error}</p>}
+              </div>
+            )}
+          />
         )
 
       case 'heading':
@@ -531,6 +692,17 @@ export function FormRenderer({ template, onSubmit, initialData = {} }: FormRende
       case 'divider':
         return <hr key={field.id} className="border-gray-200 my-6" />
 
+      // Only reached when the form isn't paged
+      case 'pageBreak':
+        return (
+          <div key={field.id} className="pt-4 border-t border-gray-200">
+            <h3 className="text-lg font-semibold text-gray-900">{field.label}</h3>
+            {field.description && (
+              <p className="text-sm text-gray-600 mt-1">{field.description}</p>
+            )}
+          </div>
+        )
+
       default:
         return (
           <Input
@@ -545,16 +717,40 @@ export function FormRenderer({ template, onSubmit, initialData = {} }: FormRende
     }
   }
 
+  const visibleFields = (isPaged ? page.fields : template.fields)
+    .filter(field => FormLogic.isActive(logicState, field.id))
+
   return (
     <div className="max-w-4xl mx-auto p-6">
+      {isPaged && template.settings?.progressBar !== false && (
+        <div className="mb-8">
+          <ProgressBar
+            currentStep={activePages.indexOf(pageIndex) + 1}
+            totalSteps={activePages.length}
+            steps={activePages.map((index, position) => ({
+              id: position + 1,
+              title: pages[index].title,
+              description: pages[index].description || '',
+              icon: FileText
+            }))}
+          />
+        </div>
+      )}
+
       <Card>
         <CardHeader
-          title={template.name}
-          description={template.description}
+          title={isPaged ? page.title : template.name}
+          description={isPaged
+            ? page.description || `Page ${activePages.indexOf(pageIndex) + 1} of ${activePages.length}`
+            : template.description}
         />
         <CardContent>
-          <form onSubmit={handleSubmit(handleFormSubmit)} className="space-y-6">
-            {groupFieldsIntoRows(template.fields).map((row, rowIndex) => (
+          {/* Enter on an earlier page moves on rather than submitting */}
+          <form
+            onSubmit={isLastPage ? handleSubmit(handleFormSubmit) : (e) => { e.preventDefault(); nextPage() }}
+            className="space-y-6"
+          >
+            {groupFieldsIntoRows(visibleFields).map((row, rowIndex) => (
               <div key={rowIndex} className="flex gap-4">
                 {row.map((field) => (
                   <div key={field.id} className={getWidthClass(field.layout?.width || 'full')}>
@@ -564,15 +760,60 @@ export function FormRenderer({ template, onSubmit, initialData = {} }: FormRende
               </div>
             ))}
             
-            <div className="flex justify-end pt-6 border-t border-gray-100">
-              <Button
-                type="submit"
-                variant="primary"
-                loading={isSubmitting}
-                size="lg"
-              >
-                Submit Form
-              </Button>
+            <div className="flex items-center justify-between pt-6 border-t border-gray-100">
+              <div className="flex items-center space-x-2">
+                {isPaged && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={prevPage}
+                    disabled={FormPages.previous(pages, logicState, pageIndex) === null}
+                    icon={ArrowLeft}
+                    iconPosition="left"
+                  >
+                    Previous
+                  </Button>
+                )}
+                {canSaveProgress && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    onClick={() => saveProgress(pageIndex, completedPages)}
+                    loading={isSaving}
+                    icon={Save}
+                  >
+                    Save and continue later
+                  </Button>
+                )}
+                {lastSaved && !isSaving && (
+                  <span className="flex items-center space-x-1 text-sm text-gray-500">
+                    <Clock className="w-4 h-4" />
+                    <span>Saved {lastSaved.toLocaleTimeString()}</span>
+                  </span>
+                )}
+              </div>
+
+              {isLastPage ? (
+                <Button
+                  type="submit"
+                  variant="primary"
+                  loading={isSubmitting}
+                  size="lg"
+                >
+                  Submit Form
+                </Button>
+              ) : (
+                <Button
+                  type="button"
+                  variant="primary"
+                  onClick={nextPage}
+                  size="lg"
+                  icon={ArrowRight}
+                  iconPosition="right"
+                >
+                  Next Page
+                </Button>
+              )}
             </div>
           </form>
         </CardContent>
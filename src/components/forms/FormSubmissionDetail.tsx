@@ -0,0 +1,168 @@
+import { useState } from 'react'
+import { ArrowLeft, CheckCircle, Download, FileText, AlertCircle } from 'lucide-react'
+import { Card, CardHeader, CardContent } from '../ui/Card'
+import { Button } from '../ui/Button'
+import { FormTemplate, FormField } from './FormBuilder'
+import { SignatureRecordView } from './SignatureRecordView'
+import {
+  FormSubmission,
+  FormSubmissions,
+  FORM_SUBMISSION_STATUS_LABELS
+} from '../../lib/formSubmissions'
+import { FormSignatures } from '../../lib/formSignatures'
+import { FormUploads, StoredUpload } from '../../lib/formUploads'
+import { ScanStorage } from '../../lib/scanStorage'
+import { formatSADateTime } from '../../lib/utils'
+
+interface FormSubmissionDetailProps {
+  template: FormTemplate
+  submission: FormSubmission
+  onBack: () => void
+  onReviewed: (submission: FormSubmission) => void
+}
+
+export function FormSubmissionDetail({ template, submission, onBack, onReviewed }: FormSubmissionDetailProps) {
+  const [reviewing, setReviewing] = useState(false)
+  const answerFields = FormSubmissions.answerFields(template.fields)
+  const outdated = submission.template_version !== (template.version || 1)
+
+  const markReviewed = async () => {
+    setReviewing(true)
+    try {
+      await FormSubmissions.setStatus(submission.id, 'reviewed')
+      onReviewed({ ...submission, status: 'reviewed' })
+    } catch (error) {
+      console.error('Error marking submission as reviewed:', error)
+      alert('Error updating submission. Please try again.')
+    } finally {
+      setReviewing(false)
+    }
+  }
+
+  const downloadUpload = async (upload: StoredUpload) => {
+    try {
+      window.open(await FormUploads.createUrl(upload, true), '_blank')
+    } catch (error) {
+      console.error('Error downloading upload:', error)
+      alert('Error downloading file. Please try again.')
+    }
+  }
+
+  const renderAnswer = (field: FormField) => {
+    const value = submission.answers[field.id]
+
+    if (field.type === 'signature' && FormSignatures.isRecord(value)) {
+      return (
+        <SignatureRecordView
+          record={value}
+          templateId={template.id}
+          fieldId={field.id}
+          signerId={submission.respondent_id}
+          answers={submission.answers}
+        />
+      )
+    }
+
+    if ((field.type === 'file' || field.type === 'image') && Array.isArray(value) && value.length > 0) {
+      return (
+        <ul className="space-y-2">
+          {(value as StoredUpload[]).map(upload => (
+            <li key={upload.path} className="flex items-center space-x-3">
+              <FileText className="w-4 h-4 text-gray-400" />
+              <span className="text-sm text-gray-900">{upload.name}</span>
+              <span className="text-xs text-gray-500">{ScanStorage.formatSize(upload.size)}</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                icon={Download}
+                onClick={() => downloadUpload(upload)}
+              >
+                Download
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )
+    }
+
+    const text = FormSubmissions.answerText(field, value)
+    return text
+      ? <p className="text-sm text-gray-900 whitespace-pre-wrap">{text}</p>
+      : <p className="text-sm text-gray-400">No answer</p>
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <Button variant="outline" icon={ArrowLeft} onClick={onBack}>
+          Back to Submissions
+        </Button>
+        {submission.status === 'submitted' && (
+          <Button
+            variant="primary"
+            icon={CheckCircle}
+            loading={reviewing}
+            onClick={markReviewed}
+          >
+            Mark as Reviewed
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader
+          title={FormSubmissions.respondentName(submission)}
+          description={submission.respondent?.email}
+          action={
+            <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-wellness-sage-100 text-wellness-sage-700">
+              {FORM_SUBMISSION_STATUS_LABELS[submission.status]}
+            </span>
+          }
+        />
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+            <div>
+              <p className="text-gray-500">Submitted</p>
+              <p className="text-gray-900">
+                {submission.submitted_at ? formatSADateTime(submission.submitted_at) : 'Not yet submitted'}
+              </p>
+            </div>
+            <div>
+              <p className="text-gray-500">Last updated</p>
+              <p className="text-gray-900">{formatSADateTime(submission.updated_at)}</p>
+            </div>
+            <div>
+              <p className="text-gray-500">Form version</p>
+              <p className="text-gray-900">{submission.template_version}</p>
+            </div>
+          </div>
+
+          {outdated && (
+            <div className="flex items-start space-x-2 mt-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+              <AlertCircle className="w-4 h-4 text-yellow-600 mt-0.5 flex-shrink-0" />
+              <p className="text-sm text-yellow-800">
+                This was answered on version {submission.template_version} of the form. The questions
+                below are from version {template.version || 1}, so some answers may be missing.
+                Signatures are still checked against the questions as they were signed.
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader title="Answers" />
+        <CardContent>
+          <dl className="divide-y divide-gray-100">
+            {answerFields.map(field => (
+              <div key={field.id} className="py-3 grid grid-cols-1 md:grid-cols-3 gap-2">
+                <dt className="text-sm font-medium text-gray-700">{field.label}</dt>
+                <dd className="md:col-span-2">{renderAnswer(field)}</dd>
+              </div>
+            ))}
+          </dl>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
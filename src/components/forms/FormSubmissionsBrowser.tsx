@@ -0,0 +1,219 @@
+import { useState, useEffect, useCallback } from 'react'
+import { ArrowLeft, Search, Download, Eye, Inbox } from 'lucide-react'
+import { Card, CardHeader, CardContent } from '../ui/Card'
+import { Button } from '../ui/Button'
+import { Input } from '../ui/Input'
+import { FormTemplate } from './FormBuilder'
+import { FormSubmissionDetail } from './FormSubmissionDetail'
+import {
+  FormSubmission,
+  FormSubmissionFilters,
+  FormSubmissionExportFormat,
+  FormSubmissions,
+  FORM_SUBMISSION_STATUS_LABELS
+} from '../../lib/formSubmissions'
+import { formatSADateTime } from '../../lib/utils'
+
+interface FormSubmissionsBrowserProps {
+  template: FormTemplate
+  onBack: () => void
+}
+
+const STATUS_STYLES: Record<FormSubmission['status'], string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  submitted: 'bg-blue-100 text-blue-700',
+  reviewed: 'bg-wellness-sage-100 text-wellness-sage-700'
+}
+
+const EMPTY_FILTERS: FormSubmissionFilters = { search: '', status: 'all', from: '', to: '' }
+
+export function FormSubmissionsBrowser({ template, onBack }: FormSubmissionsBrowserProps) {
+  const [submissions, setSubmissions] = useState<FormSubmission[]>([])
+  const [loading, setLoading] = useState(true)
+  const [filters, setFilters] = useState<FormSubmissionFilters>(EMPTY_FILTERS)
+  const [selected, setSelected] = useState<FormSubmission | null>(null)
+
+  const loadSubmissions = useCallback(async () => {
+    try {
+      setSubmissions(await FormSubmissions.list(template.id))
+    } catch (error) {
+      console.error('Error fetching form submissions:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [template.id])
+
+  useEffect(() => {
+    loadSubmissions()
+  }, [loadSubmissions])
+
+  const filteredSubmissions = FormSubmissions.filter(submissions, template.fields, filters)
+  const filtered = filters.search || filters.status !== 'all' || filters.from || filters.to
+
+  const exportSubmissions = (format: FormSubmissionExportFormat) => {
+    try {
+      FormSubmissions.export(template, filteredSubmissions, format)
+    } catch (error) {
+      console.error('Error exporting submissions:', error)
+      alert('Error exporting submissions. Please try again.')
+    }
+  }
+
+  if (selected) {
+    return (
+      <FormSubmissionDetail
+        template={template}
+        submission={selected}
+        onBack={() => setSelected(null)}
+        onReviewed={(submission) => {
+          setSelected(submission)
+          setSubmissions(current => current.map(item => item.id === submission.id ? submission : item))
+        }}
+      />
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">{template.name}</h1>
+          <p className="text-gray-600 mt-1">Submissions</p>
+        </div>
+        <div className="flex items-center space-x-3">
+          <Button
+            variant="outline"
+            icon={Download}
+            onClick={() => exportSubmissions('csv')}
+            disabled={filteredSubmissions.length === 0}
+          >
+            Export CSV
+          </Button>
+          <Button
+            variant="outline"
+            icon={Download}
+            onClick={() => exportSubmissions('xlsx')}
+            disabled={filteredSubmissions.length === 0}
+          >
+            Export Excel
+          </Button>
+          <Button variant="outline" icon={ArrowLeft} onClick={onBack}>
+            Back to Templates
+          </Button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <Input
+              placeholder="Search respondents and answers..."
+              icon={Search}
+              value={filters.search}
+              onChange={(e) => setFilters({ ...filters, search: e.target.value })}
+            />
+            <select
+              value={filters.status}
+              onChange={(e) => setFilters({ ...filters, status: e.target.value as FormSubmissionFilters['status'] })}
+              className="wellness-input"
+            >
+              <option value="all">All statuses</option>
+              {Object.entries(FORM_SUBMISSION_STATUS_LABELS).map(([status, label]) => (
+                <option key={status} value={status}>{label}</option>
+              ))}
+            </select>
+            <Input
+              type="date"
+              value={filters.from}
+              onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+              title="From"
+            />
+            <Input
+              type="date"
+              value={filters.to}
+              onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+              title="To"
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="w-8 h-8 border-4 border-wellness-sage-200 border-t-wellness-sage-600 rounded-full animate-spin"></div>
+        </div>
+      ) : filteredSubmissions.length === 0 ? (
+        <Card>
+          <CardContent>
+            <div className="text-center py-12">
+              <Inbox className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No submissions found</h3>
+              <p className="text-gray-600 mb-4">
+                {filtered
+                  ? 'Try adjusting your filters.'
+                  : 'Answers will appear here once people complete this form.'
+                }
+              </p>
+              {filtered && (
+                <Button variant="outline" onClick={() => setFilters(EMPTY_FILTERS)}>
+                  Clear Filters
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardHeader
+            title={`${filteredSubmissions.length} of ${submissions.length} submissions`}
+          />
+          <CardContent>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead>
+                  <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    <th className="py-3 pr-4">Respondent</th>
+                    <th className="py-3 pr-4">Status</th>
+                    <th className="py-3 pr-4">Submitted</th>
+                    <th className="py-3 pr-4">Version</th>
+                    <th className="py-3"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {filteredSubmissions.map(submission => (
+                    <tr key={submission.id} className="hover:bg-gray-50">
+                      <td className="py-3 pr-4">
+                        <p className="text-sm font-medium text-gray-900">{FormSubmissions.respondentName(submission)}</p>
+                        <p className="text-xs text-gray-500">{submission.respondent?.email}</p>
+                      </td>
+                      <td className="py-3 pr-4">
+                        <span className={`inline-flex px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[submission.status]}`}>
+                          {FORM_SUBMISSION_STATUS_LABELS[submission.status]}
+                        </span>
+                      </td>
+                      <td className="py-3 pr-4 text-sm text-gray-600">
+                        {submission.submitted_at ? formatSADateTime(submission.submitted_at) : '—'}
+                      </td>
+                      <td className="py-3 pr-4 text-sm text-gray-600">{submission.template_version}</td>
+                      <td className="py-3 text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          icon={Eye}
+                          onClick={() => setSelected(submission)}
+                        >
+                          View
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -16,7 +16,8 @@ import {
   Settings,
   UserPlus,
   CheckCircle,
-  AlertCircle
+  AlertCircle,
+  Inbox
 } from 'lucide-react'
 import { Card, CardHeader, CardContent } from '../ui/Card'
 import { Button } from '../ui/Button'
@@ -24,6 +25,7 @@ import { Input } from '../ui/Input'
 import { FormBuilder, FormTemplate } from './FormBuilder'
 import { FormRenderer } from './FormRenderer'
 import { ImportWizard } from './ImportWizard'
+import { FormSubmissionsBrowser } from './FormSubmissionsBrowser'
 import { supabase } from '../../lib/supabase'
 import { useAuth } from '../../hooks/useAuth'
 import { formatSADate } from '../../lib/utils'
@@ -43,6 +45,7 @@ export function FormTemplateManager() {
   const [showImportWizard, setShowImportWizard] = useState(false)
   const [selectedTemplate, setSelectedTemplate] = useState<FormTemplate | null>(null)
   const [editingTemplate, setEditingTemplate] = useState<FormTemplate | null>(null)
+  const [submissionsTemplate, setSubmissionsTemplate] = useState<FormTemplate | null>(null)
   const [onboardingSettings, setOnboardingSettings] = useState<OnboardingSettings>({ template_id: null, enabled: false })
   const [showOnboardingSettings, setShowOnboardingSettings] = useState(false)
   const [importError, setImportError] = useState<string | null>(null)
@@ -193,7 +196,10 @@ export function FormTemplateManager() {
       setImportSuccess('Form template deleted successfully!')
     } catch (error) {
       console.error('Error deleting template:', error)
-      setImportError('Error deleting template. Please try again.')
+      // Submissions keep their template
+      setImportError((error as { code?: string })?.code === '23503'
+        ? 'This template has submissions and can\'t be deleted.'
+        : 'Error deleting template. Please try again.')
     }
   }
 
@@ -265,6 +271,15 @@ export function FormTemplateManager() {
     )
   }
 
+  if (submissionsTemplate) {
+    return (
+      <FormSubmissionsBrowser
+        template={submissionsTemplate}
+        onBack={() => setSubmissionsTemplate(null)}
+      />
+    )
+  }
+
   if (showPreview && selectedTemplate) {
     return (
       <div className="h-screen flex flex-col">
@@ -286,6 +301,7 @@ export function FormTemplateManager() {
         <div className="flex-1 overflow-y-auto">
           <FormRenderer
             template={selectedTemplate}
+            preview
             onSubmit={(data) => {
               console.log('Form submitted:', data)
               setImportSuccess('Form submitted successfully!')
@@ -468,8 +484,8 @@ export function FormTemplateManager() {
                   <ul className="text-sm text-blue-800 space-y-1">
                     <li>• New customers will see the selected form after registration</li>
                     <li>• Form completion is required before accessing the dashboard</li>
-                    <li>• Submitted data is stored in the client onboarding records</li>
-                    <li>• You can view and manage submissions in the Client Management section</li>
+                    <li>• Answers are saved as submissions of the selected form</li>
+                    <li>• You can view and export submissions from the form's Submissions page</li>
                   </ul>
                 </div>
 
@@ -572,6 +588,13 @@ export function FormTemplateManager() {
                     >
                       Edit
                     </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      icon={Inbox}
+                      onClick={() => setSubmissionsTemplate(template)}
+                      title="Submissions"
+                    />
                     <Button
                       variant="ghost"
                       size="sm"
@@ -172,6 +172,7 @@ export function ImportWizard({ onImportComplete, onCancel }: ImportWizardProps)
         <div className="flex-1 overflow-y-auto">
           <FormRenderer
             template={previewTemplate}
+            preview
             onSubmit={(data) => {
               console.log('Preview form submitted:', data)
             }}
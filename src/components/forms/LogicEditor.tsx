@@ -0,0 +1,282 @@
+import { Plus, Trash2, AlertCircle, GitBranch } from 'lucide-react'
+import { Button } from '../ui/Button'
+import {
+  FormLogic,
+  LogicAction,
+  LogicCondition,
+  LogicField,
+  LogicGroup,
+  LogicMatch,
+  LogicOperator,
+  LogicRule,
+  LOGIC_ACTION_LABELS,
+  LOGIC_OPERATOR_LABELS,
+  NON_INPUT_FIELD_TYPES,
+  VALUELESS_OPERATORS
+} from '../../lib/formLogic'
+import { FormPages, PAGE_BREAK_TYPE } from '../../lib/formPages'
+
+interface LogicEditorProps {
+  field: LogicField
+  fields: Array<LogicField & { options?: string[] }>
+  rules: LogicRule[]
+  onChange: (rules: LogicRule[]) => void
+}
+
+export function LogicEditor({ field, fields, rules, onChange }: LogicEditorProps) {
+  const position = fields.findIndex(candidate => candidate.id === field.id)
+  const sources = fields.filter(candidate => candidate.id !== field.id && !NON_INPUT_FIELD_TYPES.includes(candidate.type))
+  // Paged forms skip to the start of a later page; others to any later field
+  const laterFields = fields.slice(position + 2)
+  const skipTargets = FormPages.hasPageBreaks(fields)
+    ? laterFields.filter(candidate => candidate.type === PAGE_BREAK_TYPE)
+    : laterFields
+
+  // Issues for this field, checked against the rest of the form as it would be saved
+  const issues = FormLogic.validate(fields.map(candidate => candidate.id === field.id ? { ...candidate, logic: rules } : candidate))
+    .filter(issue => issue.fieldId === field.id)
+
+  const updateRule = (ruleId: string, changes: Partial<LogicRule>) => {
+    onChange(rules.map(rule => rule.id === ruleId ? { ...rule, ...changes } : rule))
+  }
+
+  const updateGroup = (rule: LogicRule, groupId: string, changes: Partial<LogicGroup>) => {
+    updateRule(rule.id, { groups: rule.groups.map(group => group.id === groupId ? { ...group, ...changes } : group) })
+  }
+
+  const updateCondition = (rule: LogicRule, group: LogicGroup, conditionId: string, changes: Partial<LogicCondition>) => {
+    updateGroup(rule, group.id, {
+      conditions: group.conditions.map(condition => condition.id === conditionId ? { ...condition, ...changes } : condition)
+    })
+  }
+
+  const removeGroup = (rule: LogicRule, groupId: string) => {
+    updateRule(rule.id, { groups: rule.groups.filter(group => group.id !== groupId) })
+  }
+
+  const removeCondition = (rule: LogicRule, group: LogicGroup, conditionId: string) => {
+    const conditions = group.conditions.filter(condition => condition.id !== conditionId)
+    if (conditions.length === 0) {
+      removeGroup(rule, group.id)
+    } else {
+      updateGroup(rule, group.id, { conditions })
+    }
+  }
+
+  // New conditions start on the nearest question above this field
+  const earlier = sources.filter(candidate => fields.indexOf(candidate) < position)
+  const defaultSource = (earlier[earlier.length - 1] || sources[0])?.id || ''
+
+  // Choice fields offer their options; checkboxes and toggles are true or false
+  const renderValueInput = (rule: LogicRule, group: LogicGroup, condition: LogicCondition) => {
+    if (VALUELESS_OPERATORS.includes(condition.operator)) return null
+
+    const source = fields.find(candidate => candidate.id === condition.fieldId)
+    const isBoolean = ['checkbox', 'toggle'].includes(source?.type || '')
+    const choices = isBoolean ? ['true', 'false'] : source?.options
+
+    if (choices?.length) {
+      return (
+        <select
+          value={condition.value || ''}
+          onChange={(e) => updateCondition(rule, group, condition.id, { value: e.target.value })}
+          className="wellness-input flex-1"
+        >
+          <option value="">Select a value</option>
+          {choices.map(choice => (
+            <option key={choice} value={choice}>
+              {isBoolean ? (choice === 'true' ? 'Checked' : 'Not checked') : choice}
+            </option>
+          ))}
+        </select>
+      )
+    }
+
+    return (
+      <input
+        type={['number', 'rating'].includes(source?.type || '') ? 'number' : source?.type === 'date' ? 'date' : 'text'}
+        value={condition.value || ''}
+        onChange={(e) => updateCondition(rule, group, condition.id, { value: e.target.value })}
+        className="wellness-input flex-1"
+        placeholder="Value"
+      />
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h4 className="text-sm font-medium text-gray-700">Conditional Logic</h4>
+          <p className="text-xs text-gray-500">Show, hide, require or skip past fields based on earlier answers</p>
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          icon={Plus}
+          onClick={() => onChange([...rules, FormLogic.newRule(defaultSource)])}
+          disabled={sources.length === 0}
+        >
+          Add Rule
+        </Button>
+      </div>
+
+      {sources.length === 0 && (
+        <p className="text-xs text-gray-500">Add another question to the form to create rules.</p>
+      )}
+
+      {issues.length > 0 && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg space-y-1">
+          {issues.map((issue, index) => (
+            <div key={index} className="flex items-center space-x-2">
+              <AlertCircle className="w-4 h-4 text-red-600 flex-shrink-0" />
+              <p className="text-sm text-red-700">{issue.message}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {rules.map(rule => (
+        <div key={rule.id} className="p-4 border border-gray-200 rounded-lg space-y-3 bg-gray-50">
+          <div className="flex items-center gap-2">
+            <GitBranch className="w-4 h-4 text-wellness-sage-600 flex-shrink-0" />
+            <select
+              value={rule.action}
+              onChange={(e) => updateRule(rule.id, { action: e.target.value as LogicAction })}
+              className="wellness-input flex-1"
+            >
+              {(Object.keys(LOGIC_ACTION_LABELS) as LogicAction[]).map(action => (
+                <option key={action} value={action}>{LOGIC_ACTION_LABELS[action]}</option>
+              ))}
+            </select>
+            {rule.action === 'skip_to_page' && (
+              <select
+                value={rule.targetId || ''}
+                onChange={(e) => updateRule(rule.id, { targetId: e.target.value || undefined })}
+                className="wellness-input flex-1"
+              >
+                <option value="">Select where to continue</option>
+                {skipTargets.map(target => (
+                  <option key={target.id} value={target.id}>{target.label}</option>
+                ))}
+              </select>
+            )}
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              icon={Trash2}
+              onClick={() => onChange(rules.filter(candidate => candidate.id !== rule.id))}
+              className="text-red-600 hover:text-red-700"
+            />
+          </div>
+
+          <div className="flex items-center space-x-2 text-sm text-gray-600">
+            <span>when</span>
+            <select
+              value={rule.match}
+              onChange={(e) => updateRule(rule.id, { match: e.target.value as LogicMatch })}
+              className="wellness-input w-24"
+            >
+              <option value="all">all</option>
+              <option value="any">any</option>
+            </select>
+            <span>of these groups match</span>
+          </div>
+
+          {rule.groups.map((group, groupIndex) => (
+            <div key={group.id} className="space-y-2">
+              {groupIndex > 0 && (
+                <p className="text-xs font-medium text-gray-500 uppercase">{rule.match === 'all' ? 'and' : 'or'}</p>
+              )}
+              <div className="p-3 bg-white border border-gray-200 rounded-lg space-y-2">
+                <div className="flex items-center justify-between text-sm text-gray-600">
+                  <div className="flex items-center space-x-2">
+                    <select
+                      value={group.match}
+                      onChange={(e) => updateGroup(rule, group.id, { match: e.target.value as LogicMatch })}
+                      className="wellness-input w-24"
+                    >
+                      <option value="all">All</option>
+                      <option value="any">Any</option>
+                    </select>
+                    <span>of the following</span>
+                  </div>
+                  {rule.groups.length > 1 && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      icon={Trash2}
+                      onClick={() => removeGroup(rule, group.id)}
+                      className="text-red-600 hover:text-red-700"
+                    />
+                  )}
+                </div>
+
+                {group.conditions.map(condition => (
+                  <div key={condition.id} className="flex items-center gap-2">
+                    <select
+                      value={condition.fieldId}
+                      onChange={(e) => updateCondition(rule, group, condition.id, { fieldId: e.target.value, value: '' })}
+                      className="wellness-input flex-1"
+                    >
+                      {!sources.some(source => source.id === condition.fieldId) && (
+                        <option value={condition.fieldId}>Deleted field</option>
+                      )}
+                      {sources.map(source => (
+                        <option key={source.id} value={source.id}>{source.label}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={condition.operator}
+                      onChange={(e) => updateCondition(rule, group, condition.id, { operator: e.target.value as LogicOperator })}
+                      className="wellness-input flex-1"
+                    >
+                      {(Object.keys(LOGIC_OPERATOR_LABELS) as LogicOperator[]).map(operator => (
+                        <option key={operator} value={operator}>{LOGIC_OPERATOR_LABELS[operator]}</option>
+                      ))}
+                    </select>
+                    {renderValueInput(rule, group, condition)}
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      icon={Trash2}
+                      onClick={() => removeCondition(rule, group, condition.id)}
+                      className="text-red-600 hover:text-red-700"
+                    />
+                  </div>
+                ))}
+
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  icon={Plus}
+                  onClick={() => updateGroup(rule, group.id, { conditions: [...group.conditions, FormLogic.newCondition(defaultSource)] })}
+                >
+                  Add Condition
+                </Button>
+              </div>
+            </div>
+          ))}
+
+          <div className="flex items-center justify-between">
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              icon={Plus}
+              onClick={() => updateRule(rule.id, { groups: [...rule.groups, FormLogic.newGroup(defaultSource)] })}
+            >
+              Add Group
+            </Button>
+            <p className="text-xs text-gray-500 text-right">{FormLogic.describe(rule, fields)}</p>
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,132 @@
+import { useEffect, useRef, useState } from 'react'
+import type { PointerEvent as ReactPointerEvent } from 'react'
+import { Eraser } from 'lucide-react'
+import { Button } from '../ui/Button'
+import { cn } from '../../lib/utils'
+
+interface SignaturePadProps {
+  // PNG data URL of the drawing, or empty
+  value?: string
+  onChange: (value: string) => void
+  error?: string
+  height?: number
+}
+
+// Draws with a mouse, finger or pen; pen strokes follow the pen's pressure
+export function SignaturePad({ value, onChange, error, height = 160 }: SignaturePadProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const lastPoint = useRef<{ x: number; y: number } | null>(null)
+  const initialValue = useRef(value)
+  const [isEmpty, setIsEmpty] = useState(!value)
+
+  // Match the canvas to the screen's pixel density and redraw a saved drawing
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const context = canvas?.getContext('2d')
+    if (!canvas || !context) return
+
+    const ratio = window.devicePixelRatio || 1
+    canvas.width = canvas.offsetWidth * ratio
+    canvas.height = height * ratio
+    context.scale(ratio, ratio)
+    context.lineCap = 'round'
+    context.lineJoin = 'round'
+    context.strokeStyle = '#1f2937'
+    context.fillStyle = '#1f2937'
+
+    if (initialValue.current) {
+      const image = new Image()
+      image.onload = () => context.drawImage(image, 0, 0, canvas.offsetWidth, height)
+      image.src = initialValue.current
+    }
+  }, [height])
+
+  const pointFor = (e: ReactPointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top }
+  }
+
+  const lineWidthFor = (e: ReactPointerEvent<HTMLCanvasElement>) =>
+    e.pointerType === 'pen' && e.pressure > 0 ? 1 + e.pressure * 3 : 2.5
+
+  const startStroke = (e: ReactPointerEvent<HTMLCanvasElement>) => {
+    const context = e.currentTarget.getContext('2d')
+    if (!context) return
+
+    e.currentTarget.setPointerCapture(e.pointerId)
+    const point = pointFor(e)
+    lastPoint.current = point
+
+    // A tap leaves a dot
+    context.beginPath()
+    context.arc(point.x, point.y, lineWidthFor(e) / 2, 0, Math.PI * 2)
+    context.fill()
+  }
+
+  const continueStroke = (e: ReactPointerEvent<HTMLCanvasElement>) => {
+    const context = e.currentTarget.getContext('2d')
+    if (!lastPoint.current || !context) return
+
+    const point = pointFor(e)
+    context.lineWidth = lineWidthFor(e)
+    context.beginPath()
+    context.moveTo(lastPoint.current.x, lastPoint.current.y)
+    context.lineTo(point.x, point.y)
+    context.stroke()
+    lastPoint.current = point
+  }
+
+  const endStroke = (e: ReactPointerEvent<HTMLCanvasElement>) => {
+    if (!lastPoint.current) return
+
+    lastPoint.current = null
+    setIsEmpty(false)
+    onChange(e.currentTarget.toDataURL('image/png'))
+  }
+
+  const clear = () => {
+    const canvas = canvasRef.current
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height)
+    setIsEmpty(true)
+    onChange('')
+  }
+
+  return (
+    <div>
+      <div
+        className={cn(
+          'relative rounded-lg border-2 border-dashed bg-white',
+          error ? 'border-red-300' : 'border-gray-300'
+        )}
+      >
+        <canvas
+          ref={canvasRef}
+          className="w-full touch-none cursor-crosshair"
+          style={{ height }}
+          onPointerDown={startStroke}
+          onPointerMove={continueStroke}
+          onPointerUp={endStroke}
+          onPointerCancel={endStroke}
+        />
+        {isEmpty && (
+          <p className="absolute inset-0 flex items-center justify-center text-sm text-gray-400 pointer-events-none">
+            Sign here
+          </p>
+        )}
+        <div className="absolute left-6 right-6 bottom-8 border-b border-gray-200 pointer-events-none" />
+      </div>
+      <div className="flex justify-end mt-2">
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          icon={Eraser}
+          onClick={clear}
+          disabled={isEmpty}
+        >
+          Clear
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,60 @@
+import { useState, useEffect, useCallback } from 'react'
+import { ShieldCheck, ShieldAlert } from 'lucide-react'
+import { FormSignatures, SignatureRecord, SignatureStatus } from '../../lib/formSignatures'
+import { formatSADateTime } from '../../lib/utils'
+
+interface SignatureRecordViewProps {
+  record: SignatureRecord
+  // With these the signature is checked against the submission it belongs to
+  templateId?: string
+  fieldId?: string
+  signerId?: string
+  answers?: Record<string, unknown>
+}
+
+const STATUS_MESSAGES: Record<SignatureStatus, string> = {
+  valid: 'Signature matches the submitted answers',
+  content_changed: 'The answers have changed since this was signed',
+  image_changed: 'The signature image has been altered',
+  missing_image: 'The signature image could not be found',
+  unrecorded: 'This signature has no matching server record and can\'t be verified'
+}
+
+export function SignatureRecordView({ record, templateId, fieldId, signerId, answers }: SignatureRecordViewProps) {
+  const [imageUrl, setImageUrl] = useState<string | null>(null)
+  const [status, setStatus] = useState<SignatureStatus | null>(null)
+
+  const loadSignature = useCallback(async () => {
+    try {
+      setImageUrl(await FormSignatures.createImageUrl(record.path))
+      if (templateId && fieldId && signerId && answers) {
+        setStatus(await FormSignatures.verify({ templateId, fieldId, signerId }, answers, record))
+      }
+    } catch (error) {
+      console.error('Error loading signature:', error)
+    }
+  }, [record, templateId, fieldId, signerId, answers])
+
+  useEffect(() => {
+    loadSignature()
+  }, [loadSignature])
+
+  return (
+    <div className="space-y-2">
+      <div className="rounded-lg border border-gray-200 bg-white p-2 h-32 flex items-center justify-center">
+        {imageUrl ? (
+          <img src={imageUrl} alt="Signature" className="max-h-full" />
+        ) : (
+          <div className="w-6 h-6 border-4 border-wellness-sage-200 border-t-wellness-sage-600 rounded-full animate-spin"></div>
+        )}
+      </div>
+      <p className="text-xs text-gray-500">Signed {formatSADateTime(record.signed_at)}</p>
+      {status && (
+        <p className={`flex items-center space-x-1 text-xs ${status === 'valid' ? 'text-green-700' : 'text-red-600'}`}>
+          {status === 'valid' ? <ShieldCheck className="w-4 h-4" /> : <ShieldAlert className="w-4 h-4" />}
+          <span>{STATUS_MESSAGES[status]}</span>
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,127 @@
+import { useState, useEffect, useCallback } from 'react'
+import { FileText, Eye, AlertCircle } from 'lucide-react'
+import { Card, CardHeader, CardContent } from '../ui/Card'
+import { Button } from '../ui/Button'
+import { InvoiceDocument } from './InvoiceDocument'
+import {
+  Invoice,
+  InvoiceService,
+  INVOICE_STATUS_COLORS,
+  INVOICE_STATUS_LABELS
+} from '../../lib/invoicing'
+import { useAuth } from '../../hooks/useAuth'
+import { supabase } from '../../lib/supabase'
+import { formatSADate, formatZAR } from '../../lib/utils'
+
+export function ClientInvoices() {
+  const [invoices, setInvoices] = useState<Invoice[]>([])
+  const [viewing, setViewing] = useState<Invoice | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const { user } = useAuth()
+
+  const loadInvoices = useCallback(async () => {
+    if (!user) return
+
+    try {
+      setLoading(true)
+      const { data: clients, error } = await supabase
+        .from('clients')
+        .select('id')
+        .eq('profile_id', user.id)
+
+      if (error) throw error
+
+      const results = await Promise.all((clients || []).map(client => InvoiceService.fetchInvoices({ clientId: client.id })))
+      setInvoices(results.flat().filter(invoice => invoice.status !== 'void'))
+    } catch (error) {
+      console.error('Error loading invoices:', error)
+      setError('Error loading your invoices. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }, [user])
+
+  useEffect(() => {
+    loadInvoices()
+  }, [loadInvoices])
+
+  const outstanding = invoices.reduce((sum, invoice) => sum + InvoiceService.balance(invoice), 0)
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="w-8 h-8 border-4 border-wellness-sage-200 border-t-wellness-sage-600 rounded-full animate-spin"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">My Invoices</h1>
+        <p className="text-gray-600 mt-1">Tax invoices for your sessions and what's still due</p>
+      </div>
+
+      {error && (
+        <Card variant="minimal" className="border-red-200 bg-red-50">
+          <CardContent>
+            <div className="flex items-center space-x-3">
+              <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {outstanding > 0 && (
+        <Card variant="rose" padding="md">
+          <p className="text-sm text-gray-700">Outstanding balance</p>
+          <p className="text-2xl font-bold text-gray-900">{formatZAR(outstanding)}</p>
+          <p className="text-xs text-gray-600 mt-1">Banking details are on each invoice. Please use the invoice number as your reference.</p>
+        </Card>
+      )}
+
+      <Card hover={false}>
+        <CardHeader title="Invoices" description={`${invoices.length} invoice${invoices.length === 1 ? '' : 's'}`} />
+        <CardContent>
+          {invoices.length === 0 ? (
+            <div className="text-center py-8">
+              <FileText className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-600">You don't have any invoices yet.</p>
+            </div>
+          ) : (
+            <div className="divide-y divide-gray-100">
+              {invoices.map(invoice => (
+                <div key={invoice.id} className="flex items-center justify-between py-3">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">{invoice.invoice_number}</p>
+                    <p className="text-xs text-gray-500">
+                      {formatSADate(invoice.issue_date)} • {invoice.line_items.map(item => item.description).join(', ')}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-4">
+                    <div className="text-right">
+                      <p className="text-sm font-medium text-gray-900">{formatZAR(invoice.total)}</p>
+                      <span className={`px-2 py-0.5 text-xs font-medium rounded-full border ${INVOICE_STATUS_COLORS[invoice.status]}`}>
+                        {INVOICE_STATUS_LABELS[invoice.status]}
+                      </span>
+                    </div>
+                    <Button variant="ghost" size="sm" icon={Eye} onClick={() => setViewing(invoice)}>
+                      View
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {viewing && (
+        <InvoiceDocument invoice={viewing} onClose={() => setViewing(null)} />
+      )}
+    </div>
+  )
+}
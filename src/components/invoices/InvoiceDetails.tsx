@@ -0,0 +1,252 @@
+import { useState, useEffect, useCallback } from 'react'
+import { X, CreditCard, Eye, Ban, RotateCcw, AlertCircle } from 'lucide-react'
+import { Card, CardHeader, CardContent } from '../ui/Card'
+import { Button } from '../ui/Button'
+import { InvoiceDocument } from './InvoiceDocument'
+import { PaymentForm } from './PaymentForm'
+import {
+  Invoice,
+  InvoiceService,
+  Payment,
+  INVOICE_STATUS_COLORS,
+  INVOICE_STATUS_LABELS,
+  PAYMENT_STATUS_LABELS
+} from '../../lib/invoicing'
+import { PAYMENT_METHOD_LABELS, PAYMENT_PROCESSOR_LABELS } from '../../lib/paymentProcessors'
+import { formatSADate, formatSADateTime, formatZAR } from '../../lib/utils'
+
+interface InvoiceDetailsProps {
+  invoiceId: string
+  onClose: () => void
+  onChanged: (message: string) => void
+}
+
+export function InvoiceDetails({ invoiceId, onClose, onChanged }: InvoiceDetailsProps) {
+  const [invoice, setInvoice] = useState<Invoice | null>(null)
+  const [payments, setPayments] = useState<Payment[]>([])
+  const [showDocument, setShowDocument] = useState(false)
+  const [showPayment, setShowPayment] = useState(false)
+  const [refunding, setRefunding] = useState<Payment | null>(null)
+  const [confirmingVoid, setConfirmingVoid] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadInvoice = useCallback(async () => {
+    try {
+      const [invoiceData, paymentData] = await Promise.all([
+        InvoiceService.fetchInvoice(invoiceId),
+        InvoiceService.fetchPayments(invoiceId)
+      ])
+      setInvoice(invoiceData)
+      setPayments(paymentData)
+    } catch (error) {
+      console.error('Error loading invoice:', error)
+      setError('Error loading the invoice. Please try again.')
+    }
+  }, [invoiceId])
+
+  useEffect(() => {
+    loadInvoice()
+  }, [loadInvoice])
+
+  const handlePaymentSaved = (message: string) => {
+    setShowPayment(false)
+    setRefunding(null)
+    loadInvoice()
+    onChanged(message)
+  }
+
+  const voidInvoice = async () => {
+    if (!invoice) return
+
+    try {
+      setSaving(true)
+      setError(null)
+      await InvoiceService.void(invoice)
+      setConfirmingVoid(false)
+      loadInvoice()
+      onChanged(`Invoice ${invoice.invoice_number} voided.`)
+    } catch (error) {
+      console.error('Error voiding invoice:', error)
+      setError(InvoiceService.describeError(error))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (!invoice) {
+    return (
+      <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+        {error ? (
+          <Card className="w-full max-w-md" hover={false}>
+            <CardContent>
+              <p className="text-sm text-red-700 mb-4">{error}</p>
+              <Button variant="outline" onClick={onClose}>Close</Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="w-8 h-8 border-4 border-wellness-sage-200 border-t-wellness-sage-600 rounded-full animate-spin"></div>
+        )}
+      </div>
+    )
+  }
+
+  const balance = InvoiceService.balance(invoice)
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <Card className="w-full max-w-2xl max-h-[90vh] overflow-y-auto" hover={false}>
+        <CardHeader
+          title={invoice.invoice_number}
+          description={`${invoice.bill_to.name} • Issued ${formatSADate(invoice.issue_date)} • Due ${formatSADate(invoice.due_date)}`}
+          action={
+            <Button
+              variant="ghost"
+              size="sm"
+              icon={X}
+              onClick={onClose}
+            />
+          }
+        />
+        <CardContent>
+          <div className="space-y-6">
+            {error && (
+              <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg">
+                <AlertCircle className="w-4 h-4 text-red-600 flex-shrink-0" />
+                <p className="text-sm text-red-700">{error}</p>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              <div>
+                <p className="text-gray-500">Status</p>
+                <span className={`inline-block px-2 py-0.5 text-xs font-medium rounded-full border ${INVOICE_STATUS_COLORS[invoice.status]}`}>
+                  {INVOICE_STATUS_LABELS[invoice.status]}
+                </span>
+              </div>
+              <div>
+                <p className="text-gray-500">Total</p>
+                <p className="font-medium text-gray-900">{formatZAR(invoice.total)}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">Paid</p>
+                <p className="font-medium text-gray-900">{formatZAR(invoice.amount_paid)}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">Balance</p>
+                <p className="font-medium text-gray-900">{formatZAR(balance)}</p>
+              </div>
+            </div>
+
+            {/* Payments */}
+            <div>
+              <h4 className="text-sm font-medium text-gray-900 mb-2">Payments</h4>
+              {payments.length === 0 ? (
+                <p className="text-sm text-gray-500">No payments recorded yet.</p>
+              ) : (
+                <div className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                  {payments.map(payment => {
+                    const refundable = InvoiceService.refundable(payment, payments)
+                    return (
+                      <div key={payment.id} className="flex items-center justify-between p-3 text-sm">
+                        <div>
+                          <p className="font-medium text-gray-900">
+                            {payment.payment_type === 'refund' ? 'Refund ' : ''}
+                            {formatZAR(payment.payment_type === 'refund' ? -payment.amount : payment.amount)}
+                            <span className="ml-2 text-xs font-normal text-gray-500">{PAYMENT_STATUS_LABELS[payment.payment_status]}</span>
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {formatSADateTime(payment.processed_at || payment.created_at)}
+                            {payment.payment_method && ` • ${PAYMENT_METHOD_LABELS[payment.payment_method]}`}
+                            {payment.payment_processor && ` • ${PAYMENT_PROCESSOR_LABELS[payment.payment_processor]}`}
+                            {payment.transaction_id && ` • ${payment.transaction_id}`}
+                          </p>
+                          {payment.notes && <p className="text-xs text-gray-600 mt-1">{payment.notes}</p>}
+                        </div>
+                        {refundable > 0 && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            icon={RotateCcw}
+                            onClick={() => setRefunding(payment)}
+                          >
+                            Refund
+                          </Button>
+                        )}
+                      </div>
+                    )
+                  })}
+                </div>
+              )}
+            </div>
+
+            {confirmingVoid ? (
+              <div className="space-y-3 p-4 border border-red-200 bg-red-50 rounded-lg">
+                <p className="text-sm text-gray-700">
+                  Voiding keeps {invoice.invoice_number} on record but cancels it. This can't be undone.
+                </p>
+                <div className="flex justify-end space-x-2">
+                  <Button variant="outline" size="sm" onClick={() => setConfirmingVoid(false)}>
+                    Keep Invoice
+                  </Button>
+                  <Button variant="danger" size="sm" onClick={voidInvoice} loading={saving}>
+                    Void Invoice
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex flex-wrap justify-end gap-2 pt-6 border-t">
+                {invoice.status !== 'void' && invoice.amount_paid === 0 && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    icon={Ban}
+                    onClick={() => setConfirmingVoid(true)}
+                    className="text-red-600 hover:text-red-700"
+                  >
+                    Void
+                  </Button>
+                )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  icon={Eye}
+                  onClick={() => setShowDocument(true)}
+                >
+                  View Invoice
+                </Button>
+                {balance > 0 && (
+                  <Button
+                    variant="primary"
+                    size="sm"
+                    icon={CreditCard}
+                    onClick={() => setShowPayment(true)}
+                  >
+                    Record Payment
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {showDocument && (
+        <InvoiceDocument invoice={invoice} onClose={() => setShowDocument(false)} />
+      )}
+
+      {(showPayment || refunding) && (
+        <PaymentForm
+          invoice={invoice}
+          refundOf={refunding || undefined}
+          refundable={refunding ? InvoiceService.refundable(refunding, payments) : 0}
+          onClose={() => {
+            setShowPayment(false)
+            setRefunding(null)
+          }}
+          onSaved={handlePaymentSaved}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,136 @@
+import { useEffect } from 'react'
+import { createPortal } from 'react-dom'
+import { X, Printer } from 'lucide-react'
+import { Button } from '../ui/Button'
+import { Invoice, InvoiceService, INVOICE_STATUS_LABELS } from '../../lib/invoicing'
+import { formatSADate, formatZAR } from '../../lib/utils'
+
+interface InvoiceDocumentProps {
+  invoice: Invoice
+  onClose: () => void
+}
+
+// Printable tax invoice. Rendered outside the app root so printing shows only the document.
+export function InvoiceDocument({ invoice, onClose }: InvoiceDocumentProps) {
+  useEffect(() => {
+    document.body.classList.add('printing-document')
+    return () => document.body.classList.remove('printing-document')
+  }, [])
+
+  const { supplier, bill_to: billTo } = invoice
+  const isTaxInvoice = Boolean(supplier.vat_number)
+  const balance = InvoiceService.balance(invoice)
+
+  return createPortal(
+    <div className="print-document fixed inset-0 bg-black bg-opacity-50 flex items-start justify-center z-50 p-4 overflow-y-auto">
+      <div className="w-full max-w-3xl">
+        <div className="flex justify-end space-x-2 mb-3 print:hidden">
+          <Button variant="secondary" size="sm" icon={Printer} onClick={() => window.print()}>
+            Print / Save PDF
+          </Button>
+          <Button variant="secondary" size="sm" icon={X} onClick={onClose}>
+            Close
+          </Button>
+        </div>
+
+        <div className="bg-white rounded-lg p-10 text-sm text-gray-800 print:p-0 print:rounded-none">
+          <div className="flex justify-between items-start">
+            <div>
+              <h2 className="text-xl font-bold text-gray-900">{supplier.business_name}</h2>
+              {supplier.address && <p className="whitespace-pre-line text-gray-600 mt-1">{supplier.address}</p>}
+              <div className="text-gray-600 mt-1 space-y-0.5">
+                {supplier.phone && <p>Tel: {supplier.phone}</p>}
+                {supplier.email && <p>{supplier.email}</p>}
+                {supplier.registration_number && <p>Reg No: {supplier.registration_number}</p>}
+                {supplier.vat_number && <p>VAT No: {supplier.vat_number}</p>}
+              </div>
+            </div>
+            <div className="text-right">
+              <h1 className="text-2xl font-bold text-wellness-sage-700 uppercase">
+                {isTaxInvoice ? 'Tax Invoice' : 'Invoice'}
+              </h1>
+              <p className="font-medium text-gray-900 mt-1">{invoice.invoice_number}</p>
+              <p className="text-gray-600">Date: {formatSADate(invoice.issue_date)}</p>
+              <p className="text-gray-600">Due: {formatSADate(invoice.due_date)}</p>
+              {invoice.status !== 'issued' && (
+                <p className={`mt-2 font-semibold uppercase ${invoice.status === 'void' ? 'text-red-600' : 'text-gray-700'}`}>
+                  {INVOICE_STATUS_LABELS[invoice.status]}
+                </p>
+              )}
+            </div>
+          </div>
+
+          <div className="mt-8">
+            <p className="text-xs font-medium text-gray-500 uppercase">Bill To</p>
+            <p className="font-medium text-gray-900 mt-1">{billTo.name}</p>
+            {billTo.client_code && <p className="text-gray-600">Client: {billTo.client_code}</p>}
+            {billTo.address && <p className="whitespace-pre-line text-gray-600">{billTo.address}</p>}
+            {billTo.email && <p className="text-gray-600">{billTo.email}</p>}
+            {billTo.vat_number && <p className="text-gray-600">VAT No: {billTo.vat_number}</p>}
+          </div>
+
+          <table className="w-full mt-8">
+            <thead>
+              <tr className="border-b-2 border-gray-300 text-left text-xs uppercase text-gray-500">
+                <th className="py-2">Description</th>
+                <th className="py-2 text-right">Qty</th>
+                <th className="py-2 text-right">Unit Price</th>
+                <th className="py-2 text-right">Amount</th>
+              </tr>
+            </thead>
+            <tbody>
+              {invoice.line_items.map((item, index) => (
+                <tr key={index} className="border-b border-gray-100">
+                  <td className="py-2">{item.description}</td>
+                  <td className="py-2 text-right">{item.quantity}</td>
+                  <td className="py-2 text-right">{formatZAR(item.unit_price)}</td>
+                  <td className="py-2 text-right">{formatZAR(item.quantity * item.unit_price)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="ml-auto w-72 mt-4 space-y-1">
+            <div className="flex justify-between">
+              <span>Subtotal (excl. VAT)</span>
+              <span>{formatZAR(invoice.subtotal)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>VAT @ {Math.round(invoice.vat_rate * 100)}%</span>
+              <span>{formatZAR(invoice.vat_amount)}</span>
+            </div>
+            <div className="flex justify-between font-bold text-gray-900 border-t pt-1">
+              <span>Total (incl. VAT)</span>
+              <span>{formatZAR(invoice.total)}</span>
+            </div>
+            {invoice.amount_paid > 0 && (
+              <div className="flex justify-between text-gray-600">
+                <span>Paid</span>
+                <span>-{formatZAR(invoice.amount_paid)}</span>
+              </div>
+            )}
+            {invoice.status !== 'void' && (
+              <div className="flex justify-between font-semibold">
+                <span>Balance Due</span>
+                <span>{formatZAR(balance)}</span>
+              </div>
+            )}
+          </div>
+
+          {invoice.notes && (
+            <p className="mt-8 whitespace-pre-line text-gray-600">{invoice.notes}</p>
+          )}
+
+          {supplier.bank_details && balance > 0 && (
+            <div className="mt-8 p-4 bg-gray-50 rounded-lg print-avoid-break">
+              <p className="text-xs font-medium text-gray-500 uppercase mb-1">Banking Details</p>
+              <p className="whitespace-pre-line">{supplier.bank_details}</p>
+              <p className="mt-2 text-gray-600">Please use {invoice.invoice_number} as your payment reference.</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>,
+    document.body
+  )
+}
@@ -0,0 +1,256 @@
+import { useState, useEffect } from 'react'
+import { X, Plus, Trash2, Search, User, AlertCircle, FileText } from 'lucide-react'
+import { Card, CardHeader, CardContent } from '../ui/Card'
+import { Button } from '../ui/Button'
+import { Input } from '../ui/Input'
+import { ClientCandidate, ClientResolver } from '../../lib/clientResolver'
+import {
+  Invoice,
+  InvoiceLineItem,
+  InvoiceService,
+  InvoiceSettings,
+  DEFAULT_VAT_RATE
+} from '../../lib/invoicing'
+import type { Booking } from '../../lib/bookings'
+import { formatZAR } from '../../lib/utils'
+
+interface InvoiceFormProps {
+  settings: InvoiceSettings | null
+  // Invoicing a booking fixes the client and prices the service
+  booking?: Booking
+  onClose: () => void
+  onSaved: (invoice: Invoice) => void
+}
+
+const emptyItem = (): InvoiceLineItem => ({ description: '', quantity: 1, unit_price: 0 })
+
+export function InvoiceForm({ settings, booking, onClose, onSaved }: InvoiceFormProps) {
+  const [client, setClient] = useState<ClientCandidate | null>(null)
+  const [clientSearchTerm, setClientSearchTerm] = useState('')
+  const [clientSearchResults, setClientSearchResults] = useState<ClientCandidate[]>([])
+  const [items, setItems] = useState<InvoiceLineItem[]>([emptyItem()])
+  const [notes, setNotes] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!booking) return
+
+    InvoiceService.bookingLineItem(booking)
+      .then(item => setItems([item]))
+      .catch(error => console.error('Error pricing booking:', error))
+  }, [booking])
+
+  const vatRate = settings?.vat_rate ?? DEFAULT_VAT_RATE
+  const totals = InvoiceService.calculateTotals(items, vatRate)
+  const clientId = booking?.client_id || client?.id
+
+  const searchClients = async (term: string) => {
+    setClientSearchTerm(term)
+    try {
+      setClientSearchResults(await ClientResolver.search(term))
+    } catch (error) {
+      console.error('Error searching clients:', error)
+    }
+  }
+
+  const updateItem = (index: number, changes: Partial<InvoiceLineItem>) => {
+    setItems(items.map((item, i) => i === index ? { ...item, ...changes } : item))
+  }
+
+  const handleSave = async () => {
+    if (!clientId) {
+      setError('Please select a client.')
+      return
+    }
+    if (items.some(item => item.unit_price < 0)) {
+      setError('Prices cannot be negative.')
+      return
+    }
+
+    try {
+      setSaving(true)
+      setError(null)
+      const invoice = await InvoiceService.create({
+        client_id: clientId,
+        booking_id: booking?.id,
+        line_items: items,
+        notes
+      })
+      onSaved(invoice)
+    } catch (error) {
+      console.error('Error creating invoice:', error)
+      setError(InvoiceService.describeError(error))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <Card className="w-full max-w-3xl max-h-[90vh] overflow-y-auto" hover={false}>
+        <CardHeader
+          title={booking ? 'Invoice Booking' : 'New Invoice'}
+          description={`Prices include VAT at ${Math.round(vatRate * 100)}%. The invoice number is assigned when issued.`}
+          action={
+            <Button
+              variant="ghost"
+              size="sm"
+              icon={X}
+              onClick={onClose}
+            />
+          }
+        />
+        <CardContent>
+          <div className="space-y-6">
+            {error && (
+              <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg">
+                <AlertCircle className="w-4 h-4 text-red-600 flex-shrink-0" />
+                <p className="text-sm text-red-700">{error}</p>
+              </div>
+            )}
+
+            {/* Client */}
+            {!booking && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Client</label>
+                {client ? (
+                  <div className="flex items-center justify-between p-3 bg-wellness-sage-50 border border-wellness-sage-200 rounded-lg">
+                    <div className="flex items-center space-x-3">
+                      <User className="w-5 h-5 text-wellness-sage-600" />
+                      <div>
+                        <p className="text-sm font-medium text-gray-900">{client.first_name} {client.last_name}</p>
+                        <p className="text-xs text-gray-600">{client.client_code} • {client.email}</p>
+                      </div>
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={() => setClient(null)}>
+                      Change
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    <Input
+                      placeholder="Search by name, email or client code..."
+                      icon={Search}
+                      value={clientSearchTerm}
+                      onChange={(e) => searchClients(e.target.value)}
+                    />
+                    {clientSearchResults.length > 0 && (
+                      <div className="border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-48 overflow-y-auto">
+                        {clientSearchResults.map(candidate => (
+                          <button
+                            key={candidate.id}
+                            onClick={() => setClient(candidate)}
+                            className="w-full text-left px-3 py-2 hover:bg-gray-50"
+                          >
+                            <p className="text-sm font-medium text-gray-900">{candidate.first_name} {candidate.last_name}</p>
+                            <p className="text-xs text-gray-600">{candidate.client_code} • {candidate.email}</p>
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Line items */}
+            <div>
+              <div className="grid grid-cols-12 gap-2 text-xs font-medium text-gray-500 uppercase mb-2">
+                <span className="col-span-6">Description</span>
+                <span className="col-span-2">Qty</span>
+                <span className="col-span-3">Unit Price (incl. VAT)</span>
+              </div>
+              <div className="space-y-2">
+                {items.map((item, index) => (
+                  <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                    <input
+                      value={item.description}
+                      onChange={(e) => updateItem(index, { description: e.target.value })}
+                      placeholder="Service or product"
+                      className="wellness-input col-span-6"
+                    />
+                    <input
+                      type="number"
+                      min="1"
+                      step="1"
+                      value={item.quantity}
+                      onChange={(e) => updateItem(index, { quantity: Number(e.target.value) })}
+                      className="wellness-input col-span-2"
+                    />
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={item.unit_price}
+                      onChange={(e) => updateItem(index, { unit_price: Number(e.target.value) })}
+                      className="wellness-input col-span-3"
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      icon={Trash2}
+                      onClick={() => setItems(items.filter((_, i) => i !== index))}
+                      disabled={items.length === 1}
+                      className="col-span-1 text-red-600 hover:text-red-700"
+                    />
+                  </div>
+                ))}
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                icon={Plus}
+                onClick={() => setItems([...items, emptyItem()])}
+                className="mt-2"
+              >
+                Add Line
+              </Button>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Notes (optional)</label>
+              <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={2}
+                className="wellness-input"
+              />
+            </div>
+
+            {/* Totals */}
+            <div className="ml-auto w-full md:w-72 space-y-1 text-sm">
+              <div className="flex justify-between text-gray-600">
+                <span>Subtotal (excl. VAT)</span>
+                <span>{formatZAR(totals.subtotal)}</span>
+              </div>
+              <div className="flex justify-between text-gray-600">
+                <span>VAT ({Math.round(vatRate * 100)}%)</span>
+                <span>{formatZAR(totals.vat_amount)}</span>
+              </div>
+              <div className="flex justify-between font-semibold text-gray-900 pt-1 border-t">
+                <span>Total</span>
+                <span>{formatZAR(totals.total)}</span>
+              </div>
+            </div>
+
+            {!settings?.vat_number && (
+              <p className="text-xs text-amber-700">
+                No VAT number is set in Settings → Invoicing, so invoices won't qualify as tax invoices.
+              </p>
+            )}
+
+            <div className="flex justify-end space-x-3 pt-4 border-t">
+              <Button variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button variant="primary" icon={FileText} onClick={handleSave} loading={saving}>
+                Issue Invoice
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
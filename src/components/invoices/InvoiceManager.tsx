@@ -0,0 +1,241 @@
+import { useState, useEffect, useCallback } from 'react'
+import {
+  Plus,
+  Search,
+  FileText,
+  AlertCircle,
+  CheckCircle,
+  Receipt,
+  Clock,
+  Wallet
+} from 'lucide-react'
+import { Card, CardHeader, CardContent } from '../ui/Card'
+import { Button } from '../ui/Button'
+import { Input } from '../ui/Input'
+import { InvoiceForm } from './InvoiceForm'
+import { InvoiceDetails } from './InvoiceDetails'
+import {
+  InvoiceService,
+  InvoiceSettings,
+  InvoiceStatus,
+  InvoiceWithClient,
+  INVOICE_STATUS_COLORS,
+  INVOICE_STATUS_LABELS
+} from '../../lib/invoicing'
+import { formatSADate, formatZAR } from '../../lib/utils'
+
+export function InvoiceManager() {
+  const [invoices, setInvoices] = useState<InvoiceWithClient[]>([])
+  const [settings, setSettings] = useState<InvoiceSettings | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [statusFilter, setStatusFilter] = useState<InvoiceStatus | ''>('')
+  const [searchTerm, setSearchTerm] = useState('')
+  const [showForm, setShowForm] = useState(false)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  const loadInvoices = useCallback(async () => {
+    try {
+      setLoading(true)
+      const [invoiceData, settingsData] = await Promise.all([
+        InvoiceService.fetchInvoices({ status: statusFilter || undefined }),
+        InvoiceService.fetchSettings()
+      ])
+      setInvoices(invoiceData)
+      setSettings(settingsData)
+    } catch (error) {
+      console.error('Error loading invoices:', error)
+      setError('Error loading invoices. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }, [statusFilter])
+
+  useEffect(() => {
+    loadInvoices()
+  }, [loadInvoices])
+
+  useEffect(() => {
+    if (error || success) {
+      const timer = setTimeout(() => {
+        setError(null)
+        setSuccess(null)
+      }, 5000)
+      return () => clearTimeout(timer)
+    }
+  }, [error, success])
+
+  const handleChanged = (message: string) => {
+    setSuccess(message)
+    loadInvoices()
+  }
+
+  const term = searchTerm.trim().toLowerCase()
+  const filteredInvoices = invoices.filter(invoice =>
+    !term ||
+    invoice.invoice_number.toLowerCase().includes(term) ||
+    InvoiceService.clientName(invoice).toLowerCase().includes(term) ||
+    invoice.client?.client_code?.toLowerCase().includes(term)
+  )
+
+  const open = invoices.filter(invoice => invoice.status === 'issued' || invoice.status === 'partially_paid')
+  const stats = [
+    { label: 'Outstanding', value: formatZAR(open.reduce((sum, invoice) => sum + InvoiceService.balance(invoice), 0)), icon: Wallet },
+    { label: 'Unpaid Invoices', value: open.length, icon: Receipt },
+    { label: 'Overdue', value: open.filter(invoice => InvoiceService.isOverdue(invoice)).length, icon: Clock }
+  ]
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Invoices</h1>
+          <p className="text-gray-600 mt-1">Tax invoices, payments and refunds</p>
+        </div>
+        <Button variant="primary" icon={Plus} onClick={() => setShowForm(true)}>
+          New Invoice
+        </Button>
+      </div>
+
+      {/* Status Messages */}
+      {error && (
+        <Card variant="minimal" className="border-red-200 bg-red-50">
+          <CardContent>
+            <div className="flex items-center space-x-3">
+              <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {success && (
+        <Card variant="minimal" className="border-green-200 bg-green-50">
+          <CardContent>
+            <div className="flex items-center space-x-3">
+              <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0" />
+              <p className="text-sm text-green-700">{success}</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Stats */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {stats.map(stat => (
+          <Card key={stat.label} variant="sage" padding="md">
+            <div className="flex items-center space-x-4">
+              <div className="w-12 h-12 bg-white rounded-xl flex items-center justify-center">
+                <stat.icon className="w-6 h-6 text-wellness-sage-600" />
+              </div>
+              <div>
+                <p className="text-sm text-gray-600">{stat.label}</p>
+                <p className="text-2xl font-bold text-gray-900">{stat.value}</p>
+              </div>
+            </div>
+          </Card>
+        ))}
+      </div>
+
+      {/* Invoices */}
+      <Card hover={false}>
+        <CardHeader
+          title="All Invoices"
+          action={
+            <div className="flex items-center space-x-2">
+              <Input
+                placeholder="Search invoices..."
+                icon={Search}
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+              />
+              <select
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(e.target.value as InvoiceStatus | '')}
+                className="wellness-input"
+              >
+                <option value="">All statuses</option>
+                {(Object.keys(INVOICE_STATUS_LABELS) as InvoiceStatus[]).map(status => (
+                  <option key={status} value={status}>{INVOICE_STATUS_LABELS[status]}</option>
+                ))}
+              </select>
+            </div>
+          }
+        />
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="w-8 h-8 border-4 border-wellness-sage-200 border-t-wellness-sage-600 rounded-full animate-spin"></div>
+            </div>
+          ) : filteredInvoices.length === 0 ? (
+            <div className="text-center py-12">
+              <FileText className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-600">No invoices found.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 text-left text-xs uppercase text-gray-500">
+                    <th className="py-3 pr-4">Invoice</th>
+                    <th className="py-3 pr-4">Client</th>
+                    <th className="py-3 pr-4">Issued</th>
+                    <th className="py-3 pr-4">Due</th>
+                    <th className="py-3 pr-4 text-right">Total</th>
+                    <th className="py-3 pr-4 text-right">Balance</th>
+                    <th className="py-3">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {filteredInvoices.map(invoice => (
+                    <tr
+                      key={invoice.id}
+                      onClick={() => setSelectedId(invoice.id)}
+                      className="cursor-pointer hover:bg-gray-50"
+                    >
+                      <td className="py-3 pr-4 font-medium text-gray-900">{invoice.invoice_number}</td>
+                      <td className="py-3 pr-4 text-gray-700">{InvoiceService.clientName(invoice)}</td>
+                      <td className="py-3 pr-4 text-gray-600">{formatSADate(invoice.issue_date)}</td>
+                      <td className={`py-3 pr-4 ${InvoiceService.isOverdue(invoice) ? 'text-red-600 font-medium' : 'text-gray-600'}`}>
+                        {formatSADate(invoice.due_date)}
+                      </td>
+                      <td className="py-3 pr-4 text-right text-gray-900">{formatZAR(invoice.total)}</td>
+                      <td className="py-3 pr-4 text-right text-gray-900">{formatZAR(InvoiceService.balance(invoice))}</td>
+                      <td className="py-3">
+                        <span className={`px-2 py-0.5 text-xs font-medium rounded-full border ${INVOICE_STATUS_COLORS[invoice.status]}`}>
+                          {INVOICE_STATUS_LABELS[invoice.status]}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {showForm && (
+        <InvoiceForm
+          settings={settings}
+          onClose={() => setShowForm(false)}
+          onSaved={(invoice) => {
+            setShowForm(false)
+            setSelectedId(invoice.id)
+            handleChanged(`Invoice ${invoice.invoice_number} issued.`)
+          }}
+        />
+      )}
+
+      {selectedId && (
+        <InvoiceDetails
+          invoiceId={selectedId}
+          onClose={() => setSelectedId(null)}
+          onChanged={handleChanged}
+        />
+      )}
+    </div>
+  )
+}
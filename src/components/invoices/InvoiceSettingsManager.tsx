@@ -0,0 +1,217 @@
+import { useState, useEffect } from 'react'
+import { Save, AlertCircle, CheckCircle } from 'lucide-react'
+import { Card, CardHeader, CardContent } from '../ui/Card'
+import { Button } from '../ui/Button'
+import { Input } from '../ui/Input'
+import { InvoiceService, InvoiceSettings } from '../../lib/invoicing'
+import { useAuth } from '../../hooks/useAuth'
+
+export function InvoiceSettingsManager() {
+  const [settings, setSettings] = useState<InvoiceSettings | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+  const { profile } = useAuth()
+
+  const isAdmin = profile?.role === 'admin'
+
+  useEffect(() => {
+    fetchSettings()
+  }, [])
+
+  useEffect(() => {
+    if (error || success) {
+      const timer = setTimeout(() => {
+        setError(null)
+        setSuccess(null)
+      }, 5000)
+      return () => clearTimeout(timer)
+    }
+  }, [error, success])
+
+  const fetchSettings = async () => {
+    try {
+      setLoading(true)
+      setSettings(await InvoiceService.fetchSettings())
+    } catch (error) {
+      console.error('Error loading invoice settings:', error)
+      setError('Error loading invoice settings. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const update = (changes: Partial<InvoiceSettings>) => {
+    if (settings) setSettings({ ...settings, ...changes })
+  }
+
+  const handleSave = async () => {
+    if (!settings) return
+
+    if (settings.vat_number && !/^4\d{9}$/.test(settings.vat_number.replace(/\s/g, ''))) {
+      setError('SA VAT numbers are 10 digits starting with 4.')
+      return
+    }
+
+    try {
+      setSaving(true)
+      await InvoiceService.saveSettings({ ...settings, vat_number: settings.vat_number.replace(/\s/g, '') })
+      setSuccess('Invoice settings saved.')
+    } catch (error) {
+      console.error('Error saving invoice settings:', error)
+      setError(InvoiceService.describeError(error))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="w-8 h-8 border-4 border-wellness-sage-200 border-t-wellness-sage-600 rounded-full animate-spin"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">Invoicing</h2>
+        <p className="text-gray-600">Business details printed on tax invoices, VAT and numbering.</p>
+      </div>
+
+      {error && (
+        <Card variant="minimal" className="border-red-200 bg-red-50">
+          <CardContent>
+            <div className="flex items-center space-x-3">
+              <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {success && (
+        <Card variant="minimal" className="border-green-200 bg-green-50">
+          <CardContent>
+            <div className="flex items-center space-x-3">
+              <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0" />
+              <p className="text-sm text-green-700">{success}</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {!settings ? (
+        <Card>
+          <CardContent>
+            <p className="text-gray-600">Invoice settings are missing. Run the latest database migrations.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <Card hover={false}>
+            <CardHeader title="Business Details" description="Snapshotted onto each invoice when it's issued" />
+            <CardContent>
+              <fieldset disabled={!isAdmin} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <Input
+                  label="Business Name"
+                  value={settings.business_name}
+                  onChange={(e) => update({ business_name: e.target.value })}
+                />
+                <Input
+                  label="Company Registration Number"
+                  value={settings.registration_number}
+                  onChange={(e) => update({ registration_number: e.target.value })}
+                />
+                <Input
+                  label="VAT Number"
+                  value={settings.vat_number}
+                  onChange={(e) => update({ vat_number: e.target.value })}
+                  helperText="Required for invoices to be valid tax invoices"
+                />
+                <Input
+                  label="Email"
+                  type="email"
+                  value={settings.email}
+                  onChange={(e) => update({ email: e.target.value })}
+                />
+                <Input
+                  label="Phone"
+                  value={settings.phone}
+                  onChange={(e) => update({ phone: e.target.value })}
+                />
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Address</label>
+                  <textarea
+                    value={settings.address}
+                    onChange={(e) => update({ address: e.target.value })}
+                    rows={3}
+                    className="wellness-input"
+                  />
+                </div>
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Banking Details</label>
+                  <textarea
+                    value={settings.bank_details}
+                    onChange={(e) => update({ bank_details: e.target.value })}
+                    rows={4}
+                    placeholder={'Bank, account holder, account number, branch code'}
+                    className="wellness-input"
+                  />
+                </div>
+              </fieldset>
+            </CardContent>
+          </Card>
+
+          <Card hover={false}>
+            <CardHeader title="Numbering & Terms" />
+            <CardContent>
+              <fieldset disabled={!isAdmin} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <Input
+                  label="VAT Rate (%)"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={Math.round(settings.vat_rate * 10000) / 100}
+                  onChange={(e) => update({ vat_rate: Number(e.target.value) / 100 })}
+                />
+                <Input
+                  label="Payment Terms (days)"
+                  type="number"
+                  min="0"
+                  value={settings.payment_terms_days}
+                  onChange={(e) => update({ payment_terms_days: Number(e.target.value) })}
+                />
+                <Input
+                  label="Invoice Prefix"
+                  value={settings.invoice_prefix}
+                  onChange={(e) => update({ invoice_prefix: e.target.value })}
+                />
+                <Input
+                  label="Next Invoice Number"
+                  type="number"
+                  min="1"
+                  value={settings.next_invoice_number}
+                  onChange={(e) => update({ next_invoice_number: Number(e.target.value) })}
+                  helperText="Only change this when continuing a previous numbering sequence"
+                />
+              </fieldset>
+            </CardContent>
+          </Card>
+
+          {isAdmin ? (
+            <div className="flex justify-end">
+              <Button variant="primary" icon={Save} onClick={handleSave} loading={saving}>
+                Save Settings
+              </Button>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">Only administrators can change invoice settings.</p>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
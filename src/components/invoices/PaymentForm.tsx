@@ -0,0 +1,196 @@
+import { useState } from 'react'
+import { X, AlertCircle, CreditCard, RotateCcw } from 'lucide-react'
+import { Card, CardHeader, CardContent } from '../ui/Card'
+import { Button } from '../ui/Button'
+import { Input } from '../ui/Input'
+import { Invoice, InvoiceService, Payment } from '../../lib/invoicing'
+import {
+  PaymentMethod,
+  PaymentProcessorId,
+  PaymentProcessors,
+  PAYMENT_METHOD_LABELS,
+  PAYMENT_PROCESSOR_LABELS,
+  PROCESSOR_METHODS
+} from '../../lib/paymentProcessors'
+import { useAuth } from '../../hooks/useAuth'
+import { formatZAR } from '../../lib/utils'
+
+interface PaymentFormProps {
+  invoice: Invoice
+  // Refund this payment instead of taking a new one
+  refundOf?: Payment
+  refundable?: number
+  onClose: () => void
+  onSaved: (message: string) => void
+}
+
+export function PaymentForm({ invoice, refundOf, refundable = 0, onClose, onSaved }: PaymentFormProps) {
+  const [amount, setAmount] = useState(String(refundOf ? refundable : InvoiceService.balance(invoice)))
+  const [method, setMethod] = useState<PaymentMethod>('eft')
+  const [processor, setProcessor] = useState<PaymentProcessorId | ''>('')
+  const [transactionId, setTransactionId] = useState('')
+  const [notes, setNotes] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const { user } = useAuth()
+
+  // Processors that take the payment in-app; the rest are recorded against a reference
+  const integrated = processor ? Boolean(PaymentProcessors.get(processor)) : false
+  const processorOptions = (Object.keys(PROCESSOR_METHODS) as PaymentProcessorId[])
+    .filter(id => PROCESSOR_METHODS[id].includes(method))
+    .filter(id => id !== 'mock' || PaymentProcessors.get('mock'))
+  const refundIntegration = refundOf?.transaction_id ? PaymentProcessors.get(refundOf.payment_processor) : undefined
+
+  const handleSave = async () => {
+    const value = Number(amount)
+    if (refundOf && value > refundable) {
+      setError(`At most ${formatZAR(refundable)} can be refunded on this payment.`)
+      return
+    }
+
+    try {
+      setSaving(true)
+      setError(null)
+      if (refundOf) {
+        await InvoiceService.refund({ payment: refundOf, amount: value, reason: notes, recordedBy: user?.id })
+        onSaved(`Refund of ${formatZAR(value)} recorded.`)
+      } else {
+        await InvoiceService.recordPayment({
+          invoice,
+          amount: value,
+          method,
+          processor: processor || null,
+          transactionId,
+          notes,
+          recordedBy: user?.id
+        })
+        onSaved(`Payment of ${formatZAR(value)} recorded.`)
+      }
+    } catch (error) {
+      console.error('Error recording payment:', error)
+      setError(InvoiceService.describeError(error))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <Card className="w-full max-w-md" hover={false}>
+        <CardHeader
+          title={refundOf ? 'Refund Payment' : 'Record Payment'}
+          description={
+            refundOf
+              ? `${invoice.invoice_number} • ${formatZAR(refundable)} refundable`
+              : `${invoice.invoice_number} • ${formatZAR(InvoiceService.balance(invoice))} due`
+          }
+          action={
+            <Button
+              variant="ghost"
+              size="sm"
+              icon={X}
+              onClick={onClose}
+            />
+          }
+        />
+        <CardContent>
+          <div className="space-y-4">
+            {error && (
+              <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg">
+                <AlertCircle className="w-4 h-4 text-red-600 flex-shrink-0" />
+                <p className="text-sm text-red-700">{error}</p>
+              </div>
+            )}
+
+            <Input
+              label="Amount (ZAR)"
+              type="number"
+              min="0.01"
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+            />
+
+            {refundOf ? (
+              <p className="text-sm text-gray-600">
+                {refundIntegration
+                  ? `The refund is sent through ${refundIntegration.name}.`
+                  : 'Pay the refund to the client yourself, then record it here.'}
+              </p>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Method</label>
+                    <select
+                      value={method}
+                      onChange={(e) => {
+                        setMethod(e.target.value as PaymentMethod)
+                        setProcessor('')
+                      }}
+                      className="wellness-input"
+                    >
+                      {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map(option => (
+                        <option key={option} value={option}>{PAYMENT_METHOD_LABELS[option]}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Processor</label>
+                    <select
+                      value={processor}
+                      onChange={(e) => setProcessor(e.target.value as PaymentProcessorId | '')}
+                      className="wellness-input"
+                    >
+                      <option value="">None</option>
+                      {processorOptions.map(option => (
+                        <option key={option} value={option}>{PAYMENT_PROCESSOR_LABELS[option]}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
+                {integrated ? (
+                  <p className="text-sm text-gray-600">The payment is charged when you save.</p>
+                ) : (
+                  <Input
+                    label="Transaction reference"
+                    placeholder="Bank or card machine reference"
+                    value={transactionId}
+                    onChange={(e) => setTransactionId(e.target.value)}
+                  />
+                )}
+              </>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                {refundOf ? 'Reason' : 'Notes'} (optional)
+              </label>
+              <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={2}
+                className="wellness-input"
+              />
+            </div>
+
+            <div className="flex justify-end space-x-3 pt-4 border-t">
+              <Button variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button
+                variant={refundOf ? 'danger' : 'primary'}
+                icon={refundOf ? RotateCcw : CreditCard}
+                onClick={handleSave}
+                loading={saving}
+              >
+                {refundOf ? 'Refund' : integrated ? 'Charge' : 'Record Payment'}
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
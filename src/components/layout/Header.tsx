@@ -11,7 +11,7 @@ export function Header() {
   }
 
   return (
-    <header className="bg-white border-b border-gray-200 px-6 py-4">
+    <header className="bg-white border-b border-gray-200 px-6 py-4 print:hidden">
       <div className="flex items-center justify-between">
         <div className="flex-1">
           <div className="relative max-w-md">
@@ -13,9 +13,9 @@ export function Layout({ children }: LayoutProps) {
   return (
     <div className="min-h-screen bg-gradient-to-br from-wellness-sage-50 via-white to-wellness-eucalyptus-50">
       <Sidebar />
-      <div className="lg:pl-64">
+      <div className="lg:pl-64 print:pl-0">
         <Header />
-        <main className="p-6 lg:p-8">
+        <main className="p-6 lg:p-8 print:p-0">
           <div className="max-w-7xl mx-auto">
             {children}
           </div>
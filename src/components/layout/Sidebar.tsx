@@ -11,7 +11,8 @@ import {
   Zap,
   TrendingUp,
   Shield,
-  User
+  User,
+  Receipt
 } from 'lucide-react'
 import { useAuth } from '../../hooks/useAuth'
 import { supabase } from '../../lib/supabase'
@@ -22,6 +23,7 @@ const adminNavItems = [
   { name: 'Clients', href: '/clients', icon: Users },
   { name: 'Scan Data', href: '/scans', icon: Activity },
   { name: 'Bookings', href: '/bookings', icon: Calendar },
+  { name: 'Invoices', href: '/invoices', icon: Receipt },
   { name: 'Analytics', href: '/analytics', icon: TrendingUp },
   { name: 'Reports', href: '/reports', icon: FileText },
   { name: 'Settings', href: '/settings', icon: Settings },
@@ -32,6 +34,7 @@ const staffNavItems = [
   { name: 'Clients', href: '/clients', icon: Users },
   { name: 'Scan Data', href: '/scans', icon: Activity },
   { name: 'Bookings', href: '/bookings', icon: Calendar },
+  { name: 'Invoices', href: '/invoices', icon: Receipt },
   { name: 'Reports', href: '/reports', icon: FileText },
 ]
 
@@ -40,7 +43,9 @@ const clientNavItems = [
   { name: 'My Profile', href: '/profile', icon: User },
   { name: 'Wellness Passport', href: '/passport', icon: Shield, requiresOnboarding: true },
   { name: 'My Scans', href: '/scans', icon: Activity, requiresOnboarding: true },
+  { name: 'My Reports', href: '/reports', icon: FileText, requiresOnboarding: true },
   { name: 'Appointments', href: '/bookings', icon: Calendar, requiresOnboarding: true },
+  { name: 'My Invoices', href: '/invoices', icon: Receipt, requiresOnboarding: true },
   { name: 'Progress', href: '/progress', icon: TrendingUp, requiresOnboarding: true },
 ]
 
@@ -109,7 +114,7 @@ export function Sidebar() {
   const navItems = getNavItems()
 
   return (
-    <div className="fixed inset-y-0 left-0 z-50 w-64 bg-white border-r border-gray-200 lg:block hidden">
+    <div className="fixed inset-y-0 left-0 z-50 w-64 bg-white border-r border-gray-200 lg:block hidden print:hidden">
       <div className="flex flex-col h-full">
         {/* Logo */}
         <div className="flex items-center px-6 py-8 border-b border-gray-100">
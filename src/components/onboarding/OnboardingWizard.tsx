@@ -29,6 +29,9 @@ import { Card, CardHeader, CardContent } from '../ui/Card'
 import { ProgressBar } from '../ui/ProgressBar'
 import { generateClientCode } from '../../lib/utils'
 import { supabase } from '../../lib/supabase'
+import { TRANSFORMATION_REASONS } from '../../lib/progressGoals'
+import { EMPTY_SA_ADDRESS, SAAddresses } from '../../lib/saAddress'
+import { AddressFields } from '../forms/AddressFields'
 
 // Enhanced onboarding schema based on the provided form structure
 const onboardingSchema = z.object({
@@ -39,12 +42,7 @@ const onboardingSchema = z.object({
   gender: z.enum(['male', 'female']).optional(),
   email: z.string().email('Please enter a valid email address'),
   mobile: z.string().min(10, 'Please enter a valid mobile number'),
-  address1: z.string().optional(),
-  address2: z.string().optional(),
-  suburb: z.string().optional(),
-  city: z.string().optional(),
-  province: z.string().optional(),
-  postalCode: z.string().optional(),
+  address: SAAddresses.schema(),
   country: z.string().default('South Africa'),
   preferredContact: z.enum(['email', 'whatsapp', 'phone']).optional(),
   
@@ -134,11 +132,6 @@ const steps = [
   },
 ]
 
-const provinces = [
-  'Eastern Cape', 'Free State', 'Gauteng', 'KwaZulu-Natal', 
-  'Limpopo', 'Mpumalanga', 'Northern Cape', 'North West', 'Western Cape'
-]
-
 const maritalStatusOptions = [
   { value: 'single', label: 'Single' },
   { value: 'married', label: 'Married' },
@@ -157,16 +150,6 @@ const employmentStatusOptions = [
   { value: 'other', label: 'Other' },
 ]
 
-const transformationReasonOptions = [
-  'Career & Education',
-  'Financial Wellness',
-  'Relationships & Social Connections',
-  'Physical Health & Fitness',
-  'Personal Development & Self-Improvement',
-  'Sports and Recreation',
-  'Other'
-]
-
 const hearAboutUsOptions = [
   { value: 'referral', label: 'Friend or Family Referral' },
   { value: 'social_media', label: 'Social Media' },
@@ -207,6 +190,7 @@ export function OnboardingWizard({ onComplete }: OnboardingWizardProps) {
     resolver: zodResolver(onboardingSchema),
     mode: 'onChange',
     defaultValues: {
+      address: EMPTY_SA_ADDRESS,
       country: 'South Africa',
       currentMedications: [],
       chronicConditions: [],
@@ -286,12 +270,14 @@ export function OnboardingWizard({ onComplete }: OnboardingWizardProps) {
           // From onboarding data
           idNumber: latestOnboarding.id_number || '',
           gender: latestOnboarding.gender || undefined,
-          address1: latestOnboarding.address_1 || '',
-          address2: latestOnboarding.address_2 || '',
-          suburb: latestOnboarding.suburb || '',
-          city: latestOnboarding.city || '',
-          province: latestOnboarding.province || '',
-          postalCode: latestOnboarding.postal_code || '',
+          address: {
+            address1: latestOnboarding.address_1 || '',
+            address2: latestOnboarding.address_2 || '',
+            suburb: latestOnboarding.suburb || '',
+            city: latestOnboarding.city || '',
+            province: latestOnboarding.province || '',
+            postalCode: latestOnboarding.postal_code || '',
+          },
           country: latestOnboarding.country || 'South Africa',
           preferredContact: latestOnboarding.preferred_contact || undefined,
           
@@ -368,12 +354,12 @@ export function OnboardingWizard({ onComplete }: OnboardingWizardProps) {
         // Contact Information - use null for empty strings on constrained fields
         id_number: formData.idNumber || null,
         gender: formData.gender || null,
-        address_1: formData.address1 || null,
-        address_2: formData.address2 || null,
-        suburb: formData.suburb || null,
-        city: formData.city || null,
-        province: formData.province || null,
-        postal_code: formData.postalCode || null,
+        address_1: formData.address?.address1 || null,
+        address_2: formData.address?.address2 || null,
+        suburb: formData.address?.suburb || null,
+        city: formData.address?.city || null,
+        province: formData.address?.province || null,
+        postal_code: formData.address?.postalCode || null,
         country: formData.country || 'South Africa',
         preferred_contact: formData.preferredContact || null,
         
@@ -482,7 +468,7 @@ export function OnboardingWizard({ onComplete }: OnboardingWizardProps) {
   const getFieldsForStep = (step: number): (keyof OnboardingFormData)[] => {
     switch (step) {
       case 1:
-        return ['firstName', 'lastName', 'idNumber', 'email', 'mobile']
+        return ['firstName', 'lastName', 'idNumber', 'email', 'mobile', 'address']
       case 2:
         return [] // Optional fields
       case 3:
@@ -521,12 +507,12 @@ export function OnboardingWizard({ onComplete }: OnboardingWizardProps) {
         // Contact Information
         id_number: data.idNumber || null,
         gender: data.gender || null,
-        address_1: data.address1 || null,
-        address_2: data.address2 || null,
-        suburb: data.suburb || null,
-        city: data.city || null,
-        province: data.province || null,
-        postal_code: data.postalCode || null,
+        address_1: data.address.address1 || null,
+        address_2: data.address.address2 || null,
+        suburb: data.address.suburb || null,
+        city: data.address.city || null,
+        province: data.address.province || null,
+        postal_code: data.address.postalCode || null,
         country: data.country || 'South Africa',
         preferred_contact: data.preferredContact || null,
         
@@ -798,57 +784,22 @@ export function OnboardingWizard({ onComplete }: OnboardingWizardProps) {
                 Address Information
               </h4>
               
-              <Input
-                label="Address Line 1"
-                type="text"
-                {...register('address1')}
+              <AddressFields
+                value={SAAddresses.normalise(watchedValues.address)}
+                onChange={(address) => setValue('address', address, { shouldValidate: true })}
+                errors={{
+                  address1: errors.address?.address1?.message,
+                  city: errors.address?.city?.message,
+                  province: errors.address?.province?.message,
+                  postalCode: errors.address?.postalCode?.message,
+                }}
               />
               
               <Input
-                label="Address Line 2"
+                label="Country"
                 type="text"
-                {...register('address2')}
+                {...register('country')}
               />
-              
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <Input
-                  label="Suburb"
-                  type="text"
-                  {...register('suburb')}
-                />
-                <Input
-                  label="City / Town"
-                  type="text"
-                  {...register('city')}
-                />
-              </div>
-              
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Province
-                  </label>
-                  <select
-                    className="wellness-input"
-                    {...register('province')}
-                  >
-                    <option value="">Select province</option>
-                    {provinces.map((province) => (
-                      <option key={province} value={province}>{province}</option>
-                    ))}
-                  </select>
-                </div>
-                <Input
-                  label="Postal Code"
-                  type="text"
-                  {...register('postalCode')}
-                />
-                <Input
-                  label="Country"
-                  type="text"
-                  {...register('country')}
-                />
-              </div>
             </div>
             
             <div>
@@ -1025,7 +976,7 @@ export function OnboardingWizard({ onComplete }: OnboardingWizardProps) {
                 Reason for Transformation (Select all that apply)
               </label>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                {transformationReasonOptions.map((reason) => (
+                {TRANSFORMATION_REASONS.map((reason) => (
                   <label key={reason} className="flex items-center space-x-2">
                     <input
                       type="checkbox"
@@ -0,0 +1,154 @@
+import { useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import { Activity, Calendar, Check, Share2, TrendingDown, TrendingUp, Minus } from 'lucide-react'
+import { Card, CardContent } from '../ui/Card'
+import { Button } from '../ui/Button'
+import { HeadlineMetric, PassportBooking, PassportScan, WellnessPassport } from '../../lib/wellnessPassport'
+
+interface PassportSummaryCardsProps {
+  clientName: string
+  scans: PassportScan[]
+  bookings: PassportBooking[]
+}
+
+interface SummaryCard {
+  id: string
+  title: string
+  subtitle?: string
+  variant: 'sage' | 'eucalyptus' | 'rose'
+  metrics: HeadlineMetric[]
+  shareText: string
+}
+
+export function PassportSummaryCards({ clientName, scans, bookings }: PassportSummaryCardsProps) {
+  const [sharedCard, setSharedCard] = useState<string | null>(null)
+
+  const orderedScans = [...scans].sort((a, b) => parseISO(a.scan_date).getTime() - parseISO(b.scan_date).getTime())
+  const firstScan = orderedScans[0]
+  const latestScan = orderedScans[orderedScans.length - 1]
+  const completedSessions = bookings.filter(booking => booking.status === 'completed').length
+  const nextBooking = bookings
+    .filter(booking => booking.status === 'scheduled' && parseISO(booking.appointment_date) > new Date())
+    .sort((a, b) => parseISO(a.appointment_date).getTime() - parseISO(b.appointment_date).getTime())[0]
+
+  const cards: SummaryCard[] = []
+
+  if (latestScan) {
+    const latestMetrics = WellnessPassport.headlineMetrics(latestScan, orderedScans[orderedScans.length - 2])
+    cards.push({
+      id: 'latest',
+      title: 'Latest Scan',
+      subtitle: format(parseISO(latestScan.scan_date), 'd MMM yyyy'),
+      variant: 'sage',
+      metrics: latestMetrics,
+      shareText: WellnessPassport.shareText(`${clientName}'s latest wellness scan`, latestMetrics)
+    })
+  }
+
+  if (orderedScans.length > 1) {
+    const journeyMetrics = WellnessPassport.journeyMetrics(orderedScans)
+    cards.push({
+      id: 'journey',
+      title: 'My Journey',
+      subtitle: `${orderedScans.length} scans since ${format(parseISO(firstScan.scan_date), 'MMM yyyy')}`,
+      variant: 'eucalyptus',
+      metrics: journeyMetrics,
+      shareText: WellnessPassport.shareText(`${clientName}'s wellness journey`, journeyMetrics, firstScan.scan_date)
+    })
+  }
+
+  cards.push({
+    id: 'sessions',
+    title: 'Sessions',
+    subtitle: nextBooking
+      ? `Next: ${format(parseISO(nextBooking.appointment_date), 'd MMM yyyy, HH:mm')}`
+      : 'No upcoming sessions',
+    variant: 'rose',
+    metrics: [],
+    shareText: `${clientName} has completed ${completedSessions} wellness session${completedSessions === 1 ? '' : 's'}`
+  })
+
+  const handleShare = async (card: SummaryCard) => {
+    try {
+      if (navigator.share) {
+        await navigator.share({ title: card.title, text: card.shareText })
+      } else {
+        await navigator.clipboard.writeText(card.shareText)
+      }
+      setSharedCard(card.id)
+      setTimeout(() => setSharedCard(null), 3000)
+    } catch (error) {
+      // Closing the share sheet rejects with AbortError; nothing to report
+      if ((error as Error).name !== 'AbortError') {
+        console.error('Error sharing summary:', error)
+      }
+    }
+  }
+
+  const getChangeIcon = (metric: HeadlineMetric) => {
+    if (metric.change === undefined) return null
+    if (metric.direction === 'improvement') return <TrendingUp className="w-3 h-3 text-green-600" />
+    if (metric.direction === 'deterioration') return <TrendingDown className="w-3 h-3 text-red-600" />
+    return <Minus className="w-3 h-3 text-gray-400" />
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-6 print:grid-cols-3">
+      {cards.map(card => (
+        <Card key={card.id} variant={card.variant} hover={false} className="print-avoid-break">
+          <CardContent>
+            <div className="flex items-start justify-between mb-4">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">{card.title}</h3>
+                {card.subtitle && <p className="text-sm text-gray-600">{card.subtitle}</p>}
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                icon={sharedCard === card.id ? Check : Share2}
+                onClick={() => handleShare(card)}
+                className="print:hidden"
+              >
+                {sharedCard === card.id ? 'Shared' : 'Share'}
+              </Button>
+            </div>
+
+            {card.id === 'sessions' ? (
+              <div className="flex items-center space-x-3">
+                <div className="w-12 h-12 bg-white rounded-lg flex items-center justify-center">
+                  <Calendar className="w-6 h-6 text-wellness-rose-600" />
+                </div>
+                <div>
+                  <p className="text-3xl font-bold text-gray-900">{completedSessions}</p>
+                  <p className="text-sm text-gray-600">Completed sessions</p>
+                </div>
+              </div>
+            ) : card.metrics.length > 0 ? (
+              <div className="grid grid-cols-2 gap-3">
+                {card.metrics.map(metric => (
+                  <div key={metric.key} className="bg-white rounded-lg p-3">
+                    <p className="text-xs text-gray-500">{metric.label}</p>
+                    <p className="text-lg font-semibold text-gray-900">
+                      {WellnessPassport.formatValue(metric.value, metric.unit)}
+                    </p>
+                    {metric.change !== undefined && (
+                      <div className="flex items-center space-x-1 text-xs text-gray-600">
+                        {getChangeIcon(metric)}
+                        <span>{WellnessPassport.formatChange(metric.change, metric.unit)}</span>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="flex items-center space-x-2 text-sm text-gray-600">
+                <Activity className="w-4 h-4" />
+                <span>No headline metrics recorded</span>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,99 @@
+import { format, parseISO } from 'date-fns'
+import { Activity, Calendar, CheckCircle, FileText, MessageSquare } from 'lucide-react'
+import { PassportEvent, PassportEventType, WellnessPassport } from '../../lib/wellnessPassport'
+
+interface PassportTimelineProps {
+  events: PassportEvent[]
+}
+
+const eventStyles: Record<PassportEventType, { icon: typeof Activity; color: string; label: string }> = {
+  onboarding: { icon: CheckCircle, color: 'bg-wellness-sage-100 text-wellness-sage-700', label: 'Onboarding' },
+  scan: { icon: Activity, color: 'bg-wellness-eucalyptus-100 text-wellness-eucalyptus-700', label: 'Scan' },
+  booking: { icon: Calendar, color: 'bg-wellness-rose-100 text-wellness-rose-700', label: 'Session' },
+  report: { icon: FileText, color: 'bg-blue-100 text-blue-700', label: 'Report' }
+}
+
+const bookingStatusLabels: Record<string, string> = {
+  scheduled: 'Upcoming',
+  completed: 'Completed',
+  no_show: 'Missed'
+}
+
+export function PassportTimeline({ events }: PassportTimelineProps) {
+  if (events.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <Activity className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2">Your journey starts here</h3>
+        <p className="text-gray-600">Scans, sessions and reports will appear here as they happen.</p>
+      </div>
+    )
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-5">
+      {events.map(event => {
+        const style = eventStyles[event.type]
+        const Icon = style.icon
+
+        return (
+          <li key={event.id} className="mb-8 ml-8 print-avoid-break">
+            <span className={`absolute -left-5 flex items-center justify-center w-10 h-10 rounded-full ring-4 ring-white ${style.color}`}>
+              <Icon className="w-5 h-5" />
+            </span>
+
+            <div className="flex flex-wrap items-center gap-2 mb-1">
+              <h4 className="font-medium text-gray-900">{event.title}</h4>
+              <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${style.color}`}>
+                {style.label}
+              </span>
+              {event.status && bookingStatusLabels[event.status] && (
+                <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-gray-100 text-gray-700">
+                  {bookingStatusLabels[event.status]}
+                </span>
+              )}
+            </div>
+            <time className="block text-sm text-gray-500 mb-2">
+              {format(parseISO(event.date), 'EEEE, d MMMM yyyy')}
+            </time>
+
+            {event.description && (
+              <p className="text-sm text-gray-600 mb-2">{event.description}</p>
+            )}
+
+            {event.metrics && event.metrics.length > 0 && (
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-2 mb-2">
+                {event.metrics.map(metric => (
+                  <div key={metric.key} className="bg-gray-50 rounded-lg px-3 py-2">
+                    <p className="text-xs text-gray-500">{metric.label}</p>
+                    <p className="text-sm font-semibold text-gray-900">
+                      {WellnessPassport.formatValue(metric.value, metric.unit)}
+                      {metric.change !== undefined && (
+                        <span className={`ml-2 text-xs font-normal ${
+                          metric.direction === 'improvement' ? 'text-green-600' :
+                          metric.direction === 'deterioration' ? 'text-red-600' : 'text-gray-500'
+                        }`}>
+                          {WellnessPassport.formatChange(metric.change, metric.unit)}
+                        </span>
+                      )}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {event.notes && (
+              <div className="flex items-start space-x-2 p-3 bg-wellness-sage-50 rounded-lg">
+                <MessageSquare className="w-4 h-4 text-wellness-sage-600 mt-0.5 flex-shrink-0" />
+                <div>
+                  <p className="text-xs font-medium text-wellness-sage-800 mb-1">Practitioner notes</p>
+                  <p className="text-sm text-gray-700 whitespace-pre-line">{event.notes}</p>
+                </div>
+              </div>
+            )}
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
@@ -0,0 +1,126 @@
+import { format, parseISO } from 'date-fns'
+import { CheckCircle, Circle, Edit, Archive, RotateCcw, Trash2, Trophy, AlertCircle } from 'lucide-react'
+import { Card, CardContent } from '../ui/Card'
+import { Button } from '../ui/Button'
+import { PassportScan, WellnessPassport } from '../../lib/wellnessPassport'
+import { ClientGoal, ProgressGoals } from '../../lib/progressGoals'
+
+interface GoalCardProps {
+  goal: ClientGoal
+  scans: PassportScan[]
+  onEdit: (goal: ClientGoal) => void
+  onArchive: (goal: ClientGoal) => void
+  onRestore: (goal: ClientGoal) => void
+  onDelete: (goal: ClientGoal) => void
+}
+
+export function GoalCard({ goal, scans, onEdit, onArchive, onRestore, onDelete }: GoalCardProps) {
+  const progress = ProgressGoals.progress(goal, scans)
+  const unit = ProgressGoals.metricUnit(goal.metric)
+  const archived = goal.status === 'archived'
+
+  return (
+    <Card hover={false} className={archived ? 'opacity-70' : ''}>
+      <CardContent>
+        <div className="space-y-4">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <p className="text-xs font-medium text-wellness-sage-700 uppercase tracking-wide">{goal.transformation_reason}</p>
+              <h3 className="text-lg font-semibold text-gray-900 mt-1">
+                {ProgressGoals.metricLabel(goal.metric)}: {WellnessPassport.formatValue(goal.start_value, unit)} → {WellnessPassport.formatValue(goal.target_value, unit)}
+              </h3>
+              <p className="text-sm text-gray-500">
+                Set {format(parseISO(goal.start_date), 'd MMM yyyy')}
+                {goal.target_date && ` • Target ${format(parseISO(goal.target_date), 'd MMM yyyy')}`}
+              </p>
+            </div>
+            {progress.achieved ? (
+              <span className="flex items-center space-x-1 px-2 py-1 text-xs font-medium rounded-full bg-green-100 text-green-800">
+                <Trophy className="w-3 h-3" />
+                <span>Achieved</span>
+              </span>
+            ) : progress.overdue && !archived ? (
+              <span className="px-2 py-1 text-xs font-medium rounded-full bg-amber-100 text-amber-800">Past target date</span>
+            ) : null}
+          </div>
+
+          {/* Progress */}
+          <div>
+            <div className="flex justify-between text-sm mb-1">
+              <span className="text-gray-600">Now {WellnessPassport.formatValue(progress.current, unit)}</span>
+              <span className="font-medium text-gray-900">{Math.round(progress.percent)}%</span>
+            </div>
+            <div className="h-3 bg-gray-100 rounded-full">
+              <div
+                className="h-3 rounded-full bg-gradient-to-r from-wellness-sage-500 to-wellness-eucalyptus-500 transition-all duration-500"
+                style={{ width: `${progress.percent}%` }}
+              />
+            </div>
+          </div>
+
+          {/* Milestones */}
+          <div className="grid grid-cols-4 gap-2">
+            {progress.milestones.map(milestone => (
+              <div
+                key={milestone.percent}
+                className={`p-2 rounded-lg text-center border ${
+                  milestone.reached_at ? 'bg-wellness-sage-50 border-wellness-sage-200' : 'border-gray-200'
+                }`}
+              >
+                {milestone.reached_at ? (
+                  <CheckCircle className="w-4 h-4 text-wellness-sage-600 mx-auto" />
+                ) : (
+                  <Circle className="w-4 h-4 text-gray-300 mx-auto" />
+                )}
+                <p className="text-xs font-medium text-gray-900 mt-1">{milestone.percent}%</p>
+                <p className="text-xs text-gray-500">{WellnessPassport.formatValue(milestone.value, unit)}</p>
+                {milestone.reached_at && (
+                  <p className="text-xs text-wellness-sage-700">{format(parseISO(milestone.reached_at), 'd MMM')}</p>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {progress.against_recommendation && (
+            <div className="flex items-start space-x-2 p-3 bg-amber-50 border border-amber-200 rounded-lg">
+              <AlertCircle className="w-4 h-4 text-amber-600 flex-shrink-0 mt-0.5" />
+              <p className="text-xs text-amber-800">
+                This target moves {ProgressGoals.metricLabel(goal.metric).toLowerCase()} in the less healthy direction. Discuss it with your practitioner.
+              </p>
+            </div>
+          )}
+
+          {goal.notes && <p className="text-sm text-gray-600">{goal.notes}</p>}
+
+          <div className="flex justify-end space-x-2 pt-2 border-t">
+            {archived ? (
+              <>
+                <Button variant="ghost" size="sm" icon={RotateCcw} onClick={() => onRestore(goal)}>
+                  Restore
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  icon={Trash2}
+                  onClick={() => onDelete(goal)}
+                  className="text-red-600 hover:text-red-700"
+                >
+                  Delete
+                </Button>
+              </>
+            ) : (
+              <>
+                <Button variant="ghost" size="sm" icon={Edit} onClick={() => onEdit(goal)}>
+                  Edit
+                </Button>
+                <Button variant="ghost" size="sm" icon={Archive} onClick={() => onArchive(goal)}>
+                  Archive
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,182 @@
+import { useState } from 'react'
+import { X, AlertCircle, Target } from 'lucide-react'
+import { Card, CardHeader, CardContent } from '../ui/Card'
+import { Button } from '../ui/Button'
+import { Input } from '../ui/Input'
+import { PassportScan } from '../../lib/wellnessPassport'
+import { ClientGoal, GoalMetric, ProgressGoals, GOAL_METRICS } from '../../lib/progressGoals'
+
+interface GoalFormProps {
+  clientId: string
+  reasons: string[]
+  scans: PassportScan[]
+  goal?: ClientGoal
+  onClose: () => void
+  onSaved: (message: string) => void
+}
+
+export function GoalForm({ clientId, reasons, scans, goal, onClose, onSaved }: GoalFormProps) {
+  const initialMetric = goal?.metric || 'body_score'
+  const initialStart = goal?.start_value ?? ProgressGoals.latestValue(scans, initialMetric)
+
+  const [reason, setReason] = useState(goal?.transformation_reason || reasons[0] || '')
+  const [metric, setMetric] = useState<GoalMetric>(initialMetric)
+  const [startValue, setStartValue] = useState(initialStart?.toString() || '')
+  const [targetValue, setTargetValue] = useState(
+    goal?.target_value.toString() ||
+    (initialStart !== null ? ProgressGoals.suggestedTarget(initialMetric, initialStart).toString() : '')
+  )
+  const [targetDate, setTargetDate] = useState(goal?.target_date || '')
+  const [notes, setNotes] = useState(goal?.notes || '')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // The starting point is the latest scan; it can't move once progress is being tracked
+  const changeMetric = (next: GoalMetric) => {
+    setMetric(next)
+    const latest = ProgressGoals.latestValue(scans, next)
+    setStartValue(latest?.toString() || '')
+    setTargetValue(latest !== null ? ProgressGoals.suggestedTarget(next, latest).toString() : '')
+  }
+
+  const unit = ProgressGoals.metricUnit(metric)
+  const start = parseFloat(startValue)
+  const target = parseFloat(targetValue)
+
+  const handleSave = async () => {
+    if (!reason) {
+      setError('Choose the transformation reason this goal supports.')
+      return
+    }
+    if (isNaN(start) || isNaN(target)) {
+      setError('Enter a starting value and a target.')
+      return
+    }
+    if (start === target) {
+      setError('The target must differ from your starting value.')
+      return
+    }
+
+    try {
+      setSaving(true)
+      setError(null)
+      await ProgressGoals.save(clientId, {
+        transformation_reason: reason,
+        metric,
+        start_value: start,
+        target_value: target,
+        target_date: targetDate || null,
+        notes: notes.trim()
+      }, goal)
+      onSaved(goal ? 'Goal updated.' : 'Goal created.')
+    } catch (error) {
+      console.error('Error saving goal:', error)
+      setError('Error saving the goal. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <Card className="w-full max-w-lg max-h-[90vh] overflow-y-auto" hover={false}>
+        <CardHeader
+          title={goal ? 'Edit Goal' : 'New Goal'}
+          description="Link a scan measurement to one of your reasons for transformation"
+          action={
+            <Button
+              variant="ghost"
+              size="sm"
+              icon={X}
+              onClick={onClose}
+            />
+          }
+        />
+        <CardContent>
+          <div className="space-y-4">
+            {error && (
+              <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg">
+                <AlertCircle className="w-4 h-4 text-red-600 flex-shrink-0" />
+                <p className="text-sm text-red-700">{error}</p>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Transformation Reason</label>
+              <select
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                className="wellness-input"
+              >
+                {reasons.map(option => (
+                  <option key={option} value={option}>{option}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Measurement</label>
+              <select
+                value={metric}
+                onChange={(e) => changeMetric(e.target.value as GoalMetric)}
+                className="wellness-input"
+                disabled={!!goal}
+              >
+                {GOAL_METRICS.map(option => (
+                  <option key={option.key} value={option.key}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <Input
+                label={`Starting Value${unit ? ` (${unit})` : ''}`}
+                type="number"
+                step="0.1"
+                value={startValue}
+                onChange={(e) => setStartValue(e.target.value)}
+                helperText={goal ? undefined : 'From your latest scan'}
+                disabled={!!goal}
+              />
+              <Input
+                label={`Target${unit ? ` (${unit})` : ''}`}
+                type="number"
+                step="0.1"
+                value={targetValue}
+                onChange={(e) => setTargetValue(e.target.value)}
+                icon={Target}
+              />
+            </div>
+
+            <Input
+              label="Target Date (optional)"
+              type="date"
+              value={targetDate}
+              onChange={(e) => setTargetDate(e.target.value)}
+            />
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Notes</label>
+              <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={3}
+                className="wellness-input"
+                placeholder="Why this goal matters to you"
+              />
+            </div>
+
+            <div className="flex justify-end space-x-3 pt-4 border-t">
+              <Button variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button variant="primary" onClick={handleSave} loading={saving}>
+                {goal ? 'Save Goal' : 'Create Goal'}
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,84 @@
+import { useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine
+} from 'recharts'
+import { Card, CardHeader, CardContent } from '../ui/Card'
+import { PassportScan, WellnessPassport } from '../../lib/wellnessPassport'
+import { ClientGoal, GoalMetric, ProgressGoals, GOAL_METRICS } from '../../lib/progressGoals'
+
+interface MetricHistoryChartProps {
+  scans: PassportScan[]
+  goals: ClientGoal[]
+}
+
+export function MetricHistoryChart({ scans, goals }: MetricHistoryChartProps) {
+  const [metric, setMetric] = useState<GoalMetric>('body_score')
+
+  const unit = ProgressGoals.metricUnit(metric)
+  const data = scans
+    .filter(scan => scan[metric] !== null && scan[metric] !== undefined)
+    .map(scan => ({
+      date: format(parseISO(scan.scan_date), 'd MMM yy'),
+      value: Number(scan[metric])
+    }))
+  const targets = goals.filter(goal => goal.status === 'active' && goal.metric === metric)
+
+  return (
+    <Card hover={false}>
+      <CardHeader
+        title="Measurements Over Time"
+        description={`${data.length} scan${data.length === 1 ? '' : 's'} with ${ProgressGoals.metricLabel(metric).toLowerCase()}`}
+      />
+      <CardContent>
+        <div className="flex flex-wrap gap-2 mb-6">
+          {GOAL_METRICS.map(option => (
+            <button
+              key={option.key}
+              onClick={() => setMetric(option.key)}
+              className={`px-3 py-1.5 text-sm rounded-full border transition-colors ${
+                metric === option.key
+                  ? 'bg-wellness-sage-600 border-wellness-sage-600 text-white'
+                  : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        {data.length === 0 ? (
+          <p className="text-sm text-gray-500 py-12 text-center">No scans have recorded this measurement yet.</p>
+        ) : (
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={data} margin={{ top: 10, right: 20, bottom: 0, left: -10 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" />
+                <XAxis dataKey="date" tick={{ fontSize: 12, fill: '#6B7280' }} />
+                <YAxis domain={['auto', 'auto']} tick={{ fontSize: 12, fill: '#6B7280' }} />
+                <Tooltip formatter={(value: number) => WellnessPassport.formatValue(value, unit)} />
+                {targets.map(goal => (
+                  <ReferenceLine
+                    key={goal.id}
+                    y={goal.target_value}
+                    stroke="#E57373"
+                    strokeDasharray="4 4"
+                    label={{ value: 'Target', position: 'right', fontSize: 11, fill: '#E57373' }}
+                  />
+                ))}
+                <Line type="monotone" dataKey="value" stroke="#059669" strokeWidth={2} dot={{ r: 4 }} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,105 @@
+import { useState, useEffect, useCallback } from 'react'
+import { FileText, Eye, AlertCircle } from 'lucide-react'
+import { Card, CardHeader, CardContent } from '../ui/Card'
+import { Button } from '../ui/Button'
+import { ReportDocument } from './ReportDocument'
+import { WellnessReport, WellnessReportGenerator } from '../../lib/wellnessReports'
+import { useAuth } from '../../hooks/useAuth'
+import { supabase } from '../../lib/supabase'
+import { formatSADate } from '../../lib/utils'
+
+export function ClientReports() {
+  const [reports, setReports] = useState<WellnessReport[]>([])
+  const [viewing, setViewing] = useState<WellnessReport | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const { user } = useAuth()
+
+  const loadReports = useCallback(async () => {
+    if (!user) return
+
+    try {
+      setLoading(true)
+      const { data: clients, error } = await supabase
+        .from('clients')
+        .select('id')
+        .eq('profile_id', user.id)
+
+      if (error) throw error
+
+      const results = await Promise.all((clients || []).map(client => WellnessReportGenerator.fetchReports(client.id)))
+      setReports(results.flat())
+    } catch (error) {
+      console.error('Error loading reports:', error)
+      setError('Error loading your reports. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }, [user])
+
+  useEffect(() => {
+    loadReports()
+  }, [loadReports])
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="w-8 h-8 border-4 border-wellness-sage-200 border-t-wellness-sage-600 rounded-full animate-spin"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">My Reports</h1>
+        <p className="text-gray-600 mt-1">Wellness reports your practitioner has prepared from your scans</p>
+      </div>
+
+      {error && (
+        <Card variant="minimal" className="border-red-200 bg-red-50">
+          <CardContent>
+            <div className="flex items-center space-x-3">
+              <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card hover={false}>
+        <CardHeader title="Reports" />
+        <CardContent>
+          {reports.length === 0 ? (
+            <div className="text-center py-8">
+              <FileText className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-600">No reports yet. Your practitioner will share one after your scan is reviewed.</p>
+            </div>
+          ) : (
+            <div className="divide-y divide-gray-100">
+              {reports.map(report => (
+                <div key={report.id} className="flex items-center justify-between py-3">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">{report.report_data.title}</p>
+                    <p className="text-xs text-gray-500">
+                      Scan {formatSADate(report.report_data.scan_date)}
+                      {report.report_data.prepared_by && ` • Prepared by ${report.report_data.prepared_by}`}
+                    </p>
+                  </div>
+                  <Button variant="ghost" size="sm" icon={Eye} onClick={() => setViewing(report)}>
+                    View
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {viewing && (
+        <ReportDocument report={viewing.report_data} onClose={() => setViewing(null)} />
+      )}
+    </div>
+  )
+}
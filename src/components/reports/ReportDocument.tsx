@@ -0,0 +1,68 @@
+import { useEffect } from 'react'
+import { createPortal } from 'react-dom'
+import { X, Printer, Zap } from 'lucide-react'
+import { Button } from '../ui/Button'
+import { WellnessReportView } from './WellnessReportView'
+import { WellnessReportData } from '../../lib/wellnessReports'
+import { formatSADate } from '../../lib/utils'
+
+interface ReportDocumentProps {
+  report: WellnessReportData
+  onClose: () => void
+}
+
+// Branded report for printing or saving as PDF, rendered outside the app root like invoices
+export function ReportDocument({ report, onClose }: ReportDocumentProps) {
+  useEffect(() => {
+    document.body.classList.add('printing-document')
+    const previousTitle = document.title
+    // Browsers suggest the document title as the PDF file name
+    document.title = `${report.title} - ${report.client.name}`
+    return () => {
+      document.body.classList.remove('printing-document')
+      document.title = previousTitle
+    }
+  }, [report])
+
+  return createPortal(
+    <div className="print-document fixed inset-0 bg-black bg-opacity-50 flex items-start justify-center z-50 p-4 overflow-y-auto">
+      <div className="w-full max-w-4xl">
+        <div className="flex justify-end space-x-2 mb-3 print:hidden">
+          <Button variant="secondary" size="sm" icon={Printer} onClick={() => window.print()}>
+            Print / Save PDF
+          </Button>
+          <Button variant="secondary" size="sm" icon={X} onClick={onClose}>
+            Close
+          </Button>
+        </div>
+
+        <div className="bg-white rounded-lg p-10 print:p-0 print:rounded-none">
+          <div className="flex items-start justify-between pb-6 mb-8 border-b-4 border-wellness-sage-500">
+            <div className="flex items-center space-x-3">
+              <div className="w-12 h-12 bg-gradient-to-br from-wellness-sage-500 to-wellness-eucalyptus-500 rounded-xl flex items-center justify-center">
+                <Zap className="w-7 h-7 text-white" />
+              </div>
+              <div>
+                <p className="text-xl font-bold text-gray-900">LifePath</p>
+                <p className="text-sm text-gray-500">Wellness Portal</p>
+              </div>
+            </div>
+            <div className="text-right">
+              <h1 className="text-2xl font-bold text-wellness-sage-700">Wellness Report</h1>
+              <p className="text-gray-900 font-medium mt-1">{report.client.name}</p>
+              <p className="text-sm text-gray-500">{report.client.client_code} • Scan {formatSADate(report.scan_date)}</p>
+            </div>
+          </div>
+
+          <WellnessReportView report={report} />
+
+          <p className="mt-10 pt-4 border-t text-xs text-gray-400">
+            This report summarises body composition measurements and is not a medical diagnosis.
+            Discuss any concerns with your practitioner or doctor.
+          </p>
+        </div>
+      </div>
+    </div>,
+    document.body
+  )
+}
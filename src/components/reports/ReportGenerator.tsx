@@ -0,0 +1,272 @@
+import { useState, useEffect, useMemo } from 'react'
+import { X, Search, User, AlertCircle, Save } from 'lucide-react'
+import { Card, CardHeader, CardContent } from '../ui/Card'
+import { Button } from '../ui/Button'
+import { Input } from '../ui/Input'
+import { WellnessReportView } from './WellnessReportView'
+import { ClientCandidate, ClientResolver } from '../../lib/clientResolver'
+import { ReferenceRangeEngine, ReferenceSubject } from '../../lib/referenceRanges'
+import { PathIDDictionary, PathIDDefinition } from '../../lib/pathIdDictionary'
+import {
+  ReportScan,
+  WellnessReport,
+  WellnessReportData,
+  WellnessReportGenerator
+} from '../../lib/wellnessReports'
+import { useAuth } from '../../hooks/useAuth'
+import { formatSADate } from '../../lib/utils'
+
+interface ReportGeneratorProps {
+  // Editing keeps the report's measurements and only changes the commentary
+  report?: WellnessReport
+  onClose: () => void
+  onSaved: (report: WellnessReport) => void
+}
+
+export function ReportGenerator({ report, onClose, onSaved }: ReportGeneratorProps) {
+  const [client, setClient] = useState<ClientCandidate | null>(null)
+  const [clientSearchTerm, setClientSearchTerm] = useState('')
+  const [clientSearchResults, setClientSearchResults] = useState<ClientCandidate[]>([])
+  const [scans, setScans] = useState<ReportScan[]>([])
+  const [scanId, setScanId] = useState('')
+  const [subject, setSubject] = useState<ReferenceSubject>({})
+  const [dictionary, setDictionary] = useState<Map<string, PathIDDefinition>>(new Map())
+  const [practitionerNotes, setPractitionerNotes] = useState(report?.report_data.practitioner_notes || '')
+  const [recommendations, setRecommendations] = useState(report?.report_data.recommendations || '')
+  const [loadingScans, setLoadingScans] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const { profile } = useAuth()
+
+  useEffect(() => {
+    PathIDDictionary.load().then(setDictionary)
+  }, [])
+
+  useEffect(() => {
+    if (!client) return
+
+    const loadScans = async () => {
+      try {
+        setLoadingScans(true)
+        const [clientScans, clientSubject] = await Promise.all([
+          WellnessReportGenerator.fetchScans(client.id),
+          ReferenceRangeEngine.loadSubject(client.id)
+        ])
+        const processed = clientScans.filter(scan => scan.processing_status === 'completed')
+        setScans(processed)
+        setSubject(clientSubject)
+        setScanId(processed[processed.length - 1]?.id || '')
+      } catch (error) {
+        console.error('Error loading client scans:', error)
+        setError('Error loading the client\'s scans. Please try again.')
+      } finally {
+        setLoadingScans(false)
+      }
+    }
+
+    loadScans()
+  }, [client])
+
+  const preparedBy = [profile?.first_name, profile?.last_name].filter(Boolean).join(' ')
+
+  const preview = useMemo<WellnessReportData | null>(() => {
+    const commentary = {
+      practitioner_notes: practitionerNotes,
+      recommendations,
+      prepared_by: report?.report_data.prepared_by || preparedBy
+    }
+
+    if (report) {
+      return { ...report.report_data, ...commentary }
+    }
+
+    const scan = scans.find(candidate => candidate.id === scanId)
+    if (!client || !scan) return null
+
+    return WellnessReportGenerator.generate({
+      scan,
+      history: scans,
+      subject,
+      dictionary,
+      client: { name: `${client.first_name} ${client.last_name}`.trim(), client_code: client.client_code },
+      commentary
+    })
+  }, [report, client, scans, scanId, subject, dictionary, practitionerNotes, recommendations, preparedBy])
+
+  const searchClients = async (term: string) => {
+    setClientSearchTerm(term)
+    try {
+      setClientSearchResults(await ClientResolver.search(term))
+    } catch (error) {
+      console.error('Error searching clients:', error)
+    }
+  }
+
+  const handleSave = async () => {
+    const clientId = report?.client_id || client?.id
+    const reportScanId = report?.scan_id || scanId
+    if (!preview || !clientId || !reportScanId) {
+      setError('Please select a client and a processed scan.')
+      return
+    }
+
+    try {
+      setSaving(true)
+      setError(null)
+      const saved = await WellnessReportGenerator.save({
+        id: report?.id,
+        client_id: clientId,
+        scan_id: reportScanId,
+        report_data: preview
+      })
+      onSaved(saved)
+    } catch (error) {
+      console.error('Error saving report:', error)
+      setError('Error saving the report. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <Card className="w-full max-w-4xl max-h-[90vh] overflow-y-auto" hover={false}>
+        <CardHeader
+          title={report ? 'Edit Report Commentary' : 'Generate Wellness Report'}
+          description={report ? report.report_data.title : 'Scores, out-of-range Path IDs and changes are taken from the scan'}
+          action={
+            <Button
+              variant="ghost"
+              size="sm"
+              icon={X}
+              onClick={onClose}
+            />
+          }
+        />
+        <CardContent>
+          <div className="space-y-6">
+            {error && (
+              <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg">
+                <AlertCircle className="w-4 h-4 text-red-600 flex-shrink-0" />
+                <p className="text-sm text-red-700">{error}</p>
+              </div>
+            )}
+
+            {!report && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {/* Client */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Client</label>
+                  {client ? (
+                    <div className="flex items-center justify-between p-3 bg-wellness-sage-50 border border-wellness-sage-200 rounded-lg">
+                      <div className="flex items-center space-x-3">
+                        <User className="w-5 h-5 text-wellness-sage-600" />
+                        <div>
+                          <p className="text-sm font-medium text-gray-900">{client.first_name} {client.last_name}</p>
+                          <p className="text-xs text-gray-600">{client.client_code} • {client.email}</p>
+                        </div>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => {
+                          setClient(null)
+                          setScans([])
+                          setScanId('')
+                        }}
+                      >
+                        Change
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="space-y-2">
+                      <Input
+                        placeholder="Search by name, email or client code..."
+                        icon={Search}
+                        value={clientSearchTerm}
+                        onChange={(e) => searchClients(e.target.value)}
+                      />
+                      {clientSearchResults.length > 0 && (
+                        <div className="border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-48 overflow-y-auto">
+                          {clientSearchResults.map(candidate => (
+                            <button
+                              key={candidate.id}
+                              onClick={() => setClient(candidate)}
+                              className="w-full text-left px-3 py-2 hover:bg-gray-50"
+                            >
+                              <p className="text-sm font-medium text-gray-900">{candidate.first_name} {candidate.last_name}</p>
+                              <p className="text-xs text-gray-600">{candidate.client_code} • {candidate.email}</p>
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+
+                {/* Scan */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Scan</label>
+                  <select
+                    value={scanId}
+                    onChange={(e) => setScanId(e.target.value)}
+                    disabled={!client || loadingScans || scans.length === 0}
+                    className="wellness-input"
+                  >
+                    {scans.length === 0 && (
+                      <option value="">{client && !loadingScans ? 'No processed scans' : 'Select a client first'}</option>
+                    )}
+                    {[...scans].reverse().map(scan => (
+                      <option key={scan.id} value={scan.id}>
+                        {formatSADate(scan.scan_date)} • {scan.path_ids.length} Path IDs
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Practitioner Commentary</label>
+                <textarea
+                  value={practitionerNotes}
+                  onChange={(e) => setPractitionerNotes(e.target.value)}
+                  rows={5}
+                  placeholder="What the results mean for this client"
+                  className="wellness-input"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Recommendations</label>
+                <textarea
+                  value={recommendations}
+                  onChange={(e) => setRecommendations(e.target.value)}
+                  rows={5}
+                  placeholder="Next steps, lifestyle changes, when to rescan"
+                  className="wellness-input"
+                />
+              </div>
+            </div>
+
+            {preview && (
+              <div className="pt-6 border-t">
+                <h4 className="text-sm font-medium text-gray-500 uppercase mb-4">Preview</h4>
+                <WellnessReportView report={preview} />
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-3 pt-4 border-t">
+              <Button variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button variant="primary" icon={Save} onClick={handleSave} loading={saving} disabled={!preview}>
+                {report ? 'Save Changes' : 'Save Report'}
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,191 @@
+import { useState, useEffect } from 'react'
+import {
+  Plus,
+  Search,
+  FileText,
+  Eye,
+  Edit,
+  Trash2,
+  AlertCircle,
+  CheckCircle
+} from 'lucide-react'
+import { Card, CardHeader, CardContent } from '../ui/Card'
+import { Button } from '../ui/Button'
+import { Input } from '../ui/Input'
+import { ReportGenerator } from './ReportGenerator'
+import { ReportDocument } from './ReportDocument'
+import { WellnessReport, WellnessReportGenerator } from '../../lib/wellnessReports'
+import { formatSADate, formatSADateTime } from '../../lib/utils'
+
+export function ReportManager() {
+  const [reports, setReports] = useState<WellnessReport[]>([])
+  const [loading, setLoading] = useState(true)
+  const [searchTerm, setSearchTerm] = useState('')
+  const [generating, setGenerating] = useState(false)
+  const [editing, setEditing] = useState<WellnessReport | null>(null)
+  const [viewing, setViewing] = useState<WellnessReport | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchReports()
+  }, [])
+
+  useEffect(() => {
+    if (error || success) {
+      const timer = setTimeout(() => {
+        setError(null)
+        setSuccess(null)
+      }, 5000)
+      return () => clearTimeout(timer)
+    }
+  }, [error, success])
+
+  const fetchReports = async () => {
+    try {
+      setLoading(true)
+      setReports(await WellnessReportGenerator.fetchReports())
+    } catch (error) {
+      console.error('Error loading reports:', error)
+      setError('Error loading reports. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSaved = (report: WellnessReport) => {
+    setSuccess(editing ? 'Report updated.' : 'Report generated.')
+    setGenerating(false)
+    setEditing(null)
+    fetchReports()
+    setViewing(report)
+  }
+
+  const deleteReport = async (report: WellnessReport) => {
+    if (!confirm(`Are you sure you want to delete "${report.report_data.title}" for ${WellnessReportGenerator.clientName(report)}?`)) return
+
+    try {
+      await WellnessReportGenerator.remove(report.id)
+      setSuccess('Report deleted.')
+      fetchReports()
+    } catch (error) {
+      console.error('Error deleting report:', error)
+      setError('Error deleting the report. Please try again.')
+    }
+  }
+
+  const term = searchTerm.trim().toLowerCase()
+  const filteredReports = reports.filter(report =>
+    !term ||
+    WellnessReportGenerator.clientName(report).toLowerCase().includes(term) ||
+    report.client?.client_code?.toLowerCase().includes(term) ||
+    report.report_data.title.toLowerCase().includes(term)
+  )
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Wellness Reports</h1>
+          <p className="text-gray-600 mt-1">Generate, review and export client reports from processed scans</p>
+        </div>
+        <Button variant="primary" icon={Plus} onClick={() => setGenerating(true)}>
+          Generate Report
+        </Button>
+      </div>
+
+      {/* Status Messages */}
+      {error && (
+        <Card variant="minimal" className="border-red-200 bg-red-50">
+          <CardContent>
+            <div className="flex items-center space-x-3">
+              <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {success && (
+        <Card variant="minimal" className="border-green-200 bg-green-50">
+          <CardContent>
+            <div className="flex items-center space-x-3">
+              <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0" />
+              <p className="text-sm text-green-700">{success}</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card hover={false}>
+        <CardHeader
+          title="All Reports"
+          description={`${reports.length} report${reports.length === 1 ? '' : 's'}`}
+          action={
+            <Input
+              placeholder="Search by client or title..."
+              icon={Search}
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+            />
+          }
+        />
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="w-8 h-8 border-4 border-wellness-sage-200 border-t-wellness-sage-600 rounded-full animate-spin"></div>
+            </div>
+          ) : filteredReports.length === 0 ? (
+            <div className="text-center py-12">
+              <FileText className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-600">No reports yet. Generate one from a client's processed scan.</p>
+            </div>
+          ) : (
+            <div className="divide-y divide-gray-100">
+              {filteredReports.map(report => (
+                <div key={report.id} className="flex items-center justify-between py-3">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">{WellnessReportGenerator.clientName(report)}</p>
+                    <p className="text-xs text-gray-500">
+                      {report.client?.client_code} • Scan {formatSADate(report.report_data.scan_date)} •
+                      {' '}{report.report_data.out_of_range.length} out of range • Generated {formatSADateTime(report.generated_at)}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-1">
+                    <Button variant="ghost" size="sm" icon={Eye} onClick={() => setViewing(report)}>
+                      View
+                    </Button>
+                    <Button variant="ghost" size="sm" icon={Edit} onClick={() => setEditing(report)} />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      icon={Trash2}
+                      onClick={() => deleteReport(report)}
+                      className="text-red-600 hover:text-red-700"
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {(generating || editing) && (
+        <ReportGenerator
+          report={editing || undefined}
+          onClose={() => {
+            setGenerating(false)
+            setEditing(null)
+          }}
+          onSaved={handleSaved}
+        />
+      )}
+
+      {viewing && (
+        <ReportDocument report={viewing.report_data} onClose={() => setViewing(null)} />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,160 @@
+import { TrendingUp, TrendingDown, ArrowRight, CheckCircle, AlertTriangle } from 'lucide-react'
+import { ChangeDirection } from '../../lib/changeDetection'
+import {
+  ReportTrend,
+  WellnessReportData,
+  FINDING_STATUS_COLORS,
+  FINDING_STATUS_LABELS
+} from '../../lib/wellnessReports'
+import { WellnessPassport } from '../../lib/wellnessPassport'
+import { formatSADate } from '../../lib/utils'
+
+interface WellnessReportViewProps {
+  report: WellnessReportData
+}
+
+const directionColors: Record<ChangeDirection, string> = {
+  improvement: 'text-green-700',
+  deterioration: 'text-red-700',
+  change: 'text-gray-700',
+  stable: 'text-gray-500'
+}
+
+export function WellnessReportView({ report }: WellnessReportViewProps) {
+  const improvements = report.trends.filter(trend => trend.direction === 'improvement')
+  const concerns = report.trends.filter(trend => trend.direction !== 'improvement')
+
+  const renderTrend = (trend: ReportTrend) => (
+    <div key={trend.path_id} className="flex items-center justify-between py-2 text-sm print-avoid-break">
+      <span className="text-gray-900">{trend.name}</span>
+      <span className="flex items-center space-x-2">
+        <span className="text-gray-500">{WellnessPassport.formatValue(trend.previous, trend.unit)}</span>
+        <ArrowRight className="w-3 h-3 text-gray-400" />
+        <span className="font-medium text-gray-900">{WellnessPassport.formatValue(trend.latest, trend.unit)}</span>
+        <span className={`w-20 text-right font-medium ${directionColors[trend.direction]}`}>
+          {WellnessPassport.formatChange(trend.change, trend.unit)}
+        </span>
+      </span>
+    </div>
+  )
+
+  return (
+    <div className="space-y-8">
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-3 print:grid-cols-3 gap-4">
+        <div className="p-4 rounded-xl bg-gradient-to-br from-wellness-sage-50 to-wellness-eucalyptus-50 border border-wellness-sage-200">
+          <p className="text-sm text-gray-600">Body Score</p>
+          <p className="text-3xl font-bold text-gray-900">
+            {report.score.value !== null ? WellnessPassport.formatValue(report.score.value, '') : '—'}
+          </p>
+          {report.score.change !== null && report.score.direction && (
+            <p className={`text-sm font-medium ${directionColors[report.score.direction]}`}>
+              {WellnessPassport.formatChange(report.score.change, '')} since last scan
+            </p>
+          )}
+        </div>
+        <div className="p-4 rounded-xl border border-gray-200">
+          <p className="text-sm text-gray-600">Out of Range</p>
+          <p className="text-3xl font-bold text-gray-900">{report.out_of_range.length}</p>
+          <p className="text-sm text-gray-500">measurements to watch</p>
+        </div>
+        <div className="p-4 rounded-xl border border-gray-200">
+          <p className="text-sm text-gray-600">Scans Compared</p>
+          <p className="text-3xl font-bold text-gray-900">{report.scan_count}</p>
+          <p className="text-sm text-gray-500">
+            {report.previous_scan_date ? `Previous scan ${formatSADate(report.previous_scan_date)}` : 'First scan'}
+          </p>
+        </div>
+      </div>
+
+      {/* Out of range */}
+      <section>
+        <h3 className="text-lg font-semibold text-gray-900 mb-3">Measurements Outside the Normal Range</h3>
+        {report.out_of_range.length === 0 ? (
+          <div className="flex items-center space-x-2 text-sm text-green-700">
+            <CheckCircle className="w-4 h-4" />
+            <span>Every measurement with a reference range is within it.</span>
+          </div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 text-left text-xs uppercase text-gray-500">
+                <th className="py-2 pr-4">Measurement</th>
+                <th className="py-2 pr-4">Result</th>
+                <th className="py-2 pr-4">Normal Range</th>
+                <th className="py-2">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {report.out_of_range.map(finding => (
+                <tr key={finding.path_id} className="print-avoid-break">
+                  <td className="py-2 pr-4">
+                    <p className="text-gray-900">{finding.name}</p>
+                    {finding.category && <p className="text-xs text-gray-500">{finding.category}</p>}
+                  </td>
+                  <td className="py-2 pr-4 font-medium text-gray-900">{finding.value}{finding.unit && ` ${finding.unit}`}</td>
+                  <td className="py-2 pr-4 text-gray-600">{finding.reference_range || '—'}</td>
+                  <td className="py-2">
+                    <span className={`px-2 py-0.5 text-xs font-medium rounded-full border ${FINDING_STATUS_COLORS[finding.status]}`}>
+                      {FINDING_STATUS_LABELS[finding.status]}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      {/* Trends */}
+      <section>
+        <h3 className="text-lg font-semibold text-gray-900 mb-3">Changes Since Your Last Scan</h3>
+        {!report.previous_scan_date ? (
+          <p className="text-sm text-gray-600">This is your first scan, so it sets the baseline for future reports.</p>
+        ) : report.trends.length === 0 ? (
+          <p className="text-sm text-gray-600">Nothing changed by more than normal day-to-day variation.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 print:grid-cols-2 gap-6">
+            <div>
+              <h4 className="flex items-center space-x-2 text-sm font-medium text-green-700 mb-1">
+                <TrendingUp className="w-4 h-4" />
+                <span>Improvements</span>
+              </h4>
+              <div className="divide-y divide-gray-100">
+                {improvements.length ? improvements.map(renderTrend) : <p className="py-2 text-sm text-gray-500">None this time.</p>}
+              </div>
+            </div>
+            <div>
+              <h4 className="flex items-center space-x-2 text-sm font-medium text-red-700 mb-1">
+                {concerns.some(trend => trend.direction === 'deterioration') ? <TrendingDown className="w-4 h-4" /> : <AlertTriangle className="w-4 h-4" />}
+                <span>Needs Attention</span>
+              </h4>
+              <div className="divide-y divide-gray-100">
+                {concerns.length ? concerns.map(renderTrend) : <p className="py-2 text-sm text-gray-500">None this time.</p>}
+              </div>
+            </div>
+          </div>
+        )}
+      </section>
+
+      {/* Commentary */}
+      {(report.practitioner_notes || report.recommendations) && (
+        <section className="space-y-4 print-avoid-break">
+          {report.practitioner_notes && (
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 mb-2">Practitioner Commentary</h3>
+              <p className="text-sm text-gray-700 whitespace-pre-line">{report.practitioner_notes}</p>
+            </div>
+          )}
+          {report.recommendations && (
+            <div className="p-4 rounded-xl bg-wellness-sage-50 border border-wellness-sage-200">
+              <h3 className="text-lg font-semibold text-gray-900 mb-2">Recommendations</h3>
+              <p className="text-sm text-gray-700 whitespace-pre-line">{report.recommendations}</p>
+            </div>
+          )}
+          {report.prepared_by && <p className="text-sm text-gray-500">Prepared by {report.prepared_by}</p>}
+        </section>
+      )}
+    </div>
+  )
+}
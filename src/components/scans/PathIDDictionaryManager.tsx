@@ -0,0 +1,403 @@
+import { useState, useEffect } from 'react'
+import {
+  Plus,
+  Edit,
+  Trash2,
+  Search,
+  BookOpen,
+  AlertCircle,
+  CheckCircle,
+  X,
+  HelpCircle
+} from 'lucide-react'
+import { Card, CardHeader, CardContent } from '../ui/Card'
+import { Button } from '../ui/Button'
+import { Input } from '../ui/Input'
+import {
+  PathIDDictionary,
+  PathIDDefinition,
+  UnknownPathID,
+  PATH_ID_CATEGORIES
+} from '../../lib/pathIdDictionary'
+import { formatSADate } from '../../lib/utils'
+
+const emptyDefinition: PathIDDefinition = {
+  path_id: '',
+  name: '',
+  description: '',
+  unit: '',
+  category: 'Other',
+  display_order: 0
+}
+
+export function PathIDDictionaryManager() {
+  const [definitions, setDefinitions] = useState<PathIDDefinition[]>([])
+  const [unknown, setUnknown] = useState<UnknownPathID[]>([])
+  const [loading, setLoading] = useState(true)
+  const [searchTerm, setSearchTerm] = useState('')
+  const [editing, setEditing] = useState<PathIDDefinition | null>(null)
+  const [isNew, setIsNew] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchDictionary()
+  }, [])
+
+  useEffect(() => {
+    if (error || success) {
+      const timer = setTimeout(() => {
+        setError(null)
+        setSuccess(null)
+      }, 5000)
+      return () => clearTimeout(timer)
+    }
+  }, [error, success])
+
+  const fetchDictionary = async () => {
+    try {
+      setLoading(true)
+      const [dictionary, unknownPathIDs] = await Promise.all([
+        PathIDDictionary.load(true),
+        PathIDDictionary.fetchUnknown()
+      ])
+      setDefinitions(Array.from(dictionary.values()))
+      setUnknown(unknownPathIDs)
+    } catch (error) {
+      console.error('Error fetching Path ID dictionary:', error)
+      setError('Error loading the Path ID dictionary. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const startCreate = (pathID?: UnknownPathID) => {
+    setEditing({
+      ...emptyDefinition,
+      path_id: pathID?.path_id || '',
+      unit: pathID?.sample_unit || '',
+      display_order: (definitions.reduce((max, d) => Math.max(max, d.display_order), 0) || 0) + 10
+    })
+    setIsNew(true)
+  }
+
+  const saveDefinition = async () => {
+    if (!editing) return
+    if (!editing.path_id.trim() || !editing.name.trim()) {
+      setError('Path ID and name are required.')
+      return
+    }
+    if (isNew && definitions.some(d => d.path_id === editing.path_id.trim())) {
+      setError(`Path ID "${editing.path_id}" is already defined.`)
+      return
+    }
+
+    try {
+      setSaving(true)
+      await PathIDDictionary.save(editing)
+      setEditing(null)
+      setSuccess(`Path ID "${editing.path_id}" saved successfully!`)
+      await fetchDictionary()
+    } catch (error) {
+      console.error('Error saving Path ID definition:', error)
+      setError('Error saving Path ID definition. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const deleteDefinition = async (pathID: string) => {
+    if (!confirm(`Are you sure you want to delete the definition for "${pathID}"?`)) return
+
+    try {
+      await PathIDDictionary.remove(pathID)
+      setSuccess(`Path ID "${pathID}" deleted.`)
+      await fetchDictionary()
+    } catch (error) {
+      console.error('Error deleting Path ID definition:', error)
+      setError('Error deleting Path ID definition. Please try again.')
+    }
+  }
+
+  const dismissUnknown = async (pathID: string) => {
+    try {
+      await PathIDDictionary.dismissUnknown(pathID)
+      setUnknown(prev => prev.filter(u => u.path_id !== pathID))
+    } catch (error) {
+      console.error('Error dismissing unknown Path ID:', error)
+      setError('Error dismissing Path ID. Please try again.')
+    }
+  }
+
+  const filteredGroups = PathIDDictionary.group(
+    definitions.filter(definition =>
+      !searchTerm ||
+      definition.path_id.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      definition.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      definition.category.toLowerCase().includes(searchTerm.toLowerCase())
+    ),
+    new Map(definitions.map(d => [d.path_id, d]))
+  )
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Path ID Dictionary</h1>
+          <p className="text-gray-600 mt-1">Names, units and body-system categories used across scan data</p>
+        </div>
+        <Button
+          variant="primary"
+          icon={Plus}
+          onClick={() => startCreate()}
+        >
+          Add Path ID
+        </Button>
+      </div>
+
+      {/* Status Messages */}
+      {error && (
+        <Card variant="minimal" className="border-red-200 bg-red-50">
+          <CardContent>
+            <div className="flex items-center space-x-3">
+              <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {success && (
+        <Card variant="minimal" className="border-green-200 bg-green-50">
+          <CardContent>
+            <div className="flex items-center space-x-3">
+              <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0" />
+              <p className="text-sm text-green-700">{success}</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Unknown Path ID Queue */}
+      {unknown.length > 0 && (
+        <Card variant="minimal" className="border-amber-200 bg-amber-50">
+          <CardHeader
+            title={`Awaiting Definition (${unknown.length})`}
+            description="Path IDs found in processed scans that are not in the dictionary yet"
+          />
+          <CardContent>
+            <div className="space-y-2">
+              {unknown.map((pathID) => (
+                <div key={pathID.path_id} className="flex items-center justify-between p-3 bg-white border border-amber-200 rounded-lg">
+                  <div className="flex items-center space-x-3">
+                    <HelpCircle className="w-5 h-5 text-amber-600" />
+                    <div>
+                      <h4 className="text-sm font-mono font-medium text-gray-900">{pathID.path_id}</h4>
+                      <p className="text-xs text-gray-600">
+                        Seen {pathID.occurrences} time(s) • last {formatSADate(pathID.last_seen_at)}
+                        {pathID.sample_value && ` • e.g. ${pathID.sample_value} ${pathID.sample_unit || ''}`}
+                        {pathID.source_file && ` • ${pathID.source_file}`}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      icon={Plus}
+                      onClick={() => startCreate(pathID)}
+                    >
+                      Define
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      icon={X}
+                      onClick={() => dismissUnknown(pathID.path_id)}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Search */}
+      <Card>
+        <CardContent>
+          <Input
+            placeholder="Search by Path ID, name or category..."
+            icon={Search}
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+          />
+        </CardContent>
+      </Card>
+
+      {/* Definitions */}
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="w-8 h-8 border-4 border-wellness-sage-200 border-t-wellness-sage-600 rounded-full animate-spin"></div>
+        </div>
+      ) : filteredGroups.length === 0 ? (
+        <Card>
+          <CardContent>
+            <div className="text-center py-12">
+              <BookOpen className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No Path IDs found</h3>
+              <p className="text-gray-600">
+                {searchTerm ? 'Try adjusting your search criteria.' : 'Add your first Path ID definition to get started.'}
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        filteredGroups.map(group => (
+          <Card key={group.category}>
+            <CardHeader
+              title={group.category}
+              description={`${group.items.length} Path ID(s)`}
+            />
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-gray-200">
+                      <th className="text-left py-3 px-4 font-medium text-gray-700">Path ID</th>
+                      <th className="text-left py-3 px-4 font-medium text-gray-700">Name</th>
+                      <th className="text-left py-3 px-4 font-medium text-gray-700">Unit</th>
+                      <th className="text-left py-3 px-4 font-medium text-gray-700">Order</th>
+                      <th className="text-left py-3 px-4 font-medium text-gray-700">Description</th>
+                      <th className="py-3 px-4"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {group.items.map((definition) => (
+                      <tr key={definition.path_id} className="border-b border-gray-100 hover:bg-gray-50">
+                        <td className="py-3 px-4 font-mono text-sm">{definition.path_id}</td>
+                        <td className="py-3 px-4 text-sm font-medium text-gray-900">{definition.name}</td>
+                        <td className="py-3 px-4 text-sm text-gray-600">{definition.unit || '-'}</td>
+                        <td className="py-3 px-4 text-sm text-gray-600">{definition.display_order}</td>
+                        <td className="py-3 px-4 text-sm text-gray-600 max-w-xs truncate">{definition.description || '-'}</td>
+                        <td className="py-3 px-4">
+                          <div className="flex items-center justify-end space-x-2">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              icon={Edit}
+                              onClick={() => {
+                                setEditing(definition)
+                                setIsNew(false)
+                              }}
+                            />
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              icon={Trash2}
+                              onClick={() => deleteDefinition(definition.path_id)}
+                              className="text-red-600 hover:text-red-700"
+                            />
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        ))
+      )}
+
+      {/* Edit Modal */}
+      {editing && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <Card className="w-full max-w-2xl">
+            <CardHeader
+              title={isNew ? 'Add Path ID' : `Edit ${editing.path_id}`}
+              description="Define how this Path ID is labelled and grouped"
+              action={
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  icon={X}
+                  onClick={() => setEditing(null)}
+                />
+              }
+            />
+            <CardContent>
+              <div className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <Input
+                    label="Path ID"
+                    value={editing.path_id}
+                    onChange={(e) => setEditing({ ...editing, path_id: e.target.value })}
+                    disabled={!isNew}
+                  />
+                  <Input
+                    label="Name"
+                    value={editing.name}
+                    onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                  />
+                  <Input
+                    label="Canonical Unit"
+                    value={editing.unit}
+                    onChange={(e) => setEditing({ ...editing, unit: e.target.value })}
+                  />
+                  <Input
+                    label="Display Order"
+                    type="number"
+                    value={editing.display_order}
+                    onChange={(e) => setEditing({ ...editing, display_order: parseInt(e.target.value) || 0 })}
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Category</label>
+                  <select
+                    value={editing.category}
+                    onChange={(e) => setEditing({ ...editing, category: e.target.value })}
+                    className="wellness-input"
+                  >
+                    {PATH_ID_CATEGORIES.map(category => (
+                      <option key={category} value={category}>{category}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Description</label>
+                  <textarea
+                    value={editing.description}
+                    onChange={(e) => setEditing({ ...editing, description: e.target.value })}
+                    rows={3}
+                    className="wellness-input"
+                  />
+                </div>
+
+                <div className="flex justify-end space-x-3 pt-6 border-t">
+                  <Button
+                    variant="outline"
+                    onClick={() => setEditing(null)}
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    variant="primary"
+                    onClick={saveDefinition}
+                    loading={saving}
+                  >
+                    Save Path ID
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,4 +1,4 @@
-import React, { useState } from 'react'
+import React, { useState, useEffect } from 'react'
 import { 
   X, 
   BarChart3, 
@@ -17,6 +17,11 @@ import {
 import { Card, CardHeader, CardContent } from '../ui/Card'
 import { Button } from '../ui/Button'
 import { formatSADate } from '../../lib/utils'
+import { ReferenceRangeEngine, ReferenceSubject } from '../../lib/referenceRanges'
+import { PathIDDictionary, PathIDDefinition } from '../../lib/pathIdDictionary'
+import { ScanTrends } from './ScanTrends'
+import { ChangeDetector, ChangeAnalysis, ChangeDirection } from '../../lib/changeDetection'
+import { UnitConverter } from '../../lib/units'
 
 interface ScanComparisonProps {
   scans: Array<{
@@ -44,25 +49,45 @@ interface ScanComparisonProps {
 
 interface ComparisonData {
   path_id: string
+  name?: string
   description?: string
+  category?: string
   unit?: string
   values: Array<{
     scan_id: string
     scan_date: string
     value: string | number
     status?: string
+    reference_range?: string
     change?: {
       type: 'increase' | 'decrease' | 'stable'
       percentage?: number
       absolute?: number
+      // Larger than the Path ID's measurement noise
+      significant: boolean
     }
   }>
+  analysis?: ChangeAnalysis | null
 }
 
 export function ScanComparison({ scans, onClose }: ScanComparisonProps) {
   const [viewMode, setViewMode] = useState<'table' | 'trends' | 'changes'>('table')
   const [searchTerm, setSearchTerm] = useState('')
   const [showOnlyChanges, setShowOnlyChanges] = useState(false)
+  const [subject, setSubject] = useState<ReferenceSubject>({})
+  const [dictionary, setDictionary] = useState<Map<string, PathIDDefinition>>(new Map())
+
+  const clientId = scans[0]?.client_id
+
+  useEffect(() => {
+    if (clientId) {
+      ReferenceRangeEngine.loadSubject(clientId).then(setSubject)
+    }
+  }, [clientId])
+
+  useEffect(() => {
+    PathIDDictionary.load().then(setDictionary)
+  }, [])
 
   // Sort scans by date
   const sortedScans = [...scans].sort((a, b) => new Date(a.scan_date).getTime() - new Date(b.scan_date).getTime())
@@ -79,33 +104,50 @@ export function ScanComparison({ scans, onClose }: ScanComparisonProps) {
   const comparisonData: ComparisonData[] = Array.from(allPathIDs).map(pathID => {
     const values = sortedScans.map(scan => {
       const pathIDData = scan.path_ids.find(p => p.path_id === pathID)
+      const evaluation = pathIDData
+        ? ReferenceRangeEngine.evaluate(pathIDData.path_id, pathIDData.value, pathIDData.unit, subject, scan.scan_date)
+        : {}
       return {
         scan_id: scan.id,
         scan_date: scan.scan_date,
         value: pathIDData?.value || '-',
-        status: pathIDData?.status
+        status: evaluation.status,
+        reference_range: evaluation.reference_range
       }
     })
 
+    // Changes are judged in one unit against the Path ID's measurement noise
+    const normalized = UnitConverter.normalize(
+      sortedScans.map(scan => {
+        const reading = scan.path_ids.find(p => p.path_id === pathID)
+        return { value: reading?.value, unit: reading?.unit }
+      }),
+      dictionary.get(pathID)?.unit || undefined
+    )
+    const points = sortedScans.flatMap((scan, index) => {
+      const value = normalized.values[index]
+      return value === null ? [] : [{ scan_id: scan.id, scan_date: scan.scan_date, value }]
+    })
+    const analysis = ChangeDetector.analyze(pathID, points, normalized.unit)
+
     // Calculate changes between consecutive scans
     const valuesWithChanges = values.map((value, index) => {
-      if (index === 0) return value
+      if (index === 0 || !analysis) return value
 
-      const currentValue = typeof value.value === 'number' ? value.value : parseFloat(value.value?.toString() || '0')
-      const previousValue = typeof values[index - 1].value === 'number' 
-        ? values[index - 1].value 
-        : parseFloat(values[index - 1].value?.toString() || '0')
+      const currentValue = normalized.values[index]
+      const previousValue = normalized.values[index - 1]
 
-      if (!isNaN(currentValue) && !isNaN(previousValue) && previousValue !== 0) {
+      if (currentValue !== null && previousValue !== null) {
         const absolute = currentValue - previousValue
-        const percentage = (absolute / previousValue) * 100
+        const significant = ChangeDetector.isSignificant(absolute, analysis.mcid)
         
         return {
           ...value,
           change: {
-            type: absolute > 0 ? 'increase' as const : absolute < 0 ? 'decrease' as const : 'stable' as const,
-            percentage: Math.abs(percentage),
-            absolute: Math.abs(absolute)
+            type: !significant ? 'stable' as const : absolute > 0 ? 'increase' as const : 'decrease' as const,
+            percentage: previousValue !== 0 ? Math.abs((absolute / previousValue) * 100) : undefined,
+            absolute: Math.abs(absolute),
+            significant
           }
         }
       }
@@ -113,14 +155,18 @@ export function ScanComparison({ scans, onClose }: ScanComparisonProps) {
       return value
     })
 
-    // Get description and unit from first available scan
+    // Resolve labels from the dictionary, falling back to the first available scan
     const firstPathIDData = scans.flatMap(s => s.path_ids).find(p => p.path_id === pathID)
+    const definition = dictionary.get(pathID)
 
     return {
       path_id: pathID,
-      description: firstPathIDData?.description,
-      unit: firstPathIDData?.unit,
-      values: valuesWithChanges
+      name: definition?.name,
+      description: definition?.description || firstPathIDData?.description,
+      category: definition?.category,
+      unit: normalized.unit || firstPathIDData?.unit || definition?.unit,
+      values: valuesWithChanges,
+      analysis
     }
   })
 
@@ -128,10 +174,11 @@ export function ScanComparison({ scans, onClose }: ScanComparisonProps) {
   const filteredData = comparisonData.filter(data => {
     const matchesSearch = !searchTerm || 
       data.path_id.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      data.name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
       data.description?.toLowerCase().includes(searchTerm.toLowerCase())
 
     const hasChanges = !showOnlyChanges || 
-      data.values.some(v => v.change && v.change.type !== 'stable')
+      data.values.some(v => v.change?.significant)
 
     return matchesSearch && hasChanges
   })
@@ -162,10 +209,25 @@ export function ScanComparison({ scans, onClose }: ScanComparisonProps) {
     }
   }
 
+  const getStatusTextColor = (status?: string) => {
+    switch (status) {
+      case 'critical':
+        return 'text-red-600'
+      case 'high':
+        return 'text-orange-600'
+      case 'low':
+        return 'text-blue-600'
+      default:
+        return 'text-gray-900'
+    }
+  }
+
   const exportComparison = () => {
-    const headers = ['Path ID', 'Description', 'Unit', ...sortedScans.map(scan => formatSADate(scan.scan_date))]
+    const headers = ['Path ID', 'Name', 'Category', 'Description', 'Unit', ...sortedScans.map(scan => formatSADate(scan.scan_date))]
     const rows = filteredData.map(data => [
       data.path_id,
+      data.name || '',
+      data.category || '',
       data.description || '',
       data.unit || '',
       ...data.values.map(v => v.value.toString())
@@ -185,9 +247,37 @@ export function ScanComparison({ scans, onClose }: ScanComparisonProps) {
     window.URL.revokeObjectURL(url)
   }
 
-  const significantChanges = comparisonData.filter(data => 
-    data.values.some(v => v.change && v.change.percentage && v.change.percentage > 20)
-  )
+  const analyses = comparisonData.flatMap(data => data.analysis ? [data.analysis] : [])
+  const rankedChanges = ChangeDetector.rank(analyses)
+  const significantChanges = [...rankedChanges.improvements, ...rankedChanges.deteriorations, ...rankedChanges.changes]
+
+  const getDirectionIcon = (direction: ChangeDirection) => {
+    switch (direction) {
+      case 'improvement':
+        return <TrendingUp className="w-4 h-4" />
+      case 'deterioration':
+        return <TrendingDown className="w-4 h-4" />
+      case 'change':
+        return <ArrowRight className="w-4 h-4" />
+      default:
+        return <Minus className="w-4 h-4" />
+    }
+  }
+
+  const getDirectionColor = (direction: ChangeDirection) => {
+    switch (direction) {
+      case 'improvement':
+        return 'text-green-600'
+      case 'deterioration':
+        return 'text-red-600'
+      case 'change':
+        return 'text-amber-600'
+      default:
+        return 'text-gray-600'
+    }
+  }
+
+  const formatSigned = (value: number) => `${value > 0 ? '+' : ''}${Number(value.toFixed(2))}`
 
   return (
     <div className="h-screen flex flex-col bg-gray-50">
@@ -319,35 +409,50 @@ export function ScanComparison({ scans, onClose }: ScanComparisonProps) {
                       </tr>
                     </thead>
                     <tbody>
-                      {filteredData.map((data, index) => (
-                        <tr key={index} className="border-b border-gray-100 hover:bg-gray-50">
-                          <td className="py-3 px-4 font-mono text-sm sticky left-0 bg-white border-r border-gray-100">
-                            {data.path_id}
-                          </td>
-                          <td className="py-3 px-4 text-sm text-gray-600 max-w-xs truncate">
-                            {data.description || '-'}
-                          </td>
-                          <td className="py-3 px-4 text-sm text-gray-600">
-                            {data.unit || '-'}
-                          </td>
-                          {data.values.map((value, valueIndex) => (
-                            <td key={valueIndex} className="py-3 px-4 text-center">
-                              <div className="flex flex-col items-center space-y-1">
-                                <span className="font-semibold">
-                                  {value.value}
-                                </span>
-                                {value.change && (
-                                  <div className={`flex items-center space-x-1 text-xs ${getChangeColor(value.change)}`}>
-                                    {getChangeIcon(value.change)}
-                                    <span>
-                                      {value.change.percentage ? `${value.change.percentage.toFixed(1)}%` : ''}
+                      {PathIDDictionary.group(filteredData, dictionary).map(group => (
+                        <React.Fragment key={group.category}>
+                          <tr className="bg-gray-50">
+                            <td colSpan={3 + sortedScans.length} className="py-2 px-4 text-xs font-semibold uppercase tracking-wide text-gray-500">
+                              {group.category}
+                            </td>
+                          </tr>
+                          {group.items.map((data) => (
+                            <tr key={data.path_id} className="border-b border-gray-100 hover:bg-gray-50">
+                              <td className="py-3 px-4 sticky left-0 bg-white border-r border-gray-100">
+                                <div className="text-sm font-medium text-gray-900">{data.name || data.path_id}</div>
+                                {data.name && (
+                                  <div className="font-mono text-xs text-gray-500">{data.path_id}</div>
+                                )}
+                              </td>
+                              <td className="py-3 px-4 text-sm text-gray-600 max-w-xs truncate">
+                                {data.description || '-'}
+                              </td>
+                              <td className="py-3 px-4 text-sm text-gray-600">
+                                {data.unit || '-'}
+                              </td>
+                              {data.values.map((value, valueIndex) => (
+                                <td key={valueIndex} className="py-3 px-4 text-center">
+                                  <div className="flex flex-col items-center space-y-1">
+                                    <span
+                                      className={`font-semibold ${getStatusTextColor(value.status)}`}
+                                      title={value.reference_range ? `Ref: ${value.reference_range}` : undefined}
+                                    >
+                                      {value.value}
                                     </span>
+                                    {value.change && (
+                                      <div className={`flex items-center space-x-1 text-xs ${getChangeColor(value.change)}`}>
+                                        {getChangeIcon(value.change)}
+                                        <span>
+                                          {value.change.percentage ? `${value.change.percentage.toFixed(1)}%` : ''}
+                                        </span>
+                                      </div>
+                                    )}
                                   </div>
-                                )}
-                              </div>
-                            </td>
+                                </td>
+                              ))}
+                            </tr>
                           ))}
-                        </tr>
+                        </React.Fragment>
                       ))}
                     </tbody>
                   </table>
@@ -365,55 +470,38 @@ export function ScanComparison({ scans, onClose }: ScanComparisonProps) {
         )}
 
         {viewMode === 'trends' && (
-          <div className="space-y-6">
-            <Card>
-              <CardHeader
-                title="Trend Analysis"
-                description="Visual representation of Path ID changes over time"
-              />
-              <CardContent>
-                <div className="text-center py-12 text-gray-500">
-                  <TrendingUp className="w-12 h-12 mx-auto mb-4 text-gray-400" />
-                  <h3 className="text-lg font-medium text-gray-900 mb-2">Trend Visualization</h3>
-                  <p>Interactive charts and trend analysis coming soon...</p>
-                </div>
-              </CardContent>
-            </Card>
-          </div>
+          <ScanTrends
+            clientId={clientId}
+            scans={sortedScans}
+            subject={subject}
+            dictionary={dictionary}
+          />
         )}
 
         {viewMode === 'changes' && (
           <div className="space-y-6">
             {/* Summary Cards */}
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              <Card variant="rose">
+              <Card variant="sage">
                 <CardContent>
                   <div className="flex items-center justify-between">
                     <div>
-                      <p className="text-sm font-medium text-gray-600">Significant Increases</p>
-                      <p className="text-2xl font-bold text-red-600">
-                        {comparisonData.filter(d => 
-                          d.values.some(v => v.change?.type === 'increase' && v.change.percentage && v.change.percentage > 20)
-                        ).length}
-                      </p>
+                      <p className="text-sm font-medium text-gray-600">Improvements</p>
+                      <p className="text-2xl font-bold text-green-600">{rankedChanges.improvements.length}</p>
                     </div>
-                    <ArrowUp className="w-8 h-8 text-red-600" />
+                    <TrendingUp className="w-8 h-8 text-green-600" />
                   </div>
                 </CardContent>
               </Card>
 
-              <Card variant="eucalyptus">
+              <Card variant="rose">
                 <CardContent>
                   <div className="flex items-center justify-between">
                     <div>
-                      <p className="text-sm font-medium text-gray-600">Significant Decreases</p>
-                      <p className="text-2xl font-bold text-blue-600">
-                        {comparisonData.filter(d => 
-                          d.values.some(v => v.change?.type === 'decrease' && v.change.percentage && v.change.percentage > 20)
-                        ).length}
-                      </p>
+                      <p className="text-sm font-medium text-gray-600">Deteriorations</p>
+                      <p className="text-2xl font-bold text-red-600">{rankedChanges.deteriorations.length}</p>
                     </div>
-                    <ArrowDown className="w-8 h-8 text-blue-600" />
+                    <TrendingDown className="w-8 h-8 text-red-600" />
                   </div>
                 </CardContent>
               </Card>
@@ -422,11 +510,9 @@ export function ScanComparison({ scans, onClose }: ScanComparisonProps) {
                 <CardContent>
                   <div className="flex items-center justify-between">
                     <div>
-                      <p className="text-sm font-medium text-gray-600">Stable Values</p>
+                      <p className="text-sm font-medium text-gray-600">Within Measurement Noise</p>
                       <p className="text-2xl font-bold text-gray-600">
-                        {comparisonData.filter(d => 
-                          !d.values.some(v => v.change && v.change.percentage && v.change.percentage > 20)
-                        ).length}
+                        {analyses.filter(analysis => analysis.direction === 'stable').length}
                       </p>
                     </div>
                     <Minus className="w-8 h-8 text-gray-600" />
@@ -435,65 +521,88 @@ export function ScanComparison({ scans, onClose }: ScanComparisonProps) {
               </Card>
             </div>
 
-            {/* Significant Changes List */}
-            <Card>
-              <CardHeader
-                title="Significant Changes"
-                description="Path IDs with changes greater than 20%"
-              />
-              <CardContent>
-                {significantChanges.length === 0 ? (
+            {significantChanges.length === 0 ? (
+              <Card>
+                <CardContent>
                   <div className="text-center py-8 text-gray-500">
                     <CheckCircle className="w-8 h-8 mx-auto mb-2 text-gray-400" />
-                    <p>No significant changes detected between scans</p>
+                    <p>No changes larger than measurement noise between these scans</p>
                   </div>
-                ) : (
-                  <div className="space-y-4">
-                    {significantChanges.map((data, index) => {
-                      const significantValue = data.values.find(v => 
-                        v.change && v.change.percentage && v.change.percentage > 20
-                      )
-                      
-                      if (!significantValue?.change) return null
-
-                      return (
-                        <div key={index} className="p-4 border border-gray-200 rounded-lg">
-                          <div className="flex items-start justify-between">
-                            <div className="flex-1">
-                              <div className="flex items-center space-x-3">
-                                <h4 className="text-sm font-medium text-gray-900">{data.path_id}</h4>
-                                <span className={`flex items-center space-x-1 text-sm ${getChangeColor(significantValue.change)}`}>
-                                  {getChangeIcon(significantValue.change)}
-                                  <span className="font-semibold">
-                                    {significantValue.change.percentage?.toFixed(1)}%
-                                  </span>
-                                </span>
-                              </div>
-                              <p className="text-xs text-gray-600 mt-1">{data.description}</p>
-                              
-                              <div className="flex items-center space-x-4 mt-2 text-xs text-gray-500">
-                                <span>Latest: {significantValue.value} {data.unit}</span>
-                                <span>Date: {formatSADate(significantValue.scan_date)}</span>
-                                {significantValue.change.absolute && (
-                                  <span>
-                                    Change: {significantValue.change.type === 'increase' ? '+' : '-'}
-                                    {significantValue.change.absolute.toFixed(2)} {data.unit}
-                                  </span>
-                                )}
+                </CardContent>
+              </Card>
+            ) : (
+              <>
+                {[
+                  { title: 'Improvements', description: 'Ranked by size of change relative to measurement noise', items: rankedChanges.improvements },
+                  { title: 'Deteriorations', description: 'Ranked by size of change relative to measurement noise', items: rankedChanges.deteriorations },
+                  { title: 'Other Changes', description: 'Meaningful changes for Path IDs without a preferred direction', items: rankedChanges.changes }
+                ].filter(section => section.items.length > 0).map(section => (
+                  <Card key={section.title}>
+                    <CardHeader title={section.title} description={section.description} />
+                    <CardContent>
+                      <div className="space-y-4">
+                        {section.items.map(analysis => {
+                          const data = comparisonData.find(d => d.path_id === analysis.path_id)
+                          const unit = analysis.unit ? ` ${analysis.unit}` : ''
+
+                          return (
+                            <div key={analysis.path_id} className="p-4 border border-gray-200 rounded-lg">
+                              <div className="flex items-start justify-between">
+                                <div className="flex-1">
+                                  <div className="flex items-center space-x-3">
+                                    <h4 className="text-sm font-medium text-gray-900">{data?.name || analysis.path_id}</h4>
+                                    <span className={`flex items-center space-x-1 text-sm ${getDirectionColor(analysis.direction)}`}>
+                                      {getDirectionIcon(analysis.direction)}
+                                      <span className="font-semibold">
+                                        {formatSigned(analysis.overall_change)}{unit}
+                                      </span>
+                                    </span>
+                                    <span className="text-xs text-gray-500">
+                                      {analysis.significance.toFixed(1)}× noise threshold
+                                    </span>
+                                  </div>
+                                  {data?.description && (
+                                    <p className="text-xs text-gray-600 mt-1">{data.description}</p>
+                                  )}
+
+                                  <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-2 text-xs text-gray-500">
+                                    <span>
+                                      {formatSADate(analysis.first.scan_date)}: {Number(analysis.first.value.toFixed(2))}{unit}
+                                      {' → '}
+                                      {formatSADate(analysis.latest.scan_date)}: {Number(analysis.latest.value.toFixed(2))}{unit}
+                                    </span>
+                                    {analysis.latest_change !== undefined && sortedScans.length > 2 && (
+                                      <span>Since previous scan: {formatSigned(analysis.latest_change)}{unit}</span>
+                                    )}
+                                    {analysis.slope_per_month !== undefined && (
+                                      <span>Trend: {formatSigned(analysis.slope_per_month)}{unit} per month</span>
+                                    )}
+                                    <span>
+                                      Noise threshold: {Number(analysis.mcid.toFixed(2))}{unit}
+                                      {analysis.default_threshold && ' (default 5%)'}
+                                    </span>
+                                  </div>
+
+                                  {analysis.outliers.length > 0 && (
+                                    <div className="flex items-center space-x-1 mt-2 text-xs text-amber-700">
+                                      <AlertTriangle className="w-3 h-3" />
+                                      <span>
+                                        Possible outlier{analysis.outliers.length > 1 ? 's' : ''}:{' '}
+                                        {analysis.outliers.map(point => `${formatSADate(point.scan_date)} (${Number(point.value.toFixed(2))}${unit})`).join(', ')}
+                                      </span>
+                                    </div>
+                                  )}
+                                </div>
                               </div>
                             </div>
-                            
-                            {significantValue.change.percentage && significantValue.change.percentage > 50 && (
-                              <AlertTriangle className="w-5 h-5 text-amber-600" />
-                            )}
-                          </div>
-                        </div>
-                      )
-                    })}
-                  </div>
-                )}
-              </CardContent>
-            </Card>
+                          )
+                        })}
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </>
+            )}
           </div>
         )}
       </div>
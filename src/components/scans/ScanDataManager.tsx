@@ -30,6 +30,7 @@ import { ScanComparison } from './ScanComparison'
 import { DropboxIntegration } from './DropboxIntegration'
 import { useAuth } from '../../hooks/useAuth'
 import { supabase } from '../../lib/supabase'
+import { ScanStorage } from '../../lib/scanStorage'
 import { formatSADate } from '../../lib/utils'
 
 interface ScanData {
@@ -62,10 +63,15 @@ interface ScanData {
 interface PathIDData {
   path_id: string
   value: string | number
+  name?: string
   description?: string
   unit?: string
   reference_range?: string
+  source_range?: string
   status?: 'normal' | 'high' | 'low' | 'critical'
+  category?: string
+  confidence?: number
+  verified?: boolean
 }
 
 interface ScanStats {
@@ -99,13 +105,16 @@ export function ScanDataManager() {
   const canManageScans = isAdmin || isStaff
 
   useEffect(() => {
-    fetchScans()
     fetchStats()
   }, [])
 
+  useEffect(() => {
+    fetchScans()
+  }, [filterStatus, filterSource])
+
   useEffect(() => {
     filterScans()
-  }, [scans, searchTerm, filterStatus, filterSource])
+  }, [scans, searchTerm])
 
   const fetchScans = async () => {
     try {
@@ -132,6 +141,15 @@ export function ScanDataManager() {
         query = query.eq('client_id', profile.id)
       }
 
+      // Status and source filters run against the indexed columns
+      if (filterStatus !== 'all') {
+        query = query.eq('processing_status', filterStatus)
+      }
+
+      if (filterSource !== 'all') {
+        query = query.eq('upload_source', filterSource)
+      }
+
       const { data, error } = await query
 
       if (error) throw error
@@ -141,12 +159,12 @@ export function ScanDataManager() {
         id: scan.id,
         client_id: scan.client_id,
         scan_date: scan.scan_date,
-        file_name: scan.file_path?.split('/').pop() || 'Unknown',
+        file_name: scan.file_name || scan.file_path?.split('/').pop() || 'Unknown',
         file_path: scan.file_path,
-        file_type: scan.file_path?.split('.').pop()?.toUpperCase() || 'Unknown',
-        file_size: 0, // Would need to be stored separately
-        processing_status: scan.raw_data ? 'completed' : 'pending',
-        automation_status: scan.raw_data?.automation_status || 'manual',
+        file_type: (scan.file_name || scan.file_path)?.split('.').pop()?.toUpperCase() || 'Unknown',
+        file_size: scan.file_size || 0,
+        processing_status: scan.processing_status,
+        automation_status: scan.automation_status || 'manual',
         path_ids: scan.raw_data?.path_ids || [],
         client_info: {
           client_code: scan.client?.client_code || '',
@@ -155,10 +173,10 @@ export function ScanDataManager() {
           email: scan.client?.profile?.email || ''
         },
         metadata: {
-          upload_source: scan.raw_data?.upload_source || 'manual',
-          processed_at: scan.raw_data?.processed_at,
-          error_message: scan.raw_data?.error_message,
-          quality_score: scan.raw_data?.quality_score
+          upload_source: scan.upload_source,
+          processed_at: scan.processed_at || undefined,
+          error_message: scan.error_message || undefined,
+          quality_score: scan.quality_score ?? undefined
         },
         created_at: scan.created_at,
         updated_at: scan.updated_at || scan.created_at
@@ -172,18 +190,54 @@ export function ScanDataManager() {
     }
   }
 
+  const saveScanCorrections = async (scan: ScanData, pathIDs: PathIDData[]) => {
+    const { data, error } = await supabase
+      .from('scans')
+      .select('raw_data')
+      .eq('id', scan.id)
+      .single()
+
+    if (error) throw error
+
+    const { error: updateError } = await supabase
+      .from('scans')
+      .update({ raw_data: { ...data.raw_data, path_ids: pathIDs } })
+      .eq('id', scan.id)
+
+    if (updateError) throw updateError
+
+    setSelectedScan({ ...scan, path_ids: pathIDs })
+    fetchScans()
+  }
+
   const fetchStats = async () => {
     try {
       // Get basic stats
-      const { data: scanCount } = await supabase
+      const { count: scanCount } = await supabase
         .from('scans')
         .select('id', { count: 'exact', head: true })
 
-      const { data: recentScans } = await supabase
+      const { count: recentScans } = await supabase
         .from('scans')
         .select('id', { count: 'exact', head: true })
         .gte('created_at', new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString())
 
+      // Success rate only counts scans where client association was attempted
+      const { count: associatedScans } = await supabase
+        .from('scans')
+        .select('id', { count: 'exact', head: true })
+        .not('automation_status', 'is', null)
+
+      const { count: automatedScans } = await supabase
+        .from('scans')
+        .select('id', { count: 'exact', head: true })
+        .eq('automation_status', 'automated')
+
+      const { count: queuedScans } = await supabase
+        .from('scans')
+        .select('id', { count: 'exact', head: true })
+        .in('processing_status', ['pending', 'processing'])
+
       const { data: uniqueClients } = await supabase
         .from('scans')
         .select('client_id')
@@ -191,12 +245,14 @@ export function ScanDataManager() {
 
       const uniqueClientCount = new Set(uniqueClients?.map(s => s.client_id)).size
 
+      const { data: storageUsed } = await supabase.rpc('get_scan_storage_used')
+
       setStats({
-        total_scans: scanCount?.length || 0,
-        automated_success_rate: 95, // Would calculate from actual data
-        recent_uploads: recentScans?.length || 0,
-        processing_queue: 0, // Would calculate from pending scans
-        storage_used: 0, // Would calculate from file sizes
+        total_scans: scanCount || 0,
+        automated_success_rate: associatedScans ? Math.round(((automatedScans || 0) / associatedScans) * 100) : 0,
+        recent_uploads: recentScans || 0,
+        processing_queue: queuedScans || 0,
+        storage_used: Number(storageUsed) || 0,
         unique_clients: uniqueClientCount
       })
     } catch (error) {
@@ -244,6 +300,10 @@ export function ScanDataManager() {
     if (!confirm(`Are you sure you want to delete ${selectedScans.length} scan(s)?`)) return
 
     try {
+      const filePaths = scans
+        .filter(scan => selectedScans.includes(scan.id) && scan.file_path)
+        .map(scan => scan.file_path)
+
       const { error } = await supabase
         .from('scans')
         .delete()
@@ -251,6 +311,9 @@ export function ScanDataManager() {
 
       if (error) throw error
 
+      // Original files are removed after the records so a failed delete never orphans a scan
+      await ScanStorage.removeUnreferenced(filePaths).catch(removeError => console.error('Error removing scan files:', removeError))
+
       await fetchScans()
       setSelectedScans([])
     } catch (error) {
@@ -346,6 +409,9 @@ export function ScanDataManager() {
                   {profile?.role === 'client' ? 'Your Scans' : 'Total Scans'}
                 </p>
                 <p className="text-2xl font-bold text-gray-900">{stats?.total_scans || 0}</p>
+                {canManageScans && (
+                  <p className="text-xs text-gray-500">{ScanStorage.formatSize(stats?.storage_used || 0)} stored</p>
+                )}
               </div>
               <div className="p-3 bg-wellness-sage-100 rounded-lg">
                 <Activity className="w-6 h-6 text-wellness-sage-600" />
@@ -707,6 +773,7 @@ export function ScanDataManager() {
         return selectedScan ? (
           <ScanViewer
             scan={selectedScan}
+            onSaveCorrections={canManageScans ? (pathIDs) => saveScanCorrections(selectedScan, pathIDs) : undefined}
             onClose={() => {
               setSelectedScan(null)
               setViewMode('overview')
@@ -0,0 +1,565 @@
+import { useState, useEffect } from 'react'
+import {
+  Plus,
+  Edit,
+  Trash2,
+  LayoutGrid,
+  AlertCircle,
+  CheckCircle,
+  X
+} from 'lucide-react'
+import { Card, CardHeader, CardContent } from '../ui/Card'
+import { Button } from '../ui/Button'
+import { Input } from '../ui/Input'
+import {
+  ScanLayoutProfiles,
+  ScanLayoutProfile,
+  CellLocator,
+  LayoutOrientation,
+  DEFAULT_LAYOUT_PROFILE
+} from '../../lib/scanLayouts'
+
+type LocatorField = 'path_ids' | 'values' | 'units' | 'client_identifier' | 'scan_date'
+
+const LOCATOR_FIELDS: Array<{ key: LocatorField; label: string; hint: string }> = [
+  { key: 'path_ids', label: 'Path IDs', hint: 'e.g. 1:1, B1:Z1 or header "Path ID"' },
+  { key: 'values', label: 'Values', hint: 'e.g. 2:2 or header "Result"' },
+  { key: 'units', label: 'Units', hint: 'Optional, e.g. 3:3 or header "Unit"' },
+  { key: 'client_identifier', label: 'Client Identifier', hint: 'Single cell, e.g. A3 or header "Client ID"' },
+  { key: 'scan_date', label: 'Scan Date', hint: 'Optional single cell or header' }
+]
+
+interface ProfileDraft {
+  id?: string
+  name: string
+  vendor: string
+  description: string
+  file_types: string
+  priority: number
+  is_active: boolean
+  format: 'tabular' | 'json'
+  orientation: LayoutOrientation
+  locators: Record<LocatorField, CellLocator>
+  header_names: string
+  file_name_pattern: string
+  json_items: string
+  json_path_id_key: string
+  json_value_key: string
+  json_unit_key: string
+  json_client_identifier: string
+  json_scan_date: string
+}
+
+const toDraft = (profile?: ScanLayoutProfile): ProfileDraft => {
+  const layout = profile?.layout || DEFAULT_LAYOUT_PROFILE.layout
+  return {
+    id: profile?.id,
+    name: profile?.name || '',
+    vendor: profile?.vendor || '',
+    description: profile?.description || '',
+    file_types: (profile?.file_types || ['xlsx', 'xls', 'csv']).join(', '),
+    priority: profile?.priority ?? 0,
+    is_active: profile?.is_active ?? true,
+    format: layout.json ? 'json' : 'tabular',
+    orientation: layout.orientation,
+    locators: {
+      path_ids: layout.path_ids || {},
+      values: layout.values || {},
+      units: layout.units || {},
+      client_identifier: layout.client_identifier || {},
+      scan_date: layout.scan_date || {}
+    },
+    header_names: (layout.match?.header_names || []).join(', '),
+    file_name_pattern: layout.match?.file_name_pattern || '',
+    json_items: layout.json?.items || '',
+    json_path_id_key: layout.json?.path_id_key || '',
+    json_value_key: layout.json?.value_key || '',
+    json_unit_key: layout.json?.unit_key || '',
+    json_client_identifier: layout.json?.client_identifier || '',
+    json_scan_date: layout.json?.scan_date || ''
+  }
+}
+
+const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean)
+
+const cleanLocator = (locator: CellLocator): CellLocator | undefined => {
+  const range = locator.range?.trim()
+  const header = locator.header?.trim()
+  if (!range && !header) return undefined
+  return range ? { range } : { header }
+}
+
+const fromDraft = (draft: ProfileDraft): Omit<ScanLayoutProfile, 'id'> & { id?: string } => ({
+  id: draft.id,
+  name: draft.name,
+  vendor: draft.vendor,
+  description: draft.description,
+  file_types: splitList(draft.file_types).map(type => type.replace(/^\./, '').toLowerCase()),
+  priority: draft.priority,
+  is_active: draft.is_active,
+  layout: {
+    orientation: draft.orientation,
+    ...(draft.format === 'tabular'
+      ? {
+          path_ids: cleanLocator(draft.locators.path_ids),
+          values: cleanLocator(draft.locators.values),
+          units: cleanLocator(draft.locators.units),
+          client_identifier: cleanLocator(draft.locators.client_identifier),
+          scan_date: cleanLocator(draft.locators.scan_date)
+        }
+      : {
+          json: {
+            items: draft.json_items.trim(),
+            path_id_key: draft.json_path_id_key.trim(),
+            value_key: draft.json_value_key.trim(),
+            unit_key: draft.json_unit_key.trim() || undefined,
+            client_identifier: draft.json_client_identifier.trim() || undefined,
+            scan_date: draft.json_scan_date.trim() || undefined
+          }
+        }),
+    match: {
+      header_names: splitList(draft.header_names),
+      file_name_pattern: draft.file_name_pattern.trim() || undefined
+    }
+  }
+})
+
+export function ScanLayoutProfileManager() {
+  const [profiles, setProfiles] = useState<ScanLayoutProfile[]>([])
+  const [loading, setLoading] = useState(true)
+  const [draft, setDraft] = useState<ProfileDraft | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchProfiles()
+  }, [])
+
+  useEffect(() => {
+    if (error || success) {
+      const timer = setTimeout(() => {
+        setError(null)
+        setSuccess(null)
+      }, 5000)
+      return () => clearTimeout(timer)
+    }
+  }, [error, success])
+
+  const fetchProfiles = async () => {
+    try {
+      setLoading(true)
+      setProfiles(await ScanLayoutProfiles.load(true))
+    } catch (error) {
+      console.error('Error fetching scan layout profiles:', error)
+      setError('Error loading scan layout profiles. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const validateDraft = (draft: ProfileDraft): string | null => {
+    if (!draft.name.trim()) return 'Profile name is required.'
+
+    if (draft.format === 'json') {
+      if (!draft.json_items.trim() || !draft.json_path_id_key.trim() || !draft.json_value_key.trim()) {
+        return 'JSON profiles need an items path, a Path ID key and a value key.'
+      }
+    } else if (!cleanLocator(draft.locators.path_ids) || !cleanLocator(draft.locators.values)) {
+      return 'Tabular profiles need locations for Path IDs and values.'
+    }
+
+    if (draft.file_name_pattern.trim()) {
+      try {
+        new RegExp(draft.file_name_pattern)
+      } catch {
+        return 'File name pattern is not a valid regular expression.'
+      }
+    }
+
+    return null
+  }
+
+  const saveProfile = async () => {
+    if (!draft) return
+
+    const validationError = validateDraft(draft)
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+
+    try {
+      setSaving(true)
+      await ScanLayoutProfiles.save(fromDraft(draft))
+      setSuccess(`Layout profile "${draft.name}" saved successfully!`)
+      setDraft(null)
+      await fetchProfiles()
+    } catch (error) {
+      console.error('Error saving scan layout profile:', error)
+      setError('Error saving layout profile. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const deleteProfile = async (profile: ScanLayoutProfile) => {
+    if (!confirm(`Are you sure you want to delete "${profile.name}"?`)) return
+
+    try {
+      await ScanLayoutProfiles.remove(profile.id)
+      setSuccess(`Layout profile "${profile.name}" deleted.`)
+      await fetchProfiles()
+    } catch (error) {
+      console.error('Error deleting scan layout profile:', error)
+      setError('Error deleting layout profile. Please try again.')
+    }
+  }
+
+  const toggleActive = async (profile: ScanLayoutProfile) => {
+    try {
+      await ScanLayoutProfiles.save({ ...profile, is_active: !profile.is_active })
+      await fetchProfiles()
+    } catch (error) {
+      console.error('Error updating scan layout profile:', error)
+      setError('Error updating layout profile. Please try again.')
+    }
+  }
+
+  const describeLocator = (locator?: CellLocator) => {
+    if (locator?.range) return locator.range
+    if (locator?.header) return `"${locator.header}"`
+    return '-'
+  }
+
+  const updateLocator = (key: LocatorField, changes: CellLocator) => {
+    if (!draft) return
+    setDraft({
+      ...draft,
+      locators: { ...draft.locators, [key]: { ...draft.locators[key], ...changes } }
+    })
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Scan Layout Profiles</h1>
+          <p className="text-gray-600 mt-1">Describe where each scanner export keeps its Path IDs, values and client details</p>
+        </div>
+        <Button
+          variant="primary"
+          icon={Plus}
+          onClick={() => setDraft(toDraft())}
+        >
+          New Profile
+        </Button>
+      </div>
+
+      {/* Status Messages */}
+      {error && (
+        <Card variant="minimal" className="border-red-200 bg-red-50">
+          <CardContent>
+            <div className="flex items-center space-x-3">
+              <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {success && (
+        <Card variant="minimal" className="border-green-200 bg-green-50">
+          <CardContent>
+            <div className="flex items-center space-x-3">
+              <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0" />
+              <p className="text-sm text-green-700">{success}</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Profiles */}
+      <Card>
+        <CardHeader
+          title="Profiles"
+          description="The best-matching active profile is selected automatically for every file; the standard three-row layout is always used as a fallback"
+        />
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="w-8 h-8 border-4 border-wellness-sage-200 border-t-wellness-sage-600 rounded-full animate-spin"></div>
+            </div>
+          ) : profiles.length === 0 ? (
+            <div className="text-center py-12">
+              <LayoutGrid className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No layout profiles yet</h3>
+              <p className="text-gray-600">Files are processed with the standard three-row layout until a profile is added.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-3 px-4 font-medium text-gray-700">Profile</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-700">File Types</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-700">Layout</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-700">Priority</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-700">Status</th>
+                    <th className="py-3 px-4"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {profiles.map((profile) => (
+                    <tr key={profile.id} className="border-b border-gray-100 hover:bg-gray-50">
+                      <td className="py-3 px-4">
+                        <div className="text-sm font-medium text-gray-900">{profile.name}</div>
+                        <div className="text-xs text-gray-500">{profile.vendor || 'Any vendor'}</div>
+                      </td>
+                      <td className="py-3 px-4 text-sm text-gray-600">
+                        {profile.file_types.length > 0 ? profile.file_types.join(', ') : 'All'}
+                      </td>
+                      <td className="py-3 px-4 text-xs text-gray-600">
+                        {profile.layout.json ? (
+                          <span className="font-mono">{profile.layout.json.items}[].{profile.layout.json.path_id_key}</span>
+                        ) : (
+                          <span>
+                            {profile.layout.orientation} • IDs {describeLocator(profile.layout.path_ids)} • values {describeLocator(profile.layout.values)} • client {describeLocator(profile.layout.client_identifier)}
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-3 px-4 text-sm text-gray-600">{profile.priority}</td>
+                      <td className="py-3 px-4">
+                        <button
+                          onClick={() => toggleActive(profile)}
+                          className={`text-xs px-2 py-1 rounded ${
+                            profile.is_active ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-700'
+                          }`}
+                        >
+                          {profile.is_active ? 'active' : 'inactive'}
+                        </button>
+                      </td>
+                      <td className="py-3 px-4">
+                        <div className="flex items-center justify-end space-x-2">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            icon={Edit}
+                            onClick={() => setDraft(toDraft(profile))}
+                          />
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            icon={Trash2}
+                            onClick={() => deleteProfile(profile)}
+                            className="text-red-600 hover:text-red-700"
+                          />
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Edit Modal */}
+      {draft && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <Card className="w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+            <CardHeader
+              title={draft.id ? `Edit ${draft.name}` : 'New Layout Profile'}
+              description="Ranges use A1 notation: A3, B1:Z1, 2:2 (whole row) or C:C (whole column)"
+              action={
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  icon={X}
+                  onClick={() => setDraft(null)}
+                />
+              }
+            />
+            <CardContent>
+              <div className="space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <Input
+                    label="Name"
+                    value={draft.name}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  />
+                  <Input
+                    label="Vendor / Device"
+                    value={draft.vendor}
+                    onChange={(e) => setDraft({ ...draft, vendor: e.target.value })}
+                  />
+                  <Input
+                    label="File Types"
+                    helperText="Comma separated, leave empty for all"
+                    value={draft.file_types}
+                    onChange={(e) => setDraft({ ...draft, file_types: e.target.value })}
+                  />
+                  <Input
+                    label="Priority"
+                    type="number"
+                    helperText="Breaks ties between equally good matches"
+                    value={draft.priority}
+                    onChange={(e) => setDraft({ ...draft, priority: parseInt(e.target.value) || 0 })}
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Description</label>
+                  <textarea
+                    value={draft.description}
+                    onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                    rows={2}
+                    className="wellness-input"
+                  />
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Format</label>
+                    <select
+                      value={draft.format}
+                      onChange={(e) => setDraft({ ...draft, format: e.target.value as ProfileDraft['format'] })}
+                      className="wellness-input"
+                    >
+                      <option value="tabular">Spreadsheet / CSV</option>
+                      <option value="json">JSON</option>
+                    </select>
+                  </div>
+                  {draft.format === 'tabular' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Orientation</label>
+                      <select
+                        value={draft.orientation}
+                        onChange={(e) => setDraft({ ...draft, orientation: e.target.value as LayoutOrientation })}
+                        className="wellness-input"
+                      >
+                        <option value="rows">Path IDs across a row</option>
+                        <option value="columns">Path IDs down a column</option>
+                      </select>
+                    </div>
+                  )}
+                </div>
+
+                {draft.format === 'tabular' ? (
+                  <div className="space-y-3">
+                    <h4 className="text-sm font-medium text-gray-900">Field Locations</h4>
+                    {LOCATOR_FIELDS.map(field => (
+                      <div key={field.key} className="grid grid-cols-1 md:grid-cols-3 gap-3 items-start">
+                        <div className="pt-2">
+                          <p className="text-sm text-gray-700">{field.label}</p>
+                          <p className="text-xs text-gray-500">{field.hint}</p>
+                        </div>
+                        <Input
+                          placeholder="Cell or range"
+                          value={draft.locators[field.key].range || ''}
+                          onChange={(e) => updateLocator(field.key, { range: e.target.value })}
+                        />
+                        <Input
+                          placeholder="or header name"
+                          value={draft.locators[field.key].header || ''}
+                          onChange={(e) => updateLocator(field.key, { header: e.target.value })}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="space-y-3">
+                    <h4 className="text-sm font-medium text-gray-900">JSON Paths</h4>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <Input
+                        label="Readings Array"
+                        placeholder="e.g. results.measurements"
+                        value={draft.json_items}
+                        onChange={(e) => setDraft({ ...draft, json_items: e.target.value })}
+                      />
+                      <Input
+                        label="Path ID Key"
+                        placeholder="e.g. code"
+                        value={draft.json_path_id_key}
+                        onChange={(e) => setDraft({ ...draft, json_path_id_key: e.target.value })}
+                      />
+                      <Input
+                        label="Value Key"
+                        placeholder="e.g. value"
+                        value={draft.json_value_key}
+                        onChange={(e) => setDraft({ ...draft, json_value_key: e.target.value })}
+                      />
+                      <Input
+                        label="Unit Key"
+                        placeholder="Optional"
+                        value={draft.json_unit_key}
+                        onChange={(e) => setDraft({ ...draft, json_unit_key: e.target.value })}
+                      />
+                      <Input
+                        label="Client Identifier Path"
+                        placeholder="e.g. patient.id"
+                        value={draft.json_client_identifier}
+                        onChange={(e) => setDraft({ ...draft, json_client_identifier: e.target.value })}
+                      />
+                      <Input
+                        label="Scan Date Path"
+                        placeholder="Optional, e.g. measured_at"
+                        value={draft.json_scan_date}
+                        onChange={(e) => setDraft({ ...draft, json_scan_date: e.target.value })}
+                      />
+                    </div>
+                  </div>
+                )}
+
+                <div className="space-y-3">
+                  <h4 className="text-sm font-medium text-gray-900">Match Rules</h4>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <Input
+                      label={draft.format === 'json' ? 'Required JSON Paths' : 'Required Header Names'}
+                      helperText="Comma separated; all must be present"
+                      value={draft.header_names}
+                      onChange={(e) => setDraft({ ...draft, header_names: e.target.value })}
+                    />
+                    <Input
+                      label="File Name Pattern"
+                      helperText="Regular expression, e.g. ^inbody_"
+                      value={draft.file_name_pattern}
+                      onChange={(e) => setDraft({ ...draft, file_name_pattern: e.target.value })}
+                    />
+                  </div>
+                  <label className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      checked={draft.is_active}
+                      onChange={(e) => setDraft({ ...draft, is_active: e.target.checked })}
+                      className="rounded border-gray-300 text-wellness-sage-600 focus:ring-wellness-sage-500"
+                    />
+                    <span className="text-sm text-gray-700">Active</span>
+                  </label>
+                </div>
+
+                <div className="flex justify-end space-x-3 pt-6 border-t">
+                  <Button
+                    variant="outline"
+                    onClick={() => setDraft(null)}
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    variant="primary"
+                    onClick={saveProfile}
+                    loading={saving}
+                  >
+                    Save Profile
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,425 @@
+import { useState, useEffect, useMemo } from 'react'
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceArea,
+  ReferenceLine,
+  TooltipProps
+} from 'recharts'
+import { TrendingUp, RefreshCw, Search, X } from 'lucide-react'
+import { Card, CardHeader, CardContent } from '../ui/Card'
+import { Button } from '../ui/Button'
+import { supabase } from '../../lib/supabase'
+import { formatSADate } from '../../lib/utils'
+import { ReferenceRangeEngine, ReferenceSubject, ReferenceBand } from '../../lib/referenceRanges'
+import { PathIDDictionary, PathIDDefinition } from '../../lib/pathIdDictionary'
+import { UnitConverter } from '../../lib/units'
+
+export interface TrendScan {
+  id: string
+  scan_date: string
+  file_name: string
+  path_ids: Array<{
+    path_id: string
+    value: string | number
+    unit?: string
+  }>
+}
+
+interface ScanTrendsProps {
+  clientId?: string
+  // Shown until the client's full scan history has loaded
+  scans: TrendScan[]
+  subject: ReferenceSubject
+  dictionary: Map<string, PathIDDefinition>
+}
+
+interface TrendSeries {
+  path_id: string
+  label: string
+  category?: string
+  unit: string
+  band?: ReferenceBand
+  points: Array<{
+    scan_id: string
+    value: number
+    // Value and unit as recorded, shown when a conversion was applied
+    original: string
+    converted: boolean
+  }>
+}
+
+type TrendScale = 'actual' | 'baseline'
+
+const SERIES_COLOURS = ['#059669', '#0D9488', '#E57373', '#6366F1', '#D97706', '#0EA5E9']
+
+export function ScanTrends({ clientId, scans, subject, dictionary }: ScanTrendsProps) {
+  const [history, setHistory] = useState<TrendScan[]>(scans)
+  const [loading, setLoading] = useState(false)
+  const [selected, setSelected] = useState<string[]>([])
+  const [searchTerm, setSearchTerm] = useState('')
+  const [scale, setScale] = useState<TrendScale>('actual')
+
+  useEffect(() => {
+    if (clientId) {
+      fetchHistory(clientId)
+    }
+  }, [clientId])
+
+  const fetchHistory = async (id: string) => {
+    try {
+      setLoading(true)
+
+      const { data, error } = await supabase
+        .from('scans')
+        .select('id, scan_date, file_name, file_path, raw_data')
+        .eq('client_id', id)
+        .order('scan_date', { ascending: true })
+
+      if (error) throw error
+
+      if (data && data.length > 0) {
+        setHistory(data.map(scan => ({
+          id: scan.id,
+          scan_date: scan.scan_date,
+          file_name: scan.file_name || scan.file_path?.split('/').pop() || 'Unknown',
+          path_ids: scan.raw_data?.path_ids || []
+        })))
+      }
+    } catch (error) {
+      console.error('Error fetching scan history:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const sortedScans = useMemo(
+    () => [...history].sort((a, b) => new Date(a.scan_date).getTime() - new Date(b.scan_date).getTime()),
+    [history]
+  )
+
+  // One series per numeric Path ID, converted to a single unit
+  const series = useMemo<TrendSeries[]>(() => {
+    const pathIDs = new Set<string>()
+    sortedScans.forEach(scan => scan.path_ids.forEach(pathID => pathIDs.add(pathID.path_id)))
+    const latestScanDate = sortedScans[sortedScans.length - 1]?.scan_date
+
+    return Array.from(pathIDs).map(pathID => {
+      const definition = dictionary.get(pathID)
+      const readings = sortedScans.map(scan => scan.path_ids.find(p => p.path_id === pathID))
+      const normalized = UnitConverter.normalize(
+        readings.map(reading => ({ value: reading?.value, unit: reading?.unit })),
+        definition?.unit || undefined
+      )
+
+      const points = sortedScans.flatMap((scan, index) => {
+        const value = normalized.values[index]
+        const reading = readings[index]
+        if (value === null || !reading) return []
+
+        return [{
+          scan_id: scan.id,
+          value,
+          original: `${reading.value}${reading.unit ? ` ${reading.unit}` : ''}`,
+          converted: UnitConverter.normalizeUnit(reading.unit) !== UnitConverter.normalizeUnit(normalized.unit)
+        }]
+      })
+
+      return {
+        path_id: pathID,
+        label: definition?.name || pathID,
+        category: definition?.category,
+        unit: normalized.unit,
+        band: ReferenceRangeEngine.getBand(pathID, normalized.unit, subject, latestScanDate),
+        points
+      }
+    }).filter(trend => trend.points.length > 0)
+  }, [sortedScans, dictionary, subject])
+
+  // Start with the overall body score when available, otherwise the first charted Path ID
+  useEffect(() => {
+    if (series.length === 0) return
+
+    const initial = series.find(trend => trend.path_id === 'body_score') || series[0]
+    setSelected(current => current.length > 0 ? current : [initial.path_id])
+  }, [series])
+
+  const selectedSeries = selected
+    .map(pathID => series.find(trend => trend.path_id === pathID))
+    .filter((trend): trend is TrendSeries => !!trend)
+
+  // Different units can't share an axis, so overlays fall back to change from the first scan
+  const mixedUnits = new Set(selectedSeries.map(trend => trend.unit)).size > 1
+  const effectiveScale: TrendScale = mixedUnits ? 'baseline' : scale
+
+  const chartData = sortedScans.map(scan => {
+    const row: Record<string, string | number | null> = {
+      scan_id: scan.id,
+      timestamp: new Date(scan.scan_date).getTime(),
+      scan_date: scan.scan_date,
+      file_name: scan.file_name
+    }
+
+    selectedSeries.forEach(trend => {
+      const point = trend.points.find(p => p.scan_id === scan.id)
+      const baseline = trend.points[0]?.value
+
+      if (!point) {
+        row[trend.path_id] = null
+      } else if (effectiveScale === 'actual') {
+        row[trend.path_id] = point.value
+      } else {
+        row[trend.path_id] = baseline ? Math.round(((point.value - baseline) / Math.abs(baseline)) * 1000) / 10 : null
+      }
+    })
+
+    return row
+  })
+
+  const toggleSeries = (pathID: string) => {
+    if (selected.includes(pathID)) {
+      setSelected(selected.filter(id => id !== pathID))
+    } else if (selected.length < SERIES_COLOURS.length) {
+      setSelected([...selected, pathID])
+    }
+  }
+
+  const colourOf = (pathID: string) => SERIES_COLOURS[selected.indexOf(pathID) % SERIES_COLOURS.length]
+
+  const filteredSeries = series.filter(trend =>
+    !searchTerm ||
+    trend.path_id.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    trend.label.toLowerCase().includes(searchTerm.toLowerCase())
+  )
+
+  const renderTooltip = ({ active, payload }: TooltipProps<number, string>) => {
+    if (!active || !payload || payload.length === 0) return null
+
+    const row = payload[0].payload as Record<string, string | number | null>
+
+    return (
+      <div className="bg-white border border-gray-200 rounded-lg shadow-md p-3 text-xs">
+        <p className="font-medium text-gray-900">{formatSADate(row.scan_date as string)}</p>
+        <p className="text-gray-500 mb-2">{row.file_name}</p>
+        {selectedSeries.map(trend => {
+          const point = trend.points.find(p => p.scan_id === row.scan_id)
+          if (!point) return null
+
+          const value = `${Number(point.value.toFixed(2))}${trend.unit ? ` ${trend.unit}` : ''}`
+
+          return (
+            <div key={trend.path_id} className="flex items-center space-x-2">
+              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: colourOf(trend.path_id) }} />
+              <span className="text-gray-700">{trend.label}:</span>
+              <span className="font-semibold text-gray-900">{value}</span>
+              {effectiveScale === 'baseline' && row[trend.path_id] !== null && (
+                <span className="text-gray-500">({Number(row[trend.path_id]) > 0 ? '+' : ''}{row[trend.path_id]}%)</span>
+              )}
+              {point.converted && (
+                <span className="text-gray-400">recorded as {point.original}</span>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    )
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+      {/* Path ID selection */}
+      <Card className="lg:col-span-1" hover={false}>
+        <CardHeader
+          title="Path IDs"
+          description={`Select up to ${SERIES_COLOURS.length} to overlay`}
+        />
+        <CardContent>
+          <div className="space-y-4">
+            <div className="relative">
+              <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+              <input
+                type="text"
+                placeholder="Search Path IDs..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="wellness-input pl-9"
+              />
+            </div>
+
+            <div className="max-h-[28rem] overflow-y-auto space-y-4">
+              {PathIDDictionary.group(filteredSeries, dictionary).map(group => (
+                <div key={group.category}>
+                  <p className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">{group.category}</p>
+                  <div className="space-y-1">
+                    {group.items.map(trend => {
+                      const isSelected = selected.includes(trend.path_id)
+                      const isDisabled = !isSelected && selected.length >= SERIES_COLOURS.length
+
+                      return (
+                        <label
+                          key={trend.path_id}
+                          className={`flex items-center space-x-2 p-2 rounded-lg text-sm cursor-pointer ${
+                            isSelected ? 'bg-wellness-sage-50' : 'hover:bg-gray-50'
+                          } ${isDisabled ? 'opacity-50 cursor-not-allowed' : ''}`}
+                        >
+                          <input
+                            type="checkbox"
+                            checked={isSelected}
+                            disabled={isDisabled}
+                            onChange={() => toggleSeries(trend.path_id)}
+                            className="rounded border-gray-300 text-wellness-sage-600 focus:ring-wellness-sage-500"
+                          />
+                          {isSelected && (
+                            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: colourOf(trend.path_id) }} />
+                          )}
+                          <span className="flex-1 text-gray-900 truncate">{trend.label}</span>
+                          <span className="text-xs text-gray-500">{trend.points.length}</span>
+                        </label>
+                      )
+                    })}
+                  </div>
+                </div>
+              ))}
+
+              {filteredSeries.length === 0 && (
+                <p className="text-sm text-gray-500 text-center py-4">No numeric Path IDs found</p>
+              )}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Chart */}
+      <Card className="lg:col-span-3" hover={false}>
+        <CardHeader
+          title="Trend Analysis"
+          description={`${sortedScans.length} scans from ${formatSADate(sortedScans[0]?.scan_date || new Date())} to ${formatSADate(sortedScans[sortedScans.length - 1]?.scan_date || new Date())}`}
+          action={
+            <div className="flex items-center space-x-2">
+              {loading && <RefreshCw className="w-4 h-4 text-wellness-sage-600 animate-spin" />}
+              <Button
+                variant={effectiveScale === 'actual' ? 'primary' : 'outline'}
+                size="sm"
+                onClick={() => setScale('actual')}
+                disabled={mixedUnits}
+              >
+                Values
+              </Button>
+              <Button
+                variant={effectiveScale === 'baseline' ? 'primary' : 'outline'}
+                size="sm"
+                onClick={() => setScale('baseline')}
+              >
+                % change
+              </Button>
+            </div>
+          }
+        />
+        <CardContent>
+          {selectedSeries.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">
+              <TrendingUp className="w-12 h-12 mx-auto mb-4 text-gray-400" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No Path IDs selected</h3>
+              <p>Select one or more Path IDs to chart them across all scans</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex flex-wrap gap-2">
+                {selectedSeries.map(trend => (
+                  <span
+                    key={trend.path_id}
+                    className="inline-flex items-center space-x-2 px-3 py-1 rounded-full bg-gray-100 text-xs text-gray-700"
+                  >
+                    <span className="w-2 h-2 rounded-full" style={{ backgroundColor: colourOf(trend.path_id) }} />
+                    <span>{trend.label}{trend.unit && ` (${trend.unit})`}</span>
+                    <button onClick={() => toggleSeries(trend.path_id)} className="text-gray-400 hover:text-gray-600">
+                      <X className="w-3 h-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+
+              {mixedUnits && (
+                <p className="text-xs text-amber-700">
+                  The selected Path IDs use different units, so they are shown as % change from the first scan.
+                </p>
+              )}
+
+              <div className="h-96">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={chartData} margin={{ top: 10, right: 20, bottom: 10, left: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" />
+                    <XAxis
+                      dataKey="timestamp"
+                      type="number"
+                      scale="time"
+                      domain={['dataMin', 'dataMax']}
+                      tickFormatter={(timestamp: number) => formatSADate(new Date(timestamp))}
+                      tick={{ fontSize: 12, fill: '#6B7280' }}
+                    />
+                    <YAxis
+                      tick={{ fontSize: 12, fill: '#6B7280' }}
+                      tickFormatter={(value: number) => effectiveScale === 'baseline' ? `${value}%` : `${value}`}
+                      domain={['auto', 'auto']}
+                    />
+                    <Tooltip content={renderTooltip} />
+
+                    {/* Reference bands only make sense against actual values */}
+                    {effectiveScale === 'actual' && selectedSeries.map(trend => trend.band && (
+                      <ReferenceArea
+                        key={`band-${trend.path_id}`}
+                        y1={trend.band.low}
+                        y2={trend.band.high}
+                        fill={colourOf(trend.path_id)}
+                        fillOpacity={0.08}
+                        ifOverflow="extendDomain"
+                      />
+                    ))}
+                    {effectiveScale === 'actual' && selectedSeries.flatMap(trend => [trend.band?.critical_low, trend.band?.critical_high]
+                      .filter((limit): limit is number => limit !== undefined)
+                      .map(limit => (
+                        <ReferenceLine
+                          key={`critical-${trend.path_id}-${limit}`}
+                          y={limit}
+                          stroke="#DC2626"
+                          strokeDasharray="4 4"
+                          strokeOpacity={0.6}
+                        />
+                      ))
+                    )}
+                    {effectiveScale === 'baseline' && <ReferenceLine y={0} stroke="#9CA3AF" />}
+
+                    {selectedSeries.map(trend => (
+                      <Line
+                        key={trend.path_id}
+                        type="monotone"
+                        dataKey={trend.path_id}
+                        name={trend.label}
+                        stroke={colourOf(trend.path_id)}
+                        strokeWidth={2}
+                        dot={{ r: 4 }}
+                        activeDot={{ r: 6 }}
+                        connectNulls
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+
+              {effectiveScale === 'actual' && selectedSeries.some(trend => trend.band) && (
+                <p className="text-xs text-gray-500">
+                  Shaded areas show each Path ID's reference range; dashed red lines mark critical limits.
+                </p>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -19,7 +19,13 @@ import {
 import { Card, CardHeader, CardContent } from '../ui/Card'
 import { Button } from '../ui/Button'
 import { Input } from '../ui/Input'
-import { ScanProcessor } from '../../lib/scanProcessor'
+import { ScanProcessor, ScanSegment } from '../../lib/scanProcessor'
+import { OCREngine } from '../../lib/ocr'
+import { ReferenceRangeEngine } from '../../lib/referenceRanges'
+import { WellnessPassport } from '../../lib/wellnessPassport'
+import { ClientResolver, ClientCandidate, ClientMatch, CLIENT_MATCH_LABELS } from '../../lib/clientResolver'
+import { ScanViewer } from './ScanViewer'
+import { ScanStorage, StoredScanFile } from '../../lib/scanStorage'
 import { supabase } from '../../lib/supabase'
 import { useAuth } from '../../hooks/useAuth'
 
@@ -31,7 +37,7 @@ interface ScanUploaderProps {
 interface UploadFile {
   id: string
   file: File
-  status: 'pending' | 'processing' | 'completed' | 'failed'
+  status: 'pending' | 'processing' | 'review' | 'completed' | 'failed'
   progress: number
   result?: ProcessingResult
   error?: string
@@ -45,23 +51,26 @@ interface ProcessingResult {
     last_name: string
     email: string
   }
+  client_match?: ClientMatch
   path_ids: Array<{
     path_id: string
     value: string | number
     description?: string
     unit?: string
+    confidence?: number
+    verified?: boolean
   }>
   automation_status: 'automated' | 'manual' | 'failed'
   quality_score: number
   warnings: string[]
-}
-
-interface ClientSearchResult {
-  id: string
-  client_code: string
-  first_name: string
-  last_name: string
-  email: string
+  scan_date?: string
+  segment?: ScanSegment
+  layout_profile?: {
+    id: string
+    name: string
+    vendor: string
+    score: number
+  }
 }
 
 const SUPPORTED_FORMATS = [
@@ -81,10 +90,13 @@ export function ScanUploader({ onUploadComplete, onCancel }: ScanUploaderProps)
   const [uploadFiles, setUploadFiles] = useState<UploadFile[]>([])
   const [processing, setProcessing] = useState(false)
   const [showClientSearch, setShowClientSearch] = useState<string | null>(null)
+  const [reviewEntryId, setReviewEntryId] = useState<string | null>(null)
   const [clientSearchTerm, setClientSearchTerm] = useState('')
-  const [clientSearchResults, setClientSearchResults] = useState<ClientSearchResult[]>([])
+  const [clientSearchResults, setClientSearchResults] = useState<ClientCandidate[]>([])
   const [searchingClients, setSearchingClients] = useState(false)
   const fileInputRef = useRef<HTMLInputElement>(null)
+  // Each file is stored once per client however many scans a workbook splits into
+  const storedFiles = useRef(new WeakMap<File, Map<string, Promise<StoredScanFile>>>())
   const { profile } = useAuth()
 
   const handleDrag = useCallback((e: React.DragEvent) => {
@@ -144,42 +156,25 @@ export function ScanUploader({ onUploadComplete, onCancel }: ScanUploaderProps)
             : f
         ))
 
-        // Process the file
-        const result = await ScanProcessor.processFile(uploadFile.file)
+        // Process the file - workbooks can contain several scans
+        const results = await ScanProcessor.processFile(uploadFile.file)
         
-        // Update progress
-        setUploadFiles(prev => prev.map(f => 
-          f.id === uploadFile.id 
-            ? { ...f, progress: 50 }
-            : f
+        // Give every extracted scan its own queue entry
+        const entries: UploadFile[] = results.map((result, index) => ({
+          ...uploadFile,
+          id: index === 0 ? uploadFile.id : `${uploadFile.id}_${index}`,
+          status: 'processing',
+          progress: 50,
+          result: result.data,
+          error: result.success ? undefined : result.error || 'Processing failed'
+        }))
+
+        setUploadFiles(prev => prev.flatMap(f => 
+          f.id === uploadFile.id ? entries : [f]
         ))
 
-        if (result.success && result.data) {
-          // If automation failed, show client search
-          if (result.data.automation_status === 'failed') {
-            setShowClientSearch(uploadFile.id)
-            setUploadFiles(prev => prev.map(f => 
-              f.id === uploadFile.id 
-                ? { ...f, status: 'failed', result: result.data, error: 'Client ID not found - manual assignment required' }
-                : f
-            ))
-            continue
-          }
-
-          // Save to database
-          await saveScanToDatabase(uploadFile, result.data)
-          
-          setUploadFiles(prev => prev.map(f => 
-            f.id === uploadFile.id 
-              ? { ...f, status: 'completed', progress: 100, result: result.data }
-              : f
-          ))
-        } else {
-          setUploadFiles(prev => prev.map(f => 
-            f.id === uploadFile.id 
-              ? { ...f, status: 'failed', error: result.error || 'Processing failed' }
-              : f
-          ))
+        for (const entry of entries) {
+          await completeEntry(entry)
         }
       } catch (error) {
         console.error('Error processing file:', error)
@@ -194,73 +189,146 @@ export function ScanUploader({ onUploadComplete, onCancel }: ScanUploaderProps)
     setProcessing(false)
   }
 
+  const completeEntry = async (entry: UploadFile) => {
+    const updateEntry = (changes: Partial<UploadFile>) => {
+      setUploadFiles(prev => prev.map(f => 
+        f.id === entry.id ? { ...f, ...changes } : f
+      ))
+    }
+
+    if (!entry.result) {
+      updateEntry({ status: 'failed' })
+      return
+    }
+
+    // Values read by OCR with low confidence must be reviewed before anything is saved
+    if (entry.result.path_ids.some(pathID => OCREngine.isLowConfidence(pathID.confidence) && !pathID.verified)) {
+      updateEntry({ status: 'review', error: undefined })
+      return
+    }
+
+    // If automation failed, show client search
+    if (entry.result.automation_status === 'failed' || !entry.result.client_id) {
+      openClientSearch(entry)
+      updateEntry({
+        status: 'failed',
+        error: entry.result.client_match?.candidates.length
+          ? 'Client match uncertain - please confirm the client'
+          : 'Client ID not found - manual assignment required'
+      })
+      return
+    }
+
+    try {
+      // Save to database
+      await saveScanToDatabase(entry, entry.result)
+      updateEntry({ status: 'completed', progress: 100 })
+    } catch (error) {
+      updateEntry({ status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' })
+    }
+  }
+
+  const saveReviewedValues = async (entryId: string, pathIDs: ProcessingResult['path_ids']) => {
+    const entry = uploadFiles.find(f => f.id === entryId)
+    if (!entry?.result) return
+
+    const reviewed = { ...entry, status: 'processing' as const, result: { ...entry.result, path_ids: pathIDs } }
+    setUploadFiles(prev => prev.map(f => f.id === entryId ? reviewed : f))
+    setReviewEntryId(null)
+    await completeEntry(reviewed)
+  }
+
+  // Files sit under the client's folder, so segments for different clients get their own copy
+  const storeFile = (file: File, clientId: string): Promise<StoredScanFile> => {
+    const byClient = storedFiles.current.get(file) || new Map<string, Promise<StoredScanFile>>()
+    storedFiles.current.set(file, byClient)
+
+    let stored = byClient.get(clientId)
+    if (!stored) {
+      stored = ScanStorage.upload(file, clientId)
+      byClient.set(clientId, stored)
+      // A failed upload can be retried
+      stored.catch(() => byClient.delete(clientId))
+    }
+    return stored
+  }
+
   const saveScanToDatabase = async (uploadFile: UploadFile, result: ProcessingResult) => {
     try {
-      // Upload file to storage (simplified - would use actual file storage)
-      const filePath = `scans/${result.client_id}/${uploadFile.file.name}`
+      const clientId = result.client_id
+      if (!clientId) throw new Error('A client must be assigned before the scan is saved')
+
+      // Keep the original file alongside the extracted values
+      const stored = await storeFile(uploadFile.file, clientId)
       
+      const processedAt = new Date().toISOString()
+
       // Create scan record
       const { error } = await supabase
         .from('scans')
         .insert({
           client_id: result.client_id,
-          scan_date: new Date().toISOString(),
-          file_path: filePath,
+          scan_date: result.scan_date || processedAt,
+          file_path: stored.path,
+          file_name: uploadFile.file.name,
+          file_type: stored.content_type,
+          file_size: stored.size,
+          file_checksum: stored.checksum,
+          processing_status: 'completed',
+          automation_status: result.automation_status,
+          upload_source: 'manual',
+          quality_score: result.quality_score,
+          processed_at: processedAt,
+          ...WellnessPassport.metricColumns(result.path_ids),
           raw_data: {
             path_ids: result.path_ids,
             automation_status: result.automation_status,
             upload_source: 'manual',
-            processed_at: new Date().toISOString(),
+            processed_at: processedAt,
             quality_score: result.quality_score,
             warnings: result.warnings,
+            source_segment: result.segment,
+            layout_profile: result.layout_profile,
             file_metadata: {
               name: uploadFile.file.name,
-              size: uploadFile.file.size,
-              type: uploadFile.file.type
+              size: stored.size,
+              type: stored.content_type,
+              checksum: stored.checksum
             }
           }
         })
 
-      if (error) throw error
+      if (error) {
+        // Don't leave an orphaned file behind when no other segment's record uses it
+        await ScanStorage.removeUnreferenced([stored.path])
+          .then(removed => {
+            if (removed.length > 0) storedFiles.current.get(uploadFile.file)?.delete(clientId)
+          })
+          .catch(removeError => console.error('Error removing scan file:', removeError))
+        throw error
+      }
     } catch (error) {
       console.error('Error saving scan to database:', error)
       throw error
     }
   }
 
+  // Opens the client search pre-filled with any candidates the processor could not choose between
+  const openClientSearch = (entry: UploadFile) => {
+    setShowClientSearch(entry.id)
+    setClientSearchTerm('')
+    setClientSearchResults(entry.result?.client_match?.candidates || [])
+  }
+
   const searchClients = async (searchTerm: string) => {
     if (!searchTerm.trim()) {
-      setClientSearchResults([])
+      setClientSearchResults(uploadFiles.find(f => f.id === showClientSearch)?.result?.client_match?.candidates || [])
       return
     }
 
     setSearchingClients(true)
     try {
-      const { data, error } = await supabase
-        .from('clients')
-        .select(`
-          id,
-          client_code,
-          profile:profiles!clients_profile_id_fkey(
-            first_name,
-            last_name,
-            email
-          )
-        `)
-        .or(`client_code.ilike.%${searchTerm}%,profile.first_name.ilike.%${searchTerm}%,profile.last_name.ilike.%${searchTerm}%,profile.email.ilike.%${searchTerm}%`)
-        .limit(10)
-
-      if (error) throw error
-
-      const results: ClientSearchResult[] = (data || []).map(client => ({
-        id: client.id,
-        client_code: client.client_code,
-        first_name: client.profile?.first_name || '',
-        last_name: client.profile?.last_name || '',
-        email: client.profile?.email || ''
-      }))
-
-      setClientSearchResults(results)
+      setClientSearchResults(await ClientResolver.search(searchTerm))
     } catch (error) {
       console.error('Error searching clients:', error)
     } finally {
@@ -276,8 +344,12 @@ export function ScanUploader({ onUploadComplete, onCancel }: ScanUploaderProps)
       const client = clientSearchResults.find(c => c.id === clientId)
       if (!client) return
 
+      // Statuses were set before the client was known, against ranges that ignore sex and age
+      const subject = await ReferenceRangeEngine.loadSubject(clientId)
+
       const updatedResult = {
         ...uploadFile.result,
+        path_ids: ReferenceRangeEngine.annotate(uploadFile.result.path_ids, subject),
         client_id: clientId,
         client_info: {
           client_code: client.client_code,
@@ -319,6 +391,7 @@ export function ScanUploader({ onUploadComplete, onCancel }: ScanUploaderProps)
     return format ? format.color : 'text-gray-600'
   }
 
+  const reviewEntry = uploadFiles.find(f => f.id === reviewEntryId)
   const allCompleted = uploadFiles.length > 0 && uploadFiles.every(f => f.status === 'completed')
   const hasFailures = uploadFiles.some(f => f.status === 'failed')
 
@@ -402,7 +475,7 @@ export function ScanUploader({ onUploadComplete, onCancel }: ScanUploaderProps)
         <Card>
           <CardHeader
             title="Upload Queue"
-            description={`${uploadFiles.length} file(s) ready for processing`}
+            description={`${uploadFiles.length} scan(s) in the queue`}
             action={
               <div className="flex items-center space-x-2">
                 {allCompleted && (
@@ -442,10 +515,16 @@ export function ScanUploader({ onUploadComplete, onCancel }: ScanUploaderProps)
                             <h4 className="text-sm font-medium text-gray-900 truncate">
                               {uploadFile.file.name}
                             </h4>
+                            {uploadFile.result?.segment && (
+                              <span className="text-xs px-2 py-1 rounded bg-wellness-sage-100 text-wellness-sage-700">
+                                {uploadFile.result.segment.label}
+                              </span>
+                            )}
                             <span className={`text-xs px-2 py-1 rounded ${
                               uploadFile.status === 'completed' ? 'bg-green-100 text-green-700' :
                               uploadFile.status === 'failed' ? 'bg-red-100 text-red-700' :
                               uploadFile.status === 'processing' ? 'bg-blue-100 text-blue-700' :
+                              uploadFile.status === 'review' ? 'bg-amber-100 text-amber-700' :
                               'bg-gray-100 text-gray-700'
                             }`}>
                               {uploadFile.status}
@@ -491,6 +570,21 @@ export function ScanUploader({ onUploadComplete, onCancel }: ScanUploaderProps)
                                   <p className="text-gray-600">{uploadFile.result.quality_score}%</p>
                                 </div>
                               </div>
+
+                              {uploadFile.result.client_match?.method && (
+                                <p className="mt-2 text-xs text-gray-500">
+                                  {uploadFile.result.client_match.status === 'matched' ? 'Matched by' : 'Possible matches by'}{' '}
+                                  {CLIENT_MATCH_LABELS[uploadFile.result.client_match.method].toLowerCase()}
+                                  {' '}({Math.round(uploadFile.result.client_match.confidence * 100)}% confidence)
+                                </p>
+                              )}
+
+                              {uploadFile.result.layout_profile && (
+                                <p className="mt-2 text-xs text-gray-500">
+                                  Layout profile: {uploadFile.result.layout_profile.name}
+                                  {uploadFile.result.layout_profile.vendor && ` (${uploadFile.result.layout_profile.vendor})`}
+                                </p>
+                              )}
                               
                               {uploadFile.result.warnings.length > 0 && (
                                 <div className="mt-2">
@@ -521,12 +615,22 @@ export function ScanUploader({ onUploadComplete, onCancel }: ScanUploaderProps)
                         {uploadFile.status === 'completed' && (
                           <CheckCircle className="w-4 h-4 text-green-600" />
                         )}
+                        {uploadFile.status === 'review' && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            icon={Eye}
+                            onClick={() => setReviewEntryId(uploadFile.id)}
+                          >
+                            Review Values
+                          </Button>
+                        )}
                         {uploadFile.status === 'failed' && uploadFile.result && (
                           <Button
                             variant="outline"
                             size="sm"
                             icon={Users}
-                            onClick={() => setShowClientSearch(uploadFile.id)}
+                            onClick={() => openClientSearch(uploadFile)}
                           >
                             Assign Client
                           </Button>
@@ -549,6 +653,38 @@ export function ScanUploader({ onUploadComplete, onCancel }: ScanUploaderProps)
         </Card>
       )}
 
+      {/* OCR Review */}
+      {reviewEntry?.result && (
+        <div className="fixed inset-0 z-50">
+          <ScanViewer
+            scan={{
+              id: reviewEntry.id,
+              client_id: '',
+              scan_date: reviewEntry.result.scan_date || new Date().toISOString(),
+              file_name: reviewEntry.file.name,
+              file_type: reviewEntry.file.name.split('.').pop()?.toUpperCase() || 'Unknown',
+              processing_status: 'review',
+              automation_status: reviewEntry.result.automation_status,
+              path_ids: reviewEntry.result.path_ids,
+              client_info: reviewEntry.result.client_info || {
+                client_code: 'Unassigned',
+                first_name: 'Unassigned',
+                last_name: 'client',
+                email: ''
+              },
+              metadata: {
+                upload_source: 'manual',
+                quality_score: reviewEntry.result.quality_score,
+                warnings: reviewEntry.result.warnings
+              },
+              created_at: new Date().toISOString()
+            }}
+            onSaveCorrections={(pathIDs) => saveReviewedValues(reviewEntry.id, pathIDs)}
+            onClose={() => setReviewEntryId(null)}
+          />
+        </div>
+      )}
+
       {/* Client Search Modal */}
       {showClientSearch && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -589,6 +725,11 @@ export function ScanUploader({ onUploadComplete, onCancel }: ScanUploaderProps)
                 
                 {clientSearchResults.length > 0 && (
                   <div className="space-y-2">
+                    {!clientSearchTerm && (
+                      <p className="text-xs font-medium text-gray-500 uppercase tracking-wide">
+                        Suggested matches from the scan
+                      </p>
+                    )}
                     {clientSearchResults.map((client) => (
                       <button
                         key={client.id}
@@ -1,4 +1,4 @@
-import React, { useState } from 'react'
+import React, { useState, useEffect, useMemo } from 'react'
 import { 
   X, 
   Download, 
@@ -15,11 +15,16 @@ import {
   CheckCircle,
   Info,
   Eye,
-  Edit
+  Edit,
+  FileDown
 } from 'lucide-react'
 import { Card, CardHeader, CardContent } from '../ui/Card'
 import { Button } from '../ui/Button'
 import { formatSADate } from '../../lib/utils'
+import { ReferenceRangeEngine, ReferenceSubject } from '../../lib/referenceRanges'
+import { PathIDDictionary, PathIDDefinition } from '../../lib/pathIdDictionary'
+import { OCREngine } from '../../lib/ocr'
+import { ScanStorage } from '../../lib/scanStorage'
 
 interface ScanViewerProps {
   scan: {
@@ -28,15 +33,22 @@ interface ScanViewerProps {
     scan_date: string
     file_name: string
     file_type: string
+    // Storage path of the original upload, if one was kept
+    file_path?: string
     processing_status: string
     automation_status: string
     path_ids: Array<{
       path_id: string
       value: string | number
+      name?: string
       description?: string
+      category?: string
       unit?: string
       reference_range?: string
+      source_range?: string
       status?: 'normal' | 'high' | 'low' | 'critical'
+      confidence?: number
+      verified?: boolean
     }>
     client_info: {
       client_code: string
@@ -53,16 +65,106 @@ interface ScanViewerProps {
     created_at: string
   }
   onClose: () => void
+  // When provided, low-confidence OCR values can be corrected and saved
+  onSaveCorrections?: (pathIDs: ScanViewerProps['scan']['path_ids']) => Promise<void>
 }
 
-export function ScanViewer({ scan, onClose }: ScanViewerProps) {
+export function ScanViewer({ scan, onClose, onSaveCorrections }: ScanViewerProps) {
   const [viewMode, setViewMode] = useState<'overview' | 'pathids' | 'raw'>('overview')
   const [searchTerm, setSearchTerm] = useState('')
   const [filterStatus, setFilterStatus] = useState<'all' | 'normal' | 'high' | 'low' | 'critical'>('all')
+  const [subject, setSubject] = useState<ReferenceSubject>({})
+  const [dictionary, setDictionary] = useState<Map<string, PathIDDefinition>>(new Map())
+  const [corrections, setCorrections] = useState<Record<string, string>>({})
+  const [savingCorrections, setSavingCorrections] = useState(false)
+  const [downloadingOriginal, setDownloadingOriginal] = useState(false)
 
-  const filteredPathIDs = scan.path_ids.filter(pathID => {
+  useEffect(() => {
+    PathIDDictionary.load().then(setDictionary)
+  }, [])
+
+  useEffect(() => {
+    if (scan.client_id) {
+      ReferenceRangeEngine.loadSubject(scan.client_id).then(setSubject)
+    }
+  }, [scan.client_id])
+
+  // Corrected values count as verified and are re-evaluated against the reference ranges
+  const correctedPathIDs = useMemo(
+    () => scan.path_ids.map(pathID => pathID.path_id in corrections
+      ? { ...pathID, value: corrections[pathID.path_id], verified: true }
+      : pathID
+    ),
+    [scan.path_ids, corrections]
+  )
+
+  // Labels come from the Path ID dictionary; statuses from the reference-range catalogue for this client
+  const pathIDs = useMemo(
+    () => ReferenceRangeEngine.annotate(PathIDDictionary.describe(correctedPathIDs, dictionary), subject, scan.scan_date),
+    [correctedPathIDs, dictionary, subject, scan.scan_date]
+  )
+
+  const needsReview = (pathID: { confidence?: number; verified?: boolean }) =>
+    OCREngine.isLowConfidence(pathID.confidence) && !pathID.verified
+
+  // Values stay listed while they are being corrected so the inputs don't disappear mid-edit
+  const lowConfidencePathIDs = pathIDs.filter(pathID =>
+    needsReview(pathID) || (OCREngine.isLowConfidence(pathID.confidence) && pathID.path_id in corrections)
+  )
+
+  const saveCorrections = async () => {
+    if (!onSaveCorrections) return
+
+    try {
+      setSavingCorrections(true)
+      // Saving marks every low-confidence value as reviewed, corrected or not
+      await onSaveCorrections(correctedPathIDs.map(pathID =>
+        OCREngine.isLowConfidence(pathID.confidence) ? { ...pathID, verified: true } : pathID
+      ))
+      setCorrections({})
+    } catch (error) {
+      console.error('Error saving corrections:', error)
+      alert('Error saving corrections. Please try again.')
+    } finally {
+      setSavingCorrections(false)
+    }
+  }
+
+  const renderValue = (pathID: typeof pathIDs[number]) => {
+    if (!needsReview(pathID) && !(pathID.path_id in corrections)) {
+      return <span className="font-semibold">{pathID.value}</span>
+    }
+
+    return (
+      <div className="flex items-center space-x-2">
+        {onSaveCorrections ? (
+          <input
+            type="text"
+            value={pathID.value}
+            onChange={(e) => setCorrections(prev => ({ ...prev, [pathID.path_id]: e.target.value }))}
+            className={`w-24 px-2 py-1 text-sm font-semibold rounded border ${
+              pathID.verified ? 'border-green-300 bg-green-50' : 'border-amber-300 bg-amber-50'
+            }`}
+          />
+        ) : (
+          <span className="font-semibold px-2 py-1 rounded bg-amber-100 text-amber-900">{pathID.value}</span>
+        )}
+        {pathID.confidence !== undefined && (
+          <span
+            className={`text-xs ${pathID.verified ? 'text-green-600' : 'text-amber-700'}`}
+            title="OCR confidence"
+          >
+            {pathID.verified ? 'corrected' : `${pathID.confidence}%`}
+          </span>
+        )}
+      </div>
+    )
+  }
+
+  const filteredPathIDs = pathIDs.filter(pathID => {
     const matchesSearch = !searchTerm || 
       pathID.path_id.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      pathID.name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
       pathID.description?.toLowerCase().includes(searchTerm.toLowerCase())
     
     const matchesFilter = filterStatus === 'all' || pathID.status === filterStatus
@@ -100,22 +202,38 @@ export function ScanViewer({ scan, onClose }: ScanViewerProps) {
     }
   }
 
-  const statusCounts = scan.path_ids.reduce((acc, pathID) => {
+  const statusCounts = pathIDs.reduce((acc, pathID) => {
     const status = pathID.status || 'unknown'
     acc[status] = (acc[status] || 0) + 1
     return acc
   }, {} as Record<string, number>)
 
+  const downloadOriginal = async () => {
+    if (!scan.file_path) return
+
+    setDownloadingOriginal(true)
+    try {
+      window.location.href = await ScanStorage.createDownloadUrl(scan.file_path, scan.file_name)
+    } catch (error) {
+      console.error('Error downloading original file:', error)
+      alert('The original file is not available for this scan.')
+    } finally {
+      setDownloadingOriginal(false)
+    }
+  }
+
   const exportScanData = () => {
     const csvContent = [
-      ['Path ID', 'Value', 'Unit', 'Status', 'Description', 'Reference Range'].join(','),
-      ...scan.path_ids.map(pathID => [
+      ['Path ID', 'Name', 'Category', 'Value', 'Unit', 'Status', 'Description', 'Reference Range'].join(','),
+      ...pathIDs.map(pathID => [
         pathID.path_id,
+        pathID.name || '',
+        pathID.category || '',
         pathID.value,
         pathID.unit || '',
         pathID.status || '',
         pathID.description || '',
-        pathID.reference_range || ''
+        pathID.reference_range || pathID.source_range || ''
       ].map(field => `"${field}"`).join(','))
     ].join('\n')
 
@@ -160,7 +278,7 @@ export function ScanViewer({ scan, onClose }: ScanViewerProps) {
               </span>
               <span className="flex items-center">
                 <Activity className="w-4 h-4 mr-1" />
-                {scan.path_ids.length} Path IDs
+                {pathIDs.length} Path IDs
               </span>
               {scan.metadata.quality_score && (
                 <span className="flex items-center">
@@ -172,6 +290,26 @@ export function ScanViewer({ scan, onClose }: ScanViewerProps) {
           </div>
           
           <div className="flex items-center space-x-3">
+            {onSaveCorrections && lowConfidencePathIDs.length > 0 && (
+              <Button
+                variant="primary"
+                icon={CheckCircle}
+                onClick={saveCorrections}
+                loading={savingCorrections}
+              >
+                Save Corrections
+              </Button>
+            )}
+            {scan.file_path && (
+              <Button
+                variant="outline"
+                icon={FileDown}
+                onClick={downloadOriginal}
+                loading={downloadingOriginal}
+              >
+                Original
+              </Button>
+            )}
             <Button
               variant="outline"
               icon={Download}
@@ -215,7 +353,7 @@ export function ScanViewer({ scan, onClose }: ScanViewerProps) {
                 : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
             }`}
           >
-            Path IDs ({scan.path_ids.length})
+            Path IDs ({pathIDs.length})
           </button>
           <button
             onClick={() => setViewMode('raw')}
@@ -241,7 +379,7 @@ export function ScanViewer({ scan, onClose }: ScanViewerProps) {
                   <div className="flex items-center justify-between">
                     <div>
                       <p className="text-sm font-medium text-gray-600">Total Path IDs</p>
-                      <p className="text-2xl font-bold text-gray-900">{scan.path_ids.length}</p>
+                      <p className="text-2xl font-bold text-gray-900">{pathIDs.length}</p>
                     </div>
                     <Activity className="w-8 h-8 text-wellness-sage-600" />
                   </div>
@@ -307,6 +445,34 @@ export function ScanViewer({ scan, onClose }: ScanViewerProps) {
               </Card>
             )}
 
+            {/* Low-Confidence OCR Values */}
+            {lowConfidencePathIDs.length > 0 && (
+              <Card variant="minimal" className="border-amber-200 bg-amber-50">
+                <CardHeader
+                  title="Values To Review"
+                  description={onSaveCorrections
+                    ? 'These values were read from an image with low confidence - correct them before saving'
+                    : 'These values were read from an image with low confidence'}
+                />
+                <CardContent>
+                  <div className="space-y-3">
+                    {lowConfidencePathIDs.map((pathID) => (
+                      <div key={pathID.path_id} className="flex items-center justify-between p-3 bg-white border border-amber-200 rounded-lg">
+                        <div>
+                          <h4 className="text-sm font-medium text-gray-900">{pathID.name || pathID.path_id}</h4>
+                          <p className="text-xs text-gray-600">{pathID.description}</p>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          {renderValue(pathID)}
+                          <span className="text-sm text-gray-600">{pathID.unit}</span>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
             {/* Critical Values */}
             {statusCounts.critical > 0 && (
               <Card variant="minimal" className="border-red-200 bg-red-50">
@@ -316,14 +482,14 @@ export function ScanViewer({ scan, onClose }: ScanViewerProps) {
                 />
                 <CardContent>
                   <div className="space-y-3">
-                    {scan.path_ids
+                    {pathIDs
                       .filter(pathID => pathID.status === 'critical')
                       .map((pathID, index) => (
                         <div key={index} className="flex items-center justify-between p-3 bg-white border border-red-200 rounded-lg">
                           <div className="flex items-center space-x-3">
                             <AlertTriangle className="w-5 h-5 text-red-600" />
                             <div>
-                              <h4 className="text-sm font-medium text-gray-900">{pathID.path_id}</h4>
+                              <h4 className="text-sm font-medium text-gray-900">{pathID.name || pathID.path_id}</h4>
                               <p className="text-xs text-gray-600">{pathID.description}</p>
                             </div>
                           </div>
@@ -331,8 +497,8 @@ export function ScanViewer({ scan, onClose }: ScanViewerProps) {
                             <p className="text-sm font-bold text-red-600">
                               {pathID.value} {pathID.unit}
                             </p>
-                            {pathID.reference_range && (
-                              <p className="text-xs text-gray-500">Ref: {pathID.reference_range}</p>
+                            {(pathID.reference_range || pathID.source_range) && (
+                              <p className="text-xs text-gray-500">Ref: {pathID.reference_range || pathID.source_range}</p>
                             )}
                           </div>
                         </div>
@@ -439,7 +605,7 @@ export function ScanViewer({ scan, onClose }: ScanViewerProps) {
             <Card>
               <CardHeader
                 title="Path ID Data"
-                description={`${filteredPathIDs.length} of ${scan.path_ids.length} Path IDs`}
+                description={`${filteredPathIDs.length} of ${pathIDs.length} Path IDs`}
               />
               <CardContent>
                 <div className="overflow-x-auto">
@@ -455,26 +621,40 @@ export function ScanViewer({ scan, onClose }: ScanViewerProps) {
                       </tr>
                     </thead>
                     <tbody>
-                      {filteredPathIDs.map((pathID, index) => (
-                        <tr key={index} className="border-b border-gray-100 hover:bg-gray-50">
-                          <td className="py-3 px-4 font-mono text-sm">{pathID.path_id}</td>
-                          <td className="py-3 px-4 font-semibold">{pathID.value}</td>
-                          <td className="py-3 px-4 text-sm text-gray-600">{pathID.unit || '-'}</td>
-                          <td className="py-3 px-4">
-                            <div className="flex items-center space-x-2">
-                              {getStatusIcon(pathID.status)}
-                              <span className={`text-xs px-2 py-1 rounded border ${getStatusColor(pathID.status)}`}>
-                                {pathID.status || 'unknown'}
-                              </span>
-                            </div>
-                          </td>
-                          <td className="py-3 px-4 text-sm text-gray-600 max-w-xs truncate">
-                            {pathID.description || '-'}
-                          </td>
-                          <td className="py-3 px-4 text-sm text-gray-600">
-                            {pathID.reference_range || '-'}
-                          </td>
-                        </tr>
+                      {PathIDDictionary.group(filteredPathIDs, dictionary).map(group => (
+                        <React.Fragment key={group.category}>
+                          <tr className="bg-gray-50">
+                            <td colSpan={6} className="py-2 px-4 text-xs font-semibold uppercase tracking-wide text-gray-500">
+                              {group.category}
+                            </td>
+                          </tr>
+                          {group.items.map((pathID) => (
+                            <tr key={pathID.path_id} className="border-b border-gray-100 hover:bg-gray-50">
+                              <td className="py-3 px-4">
+                                <div className="text-sm font-medium text-gray-900">{pathID.name || pathID.path_id}</div>
+                                {pathID.name && (
+                                  <div className="font-mono text-xs text-gray-500">{pathID.path_id}</div>
+                                )}
+                              </td>
+                              <td className="py-3 px-4">{renderValue(pathID)}</td>
+                              <td className="py-3 px-4 text-sm text-gray-600">{pathID.unit || '-'}</td>
+                              <td className="py-3 px-4">
+                                <div className="flex items-center space-x-2">
+                                  {getStatusIcon(pathID.status)}
+                                  <span className={`text-xs px-2 py-1 rounded border ${getStatusColor(pathID.status)}`}>
+                                    {pathID.status || 'unknown'}
+                                  </span>
+                                </div>
+                              </td>
+                              <td className="py-3 px-4 text-sm text-gray-600 max-w-xs truncate">
+                                {pathID.description || '-'}
+                              </td>
+                              <td className="py-3 px-4 text-sm text-gray-600">
+                                {pathID.reference_range || pathID.source_range || '-'}
+                              </td>
+                            </tr>
+                          ))}
+                        </React.Fragment>
                       ))}
                     </tbody>
                   </table>
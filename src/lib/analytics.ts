@@ -0,0 +1,194 @@
+import { addDays, format, parseISO, startOfMonth, subMonths } from 'date-fns'
+import { supabase } from './supabase'
+
+export interface AnalyticsRange {
+  from: Date
+  // Exclusive
+  to: Date
+}
+
+export interface AcquisitionRow {
+  period: string
+  source: string
+  treatment_centre: string
+  clients: number
+}
+
+export interface FunnelRow {
+  step: number
+  clients: number
+}
+
+export interface ScanVolumeRow {
+  period: string
+  upload_source: 'manual' | 'dropbox' | 'api'
+  automation_status: 'automated' | 'manual' | 'failed'
+  processing_status: 'pending' | 'processing' | 'completed' | 'failed'
+  scans: number
+}
+
+export interface UtilisationRow {
+  staff_id: string
+  available_minutes: number
+  booked_minutes: number
+  bookings: number
+  completed: number
+  cancelled: number
+  no_show: number
+}
+
+export interface RevenueRow {
+  period: string
+  invoiced: number
+  vat: number
+  collected: number
+  refunded: number
+}
+
+// One chart row per month with a numeric column per series
+export type MonthlySeries = Array<{ period: string; label: string } & Record<string, number | string>>
+
+export const ACQUISITION_SOURCE_LABELS: Record<string, string> = {
+  referral: 'Referral',
+  social_media: 'Social Media',
+  website: 'Website',
+  advertisement: 'Advertisement',
+  event: 'Event',
+  healthcare: 'Healthcare Provider',
+  other: 'Other',
+  unknown: 'Not Captured'
+}
+
+// Mirrors the onboarding wizard's steps; step 0 is registering an account
+export const ONBOARDING_STEP_LABELS = [
+  'Registered',
+  'Contact Information',
+  'Personal Information',
+  'Health Questionnaire',
+  'General Information',
+  'Terms & Conditions',
+  'Treatment Centre'
+]
+
+export const CHART_COLOURS = ['#059669', '#0D9488', '#E57373', '#6366F1', '#D97706', '#0EA5E9', '#9CA3AF']
+
+export const ANALYTICS_PERIODS = [
+  { months: 3, label: 'Last 3 months' },
+  { months: 6, label: 'Last 6 months' },
+  { months: 12, label: 'Last 12 months' }
+]
+
+// Aggregates are coerced so missing or null values read as zero
+const toNumber = (value: unknown) => Number(value) || 0
+
+export class AnalyticsService {
+  // Whole calendar months up to and including today
+  static range(months: number, today = new Date()): AnalyticsRange {
+    return {
+      from: startOfMonth(subMonths(today, months - 1)),
+      to: addDays(today, 1)
+    }
+  }
+
+  static async fetchAcquisition(range: AnalyticsRange): Promise<AcquisitionRow[]> {
+    const data = await this.call('get_client_acquisition', range)
+    return data.map(row => ({
+      period: String(row.period),
+      source: String(row.source),
+      treatment_centre: String(row.treatment_centre),
+      clients: toNumber(row.clients)
+    }))
+  }
+
+  static async fetchFunnel(range: AnalyticsRange): Promise<FunnelRow[]> {
+    const data = await this.call('get_onboarding_funnel', range)
+    return data.map(row => ({ step: toNumber(row.step), clients: toNumber(row.clients) }))
+  }
+
+  static async fetchScanVolumes(range: AnalyticsRange): Promise<ScanVolumeRow[]> {
+    const data = await this.call('get_scan_volumes', range)
+    return data.map(row => ({ ...row, period: String(row.period), scans: toNumber(row.scans) }) as ScanVolumeRow)
+  }
+
+  static async fetchUtilisation(range: AnalyticsRange): Promise<UtilisationRow[]> {
+    const data = await this.call('get_booking_utilisation', range)
+    return data.map(row => ({
+      staff_id: String(row.staff_id),
+      available_minutes: toNumber(row.available_minutes),
+      booked_minutes: toNumber(row.booked_minutes),
+      bookings: toNumber(row.bookings),
+      completed: toNumber(row.completed),
+      cancelled: toNumber(row.cancelled),
+      no_show: toNumber(row.no_show)
+    }))
+  }
+
+  static async fetchRevenue(range: AnalyticsRange): Promise<RevenueRow[]> {
+    const data = await this.call('get_revenue_summary', range)
+    return data.map(row => ({
+      period: String(row.period),
+      invoiced: toNumber(row.invoiced),
+      vat: toNumber(row.vat),
+      collected: toNumber(row.collected),
+      refunded: toNumber(row.refunded)
+    }))
+  }
+
+  // Every month in the range, so months without data still appear on charts
+  static months(range: AnalyticsRange): string[] {
+    const months: string[] = []
+    for (let month = startOfMonth(range.from); month < range.to; month = startOfMonth(addDays(month, 32))) {
+      months.push(format(month, 'yyyy-MM-dd'))
+    }
+    return months
+  }
+
+  // Sums a value per month and key, e.g. new clients per month by source
+  static pivot<T extends { period: string }>(
+    rows: T[],
+    range: AnalyticsRange,
+    key: (row: T) => string,
+    value: (row: T) => number
+  ): { series: string[]; data: MonthlySeries } {
+    const series = Array.from(new Set(rows.map(key)))
+      .sort((a, b) => this.total(rows, key, value, b) - this.total(rows, key, value, a))
+
+    const data = this.months(range).map(period => {
+      const entry: MonthlySeries[number] = { period, label: format(parseISO(period), 'MMM yy') }
+      series.forEach(name => { entry[name] = 0 })
+      rows
+        .filter(row => row.period === period)
+        .forEach(row => { entry[key(row)] = (entry[key(row)] as number) + value(row) })
+      return entry
+    })
+
+    return { series, data }
+  }
+
+  // Totals per key, largest first
+  static totals<T>(rows: T[], key: (row: T) => string, value: (row: T) => number): Array<{ name: string; value: number }> {
+    const totals = new Map<string, number>()
+    rows.forEach(row => totals.set(key(row), (totals.get(key(row)) || 0) + value(row)))
+    return Array.from(totals.entries())
+      .map(([name, total]) => ({ name, value: total }))
+      .sort((a, b) => b.value - a.value)
+  }
+
+  static percentage(part: number, whole: number): number {
+    return whole > 0 ? Math.round((part / whole) * 1000) / 10 : 0
+  }
+
+  private static total<T>(rows: T[], key: (row: T) => string, value: (row: T) => number, name: string): number {
+    return rows.filter(row => key(row) === name).reduce((sum, row) => sum + value(row), 0)
+  }
+
+  private static async call(fn: string, range: AnalyticsRange): Promise<Record<string, unknown>[]> {
+    const { data, error } = await supabase.rpc(fn, {
+      range_start: format(range.from, 'yyyy-MM-dd'),
+      range_end: format(range.to, 'yyyy-MM-dd')
+    })
+
+    if (error) throw error
+    return data || []
+  }
+}
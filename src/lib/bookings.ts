@@ -0,0 +1,386 @@
+import { addMinutes, format, isBefore, parseISO } from 'date-fns'
+import { supabase } from './supabase'
+
+export type BookingStatus = 'scheduled' | 'completed' | 'cancelled' | 'no_show'
+
+export interface ServiceType {
+  id: string
+  name: string
+  description: string
+  duration_minutes: number
+  price: number | null
+  client_bookable: boolean
+  is_active: boolean
+}
+
+export interface TreatmentRoom {
+  id: string
+  treatment_centre: string
+  name: string
+  is_active: boolean
+}
+
+export interface StaffAvailability {
+  id: string
+  staff_id: string
+  weekday: number
+  start_time: string
+  end_time: string
+  treatment_centre: string
+  is_active: boolean
+}
+
+export interface StaffMember {
+  id: string
+  first_name: string | null
+  last_name: string | null
+}
+
+export interface BusyTime {
+  booking_id: string
+  staff_id: string | null
+  room_id: string | null
+  starts_at: string
+  ends_at: string
+}
+
+export interface Booking {
+  id: string
+  client_id: string
+  appointment_date: string
+  ends_at: string
+  duration_minutes: number
+  service_type: string
+  service_type_id: string | null
+  staff_id: string | null
+  room_id: string | null
+  status: BookingStatus
+  notes: string | null
+  client_notes: string | null
+  cancelled_at: string | null
+  cancellation_reason: string | null
+  // Joined for staff views only
+  client?: {
+    client_code: string
+    profile: { first_name: string | null; last_name: string | null; email: string | null } | null
+  } | null
+}
+
+export interface BookingSlot {
+  start: Date
+  end: Date
+  staff_id: string
+  room_id: string | null
+  treatment_centre: string
+}
+
+export type BookingSetupTable = 'service_types' | 'treatment_rooms' | 'staff_availability'
+
+export interface BookingSetup {
+  services: ServiceType[]
+  rooms: TreatmentRoom[]
+  availability: StaffAvailability[]
+  staff: StaffMember[]
+}
+
+export const BOOKING_STATUS_LABELS: Record<BookingStatus, string> = {
+  scheduled: 'Scheduled',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  no_show: 'No Show'
+}
+
+export const BOOKING_STATUS_COLORS: Record<BookingStatus, string> = {
+  scheduled: 'bg-wellness-sage-100 border-wellness-sage-300 text-wellness-sage-800',
+  completed: 'bg-blue-50 border-blue-200 text-blue-800',
+  cancelled: 'bg-gray-50 border-gray-200 text-gray-500 line-through',
+  no_show: 'bg-red-50 border-red-200 text-red-700'
+}
+
+// Mirrors the validate_booking trigger; completed, cancelled and no-show are final
+export const BOOKING_STATUS_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  scheduled: ['completed', 'cancelled', 'no_show'],
+  completed: [],
+  cancelled: [],
+  no_show: []
+}
+
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+// Slot start times are offered on this grid
+const SLOT_INTERVAL_MINUTES = 15
+
+const BOOKING_SELECT = `
+  *,
+  client:clients(
+    client_code,
+    profile:profiles!clients_profile_id_fkey(first_name, last_name, email)
+  )
+`
+
+export class BookingService {
+  static async fetchSetup(includeInactive = false): Promise<BookingSetup> {
+    const [services, rooms, availability, staff] = await Promise.all([
+      supabase.from('service_types').select('*').order('name'),
+      supabase.from('treatment_rooms').select('*').order('treatment_centre').order('name'),
+      supabase.from('staff_availability').select('*').order('weekday').order('start_time'),
+      supabase.rpc('get_bookable_staff')
+    ])
+
+    if (services.error) throw services.error
+    if (rooms.error) throw rooms.error
+    if (availability.error) throw availability.error
+    if (staff.error) throw staff.error
+
+    const active = <T extends { is_active: boolean }>(rows: T[]) =>
+      includeInactive ? rows : rows.filter(row => row.is_active)
+
+    return {
+      services: active(services.data || []),
+      rooms: active(rooms.data || []),
+      availability: active(availability.data || []),
+      staff: staff.data || []
+    }
+  }
+
+  // Everyone who can be assigned bookings, including practitioners without availability yet
+  static async fetchPractitioners(): Promise<StaffMember[]> {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('id, first_name, last_name')
+      .in('role', ['admin', 'staff'])
+      .order('first_name')
+
+    if (error) throw error
+    return data || []
+  }
+
+  // RLS limits clients to their own bookings; staff see everyone's
+  static async fetchBookings(from: Date, to: Date, clientId?: string): Promise<Booking[]> {
+    let query = supabase
+      .from('bookings')
+      .select(clientId ? '*' : BOOKING_SELECT)
+      .gte('appointment_date', from.toISOString())
+      .lt('appointment_date', to.toISOString())
+      .order('appointment_date', { ascending: true })
+
+    if (clientId) {
+      query = query.eq('client_id', clientId)
+    }
+
+    const { data, error } = await query
+    if (error) throw error
+    return (data || []) as unknown as Booking[]
+  }
+
+  static async fetchBusyTimes(from: Date, to: Date): Promise<BusyTime[]> {
+    const { data, error } = await supabase.rpc('get_booking_busy_times', {
+      range_start: from.toISOString(),
+      range_end: to.toISOString()
+    })
+
+    if (error) throw error
+    return data || []
+  }
+
+  // Free slots on a day for a service. The booking being rescheduled doesn't block its own time.
+  static availableSlots({
+    day,
+    service,
+    availability,
+    rooms,
+    busy,
+    staffId,
+    ignoreBookingId,
+    now = new Date()
+  }: {
+    day: Date
+    service: ServiceType
+    availability: StaffAvailability[]
+    rooms: TreatmentRoom[]
+    busy: BusyTime[]
+    staffId?: string
+    ignoreBookingId?: string
+    now?: Date
+  }): BookingSlot[] {
+    const blocking = busy.filter(time => time.booking_id !== ignoreBookingId)
+    const slots: BookingSlot[] = []
+
+    availability
+      .filter(window => window.is_active && window.weekday === day.getDay() && (!staffId || window.staff_id === staffId))
+      .forEach(window => {
+        const windowEnd = this.atTime(day, window.end_time)
+        const centreRooms = rooms.filter(room => room.is_active && room.treatment_centre === window.treatment_centre)
+
+        for (
+          let start = this.atTime(day, window.start_time);
+          !isBefore(windowEnd, addMinutes(start, service.duration_minutes));
+          start = addMinutes(start, SLOT_INTERVAL_MINUTES)
+        ) {
+          const end = addMinutes(start, service.duration_minutes)
+          if (!isBefore(now, start)) continue
+
+          const overlaps = (time: BusyTime) => this.overlaps(start, end, parseISO(time.starts_at), parseISO(time.ends_at))
+          if (blocking.some(time => time.staff_id === window.staff_id && overlaps(time))) continue
+
+          // Centres without rooms configured are booked without one
+          const room = centreRooms.find(candidate => !blocking.some(time => time.room_id === candidate.id && overlaps(time)))
+          if (centreRooms.length > 0 && !room) continue
+
+          slots.push({
+            start,
+            end,
+            staff_id: window.staff_id,
+            room_id: room?.id || null,
+            treatment_centre: window.treatment_centre
+          })
+        }
+      })
+
+    return slots.sort((a, b) => a.start.getTime() - b.start.getTime())
+  }
+
+  // Collapses slots to one per start time, keeping the first practitioner free then
+  static uniqueStartTimes(slots: BookingSlot[]): BookingSlot[] {
+    const seen = new Set<number>()
+    return slots.filter(slot => {
+      if (seen.has(slot.start.getTime())) return false
+      seen.add(slot.start.getTime())
+      return true
+    })
+  }
+
+  static async create(booking: {
+    client_id: string
+    service: ServiceType
+    slot: { start: Date; staff_id: string | null; room_id: string | null }
+    notes?: string
+    client_notes?: string
+  }): Promise<Booking> {
+    const { data, error } = await supabase
+      .from('bookings')
+      .insert({
+        client_id: booking.client_id,
+        appointment_date: booking.slot.start.toISOString(),
+        duration_minutes: booking.service.duration_minutes,
+        service_type: booking.service.name,
+        service_type_id: booking.service.id,
+        staff_id: booking.slot.staff_id,
+        room_id: booking.slot.room_id,
+        notes: booking.notes || null,
+        client_notes: booking.client_notes || null
+      })
+      .select()
+      .single()
+
+    if (error) throw error
+    return data
+  }
+
+  static async reschedule(bookingId: string, slot: { start: Date; staff_id: string | null; room_id: string | null }) {
+    const { error } = await supabase
+      .from('bookings')
+      .update({
+        appointment_date: slot.start.toISOString(),
+        staff_id: slot.staff_id,
+        room_id: slot.room_id
+      })
+      .eq('id', bookingId)
+
+    if (error) throw error
+  }
+
+  static async updateStatus(booking: Booking, status: BookingStatus, cancellationReason?: string) {
+    const problem = this.transitionError(booking, status)
+    if (problem) throw new Error(problem)
+
+    const { error } = await supabase
+      .from('bookings')
+      .update({
+        status,
+        ...(status === 'cancelled' ? { cancellation_reason: cancellationReason || null } : {})
+      })
+      .eq('id', booking.id)
+
+    if (error) throw error
+  }
+
+  static async updateNotes(bookingId: string, notes: string) {
+    const { error } = await supabase
+      .from('bookings')
+      .update({ notes: notes || null })
+      .eq('id', bookingId)
+
+    if (error) throw error
+  }
+
+  // Inserts new setup rows and updates existing ones
+  static async saveSetupItem(table: BookingSetupTable, item: { id?: string } & Record<string, unknown>) {
+    const { id, ...values } = item
+    const { error } = id
+      ? await supabase.from(table).update(values).eq('id', id)
+      : await supabase.from(table).insert(values)
+
+    if (error) throw error
+  }
+
+  static async removeSetupItem(table: BookingSetupTable, id: string) {
+    const { error } = await supabase.from(table).delete().eq('id', id)
+    if (error) throw error
+  }
+
+  // Reason a status change isn't allowed, or null when it is
+  static transitionError(booking: Booking, status: BookingStatus, now = new Date()): string | null {
+    if (!BOOKING_STATUS_TRANSITIONS[booking.status].includes(status)) {
+      return `A ${BOOKING_STATUS_LABELS[booking.status].toLowerCase()} booking cannot be changed`
+    }
+    if ((status === 'completed' || status === 'no_show') && isBefore(now, parseISO(booking.appointment_date))) {
+      return `A booking can only be marked ${BOOKING_STATUS_LABELS[status].toLowerCase()} once the appointment has started`
+    }
+    return null
+  }
+
+  // User-facing message for errors raised by the booking constraints and trigger
+  static describeError(error: unknown): string {
+    const { code, message } = (error || {}) as { code?: string; message?: string }
+
+    if (code === '23P01') {
+      return 'That time is no longer available. Please choose another slot.'
+    }
+    if (code === '23514' && message) {
+      return message
+    }
+    if (error instanceof Error && !code) {
+      return error.message
+    }
+    return 'Error saving the booking. Please try again.'
+  }
+
+  static staffName(staff: StaffMember[], staffId: string | null): string {
+    const member = staff.find(candidate => candidate.id === staffId)
+    if (!member) return 'Unassigned'
+    return [member.first_name, member.last_name].filter(Boolean).join(' ') || 'Practitioner'
+  }
+
+  static clientName(booking: Booking): string {
+    const profile = booking.client?.profile
+    const name = [profile?.first_name, profile?.last_name].filter(Boolean).join(' ')
+    return name || booking.client?.client_code || 'Client'
+  }
+
+  static formatTimeRange(booking: Pick<Booking, 'appointment_date' | 'ends_at'>): string {
+    return `${format(parseISO(booking.appointment_date), 'HH:mm')} - ${format(parseISO(booking.ends_at), 'HH:mm')}`
+  }
+
+  // Availability is stored in South African time, which the app assumes the browser uses
+  private static atTime(day: Date, time: string): Date {
+    const [hours, minutes] = time.split(':').map(Number)
+    const result = new Date(day)
+    result.setHours(hours, minutes || 0, 0, 0)
+    return result
+  }
+
+  private static overlaps(start: Date, end: Date, otherStart: Date, otherEnd: Date): boolean {
+    return start < otherEnd && otherStart < end
+  }
+}
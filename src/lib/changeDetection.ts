@@ -0,0 +1,163 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns'
+import { UnitConverter } from './units'
+
+export type ChangeDirection = 'improvement' | 'deterioration' | 'change' | 'stable'
+
+export interface MeasurementNoise {
+  path_id: string
+  // Smallest change that exceeds measurement noise ("minimal clinically significant change")
+  mcid: number
+  unit: string
+  // Which way is better; omitted where neither direction is inherently good
+  better?: 'higher' | 'lower'
+}
+
+export interface ChangePoint {
+  scan_id: string
+  scan_date: string
+  value: number
+}
+
+export interface ChangeAnalysis {
+  path_id: string
+  unit: string
+  mcid: number
+  // True when no Path ID specific threshold exists and the relative default was used
+  default_threshold: boolean
+  first: ChangePoint
+  latest: ChangePoint
+  overall_change: number
+  latest_change?: number
+  // Linear trend per 30 days; only for three or more scans on different days
+  slope_per_month?: number
+  // Overall change expressed in multiples of the MCID - used for ranking
+  significance: number
+  direction: ChangeDirection
+  latest_direction?: ChangeDirection
+  outliers: ChangePoint[]
+}
+
+// Typical test-retest noise of bio-impedance scanners. Changes smaller than these
+// are indistinguishable from measuring the same person twice.
+const MEASUREMENT_NOISE: MeasurementNoise[] = [
+  { path_id: 'body_score', mcid: 3, unit: '', better: 'higher' },
+  { path_id: 'body_fat_percentage', mcid: 1, unit: '%', better: 'lower' },
+  { path_id: 'muscle_mass', mcid: 0.5, unit: 'kg', better: 'higher' },
+  { path_id: 'visceral_fat', mcid: 1, unit: '', better: 'lower' },
+  { path_id: 'bone_density', mcid: 0.1, unit: 'kg', better: 'higher' },
+  { path_id: 'hydration_level', mcid: 1.5, unit: '%', better: 'higher' },
+  { path_id: 'metabolic_age', mcid: 2, unit: 'years', better: 'lower' }
+]
+
+// Unknown Path IDs count changes above 5% of the typical value as meaningful
+const DEFAULT_RELATIVE_MCID = 0.05
+
+// Robust z-score above which a scan is flagged as an outlier from the trend
+const OUTLIER_Z = 3.5
+
+export class ChangeDetector {
+  private static catalogue = new Map(MEASUREMENT_NOISE.map(noise => [noise.path_id, noise]))
+
+  static getNoise(pathID: string): MeasurementNoise | undefined {
+    return this.catalogue.get(pathID.toString().trim())
+  }
+
+  // Points must share one unit (see UnitConverter.normalize) and be ordered by scan date
+  static analyze(pathID: string, points: ChangePoint[], unit: string): ChangeAnalysis | null {
+    if (points.length < 2) return null
+
+    const noise = this.getNoise(pathID)
+    const convertedMCID = noise ? UnitConverter.convert(noise.mcid, noise.unit, unit) : null
+    const typical = this.median(points.map(point => Math.abs(point.value)))
+    const mcid = convertedMCID ?? Math.max(typical * DEFAULT_RELATIVE_MCID, Number.EPSILON)
+
+    const first = points[0]
+    const latest = points[points.length - 1]
+    const previous = points[points.length - 2]
+    const overallChange = latest.value - first.value
+    const latestChange = latest.value - previous.value
+    const fit = this.linearFit(points)
+
+    return {
+      path_id: pathID,
+      unit,
+      mcid,
+      default_threshold: convertedMCID === null,
+      first,
+      latest,
+      overall_change: overallChange,
+      latest_change: latestChange,
+      slope_per_month: fit ? fit.slope * 30 : undefined,
+      significance: Math.abs(overallChange) / mcid,
+      direction: this.direction(overallChange, mcid, noise?.better),
+      latest_direction: this.direction(latestChange, mcid, noise?.better),
+      outliers: fit ? this.outliers(points, fit, mcid) : []
+    }
+  }
+
+  static isSignificant(change: number, mcid: number): boolean {
+    // Tolerance keeps floating point error from pushing an exact-threshold change below it
+    return Math.abs(change) >= mcid - 1e-9
+  }
+
+  // Improvements and deteriorations, most meaningful first
+  static rank(analyses: ChangeAnalysis[]): { improvements: ChangeAnalysis[]; deteriorations: ChangeAnalysis[]; changes: ChangeAnalysis[] } {
+    const bySignificance = (a: ChangeAnalysis, b: ChangeAnalysis) => b.significance - a.significance
+
+    return {
+      improvements: analyses.filter(analysis => analysis.direction === 'improvement').sort(bySignificance),
+      deteriorations: analyses.filter(analysis => analysis.direction === 'deterioration').sort(bySignificance),
+      changes: analyses.filter(analysis => analysis.direction === 'change').sort(bySignificance)
+    }
+  }
+
+  private static direction(change: number, mcid: number, better?: 'higher' | 'lower'): ChangeDirection {
+    if (!this.isSignificant(change, mcid)) return 'stable'
+    if (!better) return 'change'
+    return (change > 0) === (better === 'higher') ? 'improvement' : 'deterioration'
+  }
+
+  // Least-squares line through value over days since the first scan
+  private static linearFit(points: ChangePoint[]): { slope: number; intercept: number; days: number[] } | null {
+    if (points.length < 3) return null
+
+    const start = parseISO(points[0].scan_date)
+    const days = points.map(point => differenceInCalendarDays(parseISO(point.scan_date), start))
+    const meanX = days.reduce((sum, x) => sum + x, 0) / days.length
+    const meanY = points.reduce((sum, point) => sum + point.value, 0) / points.length
+
+    let covariance = 0
+    let variance = 0
+    days.forEach((x, index) => {
+      covariance += (x - meanX) * (points[index].value - meanY)
+      variance += (x - meanX) ** 2
+    })
+
+    if (variance === 0) return null
+
+    const slope = covariance / variance
+    return { slope, intercept: meanY - slope * meanX, days }
+  }
+
+  // Points whose residual is far from the others (median absolute deviation) and above the noise level
+  private static outliers(points: ChangePoint[], fit: { slope: number; intercept: number; days: number[] }, mcid: number): ChangePoint[] {
+    if (points.length < 4) return []
+
+    const residuals = points.map((point, index) => point.value - (fit.intercept + fit.slope * fit.days[index]))
+    const center = this.median(residuals)
+    const mad = this.median(residuals.map(residual => Math.abs(residual - center)))
+    const scale = Math.max(1.4826 * mad, mcid / 2)
+
+    return points.filter((_, index) => {
+      const deviation = Math.abs(residuals[index] - center)
+      return deviation >= mcid && deviation / scale > OUTLIER_Z
+    })
+  }
+
+  private static median(values: number[]): number {
+    if (values.length === 0) return 0
+    const sorted = [...values].sort((a, b) => a - b)
+    const middle = Math.floor(sorted.length / 2)
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+  }
+}
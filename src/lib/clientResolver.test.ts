@@ -0,0 +1,243 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  ClientResolver,
+  ClientDirectory,
+  ClientCandidate,
+  AUTO_ASSIGN_CONFIDENCE
+} from './clientResolver'
+
+// Every lookup goes through the stand-in directory below, never the real client
+vi.mock('./supabase', () => ({ supabase: {} }))
+
+interface StandInClient extends ClientCandidate {
+  id_number?: string
+  date_of_birth?: string
+}
+
+const VALID_ID_NUMBER = '8001015009087'
+
+const CLIENTS: StandInClient[] = [
+  {
+    id: 'client-1',
+    profile_id: 'profile-1',
+    client_code: 'LP-0001',
+    first_name: 'Thandi',
+    last_name: 'Nkosi',
+    email: 'thandi@example.com',
+    id_number: VALID_ID_NUMBER,
+    date_of_birth: '1980-01-01'
+  },
+  {
+    id: 'client-2',
+    profile_id: 'profile-2',
+    client_code: 'LP-0002',
+    first_name: 'Sipho',
+    last_name: 'Dlamini',
+    email: 'sipho@example.com',
+    date_of_birth: '1992-03-15'
+  },
+  {
+    id: 'client-3',
+    profile_id: 'profile-3',
+    client_code: 'LP-0003',
+    first_name: 'Sipho',
+    last_name: 'Dlamini',
+    email: 'sipho.d@example.com',
+    date_of_birth: '1992-03-15'
+  }
+]
+
+// Answers lookups from the records above the way the Supabase directory does, case-insensitively
+function standInDirectory(clients: StandInClient[] = CLIENTS) {
+  const calls: string[] = []
+  const same = (a?: string, b?: string) => !!a && !!b && a.toLowerCase() === b.toLowerCase()
+  const candidates = (matches: StandInClient[]) =>
+    matches.map(({ id, profile_id, client_code, first_name, last_name, email }) => ({
+      id, profile_id, client_code, first_name, last_name, email
+    }))
+
+  const directory: ClientDirectory = {
+    async byClientCode(code) {
+      calls.push(`client_code:${code}`)
+      return candidates(clients.filter(client => same(client.client_code, code)))
+    },
+    async byEmail(email) {
+      calls.push(`email:${email}`)
+      return candidates(clients.filter(client => same(client.email, email)))
+    },
+    async byIdNumber(idNumber) {
+      calls.push(`id_number:${idNumber}`)
+      return candidates(clients.filter(client => client.id_number === idNumber))
+    },
+    async byNameAndBirthDate(firstName, lastName, dateOfBirth) {
+      calls.push(`name_dob:${firstName} ${lastName} ${dateOfBirth}`)
+      return candidates(clients.filter(client =>
+        same(client.first_name, firstName) && same(client.last_name, lastName) && client.date_of_birth === dateOfBirth
+      ))
+    },
+    async search(term) {
+      calls.push(`search:${term}`)
+      return candidates(clients.filter(client =>
+        [client.client_code, client.first_name, client.last_name, client.email]
+          .some(value => value.toLowerCase().includes(term.toLowerCase()))
+      ))
+    }
+  }
+
+  return { directory, calls }
+}
+
+describe('ClientResolver.resolve', () => {
+  it('matches an exact client code with full confidence', async () => {
+    const { directory } = standInDirectory()
+    const match = await ClientResolver.resolve({ identifier: 'lp-0001' }, directory)
+
+    expect(match.status).toBe('matched')
+    expect(match.method).toBe('client_code')
+    expect(match.confidence).toBe(1)
+    expect(match.client?.id).toBe('client-1')
+    expect(ClientResolver.isAutoAssignable(match)).toBe(true)
+  })
+
+  it('matches an email found in the identifier', async () => {
+    const { directory, calls } = standInDirectory()
+    const match = await ClientResolver.resolve({ identifier: 'Thandi@Example.com' }, directory)
+
+    expect(match.status).toBe('matched')
+    expect(match.method).toBe('email')
+    expect(match.confidence).toBe(0.95)
+    expect(match.client?.id).toBe('client-1')
+    // An email is never looked up as a client code
+    expect(calls.some(call => call.startsWith('client_code:'))).toBe(false)
+  })
+
+  it('matches a valid SA ID number, ignoring spaces', async () => {
+    const { directory } = standInDirectory()
+    const match = await ClientResolver.resolve({ id_number: '800101 5009 087' }, directory)
+
+    expect(match.status).toBe('matched')
+    expect(match.method).toBe('id_number')
+    expect(match.confidence).toBe(0.9)
+    expect(match.confidence).toBeGreaterThanOrEqual(AUTO_ASSIGN_CONFIDENCE)
+    expect(match.client?.id).toBe('client-1')
+  })
+
+  it('skips ID numbers that fail the checksum', async () => {
+    const { directory, calls } = standInDirectory()
+    const match = await ClientResolver.resolve({ id_number: '8001015009088' }, directory)
+
+    expect(match.status).toBe('not_found')
+    expect(calls).toEqual([])
+  })
+
+  it('matches a name and day-first date of birth below the auto-assign threshold', async () => {
+    const { directory } = standInDirectory()
+    const match = await ClientResolver.resolve({
+      first_name: 'thandi',
+      last_name: 'NKOSI',
+      date_of_birth: '01/01/1980'
+    }, directory)
+
+    expect(match.status).toBe('matched')
+    expect(match.method).toBe('name_dob')
+    expect(match.confidence).toBe(0.75)
+    expect(match.client?.id).toBe('client-1')
+    expect(ClientResolver.isAutoAssignable(match)).toBe(false)
+  })
+
+  it('returns every candidate when a name and date of birth fit several clients', async () => {
+    const { directory } = standInDirectory()
+    const match = await ClientResolver.resolve({
+      first_name: 'Sipho',
+      last_name: 'Dlamini',
+      date_of_birth: '1992-03-15'
+    }, directory)
+
+    expect(match.status).toBe('ambiguous')
+    expect(match.method).toBe('name_dob')
+    expect(match.confidence).toBe(0.38)
+    expect(match.client).toBeUndefined()
+    expect(match.candidates.map(candidate => candidate.id)).toEqual(['client-2', 'client-3'])
+    expect(ClientResolver.isAutoAssignable(match)).toBe(false)
+  })
+
+  it('narrows ambiguous candidates with a later method', async () => {
+    const clients = CLIENTS.map(client => client.id === 'client-1' ? { ...client, email: 'sipho@example.com' } : client)
+    const { directory } = standInDirectory(clients)
+    const match = await ClientResolver.resolve({
+      email: 'sipho@example.com',
+      first_name: 'Sipho',
+      last_name: 'Dlamini',
+      date_of_birth: '1992-03-15'
+    }, directory)
+
+    // The email fits clients 1 and 2, the name and birth date clients 2 and 3
+    expect(match.status).toBe('matched')
+    expect(match.method).toBe('email')
+    expect(match.confidence).toBe(0.95)
+    expect(match.client?.id).toBe('client-2')
+  })
+
+  it('keeps the stronger method when two methods agree on one client', async () => {
+    const clients: StandInClient[] = [
+      { ...CLIENTS[0], email: 'shared@example.com' },
+      { ...CLIENTS[1], email: 'shared@example.com' }
+    ]
+    const { directory } = standInDirectory(clients)
+    const match = await ClientResolver.resolve({
+      email: 'shared@example.com',
+      id_number: VALID_ID_NUMBER
+    }, directory)
+
+    expect(match.status).toBe('matched')
+    expect(match.method).toBe('email')
+    expect(match.confidence).toBe(0.95)
+    expect(match.client?.id).toBe('client-1')
+  })
+
+  it('reports no match when nothing fits', async () => {
+    const { directory } = standInDirectory()
+    const match = await ClientResolver.resolve({
+      identifier: 'LP-9999',
+      email: 'nobody@example.com',
+      first_name: 'Nobody',
+      last_name: 'Here',
+      date_of_birth: '2000-01-01'
+    }, directory)
+
+    expect(match).toEqual({ status: 'not_found', confidence: 0, candidates: [] })
+  })
+
+  it('reports no match without identifiers and makes no lookups', async () => {
+    const { directory, calls } = standInDirectory()
+    const match = await ClientResolver.resolve({}, directory)
+
+    expect(match.status).toBe('not_found')
+    expect(match.confidence).toBe(0)
+    expect(calls).toEqual([])
+  })
+})
+
+describe('ClientResolver helpers', () => {
+  it('validates SA ID numbers', () => {
+    expect(ClientResolver.isValidSAIdNumber(VALID_ID_NUMBER)).toBe(true)
+    expect(ClientResolver.isValidSAIdNumber('8001015009088')).toBe(false)
+    expect(ClientResolver.isValidSAIdNumber('8013015009087')).toBe(false)
+    expect(ClientResolver.isValidSAIdNumber('800101500908')).toBe(false)
+  })
+
+  it('normalises ISO and day-first dates', () => {
+    expect(ClientResolver.normalizeDate('1980-1-5')).toBe('1980-01-05')
+    expect(ClientResolver.normalizeDate('05/01/1980')).toBe('1980-01-05')
+    expect(ClientResolver.normalizeDate('1980-13-01')).toBeUndefined()
+    expect(ClientResolver.normalizeDate('not a date')).toBeUndefined()
+  })
+
+  it('searches only when there is a term', async () => {
+    const { directory, calls } = standInDirectory()
+
+    expect(await ClientResolver.search('   ', directory)).toEqual([])
+    expect((await ClientResolver.search('dlamini', directory)).map(candidate => candidate.id)).toEqual(['client-2', 'client-3'])
+    expect(calls).toEqual(['search:dlamini'])
+  })
+})
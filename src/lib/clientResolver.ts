@@ -0,0 +1,317 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { supabase } from './supabase'
+
+// Single matches at or above this confidence are assigned without staff confirmation
+export const AUTO_ASSIGN_CONFIDENCE = 0.9
+
+// Most candidates offered for one identifier before the match is treated as unusable
+const MAX_CANDIDATES = 10
+
+export type ClientMatchMethod = 'client_code' | 'email' | 'id_number' | 'name_dob'
+
+export interface ClientIdentifiers {
+  // Free-form identifier found in the scan (client code, email or SA ID number)
+  identifier?: string
+  id_number?: string
+  email?: string
+  first_name?: string
+  last_name?: string
+  date_of_birth?: string
+}
+
+export interface ClientCandidate {
+  // clients.id - the value scans.client_id references
+  id: string
+  profile_id: string
+  client_code: string
+  first_name: string
+  last_name: string
+  email: string
+}
+
+export interface ClientMatch {
+  status: 'matched' | 'ambiguous' | 'not_found'
+  method?: ClientMatchMethod
+  // 0-1; only 'matched' results at or above AUTO_ASSIGN_CONFIDENCE are assigned automatically
+  confidence: number
+  client?: ClientCandidate
+  candidates: ClientCandidate[]
+}
+
+// Lookups the resolver needs; swap in a stand-in to exercise the match order without a database
+export interface ClientDirectory {
+  byClientCode(code: string): Promise<ClientCandidate[]>
+  byEmail(email: string): Promise<ClientCandidate[]>
+  byIdNumber(idNumber: string): Promise<ClientCandidate[]>
+  byNameAndBirthDate(firstName: string, lastName: string, dateOfBirth: string): Promise<ClientCandidate[]>
+  search(term: string): Promise<ClientCandidate[]>
+}
+
+const METHOD_CONFIDENCE: Record<ClientMatchMethod, number> = {
+  client_code: 1,
+  email: 0.95,
+  id_number: 0.9,
+  name_dob: 0.75
+}
+
+export const CLIENT_MATCH_LABELS: Record<ClientMatchMethod, string> = {
+  client_code: 'Client code',
+  email: 'Email address',
+  id_number: 'SA ID number',
+  name_dob: 'Name and date of birth'
+}
+
+interface ClientRow {
+  id: string
+  profile_id: string
+  client_code: string
+  profile: ClientProfileRow | ClientProfileRow[] | null
+}
+
+interface ClientProfileRow {
+  first_name: string | null
+  last_name: string | null
+  email: string | null
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+const CLIENT_SELECT = `
+  id,
+  profile_id,
+  client_code,
+  profile:profiles!clients_profile_id_fkey(
+    first_name,
+    last_name,
+    email
+  )
+`
+
+// Escapes LIKE wildcards so ilike behaves as a case-insensitive equality
+const likeExact = (value: string) => value.replace(/[\\%_]/g, match => `\\${match}`)
+
+export function createClientDirectory(db: SupabaseClient = supabase): ClientDirectory {
+  const toCandidates = (rows: unknown[] | null): ClientCandidate[] => ((rows || []) as ClientRow[]).map(row => {
+    const profile = Array.isArray(row.profile) ? row.profile[0] : row.profile
+    return {
+      id: row.id,
+      profile_id: row.profile_id,
+      client_code: row.client_code,
+      first_name: profile?.first_name || '',
+      last_name: profile?.last_name || '',
+      email: profile?.email || ''
+    }
+  })
+
+  const byProfileIds = async (profileIds: string[]): Promise<ClientCandidate[]> => {
+    const unique = [...new Set(profileIds)]
+    if (unique.length === 0) return []
+
+    const { data, error } = await db
+      .from('clients')
+      .select(CLIENT_SELECT)
+      .in('profile_id', unique)
+      .limit(MAX_CANDIDATES)
+
+    if (error) throw error
+    return toCandidates(data)
+  }
+
+  return {
+    async byClientCode(code) {
+      const { data, error } = await db
+        .from('clients')
+        .select(CLIENT_SELECT)
+        .ilike('client_code', likeExact(code))
+        .limit(MAX_CANDIDATES)
+
+      if (error) throw error
+      return toCandidates(data)
+    },
+
+    async byEmail(email) {
+      const { data, error } = await db
+        .from('profiles')
+        .select('id')
+        .ilike('email', likeExact(email))
+        .limit(MAX_CANDIDATES)
+
+      if (error) throw error
+      return byProfileIds((data || []).map(profile => profile.id))
+    },
+
+    async byIdNumber(idNumber) {
+      const { data, error } = await db
+        .from('client_onboarding_data')
+        .select('client_id')
+        .eq('id_number', idNumber)
+        .limit(MAX_CANDIDATES)
+
+      if (error) throw error
+      return byProfileIds((data || []).map(onboarding => onboarding.client_id))
+    },
+
+    async byNameAndBirthDate(firstName, lastName, dateOfBirth) {
+      const { data, error } = await db
+        .from('profiles')
+        .select('id')
+        .ilike('first_name', likeExact(firstName))
+        .ilike('last_name', likeExact(lastName))
+        .eq('date_of_birth', dateOfBirth)
+        .limit(MAX_CANDIDATES)
+
+      if (error) throw error
+      return byProfileIds((data || []).map(profile => profile.id))
+    },
+
+    async search(term) {
+      // Characters that would break the PostgREST or() syntax are dropped rather than escaped
+      const pattern = `%${likeExact(term.replace(/[,()]/g, ' ').trim())}%`
+
+      const [codes, profiles] = await Promise.all([
+        db
+          .from('clients')
+          .select(CLIENT_SELECT)
+          .ilike('client_code', pattern)
+          .limit(MAX_CANDIDATES),
+        db
+          .from('profiles')
+          .select('id')
+          .or(`first_name.ilike.${pattern},last_name.ilike.${pattern},email.ilike.${pattern}`)
+          .limit(MAX_CANDIDATES)
+      ])
+
+      if (codes.error) throw codes.error
+      if (profiles.error) throw profiles.error
+
+      const byProfile = await byProfileIds((profiles.data || []).map(profile => profile.id))
+      return ClientResolver.mergeCandidates(toCandidates(codes.data), byProfile).slice(0, MAX_CANDIDATES)
+    }
+  }
+}
+
+export class ClientResolver {
+  private static defaultDirectory: ClientDirectory | null = null
+
+  // Tries client code, email, SA ID number, then name plus date of birth. The first method
+  // returning one client wins; several clients are narrowed by later methods or returned as candidates
+  static async resolve(identifiers: ClientIdentifiers, directory: ClientDirectory = this.directory()): Promise<ClientMatch> {
+    const identifier = identifiers.identifier?.trim()
+    const identifierIsEmail = !!identifier && EMAIL_PATTERN.test(identifier)
+    const email = identifiers.email?.trim() || (identifierIsEmail ? identifier : undefined)
+    const idNumber = [identifiers.id_number, identifier]
+      .map(value => value?.replace(/\s/g, ''))
+      .find(value => value && this.isValidSAIdNumber(value))
+    const dateOfBirth = this.normalizeDate(identifiers.date_of_birth)
+    const firstName = identifiers.first_name?.trim()
+    const lastName = identifiers.last_name?.trim()
+
+    const attempts: Array<[ClientMatchMethod, (() => Promise<ClientCandidate[]>) | null]> = [
+      ['client_code', identifier && !identifierIsEmail ? () => directory.byClientCode(identifier) : null],
+      ['email', email ? () => directory.byEmail(email) : null],
+      ['id_number', idNumber ? () => directory.byIdNumber(idNumber) : null],
+      ['name_dob', firstName && lastName && dateOfBirth ? () => directory.byNameAndBirthDate(firstName, lastName, dateOfBirth) : null]
+    ]
+
+    type Ambiguous = { method: ClientMatchMethod; candidates: ClientCandidate[] }
+    let ambiguous = null as Ambiguous | null
+
+    for (const [method, lookup] of attempts) {
+      if (!lookup) continue
+
+      const found = this.mergeCandidates(await lookup())
+      if (found.length === 0) continue
+
+      const previous = ambiguous
+      const narrowed: ClientCandidate[] = previous
+        ? found.filter(candidate => previous.candidates.some(existing => existing.id === candidate.id))
+        : found
+
+      if (narrowed.length === 1) {
+        // Agreement between two methods is at least as strong as the stronger one alone
+        const confidence = Math.max(METHOD_CONFIDENCE[method], previous ? METHOD_CONFIDENCE[previous.method] : 0)
+        return {
+          status: 'matched',
+          method: previous?.method || method,
+          confidence,
+          client: narrowed[0],
+          candidates: narrowed
+        }
+      }
+
+      if (!previous) ambiguous = { method, candidates: found }
+      else if (narrowed.length > 1) ambiguous = { method: previous.method, candidates: narrowed }
+    }
+
+    if (ambiguous) {
+      return {
+        status: 'ambiguous',
+        method: ambiguous.method,
+        confidence: Math.round((METHOD_CONFIDENCE[ambiguous.method] / ambiguous.candidates.length) * 100) / 100,
+        candidates: ambiguous.candidates
+      }
+    }
+
+    return { status: 'not_found', confidence: 0, candidates: [] }
+  }
+
+  static isAutoAssignable(match: ClientMatch): boolean {
+    return match.status === 'matched' && match.confidence >= AUTO_ASSIGN_CONFIDENCE
+  }
+
+  static search(term: string, directory: ClientDirectory = this.directory()): Promise<ClientCandidate[]> {
+    return term.trim() ? directory.search(term) : Promise.resolve([])
+  }
+
+  // 13 digits, a real YYMMDD birth date and a valid Luhn check digit
+  static isValidSAIdNumber(value: string): boolean {
+    if (!/^\d{13}$/.test(value)) return false
+
+    const month = Number(value.slice(2, 4))
+    const day = Number(value.slice(4, 6))
+    if (month < 1 || month > 12 || day < 1 || day > 31) return false
+
+    let sum = 0
+    for (let index = 0; index < 13; index++) {
+      let digit = Number(value[12 - index])
+      if (index % 2 === 1) {
+        digit *= 2
+        if (digit > 9) digit -= 9
+      }
+      sum += digit
+    }
+
+    return sum % 10 === 0
+  }
+
+  // Accepts ISO dates and the day-first formats used on local scan reports
+  static normalizeDate(value?: string): string | undefined {
+    const text = value?.trim()
+    if (!text) return undefined
+
+    const iso = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/)
+    const dayFirst = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/)
+    if (!iso && !dayFirst) return undefined
+
+    const [year, month, day] = iso
+      ? [iso[1], iso[2], iso[3]]
+      : [dayFirst![3], dayFirst![2], dayFirst![1]]
+
+    if (Number(month) < 1 || Number(month) > 12 || Number(day) < 1 || Number(day) > 31) return undefined
+
+    return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`
+  }
+
+  static mergeCandidates(...lists: ClientCandidate[][]): ClientCandidate[] {
+    const merged = new Map<string, ClientCandidate>()
+    lists.flat().forEach(candidate => {
+      if (!merged.has(candidate.id)) merged.set(candidate.id, candidate)
+    })
+    return [...merged.values()]
+  }
+
+  private static directory(): ClientDirectory {
+    if (!this.defaultDirectory) this.defaultDirectory = createClientDirectory()
+    return this.defaultDirectory
+  }
+}
@@ -0,0 +1,335 @@
+export type CSVEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252'
+
+export interface CSVIssue {
+  // 1-based line in the file where the offending record starts
+  row: number
+  column: number
+  message: string
+}
+
+export interface CSVReadOptions {
+  delimiter?: string
+  encoding?: CSVEncoding
+  trim?: boolean
+  skipEmptyLines?: boolean
+  // Called for every completed record while the file is still being read
+  onRow?: (row: string[], rowNumber: number) => void
+}
+
+export interface CSVReadResult {
+  rows: string[][]
+  delimiter: string
+  encoding: CSVEncoding
+  hasBOM: boolean
+  lineEnding: 'crlf' | 'lf' | 'cr'
+  errors: CSVIssue[]
+}
+
+const DELIMITER_CANDIDATES = [',', ';', '\t', '|']
+const SNIFF_LINES = 20
+
+// Incremental RFC 4180 parser. Text is pushed in chunks and records are emitted
+// as soon as their terminating line break has been seen.
+class CSVParser {
+  private field = ''
+  private row: string[] = []
+  private inQuotes = false
+  private afterQuote = false
+  private pendingCR = false
+  private line = 1
+  private recordLine = 1
+  private fieldStartLine = 1
+  private fieldStartColumn = 1
+  private width: number | null = null
+
+  lineEnding: 'crlf' | 'lf' | 'cr' | null = null
+  errors: CSVIssue[] = []
+
+  constructor(
+    private delimiter: string,
+    private onRecord: (row: string[], rowNumber: number) => void
+  ) {}
+
+  push(text: string) {
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i]
+
+      if (this.pendingCR) {
+        this.pendingCR = false
+        if (char === '\n') {
+          this.lineEnding = this.lineEnding || 'crlf'
+          continue
+        }
+        this.lineEnding = this.lineEnding || 'cr'
+      }
+
+      if (this.inQuotes) {
+        if (char === '"') {
+          this.inQuotes = false
+          this.afterQuote = true
+        } else {
+          if (char === '\n') this.line++
+          this.field += char
+        }
+        continue
+      }
+
+      if (this.afterQuote && char === '"') {
+        // Escaped quote ("") inside a quoted field
+        this.field += '"'
+        this.inQuotes = true
+        this.afterQuote = false
+        continue
+      }
+
+      if (char === this.delimiter) {
+        this.endField()
+        continue
+      }
+
+      if (char === '\r' || char === '\n') {
+        if (char === '\r') {
+          this.pendingCR = true
+        } else {
+          this.lineEnding = this.lineEnding || 'lf'
+        }
+        this.endRecord()
+        this.line++
+        this.recordLine = this.line
+        continue
+      }
+
+      if (char === '"' && this.field === '' && !this.afterQuote) {
+        this.inQuotes = true
+        this.fieldStartLine = this.line
+        continue
+      }
+
+      if (this.afterQuote) {
+        this.issue('Unexpected character after closing quote')
+        this.afterQuote = false
+      } else if (char === '"') {
+        this.issue('Unescaped quote in unquoted field')
+      }
+
+      this.field += char
+    }
+  }
+
+  end() {
+    if (this.inQuotes) {
+      this.errors.push({
+        row: this.fieldStartLine,
+        column: this.fieldStartColumn,
+        message: 'Quoted field is never closed'
+      })
+      this.inQuotes = false
+    }
+
+    if (this.field !== '' || this.row.length > 0 || this.afterQuote) {
+      this.endRecord()
+    }
+  }
+
+  private issue(message: string) {
+    const last = this.errors[this.errors.length - 1]
+    if (last && last.row === this.recordLine && last.column === this.fieldStartColumn && last.message === message) return
+
+    this.errors.push({ row: this.recordLine, column: this.fieldStartColumn, message })
+  }
+
+  private endField() {
+    this.row.push(this.field)
+    this.field = ''
+    this.afterQuote = false
+    this.fieldStartColumn = this.row.length + 1
+  }
+
+  private endRecord() {
+    this.endField()
+    const record = this.row
+    this.row = []
+    this.fieldStartColumn = 1
+
+    const isBlank = record.length === 1 && record[0] === ''
+    if (!isBlank) {
+      if (this.width === null) {
+        this.width = record.length
+      } else if (record.length !== this.width) {
+        this.errors.push({
+          row: this.recordLine,
+          column: Math.min(record.length, this.width) + 1,
+          message: `Expected ${this.width} columns but found ${record.length}`
+        })
+      }
+    }
+
+    this.onRecord(record, this.recordLine)
+  }
+}
+
+export class CSVReader {
+  // Streams a CSV file, detecting encoding, BOM, delimiter and line endings
+  static async read(source: Blob | string, options: CSVReadOptions = {}): Promise<CSVReadResult> {
+    const { trim = false, skipEmptyLines = true } = options
+    const rows: string[][] = []
+    let parser: CSVParser | null = null
+    let delimiter = options.delimiter || ''
+    let sniffBuffer = ''
+
+    const handleRecord = (record: string[], rowNumber: number) => {
+      const row = trim ? record.map(cell => cell.trim()) : record
+      if (skipEmptyLines && row.every(cell => cell === '')) return
+
+      rows.push(row)
+      options.onRow?.(row, rowNumber)
+    }
+
+    const feed = (text: string, final: boolean) => {
+      if (!parser) {
+        sniffBuffer += text
+        if (!final && this.countLines(sniffBuffer) < SNIFF_LINES) return
+
+        delimiter = delimiter || this.detectDelimiter(sniffBuffer)
+        parser = new CSVParser(delimiter, handleRecord)
+        text = sniffBuffer
+        sniffBuffer = ''
+      }
+      parser.push(text)
+    }
+
+    let encoding: CSVEncoding = options.encoding || 'utf-8'
+    let hasBOM = false
+
+    if (typeof source === 'string') {
+      hasBOM = source.charCodeAt(0) === 0xfeff
+      feed(hasBOM ? source.slice(1) : source, true)
+    } else {
+      const reader = source.stream().getReader()
+      let decoder: TextDecoder | null = null
+
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+
+        let bytes = value
+        if (!decoder) {
+          const detected = this.detectEncoding(bytes, options.encoding)
+          encoding = detected.encoding
+          hasBOM = detected.bomLength > 0
+          bytes = bytes.subarray(detected.bomLength)
+          decoder = new TextDecoder(encoding)
+        }
+
+        feed(decoder.decode(bytes, { stream: true }), false)
+      }
+
+      feed(decoder ? decoder.decode() : '', true)
+    }
+
+    const finalParser = parser as CSVParser | null
+    finalParser?.end()
+
+    return {
+      rows,
+      delimiter: delimiter || ',',
+      encoding,
+      hasBOM,
+      lineEnding: finalParser?.lineEnding || 'lf',
+      errors: finalParser?.errors || []
+    }
+  }
+
+  static formatIssue(issue: CSVIssue): string {
+    return `CSV row ${issue.row}, column ${issue.column}: ${issue.message}`
+  }
+
+  // BOMs win; otherwise the first chunk must be valid UTF-8 or we fall back to Windows-1252
+  private static detectEncoding(
+    bytes: Uint8Array,
+    preferred?: CSVEncoding
+  ): { encoding: CSVEncoding; bomLength: number } {
+    if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+      return { encoding: 'utf-8', bomLength: 3 }
+    }
+    if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+      return { encoding: 'utf-16le', bomLength: 2 }
+    }
+    if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+      return { encoding: 'utf-16be', bomLength: 2 }
+    }
+    if (preferred) {
+      return { encoding: preferred, bomLength: 0 }
+    }
+
+    try {
+      new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true })
+      return { encoding: 'utf-8', bomLength: 0 }
+    } catch {
+      return { encoding: 'windows-1252', bomLength: 0 }
+    }
+  }
+
+  // Picks the candidate that splits the sample lines into the most consistent column count
+  private static detectDelimiter(sample: string): string {
+    const lines = this.splitSampleLines(sample).filter(line => line.trim()).slice(0, SNIFF_LINES)
+    if (lines.length === 0) return ','
+
+    let best = ','
+    let bestScore = 0
+
+    for (const candidate of DELIMITER_CANDIDATES) {
+      const counts = lines.map(line => this.countOutsideQuotes(line, candidate))
+      const first = counts[0]
+      if (first === 0) continue
+
+      const consistent = counts.filter(count => count === first).length
+      const score = (consistent / counts.length) * first
+      if (score > bestScore) {
+        best = candidate
+        bestScore = score
+      }
+    }
+
+    return best
+  }
+
+  private static splitSampleLines(sample: string): string[] {
+    const lines: string[] = []
+    let current = ''
+    let inQuotes = false
+
+    for (const char of sample) {
+      if (char === '"') inQuotes = !inQuotes
+      if (!inQuotes && (char === '\n' || char === '\r')) {
+        lines.push(current)
+        current = ''
+        continue
+      }
+      current += char
+    }
+    if (current) lines.push(current)
+
+    return lines
+  }
+
+  private static countOutsideQuotes(line: string, delimiter: string): number {
+    let count = 0
+    let inQuotes = false
+
+    for (const char of line) {
+      if (char === '"') inQuotes = !inQuotes
+      else if (char === delimiter && !inQuotes) count++
+    }
+
+    return count
+  }
+
+  private static countLines(text: string): number {
+    let count = 0
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] === '\n') count++
+    }
+    return count
+  }
+}
@@ -0,0 +1,68 @@
+import { supabase } from './supabase'
+
+export interface StaffDashboardMetrics {
+  role: 'staff'
+  today_bookings: number
+  today_completed: number
+  // Scans without a client or whose automatic client matching failed
+  pending_scan_assignments: number
+  onboarding_in_progress: number
+  revenue_this_month: number
+  revenue_last_month: number
+}
+
+export interface ClientDashboardMetrics {
+  role: 'client'
+  // Null until staff have created the client record
+  client_id: string | null
+  scan_count?: number
+  last_scan_date?: string | null
+  latest_score?: number | null
+  previous_score?: number | null
+  next_appointment?: { appointment_date: string; service_type: string } | null
+}
+
+export type DashboardMetrics = StaffDashboardMetrics | ClientDashboardMetrics
+
+// Tables whose changes can move a metric
+const STAFF_SOURCES = ['bookings', 'scans', 'client_onboarding_data', 'payments']
+const CLIENT_SOURCES = ['bookings', 'scans']
+
+// Bursts of changes, e.g. a batch scan import, refresh once
+const REFRESH_DELAY_MS = 500
+
+export class DashboardMetricsService {
+  static async fetch(): Promise<DashboardMetrics> {
+    const { data, error } = await supabase.rpc('get_dashboard_metrics')
+
+    if (error) throw error
+    return data as DashboardMetrics
+  }
+
+  // Calls onChange when a source table changes. RLS limits the events clients receive
+  // to their own rows; the filter just avoids waking them for anyone else's.
+  static subscribe(role: DashboardMetrics['role'], clientId: string | null, onChange: () => void): () => void {
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const refresh = () => {
+      clearTimeout(timer)
+      timer = setTimeout(onChange, REFRESH_DELAY_MS)
+    }
+
+    const sources = role === 'staff' ? STAFF_SOURCES : CLIENT_SOURCES
+    const channel = supabase.channel(`dashboard-metrics-${clientId || 'staff'}`)
+
+    sources.forEach(table => {
+      channel.on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table, filter: clientId ? `client_id=eq.${clientId}` : undefined },
+        refresh
+      )
+    })
+    channel.subscribe()
+
+    return () => {
+      clearTimeout(timer)
+      supabase.removeChannel(channel)
+    }
+  }
+}
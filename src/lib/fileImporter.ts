@@ -1,12 +1,9 @@
 import * as XLSX from 'xlsx'
-import * as pdfjsLib from 'pdfjs-dist'
 import mammoth from 'mammoth'
-import { parse as csvParse } from 'csv-parse/browser/esm'
+import { CSVReader } from './csvReader'
+import { PDFLayout } from './pdfLayout'
 import { FormField, FormTemplate, FieldType } from '../components/forms/FormBuilder'
 
-// Configure PDF.js worker
-pdfjsLib.GlobalWorkerOptions.workerSrc = `//cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjsLib.version}/pdf.worker.min.js`
-
 export interface ImportResult {
   success: boolean
   template?: FormTemplate
@@ -114,60 +111,38 @@ export class FileImporter {
   }
 
   private static async importCSV(file: File): Promise<ImportResult> {
-    const text = await file.text()
-    
-    return new Promise((resolve) => {
-      csvParse(text, {
-        columns: true,
-        skip_empty_lines: true,
-        trim: true
-      }, (err, records) => {
-        if (err) {
-          resolve({
-            success: false,
-            error: `CSV parsing error: ${err.message}`
-          })
-          return
-        }
+    const { rows, errors } = await CSVReader.read(file, { trim: true })
+    const [header, ...records] = rows
 
-        if (!records || records.length === 0) {
-          resolve({
-            success: false,
-            error: 'CSV file appears to be empty or has no valid data'
-          })
-          return
-        }
+    if (!header || records.length === 0) {
+      return {
+        success: false,
+        error: errors.length > 0
+          ? `CSV parsing error: ${CSVReader.formatIssue(errors[0])}`
+          : 'CSV file appears to be empty or has no valid data'
+      }
+    }
 
-        // Extract field names from the first record
-        const fieldNames = Object.keys(records[0])
-        const fields = fieldNames.map(name => this.parseFieldFromName(name))
-        
-        const template = this.createTemplateFromFields(fields, file.name)
-        
-        resolve({
-          success: true,
-          template
-        })
-      })
-    })
+    // Extract field names from the header row
+    const fields = header
+      .filter(name => name)
+      .map(name => this.parseFieldFromName(name))
+
+    const template = this.createTemplateFromFields(fields, file.name)
+    const warnings = errors.map(CSVReader.formatIssue)
+
+    return {
+      success: true,
+      template,
+      warnings: warnings.length > 0 ? warnings : undefined
+    }
   }
 
   private static async importPDF(file: File): Promise<ImportResult> {
     try {
-      const arrayBuffer = await file.arrayBuffer()
-      const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise
-      
-      let fullText = ''
-      
-      // Extract text from all pages
-      for (let i = 1; i <= pdf.numPages; i++) {
-        const page = await pdf.getPage(i)
-        const textContent = await page.getTextContent()
-        const pageText = textContent.items
-          .map((item: any) => item.str)
-          .join(' ')
-        fullText += pageText + '\n'
-      }
+      // Extract text from all pages, one line per visual row
+      const rows = await PDFLayout.extractRows(await file.arrayBuffer())
+      const fullText = PDFLayout.rowsToText(rows)
 
       if (!fullText.trim()) {
         return {
@@ -0,0 +1,394 @@
+export type LogicOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'not_contains'
+  | 'greater_than'
+  | 'less_than'
+  | 'is_empty'
+  | 'is_not_empty'
+
+export type LogicAction = 'show' | 'hide' | 'require' | 'skip_to_page'
+
+export type LogicMatch = 'all' | 'any'
+
+export interface LogicCondition {
+  id: string
+  fieldId: string
+  operator: LogicOperator
+  value?: string
+}
+
+export interface LogicGroup {
+  id: string
+  match: LogicMatch
+  conditions: LogicCondition[]
+}
+
+export interface LogicRule {
+  id: string
+  action: LogicAction
+  // How the groups combine; conditions inside a group combine by the group's own match
+  match: LogicMatch
+  groups: LogicGroup[]
+  // skip_to_page only: fields between this one and the target are skipped
+  targetId?: string
+}
+
+// The parts of a form field the engine needs
+export interface LogicField {
+  id: string
+  type: string
+  label: string
+  required?: boolean
+  logic?: LogicRule[]
+  // Single-field equality from earlier versions of the form builder
+  conditional?: {
+    dependsOn: string
+    value: string
+  }
+}
+
+export interface LogicState {
+  hidden: Set<string>
+  required: Set<string>
+  skipped: Set<string>
+}
+
+export interface LogicIssue {
+  fieldId: string
+  message: string
+}
+
+export const LOGIC_OPERATOR_LABELS: Record<LogicOperator, string> = {
+  equals: 'equals',
+  not_equals: 'does not equal',
+  contains: 'contains',
+  not_contains: 'does not contain',
+  greater_than: 'is greater than',
+  less_than: 'is less than',
+  is_empty: 'is empty',
+  is_not_empty: 'is not empty'
+}
+
+export const LOGIC_ACTION_LABELS: Record<LogicAction, string> = {
+  show: 'Show this field',
+  hide: 'Hide this field',
+  require: 'Make this field required',
+  skip_to_page: 'Skip ahead to'
+}
+
+// Operators that don't take a comparison value
+export const VALUELESS_OPERATORS: LogicOperator[] = ['is_empty', 'is_not_empty']
+
+// Fields that hold no answer and so can't be referenced by conditions
+export const NON_INPUT_FIELD_TYPES = ['heading', 'paragraph', 'divider', 'pageBreak']
+
+const generateId = (prefix: string) => `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+
+export class FormLogic {
+  static newCondition(fieldId = ''): LogicCondition {
+    return { id: generateId('condition'), fieldId, operator: 'equals', value: '' }
+  }
+
+  static newGroup(fieldId = ''): LogicGroup {
+    return { id: generateId('group'), match: 'all', conditions: [this.newCondition(fieldId)] }
+  }
+
+  static newRule(fieldId = ''): LogicRule {
+    return { id: generateId('rule'), action: 'show', match: 'all', groups: [this.newGroup(fieldId)] }
+  }
+
+  // Rules for a field, with the legacy single condition translated into a show rule
+  static rules(field: LogicField): LogicRule[] {
+    if (field.logic?.length) return field.logic
+    if (!field.conditional?.dependsOn) return []
+
+    return [{
+      id: `${field.id}_conditional`,
+      action: 'show',
+      match: 'all',
+      groups: [{
+        id: `${field.id}_conditional_group`,
+        match: 'all',
+        conditions: [{
+          id: `${field.id}_conditional_condition`,
+          fieldId: field.conditional.dependsOn,
+          operator: 'equals',
+          value: field.conditional.value
+        }]
+      }]
+    }]
+  }
+
+  static isEmpty(value: unknown): boolean {
+    if (value === undefined || value === null || value === false) return true
+    if (typeof value === 'number') return isNaN(value)
+    if (typeof value === 'string') return value.trim() === ''
+    if (Array.isArray(value)) return value.length === 0
+    if (typeof FileList !== 'undefined' && value instanceof FileList) return value.length === 0
+    // Composite answers such as addresses are empty until one of their parts is filled in
+    if (this.isPlainObject(value)) return Object.values(value).every(item => this.isEmpty(item))
+    return false
+  }
+
+  static test(condition: LogicCondition, value: unknown): boolean {
+    const expected = (condition.value ?? '').trim()
+
+    switch (condition.operator) {
+      case 'is_empty':
+        return this.isEmpty(value)
+      case 'is_not_empty':
+        return !this.isEmpty(value)
+      case 'equals':
+        return this.equals(value, expected)
+      case 'not_equals':
+        return !this.equals(value, expected)
+      case 'contains':
+        return this.contains(value, expected)
+      case 'not_contains':
+        return !this.contains(value, expected)
+      case 'greater_than':
+        return this.compare(value, expected) > 0
+      case 'less_than':
+        return this.compare(value, expected) < 0
+      default:
+        return false
+    }
+  }
+
+  // Which fields are hidden, required and skipped for the current answers. Hidden and
+  // skipped fields count as unanswered, so rules that depend on them cascade.
+  static evaluate(fields: LogicField[], values: Record<string, unknown>): LogicState {
+    let state: LogicState = {
+      hidden: new Set(),
+      required: new Set(fields.filter(field => field.required).map(field => field.id)),
+      skipped: new Set()
+    }
+
+    // Each pass can only settle fields whose dependencies settled in the previous one,
+    // so a valid (acyclic) form is stable after at most one pass per field
+    for (let pass = 0; pass <= fields.length; pass++) {
+      const next = this.pass(fields, values, state)
+      const stable = this.sameState(state, next)
+      state = next
+      if (stable) break
+    }
+
+    return state
+  }
+
+  static isActive(state: LogicState, fieldId: string): boolean {
+    return !state.hidden.has(fieldId) && !state.skipped.has(fieldId)
+  }
+
+  // Answers without those for hidden or skipped fields
+  static activeValues<T extends Record<string, unknown>>(fields: LogicField[], values: T): Partial<T> {
+    const state = this.evaluate(fields, values)
+    return Object.fromEntries(
+      Object.entries(values).filter(([fieldId]) => this.isActive(state, fieldId))
+    ) as Partial<T>
+  }
+
+  // Problems that would make the rules misbehave: missing or unusable references,
+  // skip targets that aren't further down the form, and circular dependencies
+  static validate(fields: LogicField[]): LogicIssue[] {
+    const issues: LogicIssue[] = []
+    const index = new Map(fields.map((field, position) => [field.id, { field, position }]))
+
+    fields.forEach((field, position) => {
+      this.rules(field).forEach(rule => {
+        if (rule.groups.length === 0 || rule.groups.every(group => group.conditions.length === 0)) {
+          issues.push({ fieldId: field.id, message: `"${field.label}" has a rule without conditions` })
+        }
+
+        rule.groups.flatMap(group => group.conditions).forEach(condition => {
+          const source = index.get(condition.fieldId)
+          if (!source) {
+            issues.push({ fieldId: field.id, message: `"${field.label}" depends on a field that no longer exists` })
+          } else if (condition.fieldId === field.id) {
+            issues.push({ fieldId: field.id, message: `"${field.label}" depends on itself` })
+          } else if (NON_INPUT_FIELD_TYPES.includes(source.field.type)) {
+            issues.push({ fieldId: field.id, message: `"${field.label}" depends on "${source.field.label}", which has no answer` })
+          } else if (!VALUELESS_OPERATORS.includes(condition.operator) && !(condition.value ?? '').trim()) {
+            issues.push({ fieldId: field.id, message: `"${field.label}" has a condition on "${source.field.label}" without a value` })
+          }
+        })
+
+        if (rule.action === 'skip_to_page') {
+          const target = rule.targetId ? index.get(rule.targetId) : undefined
+          if (!target) {
+            issues.push({ fieldId: field.id, message: `"${field.label}" skips to a field that no longer exists` })
+          } else if (target.position <= position) {
+            issues.push({ fieldId: field.id, message: `"${field.label}" can only skip ahead to a later part of the form` })
+          }
+        }
+      })
+    })
+
+    this.cycles(fields).forEach(cycle => {
+      const labels = cycle.map(fieldId => index.get(fieldId)?.field.label || fieldId)
+      issues.push({ fieldId: cycle[0], message: `Circular logic: ${labels.join(' → ')} → ${labels[0]}` })
+    })
+
+    return issues
+  }
+
+  // Fields with rules that depend on the given field, e.g. before deleting it
+  static dependents(fields: LogicField[], fieldId: string): LogicField[] {
+    return fields.filter(field =>
+      field.id !== fieldId &&
+      this.rules(field).some(rule =>
+        rule.targetId === fieldId ||
+        rule.groups.some(group => group.conditions.some(condition => condition.fieldId === fieldId))
+      )
+    )
+  }
+
+  static describe(rule: LogicRule, fields: LogicField[]): string {
+    const label = (fieldId: string) => fields.find(field => field.id === fieldId)?.label || 'a deleted field'
+    const joiner = (match: LogicMatch) => match === 'all' ? ' and ' : ' or '
+
+    const groups = rule.groups.map(group => {
+      const conditions = group.conditions.map(condition =>
+        VALUELESS_OPERATORS.includes(condition.operator)
+          ? `${label(condition.fieldId)} ${LOGIC_OPERATOR_LABELS[condition.operator]}`
+          : `${label(condition.fieldId)} ${LOGIC_OPERATOR_LABELS[condition.operator]} "${condition.value}"`
+      ).join(joiner(group.match))
+      return rule.groups.length > 1 && group.conditions.length > 1 ? `(${conditions})` : conditions
+    }).join(joiner(rule.match))
+
+    const action = rule.action === 'skip_to_page'
+      ? `Skip to ${rule.targetId ? label(rule.targetId) : '…'}`
+      : LOGIC_ACTION_LABELS[rule.action]
+
+    return `${action} when ${groups}`
+  }
+
+  private static pass(fields: LogicField[], values: Record<string, unknown>, previous: LogicState): LogicState {
+    const state: LogicState = {
+      hidden: new Set(),
+      required: new Set(fields.filter(field => field.required).map(field => field.id)),
+      skipped: new Set()
+    }
+    const valueOf = (fieldId: string) => this.isActive(previous, fieldId) ? values[fieldId] : undefined
+    const matches = (rule: LogicRule) => {
+      const groupMatches = (group: LogicGroup) => {
+        const results = group.conditions.map(condition => this.test(condition, valueOf(condition.fieldId)))
+        return group.match === 'all' ? results.every(Boolean) : results.some(Boolean)
+      }
+      const results = rule.groups.map(groupMatches)
+      return rule.match === 'all' ? results.every(Boolean) : results.some(Boolean)
+    }
+
+    fields.forEach((field, position) => {
+      const rules = this.rules(field)
+      const showRules = rules.filter(rule => rule.action === 'show')
+
+      // With show rules a field stays hidden until one of them matches
+      if (showRules.length && !showRules.some(matches)) state.hidden.add(field.id)
+      if (rules.some(rule => rule.action === 'hide' && matches(rule))) state.hidden.add(field.id)
+      if (rules.some(rule => rule.action === 'require' && matches(rule))) state.required.add(field.id)
+
+      if (!this.isActive(previous, field.id)) return
+      rules
+        .filter(rule => rule.action === 'skip_to_page' && rule.targetId && matches(rule))
+        .forEach(rule => {
+          const target = fields.findIndex(candidate => candidate.id === rule.targetId)
+          fields.slice(position + 1, target).forEach(skipped => state.skipped.add(skipped.id))
+        })
+    })
+
+    return state
+  }
+
+  private static sameState(a: LogicState, b: LogicState): boolean {
+    const same = (x: Set<string>, y: Set<string>) => x.size === y.size && [...x].every(id => y.has(id))
+    return same(a.hidden, b.hidden) && same(a.required, b.required) && same(a.skipped, b.skipped)
+  }
+
+  // A field depends on the fields its conditions read; skipped fields also depend on
+  // the conditions of the rule that skips them
+  private static dependencies(fields: LogicField[]): Map<string, Set<string>> {
+    const graph = new Map<string, Set<string>>(fields.map(field => [field.id, new Set()]))
+
+    fields.forEach((field, position) => {
+      this.rules(field).forEach(rule => {
+        const sources = rule.groups.flatMap(group => group.conditions.map(condition => condition.fieldId))
+        const affected = rule.action === 'skip_to_page'
+          ? fields.slice(position + 1, Math.max(fields.findIndex(candidate => candidate.id === rule.targetId), position + 1))
+          : [field]
+
+        affected.forEach(target => {
+          sources
+            .filter(source => source !== target.id && graph.has(source))
+            .forEach(source => graph.get(target.id)?.add(source))
+        })
+      })
+    })
+
+    return graph
+  }
+
+  private static cycles(fields: LogicField[]): string[][] {
+    const graph = this.dependencies(fields)
+    const visited = new Set<string>()
+    const stack: string[] = []
+    const cycles: string[][] = []
+    const seen = new Set<string>()
+
+    const visit = (fieldId: string) => {
+      const onStack = stack.indexOf(fieldId)
+      if (onStack !== -1) {
+        const cycle = stack.slice(onStack)
+        // Report each cycle once, whichever field it was entered from
+        const key = [...cycle].sort().join('|')
+        if (!seen.has(key)) {
+          seen.add(key)
+          cycles.push(cycle)
+        }
+        return
+      }
+      if (visited.has(fieldId)) return
+
+      stack.push(fieldId)
+      graph.get(fieldId)?.forEach(visit)
+      stack.pop()
+      visited.add(fieldId)
+    }
+
+    graph.forEach((_, fieldId) => visit(fieldId))
+    return cycles
+  }
+
+  private static equals(value: unknown, expected: string): boolean {
+    if (Array.isArray(value)) return value.some(item => String(item).trim() === expected)
+    if (typeof value === 'boolean') return String(value) === expected.toLowerCase()
+    if (typeof value === 'number' || this.isNumeric(value)) {
+      return this.isNumeric(expected) ? Number(value) === Number(expected) : String(value) === expected
+    }
+    return String(value ?? '').trim() === expected
+  }
+
+  private static contains(value: unknown, expected: string): boolean {
+    if (Array.isArray(value)) return value.some(item => String(item).trim() === expected)
+    if (this.isPlainObject(value)) return Object.values(value).some(item => this.contains(item, expected))
+    return String(value ?? '').toLowerCase().includes(expected.toLowerCase())
+  }
+
+  // Numbers compare numerically; anything else (dates, times) compares as text
+  private static compare(value: unknown, expected: string): number {
+    if (this.isEmpty(value) || !expected) return NaN
+    if (this.isNumeric(value) && this.isNumeric(expected)) return Number(value) - Number(expected)
+    return String(value).localeCompare(expected)
+  }
+
+  private static isPlainObject(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype
+  }
+
+  private static isNumeric(value: unknown): boolean {
+    if (typeof value === 'number') return !isNaN(value)
+    return typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))
+  }
+}
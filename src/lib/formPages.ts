@@ -0,0 +1,60 @@
+import { FormLogic, LogicField, LogicState } from './formLogic'
+
+export interface FormPage<T extends LogicField = LogicField> {
+  // The page break that starts the page; the first page has none
+  id: string
+  breakField?: T
+  title: string
+  description?: string
+  fields: T[]
+}
+
+// Stored with a draft so a respondent can resume where they left off
+export interface FormProgress {
+  current_page: number
+  completed_pages: number[]
+  page_count: number
+}
+
+export const PAGE_BREAK_TYPE = 'pageBreak'
+
+export class FormPages {
+  // Splits fields into pages at each page break
+  static split<T extends LogicField & { description?: string }>(fields: T[], firstTitle = 'Start'): FormPage<T>[] {
+    const pages: FormPage<T>[] = [{ id: 'page_start', title: firstTitle, fields: [] }]
+
+    fields.forEach(field => {
+      if (field.type === PAGE_BREAK_TYPE) {
+        pages.push({ id: field.id, breakField: field, title: field.label, description: field.description, fields: [] })
+      } else {
+        pages[pages.length - 1].fields.push(field)
+      }
+    })
+
+    // A leading page break replaces the untitled first page
+    return pages.filter((page, index) => index > 0 || page.fields.length > 0 || pages.length === 1)
+  }
+
+  static hasPageBreaks(fields: LogicField[]): boolean {
+    return fields.some(field => field.type === PAGE_BREAK_TYPE)
+  }
+
+  // Pages hidden by logic on their page break, or whose fields are all hidden or skipped, are left out
+  static isActive(page: FormPage, state: LogicState): boolean {
+    if (page.breakField && !FormLogic.isActive(state, page.breakField.id)) return false
+    return page.fields.some(field => FormLogic.isActive(state, field.id))
+  }
+
+  static activeIndexes(pages: FormPage[], state: LogicState): number[] {
+    return pages.flatMap((page, index) => this.isActive(page, state) ? [index] : [])
+  }
+
+  static next(pages: FormPage[], state: LogicState, current: number): number | null {
+    return this.activeIndexes(pages, state).find(index => index > current) ?? null
+  }
+
+  static previous(pages: FormPage[], state: LogicState, current: number): number | null {
+    const earlier = this.activeIndexes(pages, state).filter(index => index < current)
+    return earlier.length ? earlier[earlier.length - 1] : null
+  }
+}
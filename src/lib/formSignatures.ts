@@ -0,0 +1,136 @@
+import { supabase } from './supabase'
+import { LogicField, NON_INPUT_FIELD_TYPES } from './formLogic'
+import { sha256 } from './utils'
+
+export const SIGNATURES_BUCKET = 'form-signatures'
+export const SIGNATURE_FIELD_TYPE = 'signature'
+
+// Signed image links are only needed long enough to display the signature
+const SIGNATURE_URL_TTL_SECONDS = 300
+
+// Stored in the submission in place of the drawing. A copy of the form_signatures row,
+// which the database stamps and hashes and which is what verification trusts
+export interface SignatureRecord {
+  // Missing on signatures recorded before the database stamped them
+  id?: string
+  path: string
+  signed_at: string
+  signer_id: string
+  // SHA-256 of the PNG
+  image_hash: string
+  // SHA-256 of the questions and answers signed, together with the details above
+  content_hash: string
+}
+
+export type SignatureStatus = 'valid' | 'content_changed' | 'image_changed' | 'missing_image' | 'unrecorded'
+
+export class FormSignatures {
+  static isRecord(value: unknown): value is SignatureRecord {
+    return !!value && typeof value === 'object' &&
+      typeof (value as SignatureRecord).path === 'string' &&
+      typeof (value as SignatureRecord).content_hash === 'string'
+  }
+
+  // A signature drawn on the pad but not yet stored
+  static isDrawing(value: unknown): value is string {
+    return typeof value === 'string' && value.startsWith('data:image/png')
+  }
+
+  // Uploads each drawn signature under the signer's id and has the database record it,
+  // bound to the rest of the answers, in place of the drawing
+  static async sign<T extends Record<string, unknown>>(templateId: string, fields: LogicField[], answers: T): Promise<T> {
+    const drawn = fields.filter(field => field.type === SIGNATURE_FIELD_TYPE && this.isDrawing(answers[field.id]))
+    if (drawn.length === 0) return answers
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError) throw userError
+    if (!user) throw new Error('You need to be signed in to sign this form')
+
+    const signed: Record<string, unknown> = { ...answers }
+    const content = this.content(fields, answers)
+
+    for (const field of drawn) {
+      const image = await (await fetch(answers[field.id] as string)).blob()
+      const path = `${user.id}/${Date.now()}-${field.id}.png`
+
+      const { error: uploadError } = await supabase.storage
+        .from(SIGNATURES_BUCKET)
+        .upload(path, image, { contentType: 'image/png', upsert: false })
+
+      if (uploadError) throw uploadError
+
+      const { data, error } = await supabase.rpc('record_form_signature', {
+        signature_template_id: templateId,
+        signature_field_id: field.id,
+        signature_path: path,
+        signature_image_hash: await sha256(image),
+        content
+      })
+
+      if (error) throw error
+      const { id, signed_at, signer_id, image_hash, content_hash } = data as SignatureRecord
+      signed[field.id] = { id, path, signed_at, signer_id, image_hash, content_hash }
+    }
+
+    return signed as T
+  }
+
+  // Every answer except signatures, with the question it answered, so changing either
+  // after signing is detected. Fields are in form order.
+  private static content(fields: LogicField[], answers: Record<string, unknown>): unknown[] {
+    return fields
+      .filter(field => !NON_INPUT_FIELD_TYPES.includes(field.type) && field.type !== SIGNATURE_FIELD_TYPE)
+      .map(field => [field.id, field.label, answers[field.id] ?? null])
+  }
+
+  // Checks a stored submission against the signature the database recorded for it. The
+  // questions are those kept with the signature, so later edits to the template don't count.
+  static async verify(
+    signature: { templateId: string; fieldId: string; signerId: string },
+    answers: Record<string, unknown>,
+    record: SignatureRecord
+  ): Promise<SignatureStatus> {
+    if (!record.id) return 'unrecorded'
+
+    // The copy in the answers only points at the row; its details are never trusted
+    const { data: stored, error } = await supabase
+      .from('form_signatures')
+      .select('*')
+      .eq('id', record.id)
+      .maybeSingle()
+
+    if (error) throw error
+    if (
+      !stored ||
+      stored.template_id !== signature.templateId ||
+      stored.field_id !== signature.fieldId ||
+      stored.signer_id !== signature.signerId
+    ) {
+      return 'unrecorded'
+    }
+
+    const { data: matches, error: verifyError } = await supabase.rpc('verify_form_signature', {
+      signature_id: stored.id,
+      answers
+    })
+
+    if (verifyError) throw verifyError
+    if (!matches) return 'content_changed'
+
+    const { data: image, error: downloadError } = await supabase.storage
+      .from(SIGNATURES_BUCKET)
+      .download(stored.path)
+
+    if (downloadError || !image) return 'missing_image'
+    return await sha256(image) === stored.image_hash ? 'valid' : 'image_changed'
+  }
+
+  static async createImageUrl(path: string): Promise<string> {
+    const { data, error } = await supabase.storage
+      .from(SIGNATURES_BUCKET)
+      .createSignedUrl(path, SIGNATURE_URL_TTL_SECONDS)
+
+    if (error) throw error
+    return data.signedUrl
+  }
+}
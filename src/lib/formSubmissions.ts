@@ -0,0 +1,285 @@
+import * as XLSX from 'xlsx'
+import { supabase } from './supabase'
+import { formatSADate, formatSADateTime } from './utils'
+import { LogicField, NON_INPUT_FIELD_TYPES } from './formLogic'
+import { FormProgress } from './formPages'
+import { FormSignatures, SIGNATURE_FIELD_TYPE } from './formSignatures'
+import { SAAddress, SAAddresses } from './saAddress'
+import { StoredUpload } from './formUploads'
+
+export type FormSubmissionStatus = 'draft' | 'submitted' | 'reviewed'
+
+export const FORM_SUBMISSION_STATUS_LABELS: Record<FormSubmissionStatus, string> = {
+  draft: 'Draft',
+  submitted: 'Submitted',
+  reviewed: 'Reviewed'
+}
+
+export interface FormSubmission {
+  id: string
+  template_id: string
+  template_version: number
+  respondent_id: string
+  answers: Record<string, unknown>
+  progress: FormProgress | null
+  status: FormSubmissionStatus
+  submitted_at: string | null
+  created_at: string
+  updated_at: string
+  respondent?: {
+    first_name: string
+    last_name: string
+    email: string
+  } | null
+}
+
+export interface FormSubmissionFilters {
+  search: string
+  status: FormSubmissionStatus | 'all'
+  // yyyy-MM-dd, inclusive
+  from: string
+  to: string
+}
+
+export type FormSubmissionExportFormat = 'csv' | 'xlsx'
+
+// The parts of a template a submission needs
+interface SubmissionTemplate {
+  id: string
+  name: string
+  version?: number
+  fields: LogicField[]
+}
+
+// Spreadsheet apps treat cells starting with these as formulas
+const FORMULA_PREFIXES = ['=', '+', '-', '@', '\t', '\r']
+
+const SUBMISSION_SELECT = `
+  *,
+  respondent:profiles!form_submissions_respondent_id_fkey(first_name, last_name, email)
+`
+
+export class FormSubmissions {
+  static async list(templateId: string): Promise<FormSubmission[]> {
+    const { data, error } = await supabase
+      .from('form_submissions')
+      .select(SUBMISSION_SELECT)
+      .eq('template_id', templateId)
+      .order('submitted_at', { ascending: false, nullsFirst: false })
+      .order('updated_at', { ascending: false })
+
+    if (error) throw error
+    return data || []
+  }
+
+  static async findDraft(templateId: string, respondentId: string): Promise<FormSubmission | null> {
+    const { data, error } = await supabase
+      .from('form_submissions')
+      .select('*')
+      .eq('template_id', templateId)
+      .eq('respondent_id', respondentId)
+      .eq('status', 'draft')
+      .order('updated_at', { ascending: false })
+      .limit(1)
+
+    if (error) throw error
+    return data && data.length > 0 ? data[0] : null
+  }
+
+  // Creates the draft on first save; returns its id so later saves update it
+  static async saveDraft(
+    draftId: string | null,
+    template: SubmissionTemplate,
+    answers: Record<string, unknown>,
+    progress: FormProgress
+  ): Promise<string> {
+    return this.save(draftId, {
+      template_id: template.id,
+      template_version: template.version || 1,
+      answers,
+      progress,
+      status: 'draft'
+    })
+  }
+
+  // Submits a custom onboarding form and marks onboarding complete together, so a failed
+  // attempt leaves the draft to submit again
+  static async completeOnboarding(
+    draftId: string | null,
+    template: SubmissionTemplate,
+    answers: Record<string, unknown>
+  ): Promise<string> {
+    const { data, error } = await supabase.rpc('complete_custom_onboarding', {
+      draft_id: draftId,
+      form_template_id: template.id,
+      form_template_version: template.version || 1,
+      form_answers: answers
+    })
+
+    if (error) throw error
+    return data
+  }
+
+  static async setStatus(submissionId: string, status: Exclude<FormSubmissionStatus, 'draft'>) {
+    const { error } = await supabase
+      .from('form_submissions')
+      .update({ status })
+      .eq('id', submissionId)
+
+    if (error) throw error
+  }
+
+  static respondentName(submission: FormSubmission): string {
+    const name = `${submission.respondent?.first_name || ''} ${submission.respondent?.last_name || ''}`.trim()
+    return name || submission.respondent?.email || 'Unknown respondent'
+  }
+
+  // Fields that hold answers, in the order the template shows them
+  static answerFields<T extends LogicField>(fields: T[]): T[] {
+    return fields.filter(field => !NON_INPUT_FIELD_TYPES.includes(field.type))
+  }
+
+  // A readable form of an answer for the browser, search and exports
+  static answerText(field: LogicField, value: unknown): string {
+    if (value === undefined || value === null || value === '') return ''
+
+    if (field.type === SIGNATURE_FIELD_TYPE) {
+      return FormSignatures.isRecord(value) ? `Signed ${formatSADateTime(value.signed_at)}` : ''
+    }
+    if (field.type === 'address') {
+      return SAAddresses.format(value as Partial<SAAddress>)
+    }
+    if (field.type === 'file' || field.type === 'image') {
+      return Array.isArray(value)
+        ? (value as StoredUpload[]).map(upload => upload?.name).filter(Boolean).join('; ')
+        : ''
+    }
+    if (field.type === 'date' && typeof value === 'string') {
+      return formatSADate(value)
+    }
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+    if (Array.isArray(value)) return value.join('; ')
+    if (typeof value === 'object') return JSON.stringify(value)
+    return String(value)
+  }
+
+  static filter(submissions: FormSubmission[], fields: LogicField[], filters: FormSubmissionFilters): FormSubmission[] {
+    const search = filters.search.trim().toLowerCase()
+    const answerFields = this.answerFields(fields)
+
+    return submissions.filter(submission => {
+      if (filters.status !== 'all' && submission.status !== filters.status) return false
+
+      const day = (submission.submitted_at || submission.updated_at).slice(0, 10)
+      if (filters.from && day < filters.from) return false
+      if (filters.to && day > filters.to) return false
+
+      if (!search) return true
+      return [
+        this.respondentName(submission),
+        submission.respondent?.email || '',
+        ...answerFields.map(field => this.answerText(field, submission.answers[field.id]))
+      ].some(text => text.toLowerCase().includes(search))
+    })
+  }
+
+  // Questions the submissions answered that the template no longer has, e.g. removed in a
+  // later version. Only the answers are left, so the field type is inferred from them.
+  static removedFields(fields: LogicField[], submissions: FormSubmission[]): LogicField[] {
+    const current = new Set(fields.map(field => field.id))
+    const removed = new Map<string, LogicField>()
+
+    submissions.forEach(submission => {
+      Object.entries(submission.answers || {}).forEach(([id, value]) => {
+        if (current.has(id) || removed.has(id)) return
+        if (value === undefined || value === null || value === '') return
+
+        const type = FormSignatures.isRecord(value)
+          ? SIGNATURE_FIELD_TYPE
+          : Array.isArray(value) && value.length > 0 && value.every(item => typeof item?.path === 'string')
+            ? 'file'
+            : 'text'
+        removed.set(id, { id, type, label: `Removed question (${id})` })
+      })
+    })
+
+    return Array.from(removed.values())
+  }
+
+  // One row per submission, answer columns following the template's field order and then
+  // any answers to questions since removed from the template
+  static rows(fields: LogicField[], submissions: FormSubmission[]): string[][] {
+    const answerFields = [...this.answerFields(fields), ...this.removedFields(fields, submissions)]
+
+    return [
+      ['Respondent', 'Email', 'Status', 'Template Version', 'Submitted', ...answerFields.map(field => field.label)],
+      ...submissions.map(submission => [
+        this.respondentName(submission),
+        submission.respondent?.email || '',
+        FORM_SUBMISSION_STATUS_LABELS[submission.status],
+        String(submission.template_version),
+        submission.submitted_at ? formatSADateTime(submission.submitted_at) : '',
+        ...answerFields.map(field => this.answerText(field, submission.answers[field.id]))
+      ])
+    ]
+  }
+
+  static toCSV(rows: string[][]): string {
+    return rows
+      .map(row => row.map(cell => `"${this.spreadsheetCell(cell).replace(/"/g, '""')}"`).join(','))
+      .join('\n')
+  }
+
+  static export(template: SubmissionTemplate, submissions: FormSubmission[], format: FormSubmissionExportFormat) {
+    const rows = this.rows(template.fields, submissions)
+    const filename = `${template.name.replace(/\s+/g, '_')}_submissions_${new Date().toISOString().split('T')[0]}`
+
+    if (format === 'xlsx') {
+      const workbook = XLSX.utils.book_new()
+      const cells = rows.map(row => row.map(cell => this.spreadsheetCell(cell)))
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(cells), 'Submissions')
+      XLSX.writeFile(workbook, `${filename}.xlsx`)
+      return
+    }
+
+    const blob = new Blob([this.toCSV(rows)], { type: 'text/csv' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `${filename}.csv`
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+    URL.revokeObjectURL(url)
+  }
+
+  // Answers are typed by respondents, so a leading quote keeps them from running as formulas
+  private static spreadsheetCell(cell: string): string {
+    return FORMULA_PREFIXES.some(prefix => cell.startsWith(prefix)) ? `'${cell}` : cell
+  }
+
+  private static async save(submissionId: string | null, values: Record<string, unknown>): Promise<string> {
+    if (submissionId) {
+      // RLS drops updates to submissions that are no longer drafts without an error;
+      // single() turns the missing row into one instead of reporting a save
+      const { data, error } = await supabase
+        .from('form_submissions')
+        .update(values)
+        .eq('id', submissionId)
+        .select('id')
+        .single()
+
+      if (error) throw error
+      return data.id
+    }
+
+    const { data, error } = await supabase
+      .from('form_submissions')
+      .insert(values)
+      .select('id')
+      .single()
+
+    if (error) throw error
+    return data.id
+  }
+}
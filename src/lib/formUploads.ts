@@ -0,0 +1,144 @@
+import { z } from 'zod'
+import { supabase } from './supabase'
+
+export const FORM_UPLOADS_BUCKET = 'form-uploads'
+
+// The bucket's own limit; fields can only lower it
+export const MAX_UPLOAD_SIZE_MB = 50
+
+// Signed links are only needed long enough to show a preview or start a download
+const UPLOAD_URL_TTL_SECONDS = 300
+
+// Configured per field in the form builder
+export interface FormUploadSettings {
+  // MIME types (image/*, application/pdf) or extensions (.pdf); empty allows anything
+  accept?: string[]
+  maxSizeMb?: number
+  maxFiles?: number
+}
+
+// What a submission keeps for each uploaded file
+export interface StoredUpload {
+  path: string
+  name: string
+  size: number
+  content_type: string
+}
+
+const storedUploadSchema = z.object({
+  path: z.string(),
+  name: z.string(),
+  size: z.number(),
+  content_type: z.string()
+})
+
+export class FormUploads {
+  // Settings with defaults filled in; image fields only take images
+  static settings(field: { type: string; upload?: FormUploadSettings }): Required<FormUploadSettings> {
+    const accept = field.upload?.accept?.length
+      ? field.upload.accept
+      : field.type === 'image' ? ['image/*'] : []
+
+    return {
+      accept,
+      maxSizeMb: Math.min(field.upload?.maxSizeMb || 10, MAX_UPLOAD_SIZE_MB),
+      maxFiles: Math.max(field.upload?.maxFiles || 1, 1)
+    }
+  }
+
+  // Answers saved before uploads were stored, e.g. serialised File objects, count as no files
+  static schema(settings: Required<FormUploadSettings>) {
+    return z.preprocess(
+      value => Array.isArray(value) ? value : [],
+      z.array(storedUploadSchema).max(settings.maxFiles, `Upload at most ${settings.maxFiles} file${settings.maxFiles === 1 ? '' : 's'}`)
+    )
+  }
+
+  static accepts(file: { name: string; type: string }, accept: string[]): boolean {
+    if (accept.length === 0) return true
+
+    const name = file.name.toLowerCase()
+    const type = (file.type || '').toLowerCase()
+
+    return accept.some(pattern => {
+      const rule = pattern.trim().toLowerCase()
+      if (rule.startsWith('.')) return name.endsWith(rule)
+      if (rule.endsWith('/*')) return type.startsWith(rule.slice(0, -1))
+      return type === rule
+    })
+  }
+
+  // Why a file can't be uploaded to the field, or null if it can
+  static rejection(file: File, settings: Required<FormUploadSettings>): string | null {
+    if (!this.accepts(file, settings.accept)) {
+      return `${file.name} isn't an accepted file type (${settings.accept.join(', ')})`
+    }
+    if (file.size > settings.maxSizeMb * 1024 * 1024) {
+      return `${file.name} is larger than ${settings.maxSizeMb} MB`
+    }
+    return null
+  }
+
+  static isImage(upload: { content_type: string }): boolean {
+    return upload.content_type.startsWith('image/')
+  }
+
+  // Files live under the uploader's profile id so storage policies can scope them. Uploads
+  // through a signed URL so the browser can report progress.
+  static async upload(file: File, onProgress: (percent: number) => void): Promise<StoredUpload> {
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError) throw userError
+    if (!user) throw new Error('You need to be signed in to upload files')
+
+    const safeName = file.name.replace(/[^A-Za-z0-9._-]+/g, '_')
+    const path = `${user.id}/${Date.now()}-${safeName}`
+
+    const { data, error } = await supabase.storage
+      .from(FORM_UPLOADS_BUCKET)
+      .createSignedUploadUrl(path)
+
+    if (error) throw error
+
+    await new Promise<void>((resolve, reject) => {
+      const request = new XMLHttpRequest()
+      request.open('PUT', data.signedUrl)
+      request.setRequestHeader('x-upsert', 'false')
+      request.upload.onprogress = (event) => {
+        if (event.lengthComputable) onProgress(Math.round(event.loaded / event.total * 100))
+      }
+      request.onload = () => request.status < 300
+        ? resolve()
+        : reject(new Error(`Uploading ${file.name} failed (${request.status})`))
+      request.onerror = () => reject(new Error(`Uploading ${file.name} failed`))
+
+      const body = new FormData()
+      body.append('cacheControl', '3600')
+      body.append('', file)
+      request.send(body)
+    })
+
+    return {
+      path,
+      name: file.name,
+      size: file.size,
+      content_type: file.type || 'application/octet-stream'
+    }
+  }
+
+  static async createUrl(upload: StoredUpload, download = false): Promise<string> {
+    const { data, error } = await supabase.storage
+      .from(FORM_UPLOADS_BUCKET)
+      .createSignedUrl(upload.path, UPLOAD_URL_TTL_SECONDS, download ? { download: upload.name } : undefined)
+
+    if (error) throw error
+    return data.signedUrl
+  }
+
+  static async remove(upload: StoredUpload) {
+    const { error } = await supabase.storage
+      .from(FORM_UPLOADS_BUCKET)
+      .remove([upload.path])
+
+    if (error) throw error
+  }
+}
@@ -0,0 +1,526 @@
+import { format } from 'date-fns'
+import { supabase } from './supabase'
+import { calculateVAT } from './utils'
+import {
+  PaymentMethod,
+  PaymentProcessorId,
+  PaymentProcessors,
+  ProcessorResult
+} from './paymentProcessors'
+import type { Booking } from './bookings'
+
+export type InvoiceStatus = 'issued' | 'partially_paid' | 'paid' | 'refunded' | 'void'
+
+export type PaymentStatus = 'pending' | 'completed' | 'failed' | 'refunded'
+
+export interface InvoiceLineItem {
+  description: string
+  quantity: number
+  // VAT inclusive, as prices are quoted to clients
+  unit_price: number
+}
+
+export interface InvoiceParty {
+  business_name?: string
+  registration_number?: string
+  vat_number?: string
+  name?: string
+  client_code?: string
+  address?: string
+  email?: string
+  phone?: string
+  bank_details?: string
+}
+
+export interface InvoiceSettings {
+  id: string
+  business_name: string
+  registration_number: string
+  vat_number: string
+  address: string
+  email: string
+  phone: string
+  bank_details: string
+  vat_rate: number
+  invoice_prefix: string
+  next_invoice_number: number
+  payment_terms_days: number
+}
+
+export interface Invoice {
+  id: string
+  invoice_number: string
+  client_id: string
+  booking_id: string | null
+  issue_date: string
+  due_date: string
+  line_items: InvoiceLineItem[]
+  subtotal: number
+  vat_rate: number
+  vat_amount: number
+  total: number
+  amount_paid: number
+  currency: string
+  status: InvoiceStatus
+  supplier: InvoiceParty
+  bill_to: InvoiceParty
+  notes: string | null
+  voided_at: string | null
+  created_at: string
+}
+
+export interface Payment {
+  id: string
+  invoice_id: string | null
+  client_id: string | null
+  amount: number
+  currency: string
+  payment_type: 'payment' | 'refund'
+  payment_method: PaymentMethod | null
+  payment_processor: PaymentProcessorId | null
+  payment_status: PaymentStatus
+  transaction_id: string | null
+  reference_number: string | null
+  refund_of: string | null
+  vat_amount: number | null
+  processed_at: string | null
+  notes: string | null
+  created_at: string
+}
+
+export interface InvoiceTotals {
+  subtotal: number
+  vat_amount: number
+  total: number
+}
+
+export const INVOICE_STATUS_LABELS: Record<InvoiceStatus, string> = {
+  issued: 'Unpaid',
+  partially_paid: 'Partially Paid',
+  paid: 'Paid',
+  refunded: 'Refunded',
+  void: 'Void'
+}
+
+export const INVOICE_STATUS_COLORS: Record<InvoiceStatus, string> = {
+  issued: 'bg-amber-50 border-amber-200 text-amber-800',
+  partially_paid: 'bg-blue-50 border-blue-200 text-blue-800',
+  paid: 'bg-wellness-sage-100 border-wellness-sage-300 text-wellness-sage-800',
+  refunded: 'bg-gray-50 border-gray-200 text-gray-600',
+  void: 'bg-gray-50 border-gray-200 text-gray-500 line-through'
+}
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  pending: 'Pending',
+  completed: 'Completed',
+  failed: 'Failed',
+  refunded: 'Refunded'
+}
+
+// Fallback until invoice settings load; the database rate is what invoices use
+export const DEFAULT_VAT_RATE = Number(import.meta.env.VITE_VAT_RATE) || 0.15
+
+const INVOICE_SELECT = `
+  *,
+  client:clients(
+    client_code,
+    profile:profiles!clients_profile_id_fkey(first_name, last_name, email)
+  )
+`
+
+export type InvoiceWithClient = Invoice & {
+  client?: {
+    client_code: string
+    profile: { first_name: string | null; last_name: string | null; email: string | null } | null
+  } | null
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100
+
+export class InvoiceService {
+  // Mirrors the prepare_invoice trigger so forms can preview what will be issued
+  static calculateTotals(items: InvoiceLineItem[], vatRate: number): InvoiceTotals {
+    const total = roundCents(items.reduce((sum, item) => sum + roundCents(item.quantity * item.unit_price), 0))
+    const vat_amount = roundCents(calculateVAT(total, vatRate / (1 + vatRate)))
+    return { subtotal: roundCents(total - vat_amount), vat_amount, total }
+  }
+
+  static balance(invoice: Pick<Invoice, 'total' | 'amount_paid' | 'status'>): number {
+    if (invoice.status === 'void') return 0
+    return roundCents(invoice.total - invoice.amount_paid)
+  }
+
+  static isOverdue(invoice: Pick<Invoice, 'due_date' | 'status'>, today = new Date()): boolean {
+    return (invoice.status === 'issued' || invoice.status === 'partially_paid') &&
+      invoice.due_date < format(today, 'yyyy-MM-dd')
+  }
+
+  static async fetchSettings(): Promise<InvoiceSettings | null> {
+    const { data, error } = await supabase
+      .from('invoice_settings')
+      .select('*')
+      .order('created_at')
+      .limit(1)
+
+    if (error) throw error
+    return data?.[0] || null
+  }
+
+  static async saveSettings(settings: InvoiceSettings) {
+    const { id, ...values } = settings
+    const { error } = await supabase
+      .from('invoice_settings')
+      .update(values)
+      .eq('id', id)
+
+    if (error) throw error
+  }
+
+  // RLS limits clients to their own invoices
+  static async fetchInvoices(filters: { clientId?: string; status?: InvoiceStatus } = {}): Promise<InvoiceWithClient[]> {
+    let query = supabase
+      .from('invoices')
+      .select(filters.clientId ? '*' : INVOICE_SELECT)
+      .order('issue_date', { ascending: false })
+      .order('invoice_number', { ascending: false })
+
+    if (filters.clientId) {
+      query = query.eq('client_id', filters.clientId)
+    }
+    if (filters.status) {
+      query = query.eq('status', filters.status)
+    }
+
+    const { data, error } = await query
+    if (error) throw error
+    return (data || []) as unknown as InvoiceWithClient[]
+  }
+
+  static async fetchInvoice(id: string): Promise<Invoice> {
+    const { data, error } = await supabase
+      .from('invoices')
+      .select('*')
+      .eq('id', id)
+      .single()
+
+    if (error) throw error
+    return data
+  }
+
+  static async fetchPayments(invoiceId: string): Promise<Payment[]> {
+    const { data, error } = await supabase
+      .from('payments')
+      .select('*')
+      .eq('invoice_id', invoiceId)
+      .order('created_at', { ascending: true })
+
+    if (error) throw error
+    return data || []
+  }
+
+  // Numbering, totals and the supplier snapshot are filled in by the database
+  static async create(invoice: {
+    client_id: string
+    booking_id?: string | null
+    line_items: InvoiceLineItem[]
+    issue_date?: Date
+    notes?: string
+  }): Promise<Invoice> {
+    const items = invoice.line_items.filter(item => item.description.trim() && item.quantity > 0)
+    if (items.length === 0) {
+      throw new Error('Add at least one line item')
+    }
+
+    const { data, error } = await supabase
+      .from('invoices')
+      .insert({
+        client_id: invoice.client_id,
+        booking_id: invoice.booking_id || null,
+        issue_date: format(invoice.issue_date || new Date(), 'yyyy-MM-dd'),
+        line_items: items.map(item => ({
+          description: item.description.trim(),
+          quantity: item.quantity,
+          unit_price: roundCents(item.unit_price)
+        })),
+        bill_to: await this.billTo(invoice.client_id),
+        notes: invoice.notes || null
+      })
+      .select()
+      .single()
+
+    if (error) throw error
+    return data
+  }
+
+  // Line item priced from the booking's service
+  static async bookingLineItem(booking: Pick<Booking, 'service_type' | 'service_type_id' | 'appointment_date'>): Promise<InvoiceLineItem> {
+    let price = 0
+    if (booking.service_type_id) {
+      const { data, error } = await supabase
+        .from('service_types')
+        .select('price')
+        .eq('id', booking.service_type_id)
+        .maybeSingle()
+
+      if (error) throw error
+      price = Number(data?.price) || 0
+    }
+
+    return {
+      description: `${booking.service_type} (${format(new Date(booking.appointment_date), 'd MMM yyyy')})`,
+      quantity: 1,
+      unit_price: price
+    }
+  }
+
+  static async findForBooking(bookingId: string): Promise<Invoice | null> {
+    const { data, error } = await supabase
+      .from('invoices')
+      .select('*')
+      .eq('booking_id', bookingId)
+      .neq('status', 'void')
+      .maybeSingle()
+
+    if (error) throw error
+    return data
+  }
+
+  // Recipient details as they stand when the invoice is issued
+  static async billTo(clientId: string): Promise<InvoiceParty> {
+    const { data: client, error } = await supabase
+      .from('clients')
+      .select('client_code, profile_id, profile:profiles!clients_profile_id_fkey(first_name, last_name, email, phone)')
+      .eq('id', clientId)
+      .single()
+
+    if (error) throw error
+
+    const profile = client.profile as unknown as {
+      first_name: string | null
+      last_name: string | null
+      email: string | null
+      phone: string | null
+    } | null
+
+    const { data: onboarding } = await supabase
+      .from('client_onboarding_data')
+      .select('address_1, address_2, suburb, city, province, postal_code')
+      .eq('client_id', client.profile_id)
+      .order('created_at', { ascending: false })
+      .limit(1)
+
+    const address = onboarding?.[0]
+      ? [
+          onboarding[0].address_1,
+          onboarding[0].address_2,
+          onboarding[0].suburb,
+          onboarding[0].city,
+          [onboarding[0].province, onboarding[0].postal_code].filter(Boolean).join(' ')
+        ].filter(Boolean).join('\n')
+      : ''
+
+    return {
+      name: [profile?.first_name, profile?.last_name].filter(Boolean).join(' ') || client.client_code,
+      client_code: client.client_code,
+      email: profile?.email || '',
+      phone: profile?.phone || '',
+      address
+    }
+  }
+
+  static async void(invoice: Invoice) {
+    if (invoice.amount_paid > 0) {
+      throw new Error('Refund the payments before voiding this invoice')
+    }
+
+    const { error } = await supabase
+      .from('invoices')
+      .update({ status: 'void' })
+      .eq('id', invoice.id)
+
+    if (error) throw error
+  }
+
+  // Charges through the processor when it's integrated, otherwise records a payment
+  // already taken (EFT, card machine) against its transaction reference. Integrated
+  // charges are recorded as pending first so a charge is never taken without a row
+  static async recordPayment(payment: {
+    invoice: Invoice
+    amount: number
+    method: PaymentMethod
+    processor?: PaymentProcessorId | null
+    transactionId?: string
+    notes?: string
+    recordedBy?: string
+  }): Promise<Payment> {
+    const { invoice } = payment
+    const amount = roundCents(payment.amount)
+    if (!(amount > 0)) {
+      throw new Error('Enter an amount greater than zero')
+    }
+    if (amount > this.balance(invoice)) {
+      throw new Error('The payment is more than the balance due')
+    }
+
+    const integration = PaymentProcessors.get(payment.processor)
+
+    const { data, error } = await supabase
+      .from('payments')
+      .insert({
+        invoice_id: invoice.id,
+        client_id: invoice.client_id,
+        booking_id: invoice.booking_id,
+        amount,
+        currency: invoice.currency,
+        payment_type: 'payment',
+        payment_method: payment.method,
+        payment_processor: payment.processor || null,
+        payment_status: integration ? 'pending' : 'completed',
+        transaction_id: payment.transactionId || null,
+        reference_number: invoice.invoice_number,
+        vat_amount: roundCents(calculateVAT(amount, invoice.vat_rate / (1 + invoice.vat_rate))),
+        notes: payment.notes || null,
+        recorded_by: payment.recordedBy || null
+      })
+      .select()
+      .single()
+
+    if (error) throw error
+    if (!integration) return data
+
+    return this.settle(data, 'The payment was declined', () => integration.charge({
+      amount,
+      currency: invoice.currency,
+      method: payment.method,
+      reference: invoice.invoice_number
+    }))
+  }
+
+  // Refunds through the original processor when integrated, otherwise records a manual refund
+  static async refund(refund: {
+    payment: Payment
+    amount: number
+    reason?: string
+    recordedBy?: string
+  }): Promise<Payment> {
+    const { payment } = refund
+    const amount = roundCents(refund.amount)
+    if (!(amount > 0)) {
+      throw new Error('Enter an amount greater than zero')
+    }
+
+    // Checked against the stored payment and its refunds, not the copy on screen
+    const { data: related, error: relatedError } = await supabase
+      .from('payments')
+      .select('*')
+      .or(`id.eq.${payment.id},refund_of.eq.${payment.id}`)
+
+    if (relatedError) throw relatedError
+    const original = (related || []).find(candidate => candidate.id === payment.id)
+    if (!original || amount > this.refundable(original, related || [])) {
+      throw new Error('The refund is more than the amount still refundable')
+    }
+
+    const transactionId = original.transaction_id
+    const integration = transactionId ? PaymentProcessors.get(original.payment_processor) : undefined
+
+    const { data, error } = await supabase
+      .from('payments')
+      .insert({
+        refund_of: original.id,
+        invoice_id: original.invoice_id,
+        client_id: original.client_id,
+        amount,
+        currency: original.currency,
+        payment_type: 'refund',
+        payment_method: original.payment_method,
+        payment_processor: original.payment_processor,
+        payment_status: integration ? 'pending' : 'completed',
+        transaction_id: null,
+        reference_number: original.reference_number,
+        notes: refund.reason || null,
+        recorded_by: refund.recordedBy || null
+      })
+      .select()
+      .single()
+
+    if (error) throw error
+    if (!integration || !transactionId) return data
+
+    return this.settle(data, 'The refund was declined', () => integration.refund({
+      amount,
+      currency: original.currency,
+      transaction_id: transactionId,
+      reason: refund.reason
+    }))
+  }
+
+  // Calls the processor for a pending row and records its answer on that row.
+  // A call that throws leaves the row failed so it doesn't stay pending forever
+  private static async settle(
+    pending: Payment,
+    declined: string,
+    call: () => Promise<ProcessorResult>
+  ): Promise<Payment> {
+    let result: ProcessorResult
+    try {
+      result = await call()
+    } catch (processorError) {
+      await supabase
+        .from('payments')
+        .update({ payment_status: 'failed' })
+        .eq('id', pending.id)
+      throw processorError
+    }
+
+    const { data, error } = await supabase
+      .from('payments')
+      .update({
+        payment_status: result.status,
+        transaction_id: result.transaction_id
+      })
+      .eq('id', pending.id)
+      .select()
+      .single()
+
+    if (error) throw error
+    if (result.status === 'failed') {
+      throw new Error(result.message || declined)
+    }
+    return data
+  }
+
+  // Amount of a payment that can still be refunded; refunds still with the processor count
+  static refundable(payment: Payment, payments: Payment[]): number {
+    if (payment.payment_type !== 'payment' || payment.payment_status !== 'completed') return 0
+    const refunded = payments
+      .filter(candidate =>
+        candidate.refund_of === payment.id &&
+        (candidate.payment_status === 'completed' || candidate.payment_status === 'pending')
+      )
+      .reduce((sum, candidate) => sum + candidate.amount, 0)
+    return roundCents(payment.amount - refunded)
+  }
+
+  static clientName(invoice: InvoiceWithClient): string {
+    const profile = invoice.client?.profile
+    const name = [profile?.first_name, profile?.last_name].filter(Boolean).join(' ')
+    return name || invoice.bill_to?.name || invoice.client?.client_code || 'Client'
+  }
+
+  // User-facing message for errors raised by the invoice and payment triggers
+  static describeError(error: unknown): string {
+    const { code, message } = (error || {}) as { code?: string; message?: string }
+
+    if (code === '23505') {
+      return 'This booking already has an invoice. Void it before issuing another.'
+    }
+    if (code === '23514' && message) {
+      return message
+    }
+    if (error instanceof Error && !code) {
+      return error.message
+    }
+    return 'Error saving the invoice. Please try again.'
+  }
+}
@@ -0,0 +1,106 @@
+import type { Worker } from 'tesseract.js'
+// The engine, its WASM core and the English model are bundled with the app so OCR never leaves the browser
+import workerPath from 'tesseract.js/dist/worker.min.js?url'
+import corePath from 'tesseract.js-core/tesseract-core-lstm.wasm.js?url'
+import simdCorePath from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url'
+import englishModelPath from '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url'
+
+// Values read below this confidence (0-100) must be checked by a person before they are trusted
+export const LOW_CONFIDENCE_THRESHOLD = 80
+
+export interface OCRWord {
+  text: string
+  confidence: number
+}
+
+export interface OCRLine {
+  text: string
+  confidence: number
+  words: OCRWord[]
+}
+
+export interface OCRResult {
+  text: string
+  confidence: number
+  lines: OCRLine[]
+}
+
+// Smallest module using a SIMD instruction; validates only where WebAssembly SIMD is available
+const SIMD_PROBE = new Uint8Array([
+  0, 97, 115, 109, 1, 0, 0, 0, 1, 5, 1, 96, 0, 1, 123, 3, 2, 1, 0, 10, 10, 1, 8, 0, 65, 0, 253, 15, 253, 98, 11
+])
+
+export class OCREngine {
+  private static worker: Promise<Worker> | null = null
+  private static progressHandler?: (progress: number) => void
+
+  static async recognize(image: Blob, onProgress?: (progress: number) => void): Promise<OCRResult> {
+    const worker = await this.getWorker()
+    this.progressHandler = onProgress
+
+    try {
+      const { data } = await worker.recognize(image)
+      return {
+        text: data.text,
+        confidence: data.confidence,
+        lines: data.lines.map(line => ({
+          text: line.text.trim(),
+          confidence: line.confidence,
+          words: line.words.map(word => ({ text: word.text, confidence: word.confidence }))
+        }))
+      }
+    } finally {
+      this.progressHandler = undefined
+    }
+  }
+
+  // Confidence of the word holding `value` on the OCR line that produced `lineText`
+  static valueConfidence(result: OCRResult, lineText: string, value: string): number | undefined {
+    const line = result.lines.find(candidate => candidate.text === lineText.trim())
+    if (!line) return undefined
+
+    const word = line.words.find(candidate => candidate.text.includes(value))
+    return Math.round(word ? word.confidence : line.confidence)
+  }
+
+  static isLowConfidence(confidence?: number): boolean {
+    return confidence !== undefined && confidence < LOW_CONFIDENCE_THRESHOLD
+  }
+
+  static async terminate() {
+    if (!this.worker) return
+    const worker = await this.worker
+    this.worker = null
+    await worker.terminate()
+  }
+
+  private static getWorker(): Promise<Worker> {
+    if (!this.worker) {
+      this.worker = (async () => {
+        const [{ createWorker, OEM }, model] = await Promise.all([
+          import('tesseract.js'),
+          fetch(englishModelPath).then(response => {
+            if (!response.ok) throw new Error('Could not load the OCR language model')
+            return response.arrayBuffer()
+          })
+        ])
+
+        return createWorker([{ code: 'eng', data: new Uint8Array(model) }], OEM.LSTM_ONLY, {
+          workerPath,
+          corePath: WebAssembly.validate(SIMD_PROBE) ? simdCorePath : corePath,
+          workerBlobURL: false,
+          cacheMethod: 'none',
+          logger: message => {
+            if (message.status === 'recognizing text') this.progressHandler?.(message.progress)
+          }
+        })
+      })()
+
+      this.worker.catch(() => {
+        this.worker = null
+      })
+    }
+
+    return this.worker
+  }
+}
@@ -0,0 +1,189 @@
+import { supabase } from './supabase'
+
+export interface PathIDDefinition {
+  path_id: string
+  name: string
+  description: string
+  unit: string
+  category: string
+  display_order: number
+  created_at?: string
+  updated_at?: string
+}
+
+export interface UnknownPathID {
+  path_id: string
+  occurrences: number
+  sample_value: string | null
+  sample_unit: string | null
+  source_file: string | null
+  first_seen_at: string
+  last_seen_at: string
+}
+
+export const PATH_ID_CATEGORIES = [
+  'Overview',
+  'Body Composition',
+  'Cardiovascular',
+  'Metabolic',
+  'Musculoskeletal',
+  'Hydration',
+  'Digestive',
+  'Endocrine',
+  'Immune',
+  'Nervous System',
+  'Other'
+]
+
+const UNCATEGORISED = 'Other'
+
+export class PathIDDictionary {
+  private static cache: Map<string, PathIDDefinition> | null = null
+  private static pending: Promise<Map<string, PathIDDefinition>> | null = null
+
+  static async load(forceRefresh = false): Promise<Map<string, PathIDDefinition>> {
+    if (this.cache && !forceRefresh) return this.cache
+    if (this.pending && !forceRefresh) return this.pending
+
+    this.pending = (async () => {
+      try {
+        const { data, error } = await supabase
+          .from('path_id_definitions')
+          .select('*')
+          .order('display_order', { ascending: true })
+
+        if (error) throw error
+
+        this.cache = new Map((data || []).map((definition: PathIDDefinition) => [definition.path_id, definition]))
+      } catch (error) {
+        console.error('Error loading Path ID dictionary:', error)
+        this.cache = this.cache || new Map()
+      } finally {
+        this.pending = null
+      }
+      return this.cache
+    })()
+
+    return this.pending
+  }
+
+  static invalidate() {
+    this.cache = null
+  }
+
+  // Fills name, description, canonical unit and category from the dictionary
+  static describe<T extends {
+    path_id: string
+    name?: string
+    description?: string
+    unit?: string
+    category?: string
+  }>(pathIDs: T[], dictionary: Map<string, PathIDDefinition>): T[] {
+    return pathIDs.map(pathID => {
+      const definition = dictionary.get(pathID.path_id.toString().trim())
+      if (!definition) {
+        return { ...pathID, category: pathID.category || UNCATEGORISED }
+      }
+
+      return {
+        ...pathID,
+        name: definition.name,
+        description: definition.description || definition.name,
+        unit: pathID.unit || definition.unit,
+        category: definition.category
+      }
+    })
+  }
+
+  // Orders Path IDs by category then display order, returning one group per category
+  static group<T extends { path_id: string; category?: string }>(
+    pathIDs: T[],
+    dictionary: Map<string, PathIDDefinition>
+  ): Array<{ category: string; items: T[] }> {
+    const orderOf = (pathID: T) => dictionary.get(pathID.path_id)?.display_order ?? Number.MAX_SAFE_INTEGER
+    const categoryRank = (category: string) => {
+      const index = PATH_ID_CATEGORIES.indexOf(category)
+      return index === -1 ? PATH_ID_CATEGORIES.length : index
+    }
+
+    const groups = new Map<string, T[]>()
+    for (const pathID of pathIDs) {
+      const category = dictionary.get(pathID.path_id)?.category || pathID.category || UNCATEGORISED
+      groups.set(category, [...(groups.get(category) || []), pathID])
+    }
+
+    return Array.from(groups.entries())
+      .sort(([a], [b]) => categoryRank(a) - categoryRank(b) || a.localeCompare(b))
+      .map(([category, items]) => ({
+        category,
+        items: [...items].sort((a, b) => orderOf(a) - orderOf(b) || a.path_id.localeCompare(b.path_id))
+      }))
+  }
+
+  static async queueUnknown(
+    pathIDs: Array<{ path_id: string; value: string | number; unit?: string }>,
+    dictionary: Map<string, PathIDDefinition>,
+    sourceFile: string
+  ): Promise<string[]> {
+    const unknown = pathIDs.filter(pathID => !dictionary.has(pathID.path_id.toString().trim()))
+    if (unknown.length === 0) return []
+
+    const { error } = await supabase.rpc('queue_unknown_path_ids', {
+      path_ids: unknown.map(pathID => pathID.path_id.toString().trim()),
+      sample_values: unknown.map(pathID => pathID.value?.toString() ?? ''),
+      sample_units: unknown.map(pathID => pathID.unit || ''),
+      source_file: sourceFile
+    })
+
+    if (error) {
+      console.error('Error queueing unknown Path IDs:', error)
+    }
+
+    return unknown.map(pathID => pathID.path_id)
+  }
+
+  static async fetchUnknown(): Promise<UnknownPathID[]> {
+    const { data, error } = await supabase
+      .from('unknown_path_ids')
+      .select('*')
+      .order('occurrences', { ascending: false })
+
+    if (error) throw error
+    return data || []
+  }
+
+  static async save(definition: PathIDDefinition): Promise<void> {
+    const { error } = await supabase
+      .from('path_id_definitions')
+      .upsert({
+        path_id: definition.path_id.trim(),
+        name: definition.name.trim(),
+        description: definition.description,
+        unit: definition.unit,
+        category: definition.category,
+        display_order: definition.display_order
+      })
+
+    if (error) throw error
+    this.invalidate()
+  }
+
+  static async remove(pathID: string): Promise<void> {
+    const { error } = await supabase
+      .from('path_id_definitions')
+      .delete()
+      .eq('path_id', pathID)
+
+    if (error) throw error
+    this.invalidate()
+  }
+
+  static async dismissUnknown(pathID: string): Promise<void> {
+    const { error } = await supabase
+      .from('unknown_path_ids')
+      .delete()
+      .eq('path_id', pathID)
+
+    if (error) throw error
+  }
+}
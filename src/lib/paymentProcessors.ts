@@ -0,0 +1,114 @@
+export type PaymentMethod = 'card' | 'eft' | 'instant_eft' | 'qr_code' | 'bank_transfer'
+
+export type PaymentProcessorId = 'paygate' | 'ozow' | 'peach' | 'yoco' | 'snapscan' | 'zapper' | 'stripe' | 'mock'
+
+export interface ChargeRequest {
+  amount: number
+  currency: string
+  method: PaymentMethod
+  // Invoice number, shown on the client's statement
+  reference: string
+  description?: string
+}
+
+export interface RefundRequest {
+  amount: number
+  currency: string
+  transaction_id: string
+  reason?: string
+}
+
+export interface ProcessorResult {
+  status: 'completed' | 'pending' | 'failed'
+  transaction_id: string
+  message?: string
+}
+
+// Integrations that take payments themselves. Payments received outside the app
+// (EFT, card machines) are recorded against a processor without one.
+export interface PaymentProcessor {
+  id: PaymentProcessorId
+  name: string
+  methods: PaymentMethod[]
+  charge(request: ChargeRequest): Promise<ProcessorResult>
+  refund(request: RefundRequest): Promise<ProcessorResult>
+}
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  card: 'Card',
+  eft: 'EFT',
+  instant_eft: 'Instant EFT',
+  qr_code: 'QR Code',
+  bank_transfer: 'Bank Transfer'
+}
+
+export const PAYMENT_PROCESSOR_LABELS: Record<PaymentProcessorId, string> = {
+  paygate: 'PayGate',
+  ozow: 'Ozow',
+  peach: 'Peach Payments',
+  yoco: 'Yoco',
+  snapscan: 'SnapScan',
+  zapper: 'Zapper',
+  stripe: 'Stripe',
+  mock: 'Test Processor'
+}
+
+// Methods each processor supports when recording a payment taken outside the app
+export const PROCESSOR_METHODS: Record<PaymentProcessorId, PaymentMethod[]> = {
+  paygate: ['card', 'instant_eft'],
+  ozow: ['instant_eft'],
+  peach: ['card', 'instant_eft'],
+  yoco: ['card'],
+  snapscan: ['qr_code'],
+  zapper: ['qr_code'],
+  stripe: ['card'],
+  mock: ['card', 'instant_eft', 'qr_code']
+}
+
+// Simulated latency so loading states can be seen
+const MOCK_DELAY_MS = 600
+
+// Local processor for testing. Declines amounts ending in 99 cents (e.g. R100.99).
+export class MockPaymentProcessor implements PaymentProcessor {
+  id: PaymentProcessorId = 'mock'
+  name = PAYMENT_PROCESSOR_LABELS.mock
+  methods = PROCESSOR_METHODS.mock
+
+  async charge(request: ChargeRequest): Promise<ProcessorResult> {
+    await new Promise(resolve => setTimeout(resolve, MOCK_DELAY_MS))
+
+    if (Math.round(request.amount * 100) % 100 === 99) {
+      return { status: 'failed', transaction_id: this.transactionId('charge'), message: 'Card declined by the test processor' }
+    }
+    return { status: 'completed', transaction_id: this.transactionId('charge') }
+  }
+
+  async refund(request: RefundRequest): Promise<ProcessorResult> {
+    await new Promise(resolve => setTimeout(resolve, MOCK_DELAY_MS))
+    return { status: 'completed', transaction_id: this.transactionId(`refund_${request.transaction_id}`) }
+  }
+
+  private transactionId(kind: string): string {
+    return `mock_${kind}_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`
+  }
+}
+
+export class PaymentProcessors {
+  private static processors = new Map<PaymentProcessorId, PaymentProcessor>()
+
+  static register(processor: PaymentProcessor) {
+    this.processors.set(processor.id, processor)
+  }
+
+  static get(id: PaymentProcessorId | null | undefined): PaymentProcessor | undefined {
+    return id ? this.processors.get(id) : undefined
+  }
+
+  static list(method?: PaymentMethod): PaymentProcessor[] {
+    return Array.from(this.processors.values()).filter(processor => !method || processor.methods.includes(method))
+  }
+}
+
+if (import.meta.env.DEV || import.meta.env.VITE_ENABLE_MOCK_PAYMENTS === 'true') {
+  PaymentProcessors.register(new MockPaymentProcessor())
+}
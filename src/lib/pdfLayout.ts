@@ -0,0 +1,240 @@
+import * as pdfjsLib from 'pdfjs-dist'
+import type { TextItem } from 'pdfjs-dist/types/src/display/api'
+// Bundled with the app so PDFs can be read without internet access
+import pdfWorkerPath from 'pdfjs-dist/build/pdf.worker.min.js?url'
+
+pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorkerPath
+
+export interface PDFCell {
+  text: string
+  x: number
+  xEnd: number
+}
+
+export interface PDFRow {
+  page: number
+  y: number
+  cells: PDFCell[]
+  text: string
+}
+
+export interface PDFTableReading {
+  path_id: string
+  value: string | number
+  unit?: string
+  reference_range?: string
+  page: number
+}
+
+type ColumnRole = 'path_id' | 'value' | 'unit' | 'range'
+
+interface HeaderColumn {
+  // Unrecognised headers still claim their cells so they don't leak into neighbouring columns
+  role: ColumnRole | null
+  cell: PDFCell
+}
+
+const HEADER_PATTERNS: Record<ColumnRole, RegExp> = {
+  path_id: /^(path\s*id|id|code|parameter|test|marker|measurement|item|analyte|description|name)s?$/i,
+  value: /^(value|result|reading|score|measured|actual)s?$/i,
+  unit: /^(unit|units|uom)$/i,
+  range: /(range|reference|normal|ref\.?|interval)/i
+}
+
+const NUMERIC_VALUE = /^[<>≤≥]?\s*-?\d+(?:[.,]\d+)?\s*([A-Za-z/%µ]+[A-Za-z0-9/%²³]*)?$/
+const RANGE_VALUE = /^([<>≤≥]\s*\d|\d+(?:[.,]\d+)?\s*[-–]\s*\d)/
+const PATH_ID_VALUE = /^[A-Za-z][A-Za-z0-9 _./()-]{0,60}$/
+const NOISE_ROW = /^(page\s+\d+|\d+\s*(of|\/)\s*\d+$)/i
+
+export class PDFLayout {
+  // Rebuilds visual rows and cells from pdf.js text item positions
+  static async extractRows(data: ArrayBuffer): Promise<PDFRow[]> {
+    const pdf = await pdfjsLib.getDocument({ data }).promise
+    const rows: PDFRow[] = []
+
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber)
+      const textContent = await page.getTextContent()
+      const items = (textContent.items as TextItem[])
+        .filter(item => typeof item.str === 'string' && item.str.trim())
+
+      rows.push(...this.groupRows(items, pageNumber))
+    }
+
+    return rows
+  }
+
+  static rowsToText(rows: PDFRow[]): string {
+    return rows.map(row => row.text).join('\n')
+  }
+
+  // Finds Path ID/value/unit/range tables, either under a recognised header row or as runs of id + number rows
+  static findPathIDTable(rows: PDFRow[]): PDFTableReading[] {
+    const readings: PDFTableReading[] = []
+    const used = new Set<number>()
+    // Repeated headers and continuation rows must not report a reading twice on the same page
+    const seen = new Set<string>()
+    const add = (reading: PDFTableReading) => {
+      const key = `${reading.page}:${reading.path_id}`
+      if (seen.has(key)) return
+      seen.add(key)
+      readings.push(reading)
+    }
+
+    rows.forEach((row, index) => {
+      const columns = this.headerColumns(row)
+      if (!columns) return
+
+      let misses = 0
+      for (let next = index + 1; next < rows.length && misses < 2; next++) {
+        // The next header starts its own table
+        if (this.headerColumns(rows[next])) break
+        if (used.has(next)) continue
+
+        const reading = this.readHeaderRow(rows[next], columns)
+        if (reading) {
+          add(reading)
+          used.add(next)
+          misses = 0
+        } else {
+          misses++
+        }
+      }
+    })
+
+    if (readings.length > 0) return readings
+
+    // No header found: accept runs of three or more rows that look like "id  value  [unit]  [range]"
+    let run: PDFTableReading[] = []
+    const flush = () => {
+      if (run.length >= 3) run.forEach(add)
+      run = []
+    }
+
+    rows.forEach((row, index) => {
+      if (used.has(index)) return
+      const reading = this.readPositionalRow(row)
+      if (reading) run.push(reading)
+      else flush()
+    })
+    flush()
+
+    return readings
+  }
+
+  private static groupRows(items: TextItem[], page: number): PDFRow[] {
+    const sorted = [...items].sort((a, b) => b.transform[5] - a.transform[5] || a.transform[4] - b.transform[4])
+    const lines: Array<{ y: number; height: number; items: TextItem[] }> = []
+
+    for (const item of sorted) {
+      const y = item.transform[5]
+      const height = item.height || Math.abs(item.transform[3]) || 10
+      const line = lines.find(candidate => Math.abs(candidate.y - y) <= Math.max(2, Math.min(candidate.height, height) * 0.5))
+
+      if (line) {
+        line.items.push(item)
+      } else {
+        lines.push({ y, height, items: [item] })
+      }
+    }
+
+    return lines.map(line => {
+      const cells: PDFCell[] = []
+      const lineItems = line.items.sort((a, b) => a.transform[4] - b.transform[4])
+
+      for (const item of lineItems) {
+        const x = item.transform[4]
+        const xEnd = x + (item.width || item.str.length * line.height * 0.5)
+        const previous = cells[cells.length - 1]
+
+        // Items closer than about half a character height belong to the same cell
+        if (previous && x - previous.xEnd < line.height * 0.5) {
+          const gap = x - previous.xEnd > line.height * 0.15 ? ' ' : ''
+          previous.text = `${previous.text}${gap}${item.str}`.replace(/\s+/g, ' ')
+          previous.xEnd = Math.max(previous.xEnd, xEnd)
+        } else {
+          cells.push({ text: item.str.trim(), x, xEnd })
+        }
+      }
+
+      const trimmed = cells.map(cell => ({ ...cell, text: cell.text.trim() })).filter(cell => cell.text)
+      return {
+        page,
+        y: line.y,
+        cells: trimmed,
+        text: trimmed.map(cell => cell.text).join('  ')
+      }
+    })
+  }
+
+  private static headerColumns(row: PDFRow): HeaderColumn[] | null {
+    const columns: HeaderColumn[] = []
+
+    for (const cell of row.cells) {
+      const role = (Object.keys(HEADER_PATTERNS) as ColumnRole[])
+        .find(candidate => !columns.some(column => column.role === candidate) && HEADER_PATTERNS[candidate].test(cell.text.trim()))
+      columns.push({ role: role || null, cell })
+    }
+
+    const roles = columns.map(column => column.role)
+    return roles.includes('path_id') && roles.includes('value') ? columns : null
+  }
+
+  private static readHeaderRow(row: PDFRow, columns: HeaderColumn[]): PDFTableReading | null {
+    if (NOISE_ROW.test(row.text)) return null
+
+    const assigned: Partial<Record<ColumnRole, string>> = {}
+
+    // Each cell belongs to the header column whose span it overlaps most, falling back to the nearest start
+    for (const cell of row.cells) {
+      let best: HeaderColumn | null = null
+      let bestScore = -Infinity
+
+      for (const column of columns) {
+        const overlap = Math.min(cell.xEnd, column.cell.xEnd) - Math.max(cell.x, column.cell.x)
+        const score = overlap > 0 ? overlap : -Math.abs(cell.x - column.cell.x)
+        if (score > bestScore) {
+          best = column
+          bestScore = score
+        }
+      }
+
+      const role = best?.role
+      if (role) assigned[role] = assigned[role] ? `${assigned[role]} ${cell.text}` : cell.text
+    }
+
+    return this.buildReading(assigned, row.page)
+  }
+
+  private static readPositionalRow(row: PDFRow): PDFTableReading | null {
+    if (row.cells.length < 2 || row.cells.length > 4 || NOISE_ROW.test(row.text)) return null
+
+    const [pathID, value, ...rest] = row.cells.map(cell => cell.text)
+    return this.buildReading({
+      path_id: pathID,
+      value,
+      unit: rest.find(text => !RANGE_VALUE.test(text)),
+      range: rest.find(text => RANGE_VALUE.test(text))
+    }, row.page)
+  }
+
+  private static buildReading(cells: Partial<Record<ColumnRole, string>>, page: number): PDFTableReading | null {
+    const pathID = cells.path_id?.trim()
+    const valueText = cells.value?.trim()
+    if (!pathID || !valueText || !PATH_ID_VALUE.test(pathID)) return null
+
+    const match = valueText.match(NUMERIC_VALUE)
+    if (!match) return null
+
+    const numericText = valueText.replace(match[1] || '', '').trim()
+    const numeric = Number(numericText.replace(',', '.'))
+
+    return {
+      path_id: pathID,
+      value: /^[<>≤≥]/.test(numericText) || isNaN(numeric) ? numericText : numeric,
+      unit: cells.unit?.trim() || match[1] || undefined,
+      reference_range: cells.range?.trim() || undefined,
+      page
+    }
+  }
+}
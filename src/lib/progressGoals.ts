@@ -0,0 +1,216 @@
+import { isAfter, isBefore, parseISO } from 'date-fns'
+import { supabase } from './supabase'
+import { ChangeDetector } from './changeDetection'
+import { HEADLINE_METRICS, HeadlineMetric, PassportScan } from './wellnessPassport'
+
+export type GoalMetric = HeadlineMetric['key']
+export type GoalStatus = 'active' | 'archived'
+
+export interface ClientGoal {
+  id: string
+  client_id: string
+  transformation_reason: string
+  metric: GoalMetric
+  start_value: number
+  target_value: number
+  start_date: string
+  target_date: string | null
+  notes: string
+  status: GoalStatus
+  created_at: string
+}
+
+export interface GoalInput {
+  transformation_reason: string
+  metric: GoalMetric
+  start_value: number
+  target_value: number
+  target_date: string | null
+  notes: string
+}
+
+export interface GoalMilestone {
+  // Share of the way from start to target
+  percent: number
+  value: number
+  reached_at: string | null
+}
+
+export interface GoalProgress {
+  current: number
+  // Clamped to 0-100
+  percent: number
+  milestones: GoalMilestone[]
+  achieved: boolean
+  // Past the target date without reaching the target
+  overdue: boolean
+  // The target moves the metric away from what the scanner considers healthy
+  against_recommendation: boolean
+}
+
+export interface ProgressData {
+  clientId: string | null
+  scans: PassportScan[]
+  goals: ClientGoal[]
+  reasons: string[]
+}
+
+// Options offered in the onboarding wizard's transformation step
+export const TRANSFORMATION_REASONS = [
+  'Career & Education',
+  'Financial Wellness',
+  'Relationships & Social Connections',
+  'Physical Health & Fitness',
+  'Personal Development & Self-Improvement',
+  'Sports and Recreation',
+  'Other'
+]
+
+export const GOAL_METRICS = HEADLINE_METRICS
+
+export const MILESTONE_PERCENTS = [25, 50, 75, 100]
+
+const SCAN_COLUMNS = `id, scan_date, ${GOAL_METRICS.map(metric => metric.key).join(', ')}`
+
+export class ProgressGoals {
+  // RLS limits every query to the signed-in client's own rows
+  static async load(profileId: string): Promise<ProgressData> {
+    const [clientResponse, onboardingResponse] = await Promise.all([
+      supabase
+        .from('clients')
+        .select('id')
+        .eq('profile_id', profileId)
+        .order('created_at', { ascending: false })
+        .limit(1),
+      supabase
+        .from('client_onboarding_data')
+        .select('transformation_reasons, transformation_reasons_other')
+        .eq('client_id', profileId)
+        .order('created_at', { ascending: false })
+        .limit(1)
+    ])
+
+    if (clientResponse.error) throw clientResponse.error
+    if (onboardingResponse.error) throw onboardingResponse.error
+
+    const reasons = this.reasons(onboardingResponse.data?.[0])
+    const client = clientResponse.data?.[0]
+    if (!client) return { clientId: null, scans: [], goals: [], reasons }
+
+    const [scansResponse, goalsResponse] = await Promise.all([
+      supabase
+        .from('scans')
+        .select(SCAN_COLUMNS)
+        .eq('client_id', client.id)
+        .order('scan_date', { ascending: true }),
+      supabase
+        .from('client_goals')
+        .select('*')
+        .eq('client_id', client.id)
+        .order('created_at', { ascending: true })
+    ])
+
+    if (scansResponse.error) throw scansResponse.error
+    if (goalsResponse.error) throw goalsResponse.error
+
+    return {
+      clientId: client.id,
+      scans: (scansResponse.data || []) as unknown as PassportScan[],
+      goals: (goalsResponse.data || []).map(goal => ({
+        ...goal,
+        start_value: Number(goal.start_value),
+        target_value: Number(goal.target_value)
+      })),
+      reasons
+    }
+  }
+
+  static async save(clientId: string, input: GoalInput, goal?: ClientGoal): Promise<void> {
+    const { error } = goal
+      ? await supabase.from('client_goals').update(input).eq('id', goal.id)
+      : await supabase.from('client_goals').insert({ ...input, client_id: clientId })
+
+    if (error) throw error
+  }
+
+  static async setStatus(goal: ClientGoal, status: GoalStatus): Promise<void> {
+    const { error } = await supabase
+      .from('client_goals')
+      .update({ status })
+      .eq('id', goal.id)
+
+    if (error) throw error
+  }
+
+  static async remove(goal: ClientGoal): Promise<void> {
+    const { error } = await supabase
+      .from('client_goals')
+      .delete()
+      .eq('id', goal.id)
+
+    if (error) throw error
+  }
+
+  // Reasons chosen during onboarding; "Other" is replaced by what the client wrote
+  static reasons(onboarding?: { transformation_reasons: string[] | null; transformation_reasons_other: string | null }): string[] {
+    const chosen = (onboarding?.transformation_reasons || []).map(reason =>
+      reason === 'Other' && onboarding?.transformation_reasons_other?.trim()
+        ? onboarding.transformation_reasons_other.trim()
+        : reason
+    )
+    return Array.from(new Set(chosen))
+  }
+
+  static latestValue(scans: PassportScan[], metric: GoalMetric): number | null {
+    for (let index = scans.length - 1; index >= 0; index--) {
+      const value = scans[index][metric]
+      if (value !== null && value !== undefined) return Number(value)
+    }
+    return null
+  }
+
+  // Scans must be ordered by date. Only scans taken since the goal was set count towards it.
+  static progress(goal: ClientGoal, scans: PassportScan[], today = new Date()): GoalProgress {
+    const span = goal.target_value - goal.start_value
+    const since = scans.filter(scan =>
+      scan[goal.metric] !== null && !isBefore(parseISO(scan.scan_date), parseISO(goal.start_date))
+    )
+    const current = since.length ? Number(since[since.length - 1][goal.metric]) : goal.start_value
+    const moved = (value: number) => (value - goal.start_value) / span * 100
+
+    const milestones = MILESTONE_PERCENTS.map(percent => ({
+      percent,
+      value: goal.start_value + span * percent / 100,
+      reached_at: since.find(scan => moved(Number(scan[goal.metric])) >= percent - 1e-9)?.scan_date || null
+    }))
+
+    const percent = Math.min(Math.max(moved(current), 0), 100)
+    const achieved = percent >= 100 - 1e-9
+    const better = ChangeDetector.getNoise(goal.metric)?.better
+
+    return {
+      current,
+      percent,
+      milestones,
+      achieved,
+      overdue: !achieved && !!goal.target_date && isAfter(today, parseISO(goal.target_date)),
+      against_recommendation: !!better && (span > 0) !== (better === 'higher')
+    }
+  }
+
+  // A target a few measurement-noise steps in the healthy direction
+  static suggestedTarget(metric: GoalMetric, current: number): number {
+    const noise = ChangeDetector.getNoise(metric)
+    if (!noise) return current
+    const step = noise.mcid * 3
+    return Math.round((noise.better === 'lower' ? current - step : current + step) * 10) / 10
+  }
+
+  static metricLabel(metric: GoalMetric): string {
+    return GOAL_METRICS.find(candidate => candidate.key === metric)?.label || metric
+  }
+
+  static metricUnit(metric: GoalMetric): string {
+    return GOAL_METRICS.find(candidate => candidate.key === metric)?.unit || ''
+  }
+}
@@ -0,0 +1,275 @@
+import { differenceInYears, parseISO } from 'date-fns'
+import { supabase } from './supabase'
+
+export type PathIDStatus = 'normal' | 'high' | 'low' | 'critical'
+
+export interface ReferenceBand {
+  sex?: 'male' | 'female'
+  min_age?: number
+  max_age?: number
+  low?: number
+  high?: number
+  critical_low?: number
+  critical_high?: number
+}
+
+export interface ReferenceRangeDefinition {
+  path_id: string
+  // The first entry is the canonical unit; further entries cover alternative device units
+  ranges: Array<{
+    unit: string
+    bands: ReferenceBand[]
+  }>
+}
+
+export interface ReferenceSubject {
+  sex?: 'male' | 'female'
+  date_of_birth?: string
+}
+
+export interface ReferenceEvaluation {
+  status?: PathIDStatus
+  reference_range?: string
+}
+
+// Reference ranges keyed by Path ID. Bands without sex/age apply to everyone;
+// the most specific matching band wins.
+const REFERENCE_RANGES: ReferenceRangeDefinition[] = [
+  {
+    path_id: 'body_score',
+    ranges: [
+      { unit: '', bands: [{ low: 55, high: 100, critical_low: 30 }] }
+    ]
+  },
+  {
+    path_id: 'body_fat_percentage',
+    ranges: [
+      {
+        unit: '%',
+        bands: [
+          { sex: 'male', max_age: 39, low: 8, high: 19, critical_low: 3, critical_high: 35 },
+          { sex: 'male', min_age: 40, max_age: 59, low: 11, high: 21, critical_low: 3, critical_high: 35 },
+          { sex: 'male', min_age: 60, low: 13, high: 24, critical_low: 3, critical_high: 38 },
+          { sex: 'female', max_age: 39, low: 21, high: 32, critical_low: 10, critical_high: 45 },
+          { sex: 'female', min_age: 40, max_age: 59, low: 23, high: 33, critical_low: 10, critical_high: 45 },
+          { sex: 'female', min_age: 60, low: 24, high: 35, critical_low: 10, critical_high: 48 },
+          { low: 10, high: 30, critical_low: 3, critical_high: 45 }
+        ]
+      }
+    ]
+  },
+  {
+    path_id: 'muscle_mass',
+    ranges: [
+      {
+        unit: 'kg',
+        bands: [
+          { sex: 'male', low: 44, high: 70, critical_low: 30 },
+          { sex: 'female', low: 32, high: 52, critical_low: 22 },
+          { low: 32, high: 70, critical_low: 22 }
+        ]
+      },
+      {
+        unit: 'lb',
+        bands: [
+          { sex: 'male', low: 97, high: 154, critical_low: 66 },
+          { sex: 'female', low: 71, high: 115, critical_low: 49 },
+          { low: 71, high: 154, critical_low: 49 }
+        ]
+      }
+    ]
+  },
+  {
+    path_id: 'visceral_fat',
+    ranges: [
+      { unit: '', bands: [{ low: 1, high: 12, critical_high: 20 }] }
+    ]
+  },
+  {
+    path_id: 'bone_density',
+    ranges: [
+      {
+        unit: 'kg',
+        bands: [
+          { sex: 'male', low: 2.5, high: 4.0, critical_low: 1.8 },
+          { sex: 'female', low: 1.8, high: 3.0, critical_low: 1.3 },
+          { low: 1.8, high: 4.0, critical_low: 1.3 }
+        ]
+      }
+    ]
+  },
+  {
+    path_id: 'hydration_level',
+    ranges: [
+      {
+        unit: '%',
+        bands: [
+          { sex: 'male', low: 50, high: 65, critical_low: 40 },
+          { sex: 'female', low: 45, high: 60, critical_low: 38 },
+          { low: 45, high: 65, critical_low: 38 }
+        ]
+      }
+    ]
+  },
+  {
+    path_id: 'metabolic_age',
+    ranges: [
+      { unit: 'years', bands: [{ low: 12, high: 90 }] }
+    ]
+  }
+]
+
+export class ReferenceRangeEngine {
+  private static catalogue = new Map(REFERENCE_RANGES.map(definition => [definition.path_id, definition]))
+
+  static getDefinition(pathID: string): ReferenceRangeDefinition | undefined {
+    return this.catalogue.get(pathID.toString().trim())
+  }
+
+  static evaluate(
+    pathID: string,
+    value: string | number,
+    unit: string | undefined,
+    subject: ReferenceSubject,
+    at?: string
+  ): ReferenceEvaluation {
+    const definition = this.getDefinition(pathID)
+    if (!definition) return {}
+
+    const range = this.selectUnitRange(definition, unit)
+    if (!range) return {}
+
+    const band = this.selectBand(range.bands, subject, at)
+    if (!band) return {}
+
+    const reference_range = this.formatBand(band, range.unit)
+    const numValue = typeof value === 'number' ? value : parseFloat(value?.toString().replace(',', '.') || '')
+
+    if (isNaN(numValue)) return { reference_range }
+
+    return {
+      status: this.classify(numValue, band),
+      reference_range
+    }
+  }
+
+  // Band that applies to a subject for a Path ID in the given unit, for charting the normal range
+  static getBand(
+    pathID: string,
+    unit: string | undefined,
+    subject: ReferenceSubject,
+    at?: string
+  ): ReferenceBand | undefined {
+    const definition = this.getDefinition(pathID)
+    if (!definition) return undefined
+
+    const range = this.selectUnitRange(definition, unit)
+    return range ? this.selectBand(range.bands, subject, at) : undefined
+  }
+
+  static annotate<T extends {
+    path_id: string
+    value: string | number
+    unit?: string
+    status?: PathIDStatus
+    reference_range?: string
+  }>(pathIDs: T[], subject: ReferenceSubject, at?: string): T[] {
+    return pathIDs.map(pathID => {
+      const evaluation = this.evaluate(pathID.path_id, pathID.value, pathID.unit, subject, at)
+      return {
+        ...pathID,
+        status: evaluation.status,
+        reference_range: evaluation.reference_range
+      }
+    })
+  }
+
+  // Builds the sex/age context for a clients.id from the profile and onboarding gender
+  static async loadSubject(clientId: string): Promise<ReferenceSubject> {
+    try {
+      const { data: client } = await supabase
+        .from('clients')
+        .select('profile_id')
+        .eq('id', clientId)
+        .maybeSingle()
+
+      if (!client?.profile_id) return {}
+
+      const [{ data: profile }, { data: onboarding }] = await Promise.all([
+        supabase
+          .from('profiles')
+          .select('date_of_birth')
+          .eq('id', client.profile_id)
+          .maybeSingle(),
+        supabase
+          .from('client_onboarding_data')
+          .select('gender')
+          .eq('client_id', client.profile_id)
+          .order('created_at', { ascending: false })
+          .limit(1)
+      ])
+
+      const gender = onboarding?.[0]?.gender
+
+      return {
+        sex: gender === 'male' || gender === 'female' ? gender : undefined,
+        date_of_birth: profile?.date_of_birth || undefined
+      }
+    } catch (error) {
+      console.error('Error loading reference subject:', error)
+      return {}
+    }
+  }
+
+  private static selectUnitRange(definition: ReferenceRangeDefinition, unit?: string) {
+    const normalizedUnit = this.normalizeUnit(unit)
+    if (!normalizedUnit) return definition.ranges[0]
+
+    return definition.ranges.find(range => this.normalizeUnit(range.unit) === normalizedUnit)
+  }
+
+  private static selectBand(bands: ReferenceBand[], subject: ReferenceSubject, at?: string): ReferenceBand | undefined {
+    const age = this.ageAt(subject.date_of_birth, at)
+
+    const candidates = bands.filter(band => {
+      if (band.sex && band.sex !== subject.sex) return false
+      if (band.min_age !== undefined || band.max_age !== undefined) {
+        if (age === undefined) return false
+        if (band.min_age !== undefined && age < band.min_age) return false
+        if (band.max_age !== undefined && age > band.max_age) return false
+      }
+      return true
+    })
+
+    const specificity = (band: ReferenceBand) =>
+      (band.sex ? 2 : 0) + (band.min_age !== undefined || band.max_age !== undefined ? 1 : 0)
+
+    return candidates.sort((a, b) => specificity(b) - specificity(a))[0]
+  }
+
+  private static classify(value: number, band: ReferenceBand): PathIDStatus {
+    if (band.critical_low !== undefined && value < band.critical_low) return 'critical'
+    if (band.critical_high !== undefined && value > band.critical_high) return 'critical'
+    if (band.low !== undefined && value < band.low) return 'low'
+    if (band.high !== undefined && value > band.high) return 'high'
+    return 'normal'
+  }
+
+  private static formatBand(band: ReferenceBand, unit: string): string {
+    const suffix = unit ? ` ${unit}` : ''
+    if (band.low !== undefined && band.high !== undefined) return `${band.low} - ${band.high}${suffix}`
+    if (band.high !== undefined) return `< ${band.high}${suffix}`
+    if (band.low !== undefined) return `> ${band.low}${suffix}`
+    return ''
+  }
+
+  private static ageAt(dateOfBirth?: string, at?: string): number | undefined {
+    if (!dateOfBirth) return undefined
+    const age = differenceInYears(at ? parseISO(at) : new Date(), parseISO(dateOfBirth))
+    return isNaN(age) ? undefined : age
+  }
+
+  private static normalizeUnit(unit?: string): string {
+    return (unit || '').trim().toLowerCase()
+  }
+}
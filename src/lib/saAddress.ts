@@ -0,0 +1,237 @@
+import { z } from 'zod'
+
+// Matches the province check on client_onboarding_data
+export const SA_PROVINCES = [
+  'Eastern Cape',
+  'Free State',
+  'Gauteng',
+  'KwaZulu-Natal',
+  'Limpopo',
+  'Mpumalanga',
+  'Northern Cape',
+  'North West',
+  'Western Cape'
+] as const
+
+export type SAProvince = typeof SA_PROVINCES[number]
+
+export interface SAAddress {
+  address1: string
+  address2: string
+  suburb: string
+  city: string
+  province: SAProvince | ''
+  postalCode: string
+}
+
+export interface SALocality {
+  suburb: string
+  city: string
+  province: SAProvince
+  postalCode: string
+}
+
+export const EMPTY_SA_ADDRESS: SAAddress = {
+  address1: '',
+  address2: '',
+  suburb: '',
+  city: '',
+  province: '',
+  postalCode: ''
+}
+
+const POSTAL_CODE_PATTERN = /^\d{4}$/
+
+// Street codes for commonly served suburbs and towns, used to suggest completions.
+// Addresses outside the list can still be typed in full.
+const LOCALITIES: Array<[string, string, SAProvince, string]> = [
+  ['Pretoria Central', 'Pretoria', 'Gauteng', '0002'],
+  ['Sunnyside', 'Pretoria', 'Gauteng', '0002'],
+  ['Arcadia', 'Pretoria', 'Gauteng', '0083'],
+  ['Hatfield', 'Pretoria', 'Gauteng', '0083'],
+  ['Lynnwood', 'Pretoria', 'Gauteng', '0081'],
+  ['Menlo Park', 'Pretoria', 'Gauteng', '0081'],
+  ['Brooklyn', 'Pretoria', 'Gauteng', '0181'],
+  ['Waterkloof', 'Pretoria', 'Gauteng', '0181'],
+  ['Moreleta Park', 'Pretoria', 'Gauteng', '0044'],
+  ['Queenswood', 'Pretoria', 'Gauteng', '0186'],
+  ['Villieria', 'Pretoria', 'Gauteng', '0186'],
+  ['Waverley', 'Pretoria', 'Gauteng', '0186'],
+  ['Pretoria North', 'Pretoria', 'Gauteng', '0182'],
+  ['Atteridgeville', 'Pretoria', 'Gauteng', '0008'],
+  ['Eersterust', 'Pretoria', 'Gauteng', '0022'],
+  ['Mamelodi', 'Pretoria', 'Gauteng', '0122'],
+  ['Soshanguve', 'Pretoria', 'Gauteng', '0152'],
+  ['Centurion Central', 'Centurion', 'Gauteng', '0157'],
+  ['Lyttelton', 'Centurion', 'Gauteng', '0157'],
+  ['Halfway House', 'Midrand', 'Gauteng', '1685'],
+  ['Johannesburg Central', 'Johannesburg', 'Gauteng', '2001'],
+  ['Braamfontein', 'Johannesburg', 'Gauteng', '2001'],
+  ['Hillbrow', 'Johannesburg', 'Gauteng', '2001'],
+  ['Melville', 'Johannesburg', 'Gauteng', '2092'],
+  ['Parktown', 'Johannesburg', 'Gauteng', '2193'],
+  ['Greenside', 'Johannesburg', 'Gauteng', '2193'],
+  ['Parkhurst', 'Johannesburg', 'Gauteng', '2193'],
+  ['Killarney', 'Johannesburg', 'Gauteng', '2193'],
+  ['Norwood', 'Johannesburg', 'Gauteng', '2192'],
+  ['Houghton Estate', 'Johannesburg', 'Gauteng', '2198'],
+  ['Yeoville', 'Johannesburg', 'Gauteng', '2198'],
+  ['Northcliff', 'Johannesburg', 'Gauteng', '2195'],
+  ['Linden', 'Johannesburg', 'Gauteng', '2195'],
+  ['Rosebank', 'Johannesburg', 'Gauteng', '2196'],
+  ['Melrose', 'Johannesburg', 'Gauteng', '2196'],
+  ['Illovo', 'Johannesburg', 'Gauteng', '2196'],
+  ['Sandown', 'Sandton', 'Gauteng', '2196'],
+  ['Bryanston', 'Sandton', 'Gauteng', '2191'],
+  ['Rivonia', 'Sandton', 'Gauteng', '2128'],
+  ['Ferndale', 'Randburg', 'Gauteng', '2194'],
+  ['Orlando', 'Soweto', 'Gauteng', '1804'],
+  ['Roodepoort Central', 'Roodepoort', 'Gauteng', '1724'],
+  ['Germiston Central', 'Germiston', 'Gauteng', '1401'],
+  ['Edenvale Central', 'Edenvale', 'Gauteng', '1609'],
+  ['Kempton Park Central', 'Kempton Park', 'Gauteng', '1619'],
+  ['Benoni Central', 'Benoni', 'Gauteng', '1501'],
+  ['Boksburg Central', 'Boksburg', 'Gauteng', '1459'],
+  ['Alberton Central', 'Alberton', 'Gauteng', '1449'],
+  ['Vanderbijlpark Central', 'Vanderbijlpark', 'Gauteng', '1900'],
+  ['Vereeniging Central', 'Vereeniging', 'Gauteng', '1930'],
+  ['Cape Town City Centre', 'Cape Town', 'Western Cape', '8001'],
+  ['Gardens', 'Cape Town', 'Western Cape', '8001'],
+  ['Green Point', 'Cape Town', 'Western Cape', '8005'],
+  ['Sea Point', 'Cape Town', 'Western Cape', '8005'],
+  ['Camps Bay', 'Cape Town', 'Western Cape', '8005'],
+  ['Woodstock', 'Cape Town', 'Western Cape', '7925'],
+  ['Observatory', 'Cape Town', 'Western Cape', '7925'],
+  ['Rondebosch', 'Cape Town', 'Western Cape', '7700'],
+  ['Newlands', 'Cape Town', 'Western Cape', '7700'],
+  ['Claremont', 'Cape Town', 'Western Cape', '7708'],
+  ['Wynberg', 'Cape Town', 'Western Cape', '7800'],
+  ['Muizenberg', 'Cape Town', 'Western Cape', '7945'],
+  ['Fish Hoek', 'Cape Town', 'Western Cape', '7975'],
+  ['Pinelands', 'Cape Town', 'Western Cape', '7405'],
+  ['Milnerton', 'Cape Town', 'Western Cape', '7441'],
+  ['Table View', 'Cape Town', 'Western Cape', '7441'],
+  ['Goodwood', 'Cape Town', 'Western Cape', '7460'],
+  ['Parow', 'Cape Town', 'Western Cape', '7500'],
+  ['Bellville', 'Cape Town', 'Western Cape', '7530'],
+  ['Durbanville', 'Cape Town', 'Western Cape', '7550'],
+  ['Khayelitsha', 'Cape Town', 'Western Cape', '7784'],
+  ['Mitchells Plain', 'Cape Town', 'Western Cape', '7785'],
+  ['Somerset West Central', 'Somerset West', 'Western Cape', '7130'],
+  ['Strand Central', 'Strand', 'Western Cape', '7140'],
+  ['Stellenbosch Central', 'Stellenbosch', 'Western Cape', '7600'],
+  ['Paarl Central', 'Paarl', 'Western Cape', '7646'],
+  ['Hermanus Central', 'Hermanus', 'Western Cape', '7200'],
+  ['Worcester Central', 'Worcester', 'Western Cape', '6850'],
+  ['Mossel Bay Central', 'Mossel Bay', 'Western Cape', '6500'],
+  ['George Central', 'George', 'Western Cape', '6529'],
+  ['Knysna Central', 'Knysna', 'Western Cape', '6570'],
+  ['Durban Central', 'Durban', 'KwaZulu-Natal', '4001'],
+  ['Berea', 'Durban', 'KwaZulu-Natal', '4001'],
+  ['Glenwood', 'Durban', 'KwaZulu-Natal', '4001'],
+  ['Musgrave', 'Durban', 'KwaZulu-Natal', '4001'],
+  ['Westville', 'Durban', 'KwaZulu-Natal', '3629'],
+  ['Pinetown Central', 'Pinetown', 'KwaZulu-Natal', '3610'],
+  ['Amanzimtoti Central', 'Amanzimtoti', 'KwaZulu-Natal', '4126'],
+  ['Ballito Central', 'Ballito', 'KwaZulu-Natal', '4420'],
+  ['Pietermaritzburg Central', 'Pietermaritzburg', 'KwaZulu-Natal', '3201'],
+  ['Richards Bay Central', 'Richards Bay', 'KwaZulu-Natal', '3900'],
+  ['Newcastle Central', 'Newcastle', 'KwaZulu-Natal', '2940'],
+  ['Gqeberha Central', 'Gqeberha', 'Eastern Cape', '6001'],
+  ['Summerstrand', 'Gqeberha', 'Eastern Cape', '6001'],
+  ['Walmer', 'Gqeberha', 'Eastern Cape', '6070'],
+  ['East London Central', 'East London', 'Eastern Cape', '5201'],
+  ['Makhanda Central', 'Makhanda', 'Eastern Cape', '6139'],
+  ['Jeffreys Bay Central', 'Jeffreys Bay', 'Eastern Cape', '6330'],
+  ['Bloemfontein Central', 'Bloemfontein', 'Free State', '9301'],
+  ['Bethlehem Central', 'Bethlehem', 'Free State', '9701'],
+  ['Sasolburg Central', 'Sasolburg', 'Free State', '1947'],
+  ['Polokwane Central', 'Polokwane', 'Limpopo', '0700'],
+  ['Tzaneen Central', 'Tzaneen', 'Limpopo', '0850'],
+  ['Thohoyandou Central', 'Thohoyandou', 'Limpopo', '0950'],
+  ['Mokopane Central', 'Mokopane', 'Limpopo', '0600'],
+  ['Bela-Bela Central', 'Bela-Bela', 'Limpopo', '0480'],
+  ['Mbombela Central', 'Mbombela', 'Mpumalanga', '1200'],
+  ['eMalahleni Central', 'eMalahleni', 'Mpumalanga', '1035'],
+  ['Middelburg Central', 'Middelburg', 'Mpumalanga', '1050'],
+  ['Secunda Central', 'Secunda', 'Mpumalanga', '2302'],
+  ['Ermelo Central', 'Ermelo', 'Mpumalanga', '2351'],
+  ['Mahikeng Central', 'Mahikeng', 'North West', '2745'],
+  ['Klerksdorp Central', 'Klerksdorp', 'North West', '2571'],
+  ['Brits Central', 'Brits', 'North West', '0250'],
+  ['Kimberley Central', 'Kimberley', 'Northern Cape', '8301'],
+  ['Upington Central', 'Upington', 'Northern Cape', '8801'],
+  ['Springbok Central', 'Springbok', 'Northern Cape', '8240'],
+  ['Kuruman Central', 'Kuruman', 'Northern Cape', '8460']
+]
+
+export const SA_LOCALITIES: SALocality[] = LOCALITIES.map(([suburb, city, province, postalCode]) => ({
+  suburb,
+  city,
+  province,
+  postalCode
+}))
+
+export class SAAddresses {
+  // Required addresses need a street, city, province and postal code. A postal code,
+  // when given, must always be four digits.
+  static schema(required = false) {
+    const text = required ? z.string().trim().min(1, 'This field is required') : z.string()
+
+    return z.preprocess(value => this.normalise(value), z.object({
+      address1: text,
+      address2: z.string(),
+      suburb: z.string(),
+      city: text,
+      province: required
+        ? z.enum(SA_PROVINCES, { errorMap: () => ({ message: 'Please select a province' }) })
+        : z.union([z.enum(SA_PROVINCES), z.literal('')]),
+      postalCode: required
+        ? z.string().regex(POSTAL_CODE_PATTERN, 'Postal codes have 4 digits')
+        : z.string().regex(POSTAL_CODE_PATTERN, 'Postal codes have 4 digits').or(z.literal(''))
+    }))
+  }
+
+  static isValidPostalCode(postalCode: string): boolean {
+    return POSTAL_CODE_PATTERN.test(postalCode.trim())
+  }
+
+  // Localities whose suburb or city starts with the query, or whose postal code does
+  static search(query: string, limit = 8): SALocality[] {
+    const term = query.trim().toLowerCase()
+    if (!term) return []
+
+    const matches = (text: string) => text.toLowerCase().split(/[\s-]+/).some(word => word.startsWith(term)) ||
+      text.toLowerCase().startsWith(term)
+
+    return SA_LOCALITIES
+      .filter(locality => /^\d+$/.test(term)
+        ? locality.postalCode.startsWith(term)
+        : matches(locality.suburb) || matches(locality.city))
+      .slice(0, limit)
+  }
+
+  static fromLocality(address: SAAddress, locality: SALocality): SAAddress {
+    return {
+      ...address,
+      suburb: locality.suburb,
+      city: locality.city,
+      province: locality.province,
+      postalCode: locality.postalCode
+    }
+  }
+
+  // Fills in missing parts of an address saved elsewhere, e.g. in a draft
+  static normalise(value: unknown): SAAddress {
+    const address = value && typeof value === 'object' ? value as Partial<SAAddress> : {}
+    return { ...EMPTY_SA_ADDRESS, ...address }
+  }
+
+  static format(address: Partial<SAAddress> | null | undefined): string {
+    if (!address) return ''
+    return [address.address1, address.address2, address.suburb, address.city, address.province, address.postalCode]
+      .map(part => part?.trim())
+      .filter(Boolean)
+      .join(', ')
+  }
+}
@@ -0,0 +1,403 @@
+import { supabase } from './supabase'
+
+export type LayoutOrientation = 'rows' | 'columns'
+
+// Locates a cell or a series of cells in a sheet. `range` is A1 notation
+// ('A3', 'B1:Z1', '2:2' for a whole row, 'C:C' for a whole column); `header`
+// finds a label cell and reads the cell(s) that follow it in the layout orientation.
+export interface CellLocator {
+  range?: string
+  header?: string
+}
+
+export interface JSONLayout {
+  // Dot path to an array of readings, e.g. 'results.measurements'
+  items: string
+  path_id_key: string
+  value_key: string
+  unit_key?: string
+  // Dot paths from the document root
+  client_identifier?: string
+  scan_date?: string
+}
+
+export interface ScanLayout {
+  orientation: LayoutOrientation
+  path_ids?: CellLocator
+  values?: CellLocator
+  units?: CellLocator
+  client_identifier?: CellLocator
+  scan_date?: CellLocator
+  json?: JSONLayout
+  match?: {
+    header_names?: string[]
+    file_name_pattern?: string
+  }
+}
+
+export interface ScanLayoutProfile {
+  id: string
+  name: string
+  vendor: string
+  description: string
+  file_types: string[]
+  priority: number
+  is_active: boolean
+  layout: ScanLayout
+  created_at?: string
+  updated_at?: string
+}
+
+export interface LayoutExtraction {
+  path_ids: Array<{ path_id: string; value: string | number; unit?: string; reference_range?: string }>
+  client_identifier?: string
+  client_identifier_location: string
+  scan_date?: string
+}
+
+export interface LayoutMatch {
+  profile: ScanLayoutProfile
+  score: number
+  extraction: LayoutExtraction
+}
+
+// The original fixed layout: row 1 = Path IDs, row 2 = values, A3 = client ID
+export const DEFAULT_LAYOUT_PROFILE: ScanLayoutProfile = {
+  id: 'default',
+  name: 'Standard three-row layout',
+  vendor: '',
+  description: 'Row 1 holds Path IDs, row 2 their values and cell A3 the Client ID',
+  file_types: ['xlsx', 'xls', 'csv', 'json'],
+  priority: -1,
+  is_active: true,
+  layout: {
+    orientation: 'rows',
+    path_ids: { range: '1:1' },
+    values: { range: '2:2' },
+    client_identifier: { range: 'A3' }
+  }
+}
+
+// Records that a PDF was read through table detection rather than a configured layout
+export const PDF_TABLE_PROFILE: ScanLayoutProfile = {
+  id: 'pdf-table',
+  name: 'PDF table detection',
+  vendor: '',
+  description: 'Path ID, value, unit and range columns rebuilt from PDF text positions',
+  file_types: ['pdf'],
+  priority: -1,
+  is_active: true,
+  layout: {
+    orientation: 'rows'
+  }
+}
+
+interface CellAddress {
+  row: number
+  column: number
+}
+
+const CELL_PATTERN = /^([A-Z]*)(\d*)$/
+
+export class ScanLayoutProfiles {
+  private static cache: ScanLayoutProfile[] | null = null
+
+  static async load(forceRefresh = false): Promise<ScanLayoutProfile[]> {
+    if (this.cache && !forceRefresh) return this.cache
+
+    try {
+      const { data, error } = await supabase
+        .from('scan_layout_profiles')
+        .select('*')
+        .order('priority', { ascending: false })
+
+      if (error) throw error
+      this.cache = data || []
+    } catch (error) {
+      console.error('Error loading scan layout profiles:', error)
+      this.cache = this.cache || []
+    }
+
+    return this.cache
+  }
+
+  static invalidate() {
+    this.cache = null
+  }
+
+  static async save(profile: Omit<ScanLayoutProfile, 'id'> & { id?: string }): Promise<void> {
+    const record = {
+      name: profile.name.trim(),
+      vendor: profile.vendor.trim(),
+      description: profile.description,
+      file_types: profile.file_types,
+      priority: profile.priority,
+      is_active: profile.is_active,
+      layout: profile.layout
+    }
+
+    const { error } = profile.id
+      ? await supabase.from('scan_layout_profiles').update(record).eq('id', profile.id)
+      : await supabase.from('scan_layout_profiles').insert(record)
+
+    if (error) throw error
+    this.invalidate()
+  }
+
+  static async remove(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('scan_layout_profiles')
+      .delete()
+      .eq('id', id)
+
+    if (error) throw error
+    this.invalidate()
+  }
+
+  // Scores every applicable profile against the sheet and returns the best one that extracts data
+  static selectTabular(
+    profiles: ScanLayoutProfile[],
+    data: unknown[][],
+    fileName: string
+  ): LayoutMatch | null {
+    const fileType = fileName.split('.').pop()?.toLowerCase() || ''
+    const candidates = [...profiles.filter(p => p.is_active && !p.layout.json), DEFAULT_LAYOUT_PROFILE]
+    let best: LayoutMatch | null = null
+
+    for (const profile of candidates) {
+      if (profile.file_types.length > 0 && !profile.file_types.includes(fileType)) continue
+
+      const matchScore = this.matchScore(profile, fileName, header => this.findHeader(data, header) !== null)
+      if (matchScore === null) continue
+
+      const extraction = this.extractTabular(profile.layout, data)
+      if (extraction.path_ids.length === 0) continue
+
+      const score = matchScore + (extraction.client_identifier ? 1 : 0)
+      if (!best || score > best.score || (score === best.score && profile.priority > best.profile.priority)) {
+        best = { profile, score, extraction }
+      }
+    }
+
+    return best
+  }
+
+  static selectJSON(
+    profiles: ScanLayoutProfile[],
+    document: unknown,
+    fileName: string
+  ): LayoutMatch | null {
+    let best: LayoutMatch | null = null
+
+    for (const profile of profiles) {
+      const json = profile.layout.json
+      if (!profile.is_active || !json) continue
+
+      const matchScore = this.matchScore(profile, fileName, header => this.readPath(document, header) !== undefined)
+      if (matchScore === null) continue
+
+      const extraction = this.extractJSON(json, document)
+      if (extraction.path_ids.length === 0) continue
+
+      const score = matchScore + (extraction.client_identifier ? 1 : 0)
+      if (!best || score > best.score || (score === best.score && profile.priority > best.profile.priority)) {
+        best = { profile, score, extraction }
+      }
+    }
+
+    return best
+  }
+
+  static extractTabular(layout: ScanLayout, data: unknown[][]): LayoutExtraction {
+    const pathIDs = this.readSeries(data, layout.path_ids, layout.orientation)
+    const values = this.readSeries(data, layout.values, layout.orientation)
+    const units = this.readSeries(data, layout.units, layout.orientation)
+
+    const readings = pathIDs
+      .map((pathID, index) => ({
+        path_id: this.text(pathID),
+        value: this.cellValue(values[index]),
+        unit: this.text(units[index]) || undefined
+      }))
+      .filter(reading => reading.path_id)
+
+    return {
+      path_ids: readings,
+      client_identifier: this.text(this.readSingle(data, layout.client_identifier, layout.orientation)) || undefined,
+      client_identifier_location: this.describeLocator(layout.client_identifier),
+      scan_date: this.toISODate(this.readSingle(data, layout.scan_date, layout.orientation))
+    }
+  }
+
+  static extractJSON(json: JSONLayout, document: unknown): LayoutExtraction {
+    const items = this.readPath(document, json.items)
+    const readings = (Array.isArray(items) ? items : [])
+      .map(item => ({
+        path_id: this.text(this.readPath(item, json.path_id_key)),
+        value: this.cellValue(this.readPath(item, json.value_key)),
+        unit: json.unit_key ? this.text(this.readPath(item, json.unit_key)) || undefined : undefined
+      }))
+      .filter(reading => reading.path_id)
+
+    return {
+      path_ids: readings,
+      client_identifier: json.client_identifier ? this.text(this.readPath(document, json.client_identifier)) || undefined : undefined,
+      client_identifier_location: json.client_identifier ? `JSON path "${json.client_identifier}"` : 'JSON document',
+      scan_date: json.scan_date ? this.toISODate(this.readPath(document, json.scan_date)) : undefined
+    }
+  }
+
+  // Rewrites a 'cell A3' location for a block that starts further down the sheet
+  static shiftLocation(location: string, rowOffset: number): string {
+    if (!rowOffset || !location.startsWith('cell ')) return location
+    return location.replace(/([A-Z]*)(\d+)/g, (_, column: string, row: string) => `${column}${parseInt(row) + rowOffset}`)
+  }
+
+  // Returns null when a required match rule fails, otherwise a score for how specifically the profile matched
+  private static matchScore(
+    profile: ScanLayoutProfile,
+    fileName: string,
+    hasHeader: (header: string) => boolean
+  ): number | null {
+    const match = profile.layout.match
+    let score = 0
+
+    if (match?.file_name_pattern) {
+      try {
+        if (!new RegExp(match.file_name_pattern, 'i').test(fileName)) return null
+        score += 3
+      } catch {
+        return null
+      }
+    }
+
+    for (const header of match?.header_names || []) {
+      if (!hasHeader(header)) return null
+      score += 2
+    }
+
+    return score
+  }
+
+  private static readSeries(data: unknown[][], locator: CellLocator | undefined, orientation: LayoutOrientation): unknown[] {
+    if (!locator) return []
+
+    if (locator.range) {
+      const [start, end] = this.parseRange(locator.range)
+      if (!start) return []
+
+      const lastRow = Math.min(end?.row ?? (start.row === -1 ? Infinity : start.row), data.length - 1)
+      const lastColumn = Math.min(end?.column ?? (start.column === -1 ? Infinity : start.column), this.width(data) - 1)
+      const cells: unknown[] = []
+
+      for (let row = Math.max(start.row, 0); row <= lastRow; row++) {
+        for (let column = Math.max(start.column, 0); column <= lastColumn; column++) {
+          cells.push(data[row]?.[column])
+        }
+      }
+      return cells
+    }
+
+    if (locator.header) {
+      const found = this.findHeader(data, locator.header)
+      if (!found) return []
+
+      return orientation === 'rows'
+        ? (data[found.row] || []).slice(found.column + 1)
+        : data.slice(found.row + 1).map(row => row?.[found.column])
+    }
+
+    return []
+  }
+
+  private static readSingle(data: unknown[][], locator: CellLocator | undefined, orientation: LayoutOrientation): unknown {
+    if (!locator) return undefined
+
+    if (locator.range) {
+      const [start] = this.parseRange(locator.range)
+      return start ? data[Math.max(start.row, 0)]?.[Math.max(start.column, 0)] : undefined
+    }
+
+    return this.readSeries(data, locator, orientation).find(cell => this.text(cell))
+  }
+
+  private static findHeader(data: unknown[][], header: string): CellAddress | null {
+    const target = header.trim().toLowerCase()
+
+    for (let row = 0; row < data.length; row++) {
+      const cells = data[row] || []
+      for (let column = 0; column < cells.length; column++) {
+        if (this.text(cells[column]).toLowerCase() === target) return { row, column }
+      }
+    }
+
+    return null
+  }
+
+  // Parses 'B2', 'B2:K2', '1:1' or 'C:C'; a missing row or column is returned as -1 (open-ended)
+  private static parseRange(range: string): [CellAddress | null, CellAddress | null] {
+    const [startRef, endRef] = range.toUpperCase().replace(/\$/g, '').split(':')
+    const parse = (ref?: string): CellAddress | null => {
+      const match = ref?.trim().match(CELL_PATTERN)
+      if (!match || (!match[1] && !match[2])) return null
+
+      const column = match[1]
+        ? match[1].split('').reduce((total, char) => total * 26 + char.charCodeAt(0) - 64, 0) - 1
+        : -1
+      const row = match[2] ? parseInt(match[2]) - 1 : -1
+      return { row, column }
+    }
+
+    const start = parse(startRef)
+    const end = parse(endRef)
+    if (start && end) {
+      return [start, { row: end.row === -1 ? Number.MAX_SAFE_INTEGER : end.row, column: end.column === -1 ? Number.MAX_SAFE_INTEGER : end.column }]
+    }
+    return [start, null]
+  }
+
+  private static describeLocator(locator?: CellLocator): string {
+    if (locator?.range) return `cell ${locator.range}`
+    if (locator?.header) return `the "${locator.header}" field`
+    return 'the layout profile'
+  }
+
+  private static readPath(source: unknown, path: string): unknown {
+    return path
+      .split(/[.[\]]/)
+      .filter(Boolean)
+      .reduce<unknown>((value, key) => (
+        value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined
+      ), source)
+  }
+
+  private static width(data: unknown[][]): number {
+    return data.reduce((max, row) => Math.max(max, row?.length || 0), 0)
+  }
+
+  private static text(value: unknown): string {
+    return value === null || value === undefined ? '' : String(value).trim()
+  }
+
+  private static cellValue(value: unknown): string | number {
+    return typeof value === 'number' ? value : this.text(value)
+  }
+
+  private static toISODate(value: unknown): string | undefined {
+    if (value === null || value === undefined || value === '') return undefined
+
+    // Excel serial dates
+    if (typeof value === 'number') {
+      const date = new Date(Math.round((value - 25569) * 86400 * 1000))
+      return isNaN(date.getTime()) ? undefined : date.toISOString()
+    }
+
+    const text = String(value).trim()
+    const southAfrican = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/)
+    const date = southAfrican
+      ? new Date(parseInt(southAfrican[3]), parseInt(southAfrican[2]) - 1, parseInt(southAfrican[1]))
+      : new Date(text)
+
+    return isNaN(date.getTime()) ? undefined : date.toISOString()
+  }
+}
@@ -1,9 +1,15 @@
 import * as XLSX from 'xlsx'
-import * as pdfjsLib from 'pdfjs-dist'
-import { supabase } from './supabase'
-
-// Configure PDF.js worker
-pdfjsLib.GlobalWorkerOptions.workerSrc = `//cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjsLib.version}/pdf.worker.min.js`
+import { ReferenceRangeEngine } from './referenceRanges'
+import { PathIDDictionary } from './pathIdDictionary'
+import { CSVReader } from './csvReader'
+import { ScanLayoutProfiles, LayoutMatch, PDF_TABLE_PROFILE } from './scanLayouts'
+import { OCREngine, OCRResult } from './ocr'
+import { PDFLayout } from './pdfLayout'
+import { ClientResolver, ClientIdentifiers, ClientMatch, ClientCandidate, CLIENT_MATCH_LABELS } from './clientResolver'
+
+// Free-text lines that look like readings but are page markers or dates
+const TEXT_DATE = /\b\d{1,4}[/.-]\d{1,2}[/.-]\d{1,4}\b/
+const TEXT_PAGE_MARKER = /^page\s+\d+|\b\d+\s+of\s+\d+\b/i
 
 export interface ProcessingResult {
   success: boolean
@@ -15,24 +21,47 @@ export interface ProcessingResult {
       last_name: string
       email: string
     }
+    // How the client was identified, with candidates for staff when the match is uncertain
+    client_match?: ClientMatch
     path_ids: Array<{
       path_id: string
       value: string | number
+      name?: string
       description?: string
+      category?: string
       unit?: string
       reference_range?: string
+      // Reference range printed on the source report, if any
+      source_range?: string
       status?: 'normal' | 'high' | 'low' | 'critical'
     }>
     automation_status: 'automated' | 'manual' | 'failed'
     quality_score: number
+    scan_date?: string
     warnings: string[]
+    segment?: ScanSegment
+    layout_profile?: {
+      id: string
+      name: string
+      vendor: string
+      score: number
+    }
     raw_structure?: any
   }
   error?: string
 }
 
+// Where a scan was found inside a file that holds several scans
+export interface ScanSegment {
+  sheet_name?: string
+  start_row: number
+  end_row: number
+  label: string
+}
+
 export class ScanProcessor {
-  static async processFile(file: File): Promise<ProcessingResult> {
+  // Returns one result per scan found in the file; workbooks may hold several clients
+  static async processFile(file: File): Promise<ProcessingResult[]> {
     try {
       const fileExtension = file.name.split('.').pop()?.toLowerCase()
       
@@ -41,84 +70,130 @@ export class ScanProcessor {
         case 'xls':
           return await this.processExcel(file)
         case 'csv':
-          return await this.processCSV(file)
+          return [await this.processCSV(file)]
         case 'pdf':
-          return await this.processPDF(file)
+          return [await this.processPDF(file)]
         case 'txt':
-          return await this.processText(file)
+          return [await this.processText(file)]
         case 'json':
-          return await this.processJSON(file)
+          return [await this.processJSON(file)]
         case 'jpg':
         case 'jpeg':
         case 'png':
         case 'tiff':
-          return await this.processImage(file)
+          return [await this.processImage(file)]
         default:
-          return {
+          return [{
             success: false,
             error: `Unsupported file format: ${fileExtension}`
-          }
+          }]
       }
     } catch (error) {
       console.error('File processing error:', error)
-      return {
+      return [{
         success: false,
         error: error instanceof Error ? error.message : 'Unknown processing error'
-      }
+      }]
     }
   }
 
-  private static async processExcel(file: File): Promise<ProcessingResult> {
+  private static async processExcel(file: File): Promise<ProcessingResult[]> {
     const arrayBuffer = await file.arrayBuffer()
     const workbook = XLSX.read(arrayBuffer, { type: 'array' })
-    
-    // Use the first worksheet
-    const firstSheetName = workbook.SheetNames[0]
-    const worksheet = workbook.Sheets[firstSheetName]
-    
-    // Convert to array of arrays
-    const data = XLSX.utils.sheet_to_json(worksheet, { header: 1, defval: '' }) as string[][]
-    
-    if (data.length < 3) {
-      return {
+    const multiSheet = workbook.SheetNames.length > 1
+    const results: ProcessingResult[] = []
+    const skipped: string[] = []
+
+    // Every sheet may hold one client, or several clients as blocks separated by blank rows
+    for (const sheetName of workbook.SheetNames) {
+      const worksheet = workbook.Sheets[sheetName]
+      const data = XLSX.utils.sheet_to_json(worksheet, { header: 1, defval: '', blankrows: true }) as string[][]
+      const blocks = this.splitRowBlocks(data)
+
+      if (blocks.length === 0) {
+        if (data.some(row => !this.isBlankRow(row))) skipped.push(sheetName)
+        continue
+      }
+
+      for (const block of blocks) {
+        const startRow = block.start + 1
+        const endRow = block.start + block.rows.length
+        const segment: ScanSegment = {
+          sheet_name: multiSheet ? sheetName : undefined,
+          start_row: startRow,
+          end_row: endRow,
+          label: [
+            multiSheet ? `Sheet "${sheetName}"` : null,
+            blocks.length > 1 ? `rows ${startRow}-${endRow}` : null
+          ].filter(Boolean).join(', ')
+        }
+
+        const result = await this.parseStandardFormat(block.rows, file.name, [], block.start)
+        if (result.data && (multiSheet || blocks.length > 1)) {
+          result.data.segment = segment
+        }
+        results.push(result)
+      }
+    }
+
+    if (results.length === 0) {
+      return [{
         success: false,
         error: 'Excel file must have at least 3 rows (Path IDs, Information, Identifying Fields)'
-      }
+      }]
     }
 
-    return this.parseStandardFormat(data, file.name)
+    if (skipped.length > 0) {
+      results.forEach(result => result.data?.warnings.push(
+        `Skipped sheet(s) without a Path ID block: ${skipped.join(', ')}`
+      ))
+    }
+
+    return results
+  }
+
+  // Splits a sheet into blocks of at least three consecutive non-blank rows
+  private static splitRowBlocks(data: string[][]): Array<{ start: number; rows: string[][] }> {
+    const blocks: Array<{ start: number; rows: string[][] }> = []
+    let current: { start: number; rows: string[][] } | null = null
+
+    data.forEach((row, index) => {
+      if (this.isBlankRow(row)) {
+        current = null
+        return
+      }
+      if (!current) {
+        current = { start: index, rows: [] }
+        blocks.push(current)
+      }
+      current.rows.push(row)
+    })
+
+    return blocks.filter(block => block.rows.length >= 3)
+  }
+
+  private static isBlankRow(row: unknown[] = []): boolean {
+    return row.every(cell => cell === null || cell === undefined || String(cell).trim() === '')
   }
 
   private static async processCSV(file: File): Promise<ProcessingResult> {
-    const text = await file.text()
-    const lines = text.split('\n').map(line => line.split(',').map(cell => cell.trim().replace(/^"|"$/g, '')))
+    const { rows, errors } = await CSVReader.read(file, { trim: true })
     
-    if (lines.length < 3) {
+    if (rows.length < 3) {
       return {
         success: false,
         error: 'CSV file must have at least 3 rows (Path IDs, Information, Identifying Fields)'
       }
     }
 
-    return this.parseStandardFormat(lines, file.name)
+    return this.parseStandardFormat(rows, file.name, errors.map(CSVReader.formatIssue))
   }
 
   private static async processPDF(file: File): Promise<ProcessingResult> {
     try {
-      const arrayBuffer = await file.arrayBuffer()
-      const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise
-      
-      let fullText = ''
-      
-      // Extract text from all pages
-      for (let i = 1; i <= pdf.numPages; i++) {
-        const page = await pdf.getPage(i)
-        const textContent = await page.getTextContent()
-        const pageText = textContent.items
-          .map((item: any) => item.str)
-          .join(' ')
-        fullText += pageText + '\n'
-      }
+      // Rebuild rows and columns from text positions rather than joining items blindly
+      const rows = await PDFLayout.extractRows(await file.arrayBuffer())
+      const fullText = PDFLayout.rowsToText(rows)
 
       if (!fullText.trim()) {
         return {
@@ -127,7 +202,21 @@ export class ScanProcessor {
         }
       }
 
-      // Try to parse as structured data
+      const readings = PDFLayout.findPathIDTable(rows)
+      if (readings.length > 0) {
+        const identifiers = this.findClientIdentifiers(rows.map(row => row.text))
+        return this.parseLayoutMatch({
+          profile: PDF_TABLE_PROFILE,
+          score: 0,
+          extraction: {
+            path_ids: readings,
+            client_identifier: identifiers.identifier,
+            client_identifier_location: 'the PDF report text'
+          }
+        }, rows.map(row => row.cells.map(cell => cell.text)), file.name, [], 0, identifiers)
+      }
+
+      // No table detected - fall back to line-by-line text parsing
       return this.parseUnstructuredText(fullText, file.name)
     } catch (error) {
       return {
@@ -156,7 +245,7 @@ export class ScanProcessor {
       const data = JSON.parse(text)
       
       // Try to parse as structured scan data
-      if (Array.isArray(data) && data.length >= 3) {
+      if (Array.isArray(data) && data.length >= 3 && data.every(Array.isArray)) {
         return this.parseStandardFormat(data, file.name)
       }
       
@@ -171,86 +260,76 @@ export class ScanProcessor {
   }
 
   private static async processImage(file: File): Promise<ProcessingResult> {
-    // For now, return a placeholder result
-    // In a real implementation, you would use OCR to extract text from images
-    return {
-      success: false,
-      error: 'Image processing with OCR is not yet implemented. Please convert to text format.'
+    try {
+      // OCR runs entirely in the browser with the bundled engine and model
+      const ocr = await OCREngine.recognize(file)
+
+      if (!ocr.text.trim()) {
+        return {
+          success: false,
+          error: 'No text could be recognised in the image'
+        }
+      }
+
+      return this.parseUnstructuredText(ocr.text, file.name, ocr)
+    } catch (error) {
+      return {
+        success: false,
+        error: `Image OCR error: ${error instanceof Error ? error.message : 'Unknown error'}`
+      }
     }
   }
 
-  private static async parseStandardFormat(data: any[][], fileName: string): Promise<ProcessingResult> {
-    const warnings: string[] = []
-    
-    // Row 1: Path ID numbers
-    const pathIDRow = data[0] || []
-    const pathIDs = pathIDRow.filter(id => id && id.toString().trim())
-    
-    if (pathIDs.length === 0) {
+  private static async parseStandardFormat(
+    data: any[][],
+    fileName: string,
+    warnings: string[] = [],
+    rowOffset = 0
+  ): Promise<ProcessingResult> {
+    // Pick the admin-defined layout profile that best fits this sheet
+    const profiles = await ScanLayoutProfiles.load()
+    const match = ScanLayoutProfiles.selectTabular(profiles, data, fileName)
+
+    if (!match) {
       return {
         success: false,
-        error: 'No Path IDs found in row 1'
+        error: 'No Path IDs found using any scan layout profile'
       }
     }
 
-    // Row 2: Path ID information/descriptions
-    const infoRow = data[1] || []
-    
-    // Row 3: Identifying fields (A3 should contain Client ID)
-    const identifyingRow = data[2] || []
-    const clientID = identifyingRow[0]?.toString().trim() // A3 cell
+    return this.parseLayoutMatch(match, data, fileName, warnings, rowOffset)
+  }
+
+  private static async parseLayoutMatch(
+    match: LayoutMatch,
+    data: unknown[][],
+    fileName: string,
+    warnings: string[],
+    rowOffset = 0,
+    identifiers: ClientIdentifiers = {}
+  ): Promise<ProcessingResult> {
+    const { profile, extraction } = match
+    const clientID = extraction.client_identifier
     
     // Build Path ID data
-    const pathIDData = pathIDs.map((pathID, index) => ({
-      path_id: pathID.toString(),
-      value: infoRow[index] || '',
-      description: `Path ID ${pathID}`,
-      unit: this.extractUnit(infoRow[index]?.toString() || ''),
-      status: this.determineStatus(infoRow[index])
+    const pathIDData = extraction.path_ids.map(reading => ({
+      path_id: reading.path_id,
+      value: reading.value,
+      description: `Path ID ${reading.path_id}`,
+      unit: reading.unit || this.extractUnit(reading.value.toString()),
+      source_range: reading.reference_range
     }))
 
     // Try to find client by ID
-    let clientInfo = null
-    let automationStatus: 'automated' | 'manual' | 'failed' = 'failed'
-    
-    if (clientID) {
-      try {
-        const { data: clientData, error } = await supabase
-          .from('clients')
-          .select(`
-            id,
-            client_code,
-            profile:profiles!clients_profile_id_fkey(
-              id,
-              first_name,
-              last_name,
-              email
-            )
-          `)
-          .or('client_code', 'eq', clientID)
-          .or('profile.email', 'eq', clientID)
-          .single()
-
-        if (!error && clientData) {
-          clientInfo = {
-            client_id: clientData.profile?.id,
-            client_code: clientData.client_code,
-            first_name: clientData.profile?.first_name || '',
-            last_name: clientData.profile?.last_name || '',
-            email: clientData.profile?.email || ''
-          }
-          automationStatus = 'automated'
-        }
-      } catch (error) {
-        console.log('Client lookup failed:', error)
-        warnings.push(`Client ID "${clientID}" not found in database`)
-      }
-    } else {
-      warnings.push('No Client ID found in cell A3')
-    }
+    const { clientInfo, automationStatus, clientMatch } = await this.resolveClient({ ...identifiers, identifier: clientID }, warnings, `No Client ID found in ${ScanLayoutProfiles.shiftLocation(extraction.client_identifier_location, rowOffset)}`)
+
+    const annotatedPathIDs = await this.applyReferenceRanges(
+      await this.applyDictionary(pathIDData, fileName, warnings),
+      clientInfo?.id
+    )
 
     // Calculate quality score
-    const qualityScore = this.calculateQualityScore(pathIDData, clientInfo !== null, data)
+    const qualityScore = this.calculateQualityScore(annotatedPathIDs, clientInfo !== null, data)
     
     if (qualityScore < 70) {
       warnings.push('Low data quality detected - please review extracted information')
@@ -259,65 +338,60 @@ export class ScanProcessor {
     return {
       success: true,
       data: {
-        client_id: clientInfo?.client_id,
+        client_id: clientInfo?.id,
+        client_match: clientMatch,
         client_info: clientInfo ? {
           client_code: clientInfo.client_code,
           first_name: clientInfo.first_name,
           last_name: clientInfo.last_name,
           email: clientInfo.email
         } : undefined,
-        path_ids: pathIDData,
+        path_ids: annotatedPathIDs,
+        scan_date: extraction.scan_date,
         automation_status: automationStatus,
         quality_score: qualityScore,
         warnings,
+        layout_profile: {
+          id: profile.id,
+          name: profile.name,
+          vendor: profile.vendor,
+          score: match.score
+        },
         raw_structure: {
-          path_ids_row: pathIDRow,
-          info_row: infoRow,
-          identifying_row: identifyingRow,
+          client_identifier_location: extraction.client_identifier_location,
           total_rows: data.length,
-          total_columns: Math.max(...data.map(row => row.length))
+          total_columns: Math.max(0, ...data.map(row => row.length))
         }
       }
     }
   }
 
-  private static async parseUnstructuredText(text: string, fileName: string): Promise<ProcessingResult> {
+  private static async parseUnstructuredText(text: string, fileName: string, ocr?: OCRResult): Promise<ProcessingResult> {
     const warnings: string[] = []
     const lines = text.split('\n').map(line => line.trim()).filter(Boolean)
     
-    // Try to extract client ID from various patterns
-    let clientID = null
-    const clientIDPatterns = [
-      /client\s*id\s*:?\s*([A-Za-z0-9]+)/i,
-      /patient\s*id\s*:?\s*([A-Za-z0-9]+)/i,
-      /id\s*:?\s*([A-Za-z0-9]+)/i,
-      /code\s*:?\s*([A-Za-z0-9]+)/i
-    ]
-    
-    for (const pattern of clientIDPatterns) {
-      for (const line of lines) {
-        const match = line.match(pattern)
-        if (match) {
-          clientID = match[1]
-          break
-        }
-      }
-      if (clientID) break
-    }
+    // Try to extract client identifiers from various patterns
+    const identifiers = this.findClientIdentifiers(lines)
 
     // Extract path ID-like data
     const pathIDData = []
     const pathIDPattern = /([A-Za-z0-9_-]+)\s*:?\s*([0-9.,]+)\s*([A-Za-z/%]*)/
+    const dictionary = await PathIDDictionary.load()
     
     for (const line of lines) {
       const match = line.match(pathIDPattern)
-      if (match) {
+      // Ids the dictionary doesn't know must at least look like names, not numbers, dates or page markers
+      const plausible = match && (
+        dictionary.has(match[1]) ||
+        (/[A-Za-z]/.test(match[1]) && !TEXT_DATE.test(line) && !TEXT_PAGE_MARKER.test(line))
+      )
+      if (match && plausible) {
         pathIDData.push({
           path_id: match[1],
           value: match[2],
           description: `Extracted from: ${line}`,
           unit: match[3] || '',
-          status: this.determineStatus(match[2])
+          confidence: ocr ? OCREngine.valueConfidence(ocr, line, match[2]) : undefined
         })
       }
     }
@@ -330,68 +404,52 @@ export class ScanProcessor {
     }
 
     // Try to find client
-    let clientInfo = null
-    let automationStatus: 'automated' | 'manual' | 'failed' = 'failed'
-    
-    if (clientID) {
-      try {
-        const { data: clientData, error } = await supabase
-          .from('clients')
-          .select(`
-            id,
-            client_code,
-            profile:profiles!clients_profile_id_fkey(
-              id,
-              first_name,
-              last_name,
-              email
-            )
-          `)
-          .or('client_code', 'eq', clientID)
-          .or('profile.email', 'eq', clientID)
-          .single()
-
-        if (!error && clientData) {
-          clientInfo = {
-            client_id: clientData.profile?.id,
-            client_code: clientData.client_code,
-            first_name: clientData.profile?.first_name || '',
-            last_name: clientData.profile?.last_name || '',
-            email: clientData.profile?.email || ''
-          }
-          automationStatus = 'automated'
-        }
-      } catch (error) {
-        warnings.push(`Client ID "${clientID}" not found in database`)
-      }
-    } else {
-      warnings.push('No Client ID could be extracted from text')
+    const { clientInfo, automationStatus, clientMatch } = await this.resolveClient(identifiers, warnings, 'No Client ID could be extracted from text')
+
+    const annotatedPathIDs = await this.applyReferenceRanges(
+      await this.applyDictionary(pathIDData, fileName, warnings),
+      clientInfo?.id
+    )
+    const qualityScore = this.calculateQualityScore(annotatedPathIDs, clientInfo !== null, [])
+    warnings.push(ocr
+      ? 'Image OCR used - please verify extracted data accuracy'
+      : 'Text parsing used - please verify extracted data accuracy')
+
+    const lowConfidence = annotatedPathIDs.filter(pathID => OCREngine.isLowConfidence(pathID.confidence))
+    if (lowConfidence.length > 0) {
+      warnings.push(`${lowConfidence.length} value(s) were read with low OCR confidence and need manual review`)
     }
 
-    const qualityScore = this.calculateQualityScore(pathIDData, clientInfo !== null, [])
-    warnings.push('Text parsing used - please verify extracted data accuracy')
-
     return {
       success: true,
       data: {
-        client_id: clientInfo?.client_id,
+        client_id: clientInfo?.id,
+        client_match: clientMatch,
         client_info: clientInfo ? {
           client_code: clientInfo.client_code,
           first_name: clientInfo.first_name,
           last_name: clientInfo.last_name,
           email: clientInfo.email
         } : undefined,
-        path_ids: pathIDData,
+        path_ids: annotatedPathIDs,
         automation_status: automationStatus,
         quality_score: qualityScore,
-        warnings
+        warnings,
+        raw_structure: ocr ? { ocr_confidence: Math.round(ocr.confidence) } : undefined
       }
     }
   }
 
   private static async parseJSONStructure(data: any, fileName: string): Promise<ProcessingResult> {
     const warnings: string[] = []
-    const pathIDData = []
+
+    // Prefer an admin-defined JSON layout profile over the heuristics below
+    const match = ScanLayoutProfiles.selectJSON(await ScanLayoutProfiles.load(), data, fileName)
+    if (match) {
+      return this.parseLayoutMatch(match, [], fileName, warnings)
+    }
+
+    const pathIDData: NonNullable<ProcessingResult['data']>['path_ids'] = []
     
     // Try to extract path IDs from object structure
     const extractPathIDs = (obj: any, prefix = '') => {
@@ -405,8 +463,7 @@ export class ScanProcessor {
             path_id: fullKey,
             value: value,
             description: `JSON field: ${fullKey}`,
-            unit: '',
-            status: this.determineStatus(value)
+            unit: ''
           })
         }
       }
@@ -421,79 +478,50 @@ export class ScanProcessor {
       }
     }
 
-    // Try to find client ID in the JSON
-    let clientID = null
-    const findClientID = (obj: any): string | null => {
+    // Try to find client identifiers in the JSON
+    const findValue = (obj: any, matches: (key: string) => boolean): string | undefined => {
       for (const [key, value] of Object.entries(obj)) {
-        if (typeof value === 'string' && (
-          key.toLowerCase().includes('client') ||
-          key.toLowerCase().includes('patient') ||
-          key.toLowerCase().includes('id')
-        )) {
+        if (typeof value === 'string' && matches(key.toLowerCase())) {
           return value
         }
         if (typeof value === 'object' && value !== null) {
-          const found = findClientID(value)
+          const found = findValue(value, matches)
           if (found) return found
         }
       }
-      return null
+      return undefined
     }
 
-    clientID = findClientID(data)
-
-    let clientInfo = null
-    let automationStatus: 'automated' | 'manual' | 'failed' = 'failed'
-    
-    if (clientID) {
-      try {
-        const { data: clientData, error } = await supabase
-          .from('clients')
-          .select(`
-            id,
-            client_code,
-            profile:profiles!clients_profile_id_fkey(
-              id,
-              first_name,
-              last_name,
-              email
-            )
-          `)
-          .or('client_code', 'eq', clientID)
-          .or('profile.email', 'eq', clientID)
-          .single()
-
-        if (!error && clientData) {
-          clientInfo = {
-            client_id: clientData.profile?.id,
-            client_code: clientData.client_code,
-            first_name: clientData.profile?.first_name || '',
-            last_name: clientData.profile?.last_name || '',
-            email: clientData.profile?.email || ''
-          }
-          automationStatus = 'automated'
-        }
-      } catch (error) {
-        warnings.push(`Client ID "${clientID}" not found in database`)
-      }
-    } else {
-      warnings.push('No Client ID could be extracted from JSON')
+    const identifiers: ClientIdentifiers = {
+      identifier: findValue(data, key => key.includes('client') || key.includes('patient') || key.includes('id')),
+      id_number: findValue(data, key => /id_?number|sa_?id/.test(key)),
+      email: findValue(data, key => key.includes('email')),
+      first_name: findValue(data, key => /first_?name/.test(key)),
+      last_name: findValue(data, key => /(last_?name|surname)/.test(key)),
+      date_of_birth: findValue(data, key => /(date_?of_?birth|dob|birth_?date)/.test(key))
     }
 
-    const qualityScore = this.calculateQualityScore(pathIDData, clientInfo !== null, [])
+    const { clientInfo, automationStatus, clientMatch } = await this.resolveClient(identifiers, warnings, 'No Client ID could be extracted from JSON')
+
+    const annotatedPathIDs = await this.applyReferenceRanges(
+      await this.applyDictionary(pathIDData, fileName, warnings),
+      clientInfo?.id
+    )
+    const qualityScore = this.calculateQualityScore(annotatedPathIDs, clientInfo !== null, [])
     warnings.push('JSON structure parsing used - please verify field mappings')
 
     return {
       success: true,
       data: {
-        client_id: clientInfo?.client_id,
+        client_id: clientInfo?.id,
+        client_match: clientMatch,
         client_info: clientInfo ? {
           client_code: clientInfo.client_code,
           first_name: clientInfo.first_name,
           last_name: clientInfo.last_name,
           email: clientInfo.email
         } : undefined,
-        path_ids: pathIDData,
+        path_ids: annotatedPathIDs,
         automation_status: automationStatus,
         quality_score: qualityScore,
         warnings
@@ -501,6 +529,80 @@ export class ScanProcessor {
     }
   }
 
+  private static async resolveClient(identifiers: ClientIdentifiers, warnings: string[], missingMessage: string): Promise<{
+    clientInfo: ClientCandidate | null
+    automationStatus: 'automated' | 'manual' | 'failed'
+    clientMatch?: ClientMatch
+  }> {
+    if (!Object.values(identifiers).some(value => value?.trim())) {
+      warnings.push(missingMessage)
+      return { clientInfo: null, automationStatus: 'failed' }
+    }
+
+    try {
+      const clientMatch = await ClientResolver.resolve(identifiers)
+
+      if (ClientResolver.isAutoAssignable(clientMatch)) {
+        return { clientInfo: clientMatch.client!, automationStatus: 'automated', clientMatch }
+      }
+
+      if (clientMatch.status === 'not_found') {
+        const label = identifiers.identifier || identifiers.email || identifiers.id_number
+        warnings.push(label
+          ? `Client ID "${label}" not found in database`
+          : 'No client matched the name and date of birth on the scan')
+      } else {
+        // Uncertain matches are never assigned automatically - staff pick from the candidates
+        warnings.push(`${clientMatch.candidates.length} possible client(s) matched by ${CLIENT_MATCH_LABELS[clientMatch.method!].toLowerCase()} - please confirm the client`)
+      }
+
+      return { clientInfo: null, automationStatus: 'failed', clientMatch }
+    } catch (error) {
+      console.error('Client lookup failed:', error)
+      warnings.push('Client lookup failed - manual assignment required')
+      return { clientInfo: null, automationStatus: 'failed' }
+    }
+  }
+
+  private static findClientIdentifiers(lines: string[]): ClientIdentifiers {
+    const find = (pattern: RegExp) => {
+      for (const line of lines) {
+        const match = line.match(pattern)
+        if (match) return match[1].trim()
+      }
+      return undefined
+    }
+
+    const fullName = find(/(?:client|patient)?\s*name\s*:?\s*([A-Za-z'-]+(?:[ \t]+[A-Za-z'-]+)+)/i)?.split(/\s+/)
+
+    return {
+      identifier: this.findClientID(lines) || undefined,
+      id_number: find(/\b(\d{13})\b/),
+      email: find(/([^\s@:]+@[^\s@]+\.[A-Za-z]{2,})/),
+      first_name: fullName?.[0],
+      last_name: fullName && fullName.length > 1 ? fullName[fullName.length - 1] : undefined,
+      date_of_birth: find(/(?:date\s*of\s*birth|dob|birth\s*date)\s*:?\s*(\d{1,4}[-/.]\d{1,2}[-/.]\d{1,4})/i)
+    }
+  }
+
+  private static findClientID(lines: string[]): string | null {
+    const clientIDPatterns = [
+      /client\s*id\s*:?\s*([A-Za-z0-9]+)/i,
+      /patient\s*id\s*:?\s*([A-Za-z0-9]+)/i,
+      /id\s*:?\s*([A-Za-z0-9]+)/i,
+      /code\s*:?\s*([A-Za-z0-9]+)/i
+    ]
+    
+    for (const pattern of clientIDPatterns) {
+      for (const line of lines) {
+        const match = line.match(pattern)
+        if (match) return match[1]
+      }
+    }
+
+    return null
+  }
+
   private static extractUnit(value: string): string {
     const unitPatterns = [
       /([a-zA-Z/%]+)$/,  // Units at the end
@@ -517,18 +619,27 @@ export class ScanProcessor {
     return ''
   }
 
-  private static determineStatus(value: any): 'normal' | 'high' | 'low' | 'critical' {
-    // Simple heuristic - in a real implementation, you'd have reference ranges
-    const numValue = typeof value === 'number' ? value : parseFloat(value?.toString() || '0')
-    
-    if (isNaN(numValue)) return 'normal'
-    
-    // Very basic status determination - would need proper reference ranges
-    if (numValue > 1000 || numValue < 0) return 'critical'
-    if (numValue > 100) return 'high'
-    if (numValue < 10) return 'low'
-    
-    return 'normal'
+  private static async applyDictionary<T extends { path_id: string; value: string | number; unit?: string }>(
+    pathIDData: T[],
+    fileName: string,
+    warnings: string[]
+  ) {
+    const dictionary = await PathIDDictionary.load()
+    const queued = await PathIDDictionary.queueUnknown(pathIDData, dictionary, fileName)
+
+    if (queued.length > 0) {
+      warnings.push(`${queued.length} Path ID(s) are not in the dictionary and have been queued for an admin to define`)
+    }
+
+    return PathIDDictionary.describe(pathIDData, dictionary)
+  }
+
+  private static async applyReferenceRanges<T extends { path_id: string; value: string | number; unit?: string }>(
+    pathIDData: T[],
+    clientRecordId?: string
+  ) {
+    const subject = clientRecordId ? await ReferenceRangeEngine.loadSubject(clientRecordId) : {}
+    return ReferenceRangeEngine.annotate(pathIDData, subject)
   }
 
   private static calculateQualityScore(
@@ -0,0 +1,83 @@
+import { supabase } from './supabase'
+import { sha256 } from './utils'
+
+export const SCAN_FILES_BUCKET = 'scan-files'
+
+// Signed download links are only needed long enough to start the download
+const DOWNLOAD_URL_TTL_SECONDS = 60
+
+export interface StoredScanFile {
+  path: string
+  size: number
+  checksum: string
+  content_type: string
+}
+
+export class ScanStorage {
+  // Files live under the owning clients.id so storage policies can mirror the scans policies
+  static async upload(file: File, clientId: string): Promise<StoredScanFile> {
+    const checksum = await sha256(file)
+    const safeName = file.name.replace(/[^A-Za-z0-9._-]+/g, '_')
+    const path = `${clientId}/${Date.now()}-${safeName}`
+
+    const { error } = await supabase.storage
+      .from(SCAN_FILES_BUCKET)
+      .upload(path, file, {
+        contentType: file.type || 'application/octet-stream',
+        upsert: false
+      })
+
+    if (error) throw error
+
+    return {
+      path,
+      size: file.size,
+      checksum,
+      content_type: file.type || 'application/octet-stream'
+    }
+  }
+
+  static async createDownloadUrl(path: string, fileName?: string): Promise<string> {
+    const { data, error } = await supabase.storage
+      .from(SCAN_FILES_BUCKET)
+      .createSignedUrl(path, DOWNLOAD_URL_TTL_SECONDS, { download: fileName || true })
+
+    if (error) throw error
+    return data.signedUrl
+  }
+
+  static async remove(paths: string[]) {
+    if (paths.length === 0) return
+
+    const { error } = await supabase.storage
+      .from(SCAN_FILES_BUCKET)
+      .remove(paths)
+
+    if (error) throw error
+  }
+
+  // Scans split from one workbook share its file, so a file only goes once no scan points at it
+  static async removeUnreferenced(paths: string[]): Promise<string[]> {
+    const unique = [...new Set(paths)]
+    if (unique.length === 0) return []
+
+    const { data, error } = await supabase
+      .from('scans')
+      .select('file_path')
+      .in('file_path', unique)
+
+    if (error) throw error
+
+    const referenced = new Set((data || []).map(scan => scan.file_path))
+    const unreferenced = unique.filter(path => !referenced.has(path))
+    await this.remove(unreferenced)
+    return unreferenced
+  }
+
+  static formatSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+    return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`
+  }
+}
@@ -75,6 +75,16 @@ export type Database = {
           hydration_level: number | null
           raw_data: Record<string, any> | null
           file_path: string | null
+          file_size: number | null
+          file_checksum: string | null
+          file_name: string | null
+          file_type: string | null
+          processing_status: 'pending' | 'processing' | 'completed' | 'failed'
+          automation_status: 'automated' | 'manual' | 'failed' | null
+          upload_source: 'manual' | 'dropbox' | 'api'
+          quality_score: number | null
+          error_message: string | null
+          processed_at: string | null
           created_at: string
         }
         Insert: {
@@ -89,6 +99,16 @@ export type Database = {
           hydration_level?: number | null
           raw_data?: Record<string, any> | null
           file_path?: string | null
+          file_size?: number | null
+          file_checksum?: string | null
+          file_name?: string | null
+          file_type?: string | null
+          processing_status?: 'pending' | 'processing' | 'completed' | 'failed'
+          automation_status?: 'automated' | 'manual' | 'failed' | null
+          upload_source?: 'manual' | 'dropbox' | 'api'
+          quality_score?: number | null
+          error_message?: string | null
+          processed_at?: string | null
         }
         Update: {
           body_score?: number | null
@@ -100,6 +120,16 @@ export type Database = {
           hydration_level?: number | null
           raw_data?: Record<string, any> | null
           file_path?: string | null
+          file_size?: number | null
+          file_checksum?: string | null
+          file_name?: string | null
+          file_type?: string | null
+          processing_status?: 'pending' | 'processing' | 'completed' | 'failed'
+          automation_status?: 'automated' | 'manual' | 'failed' | null
+          upload_source?: 'manual' | 'dropbox' | 'api'
+          quality_score?: number | null
+          error_message?: string | null
+          processed_at?: string | null
         }
       }
       bookings: {
@@ -111,6 +141,13 @@ export type Database = {
           service_type: string
           status: 'scheduled' | 'completed' | 'cancelled' | 'no_show'
           notes: string | null
+          staff_id: string | null
+          room_id: string | null
+          service_type_id: string | null
+          ends_at: string
+          client_notes: string | null
+          cancelled_at: string | null
+          cancellation_reason: string | null
           created_at: string
           updated_at: string
         }
@@ -121,6 +158,10 @@ export type Database = {
           service_type: string
           status?: 'scheduled' | 'completed' | 'cancelled' | 'no_show'
           notes?: string | null
+          staff_id?: string | null
+          room_id?: string | null
+          service_type_id?: string | null
+          client_notes?: string | null
         }
         Update: {
           appointment_date?: string
@@ -128,6 +169,11 @@ export type Database = {
           service_type?: string
           status?: 'scheduled' | 'completed' | 'cancelled' | 'no_show'
           notes?: string | null
+          staff_id?: string | null
+          room_id?: string | null
+          service_type_id?: string | null
+          client_notes?: string | null
+          cancellation_reason?: string | null
           updated_at?: string
         }
       }
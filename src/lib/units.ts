@@ -0,0 +1,86 @@
+type Dimension = 'mass' | 'length' | 'energy' | 'volume' | 'time'
+
+interface UnitDefinition {
+  dimension: Dimension
+  // Multiplier to the dimension's base unit (kg, cm, kcal, l, years)
+  factor: number
+}
+
+// Units scanners are known to export; anything else is only comparable when spelt identically
+const UNITS: Record<string, UnitDefinition> = {
+  kg: { dimension: 'mass', factor: 1 },
+  g: { dimension: 'mass', factor: 0.001 },
+  lb: { dimension: 'mass', factor: 0.45359237 },
+  lbs: { dimension: 'mass', factor: 0.45359237 },
+  st: { dimension: 'mass', factor: 6.35029318 },
+  cm: { dimension: 'length', factor: 1 },
+  mm: { dimension: 'length', factor: 0.1 },
+  m: { dimension: 'length', factor: 100 },
+  in: { dimension: 'length', factor: 2.54 },
+  ft: { dimension: 'length', factor: 30.48 },
+  kcal: { dimension: 'energy', factor: 1 },
+  kj: { dimension: 'energy', factor: 1 / 4.184 },
+  l: { dimension: 'volume', factor: 1 },
+  ml: { dimension: 'volume', factor: 0.001 },
+  years: { dimension: 'time', factor: 1 },
+  yrs: { dimension: 'time', factor: 1 },
+  months: { dimension: 'time', factor: 1 / 12 }
+}
+
+export interface NormalizedSeries {
+  unit: string
+  // null where a value was not numeric or its unit could not be converted
+  values: Array<number | null>
+}
+
+export class UnitConverter {
+  static normalizeUnit(unit?: string): string {
+    return (unit || '').trim().toLowerCase().replace(/\.$/, '')
+  }
+
+  static toNumber(value: string | number | undefined): number | null {
+    if (typeof value === 'number') return isNaN(value) ? null : value
+    const parsed = parseFloat((value || '').toString().replace(',', '.'))
+    return isNaN(parsed) ? null : parsed
+  }
+
+  static canConvert(from?: string, to?: string): boolean {
+    const source = this.normalizeUnit(from)
+    const target = this.normalizeUnit(to)
+    if (source === target) return true
+    return !!UNITS[source] && UNITS[source].dimension === UNITS[target]?.dimension
+  }
+
+  static convert(value: number, from?: string, to?: string): number | null {
+    const source = this.normalizeUnit(from)
+    const target = this.normalizeUnit(to)
+    if (source === target) return value
+    if (!this.canConvert(source, target)) return null
+
+    return (value * UNITS[source].factor) / UNITS[target].factor
+  }
+
+  // Converts readings to one unit: the preferred unit when every reading can reach it, else the most common one
+  static normalize(readings: Array<{ value: string | number | undefined; unit?: string }>, preferred?: string): NormalizedSeries {
+    const counts = new Map<string, number>()
+    readings.forEach(reading => {
+      if (this.toNumber(reading.value) === null) return
+      const unit = (reading.unit || '').trim()
+      counts.set(unit, (counts.get(unit) || 0) + 1)
+    })
+
+    const candidates = [...counts.keys()]
+    const reachable = (target: string) => candidates.every(unit => this.canConvert(unit, target))
+    const unit = preferred !== undefined && reachable(preferred)
+      ? preferred
+      : [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? preferred ?? ''
+
+    return {
+      unit,
+      values: readings.map(reading => {
+        const value = this.toNumber(reading.value)
+        return value === null ? null : this.convert(value, reading.unit, unit)
+      })
+    }
+  }
+}
@@ -82,4 +82,12 @@ export function getWellnessStatus(score: number): {
     color: 'text-red-600',
     description: 'Requires focused attention'
   }
-}
\ No newline at end of file
+}
+
+// SHA-256 of the contents as lowercase hex
+export async function sha256(data: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await data.arrayBuffer())
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
@@ -0,0 +1,218 @@
+import { format, parseISO } from 'date-fns'
+import { ChangeDetector, ChangeDirection } from './changeDetection'
+import { UnitConverter } from './units'
+
+export type PassportEventType = 'onboarding' | 'scan' | 'booking' | 'report'
+
+export interface PassportScan {
+  id: string
+  scan_date: string
+  body_score: number | null
+  body_fat_percentage: number | null
+  muscle_mass: number | null
+  visceral_fat: number | null
+  metabolic_age: number | null
+  hydration_level: number | null
+}
+
+export interface PassportBooking {
+  id: string
+  appointment_date: string
+  duration_minutes: number
+  service_type: string
+  status: 'scheduled' | 'completed' | 'cancelled' | 'no_show'
+  notes: string | null
+}
+
+export interface PassportReport {
+  id: string
+  scan_id: string | null
+  report_data: Record<string, unknown> | null
+  generated_at: string
+}
+
+export interface PassportOnboarding {
+  onboarding_completed: boolean
+  created_at: string
+  last_saved_at?: string | null
+  updated_at?: string | null
+}
+
+export interface HeadlineMetric {
+  key: keyof Omit<PassportScan, 'id' | 'scan_date'>
+  label: string
+  unit: string
+  value: number
+  change?: number
+  direction?: ChangeDirection
+}
+
+export interface PassportEvent {
+  id: string
+  type: PassportEventType
+  date: string
+  title: string
+  description?: string
+  // Practitioner notes from bookings and reports
+  notes?: string
+  metrics?: HeadlineMetric[]
+  status?: string
+}
+
+export interface PassportData {
+  onboarding: PassportOnboarding | null
+  scans: PassportScan[]
+  bookings: PassportBooking[]
+  reports: PassportReport[]
+}
+
+export const HEADLINE_METRICS: Array<{ key: HeadlineMetric['key']; label: string; unit: string }> = [
+  { key: 'body_score', label: 'Body Score', unit: '' },
+  { key: 'body_fat_percentage', label: 'Body Fat', unit: '%' },
+  { key: 'muscle_mass', label: 'Muscle Mass', unit: 'kg' },
+  { key: 'visceral_fat', label: 'Visceral Fat', unit: '' },
+  { key: 'metabolic_age', label: 'Metabolic Age', unit: 'years' },
+  { key: 'hydration_level', label: 'Hydration', unit: '%' }
+]
+
+// Report fields practitioners have used for free-text commentary
+const REPORT_NOTE_FIELDS = ['practitioner_notes', 'notes', 'summary', 'recommendations']
+
+export class WellnessPassport {
+  // Values for the typed metric columns of `scans`, taken from a scan's readings, which use
+  // the same ids, and converted to the headline units
+  static metricColumns(
+    pathIDs: Array<{ path_id: string; value: string | number; unit?: string }>
+  ): Record<HeadlineMetric['key'], number | null> {
+    return Object.fromEntries(HEADLINE_METRICS.map(({ key, unit }) => {
+      const reading = pathIDs.find(pathID => pathID.path_id === key)
+      const value = UnitConverter.toNumber(reading?.value)
+      if (value === null) return [key, null]
+
+      return [key, reading?.unit && unit ? UnitConverter.convert(value, reading.unit, unit) : value]
+    })) as Record<HeadlineMetric['key'], number | null>
+  }
+
+  // Headline metrics of a scan, with the change from the previous scan where there is one
+  static headlineMetrics(scan: PassportScan, previous?: PassportScan): HeadlineMetric[] {
+    return HEADLINE_METRICS.flatMap(({ key, label, unit }) => {
+      const value = scan[key]
+      if (value === null || value === undefined) return []
+
+      const before = previous?.[key]
+      if (!previous || before === null || before === undefined) {
+        return [{ key, label, unit, value }]
+      }
+
+      const analysis = ChangeDetector.analyze(key, [
+        { scan_id: previous.id, scan_date: previous.scan_date, value: Number(before) },
+        { scan_id: scan.id, scan_date: scan.scan_date, value: Number(value) }
+      ], unit)
+
+      return [{
+        key,
+        label,
+        unit,
+        value,
+        change: analysis?.overall_change,
+        direction: analysis?.direction
+      }]
+    })
+  }
+
+  // Change in each headline metric between the first and latest scan
+  static journeyMetrics(scans: PassportScan[]): HeadlineMetric[] {
+    const ordered = this.sortByDate(scans, scan => scan.scan_date)
+    if (ordered.length === 0) return []
+
+    return this.headlineMetrics(ordered[ordered.length - 1], ordered.length > 1 ? ordered[0] : undefined)
+  }
+
+  // Every event in the client's journey, most recent first
+  static buildTimeline({ onboarding, scans, bookings, reports }: PassportData): PassportEvent[] {
+    const events: PassportEvent[] = []
+
+    if (onboarding?.onboarding_completed) {
+      events.push({
+        id: 'onboarding',
+        type: 'onboarding',
+        date: onboarding.last_saved_at || onboarding.updated_at || onboarding.created_at,
+        title: 'Onboarding completed',
+        description: 'Your wellness profile was set up'
+      })
+    }
+
+    const orderedScans = this.sortByDate(scans, scan => scan.scan_date)
+    orderedScans.forEach((scan, index) => {
+      events.push({
+        id: `scan-${scan.id}`,
+        type: 'scan',
+        date: scan.scan_date,
+        title: index === 0 ? 'Baseline body scan' : 'Body scan',
+        metrics: this.headlineMetrics(scan, orderedScans[index - 1])
+      })
+    })
+
+    bookings
+      .filter(booking => booking.status !== 'cancelled')
+      .forEach(booking => {
+        events.push({
+          id: `booking-${booking.id}`,
+          type: 'booking',
+          date: booking.appointment_date,
+          title: booking.service_type,
+          description: `${booking.duration_minutes} minute session`,
+          notes: booking.notes || undefined,
+          status: booking.status
+        })
+      })
+
+    reports.forEach(report => {
+      events.push({
+        id: `report-${report.id}`,
+        type: 'report',
+        date: report.generated_at,
+        title: typeof report.report_data?.title === 'string' ? report.report_data.title : 'Wellness report',
+        notes: this.reportNotes(report)
+      })
+    })
+
+    return this.sortByDate(events, event => event.date).reverse()
+  }
+
+  static reportNotes(report: PassportReport): string | undefined {
+    const data = report.report_data || {}
+    const notes = REPORT_NOTE_FIELDS
+      .map(name => data[name])
+      .find((value): value is string => typeof value === 'string' && value.trim() !== '')
+    return notes?.trim()
+  }
+
+  // Plain-text version of a summary card for sharing
+  static shareText(title: string, metrics: HeadlineMetric[], since?: string): string {
+    const lines = metrics.map(metric => {
+      const change = metric.change !== undefined ? ` (${this.formatChange(metric.change, metric.unit)})` : ''
+      return `${metric.label}: ${this.formatValue(metric.value, metric.unit)}${change}`
+    })
+
+    return [
+      title,
+      since ? `Since ${format(parseISO(since), 'd MMM yyyy')}` : null,
+      ...lines
+    ].filter(Boolean).join('\n')
+  }
+
+  static formatValue(value: number, unit: string): string {
+    const rounded = Math.round(value * 10) / 10
+    if (!unit) return `${rounded}`
+    return unit === '%' ? `${rounded}%` : `${rounded} ${unit}`
+  }
+
+  static formatChange(change: number, unit: string): string {
+    return `${change > 0 ? '+' : ''}${this.formatValue(change, unit)}`
+  }
+
+  private static sortByDate<T>(items: T[], date: (item: T) => string): T[] {
+    return [...items].sort((a, b) => parseISO(date(a)).getTime() - parseISO(date(b)).getTime())
+  }
+}
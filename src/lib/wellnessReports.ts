@@ -0,0 +1,311 @@
+import { format, parseISO } from 'date-fns'
+import { supabase } from './supabase'
+import { ChangeDetector, ChangeDirection } from './changeDetection'
+import { PathIDStatus, ReferenceRangeEngine, ReferenceSubject } from './referenceRanges'
+import { PathIDDefinition } from './pathIdDictionary'
+import { UnitConverter } from './units'
+
+export interface ReportScanPathID {
+  path_id: string
+  value: string | number
+  unit?: string
+  description?: string
+  status?: PathIDStatus
+}
+
+export interface ReportScan {
+  id: string
+  client_id: string
+  scan_date: string
+  body_score: number | null
+  processing_status: string
+  path_ids: ReportScanPathID[]
+}
+
+export interface ReportFinding {
+  path_id: string
+  name: string
+  category?: string
+  value: string | number
+  unit: string
+  status: PathIDStatus
+  reference_range?: string
+}
+
+export interface ReportTrend {
+  path_id: string
+  name: string
+  unit: string
+  previous: number
+  latest: number
+  // Since the previous scan
+  change: number
+  direction: ChangeDirection
+  // Since the first scan
+  overall_change: number
+  overall_direction: ChangeDirection
+}
+
+export interface ReportScore {
+  value: number | null
+  previous: number | null
+  change: number | null
+  direction: ChangeDirection | null
+}
+
+// Stored in wellness_reports.report_data. Bump the version when the shape changes.
+export interface WellnessReportData {
+  version: 1
+  title: string
+  client: { name: string; client_code: string }
+  scan_date: string
+  previous_scan_date: string | null
+  scan_count: number
+  score: ReportScore
+  out_of_range: ReportFinding[]
+  trends: ReportTrend[]
+  practitioner_notes: string
+  recommendations: string
+  prepared_by: string
+}
+
+export interface WellnessReport {
+  id: string
+  client_id: string
+  scan_id: string | null
+  report_data: WellnessReportData
+  generated_at: string
+  // Joined for staff views only
+  client?: {
+    client_code: string
+    profile: { first_name: string | null; last_name: string | null; email: string | null } | null
+  } | null
+}
+
+export interface ReportCommentary {
+  practitioner_notes: string
+  recommendations: string
+  prepared_by: string
+}
+
+export const FINDING_STATUS_LABELS: Record<PathIDStatus, string> = {
+  normal: 'Normal',
+  high: 'High',
+  low: 'Low',
+  critical: 'Critical'
+}
+
+export const FINDING_STATUS_COLORS: Record<PathIDStatus, string> = {
+  normal: 'bg-green-50 border-green-200 text-green-800',
+  high: 'bg-orange-50 border-orange-200 text-orange-800',
+  low: 'bg-blue-50 border-blue-200 text-blue-800',
+  critical: 'bg-red-50 border-red-200 text-red-800'
+}
+
+// Critical findings first, then by how they appear in the dictionary
+const STATUS_ORDER: PathIDStatus[] = ['critical', 'high', 'low', 'normal']
+
+const REPORT_SELECT = `
+  *,
+  client:clients(
+    client_code,
+    profile:profiles!clients_profile_id_fkey(first_name, last_name, email)
+  )
+`
+
+export class WellnessReportGenerator {
+  // Builds a report for a scan from the client's scans up to and including it
+  static generate({
+    scan,
+    history,
+    subject,
+    dictionary,
+    client,
+    commentary
+  }: {
+    scan: ReportScan
+    history: ReportScan[]
+    subject: ReferenceSubject
+    dictionary: Map<string, PathIDDefinition>
+    client: { name: string; client_code: string }
+    commentary: ReportCommentary
+  }): WellnessReportData {
+    const scans = history
+      .filter(candidate => candidate.id !== scan.id && candidate.scan_date <= scan.scan_date)
+      .concat(scan)
+      .sort((a, b) => a.scan_date.localeCompare(b.scan_date))
+    const previous = scans.length > 1 ? scans[scans.length - 2] : null
+
+    return {
+      version: 1,
+      title: `Wellness Report - ${format(parseISO(scan.scan_date), 'd MMMM yyyy')}`,
+      client,
+      scan_date: scan.scan_date,
+      previous_scan_date: previous?.scan_date || null,
+      scan_count: scans.length,
+      score: this.score(scans),
+      out_of_range: this.findings(scan, subject, dictionary),
+      trends: this.trends(scans, dictionary),
+      practitioner_notes: commentary.practitioner_notes.trim(),
+      recommendations: commentary.recommendations.trim(),
+      prepared_by: commentary.prepared_by
+    }
+  }
+
+  // Reports written before versioning, or by hand, are not rendered as structured reports
+  static parse(data: unknown): WellnessReportData | null {
+    if (!data || typeof data !== 'object') return null
+    const report = data as Partial<WellnessReportData>
+    return report.version === 1 && Array.isArray(report.out_of_range) && Array.isArray(report.trends)
+      ? report as WellnessReportData
+      : null
+  }
+
+  static async fetchScans(clientId: string): Promise<ReportScan[]> {
+    const { data, error } = await supabase
+      .from('scans')
+      .select('id, client_id, scan_date, body_score, processing_status, raw_data')
+      .eq('client_id', clientId)
+      .order('scan_date', { ascending: true })
+
+    if (error) throw error
+    return (data || []).map(scan => ({
+      id: scan.id,
+      client_id: scan.client_id,
+      scan_date: scan.scan_date,
+      body_score: scan.body_score,
+      processing_status: scan.processing_status,
+      path_ids: scan.raw_data?.path_ids || []
+    }))
+  }
+
+  // RLS limits clients to their own reports
+  static async fetchReports(clientId?: string): Promise<WellnessReport[]> {
+    let query = supabase
+      .from('wellness_reports')
+      .select(clientId ? '*' : REPORT_SELECT)
+      .order('generated_at', { ascending: false })
+
+    if (clientId) {
+      query = query.eq('client_id', clientId)
+    }
+
+    const { data, error } = await query
+    if (error) throw error
+
+    return ((data || []) as unknown as WellnessReport[])
+      .filter(report => this.parse(report.report_data))
+  }
+
+  static async save(report: { id?: string; client_id: string; scan_id: string; report_data: WellnessReportData }): Promise<WellnessReport> {
+    const { id, ...values } = report
+    const query = id
+      ? supabase.from('wellness_reports').update({ report_data: values.report_data }).eq('id', id)
+      : supabase.from('wellness_reports').insert(values)
+
+    const { data, error } = await query.select().single()
+    if (error) throw error
+    return data
+  }
+
+  static async remove(id: string) {
+    const { error } = await supabase.from('wellness_reports').delete().eq('id', id)
+    if (error) throw error
+  }
+
+  static clientName(report: WellnessReport): string {
+    const profile = report.client?.profile
+    const name = [profile?.first_name, profile?.last_name].filter(Boolean).join(' ')
+    return name || report.report_data.client.name || report.client?.client_code || 'Client'
+  }
+
+  private static score(scans: ReportScan[]): ReportScore {
+    const points = scans.flatMap(scan => {
+      const value = scan.body_score ?? UnitConverter.toNumber(scan.path_ids.find(pathID => pathID.path_id === 'body_score')?.value)
+      return value === null ? [] : [{ scan_id: scan.id, scan_date: scan.scan_date, value }]
+    })
+
+    const latest = points[points.length - 1]
+    if (!latest || latest.scan_id !== scans[scans.length - 1].id) {
+      return { value: null, previous: null, change: null, direction: null }
+    }
+
+    const analysis = ChangeDetector.analyze('body_score', points, '')
+    return {
+      value: latest.value,
+      previous: analysis ? points[points.length - 2].value : null,
+      change: analysis?.latest_change ?? null,
+      direction: analysis?.latest_direction ?? null
+    }
+  }
+
+  private static findings(scan: ReportScan, subject: ReferenceSubject, dictionary: Map<string, PathIDDefinition>): ReportFinding[] {
+    return scan.path_ids
+      .flatMap(pathID => {
+        // Scanner-reported status applies when the engine has no range for the Path ID
+        const evaluation = ReferenceRangeEngine.evaluate(pathID.path_id, pathID.value, pathID.unit, subject, scan.scan_date)
+        const status = evaluation.status || pathID.status
+        if (!status || status === 'normal') return []
+
+        const definition = dictionary.get(pathID.path_id)
+        return [{
+          path_id: pathID.path_id,
+          name: definition?.name || pathID.description || pathID.path_id,
+          category: definition?.category,
+          value: pathID.value,
+          unit: pathID.unit || definition?.unit || '',
+          status,
+          reference_range: evaluation.reference_range
+        }]
+      })
+      .sort((a, b) =>
+        STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status) ||
+        (dictionary.get(a.path_id)?.display_order ?? Number.MAX_SAFE_INTEGER) - (dictionary.get(b.path_id)?.display_order ?? Number.MAX_SAFE_INTEGER)
+      )
+  }
+
+  // Path IDs that moved more than their measurement noise since the previous scan
+  private static trends(scans: ReportScan[], dictionary: Map<string, PathIDDefinition>): ReportTrend[] {
+    if (scans.length < 2) return []
+
+    const latestScan = scans[scans.length - 1]
+
+    return latestScan.path_ids
+      .flatMap(pathID => {
+        const readings = scans.map(scan => scan.path_ids.find(candidate => candidate.path_id === pathID.path_id))
+        const normalized = UnitConverter.normalize(
+          readings.map(reading => ({ value: reading?.value, unit: reading?.unit })),
+          dictionary.get(pathID.path_id)?.unit || undefined
+        )
+        const points = scans.flatMap((scan, index) => {
+          const value = normalized.values[index]
+          return value === null ? [] : [{ scan_id: scan.id, scan_date: scan.scan_date, value }]
+        })
+
+        // Only compare against the latest scan's own reading
+        if (points[points.length - 1]?.scan_id !== latestScan.id) return []
+
+        const analysis = ChangeDetector.analyze(pathID.path_id, points, normalized.unit)
+        if (!analysis || analysis.latest_change === undefined || !analysis.latest_direction || analysis.latest_direction === 'stable') {
+          return []
+        }
+
+        return [{
+          significance: Math.abs(analysis.latest_change) / analysis.mcid,
+          trend: {
+            path_id: pathID.path_id,
+            name: dictionary.get(pathID.path_id)?.name || pathID.description || pathID.path_id,
+            unit: normalized.unit,
+            previous: points[points.length - 2].value,
+            latest: analysis.latest.value,
+            change: analysis.latest_change,
+            direction: analysis.latest_direction,
+            overall_change: analysis.overall_change,
+            overall_direction: analysis.direction
+          }
+        }]
+      })
+      .sort((a, b) => b.significance - a.significance)
+      .map(({ trend }) => trend)
+  }
+}
@@ -0,0 +1,117 @@
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { AlertCircle, RefreshCw } from 'lucide-react'
+import { Card, CardContent } from '../components/ui/Card'
+import { Button } from '../components/ui/Button'
+import { AcquisitionChart } from '../components/analytics/AcquisitionChart'
+import { OnboardingFunnel } from '../components/analytics/OnboardingFunnel'
+import { ScanVolumeChart } from '../components/analytics/ScanVolumeChart'
+import { BookingUtilisation } from '../components/analytics/BookingUtilisation'
+import { RevenueChart } from '../components/analytics/RevenueChart'
+import {
+  AcquisitionRow,
+  AnalyticsService,
+  FunnelRow,
+  RevenueRow,
+  ScanVolumeRow,
+  UtilisationRow,
+  ANALYTICS_PERIODS
+} from '../lib/analytics'
+import { BookingService, StaffMember } from '../lib/bookings'
+
+export function Analytics() {
+  const [months, setMonths] = useState(6)
+  const [acquisition, setAcquisition] = useState<AcquisitionRow[]>([])
+  const [funnel, setFunnel] = useState<FunnelRow[]>([])
+  const [scanVolumes, setScanVolumes] = useState<ScanVolumeRow[]>([])
+  const [utilisation, setUtilisation] = useState<UtilisationRow[]>([])
+  const [revenue, setRevenue] = useState<RevenueRow[]>([])
+  const [practitioners, setPractitioners] = useState<StaffMember[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const range = useMemo(() => AnalyticsService.range(months), [months])
+
+  const loadAnalytics = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const [acquisitionRows, funnelRows, scanRows, utilisationRows, revenueRows, staff] = await Promise.all([
+        AnalyticsService.fetchAcquisition(range),
+        AnalyticsService.fetchFunnel(range),
+        AnalyticsService.fetchScanVolumes(range),
+        AnalyticsService.fetchUtilisation(range),
+        AnalyticsService.fetchRevenue(range),
+        BookingService.fetchPractitioners()
+      ])
+
+      setAcquisition(acquisitionRows)
+      setFunnel(funnelRows)
+      setScanVolumes(scanRows)
+      setUtilisation(utilisationRows)
+      setRevenue(revenueRows)
+      setPractitioners(staff)
+    } catch (error) {
+      console.error('Error loading analytics:', error)
+      setError('Error loading analytics. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }, [range])
+
+  useEffect(() => {
+    loadAnalytics()
+  }, [loadAnalytics])
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Analytics</h1>
+          <p className="text-gray-600 mt-1">Client growth, onboarding, scans, bookings and revenue</p>
+        </div>
+        <div className="flex items-center space-x-3">
+          <select
+            value={months}
+            onChange={(e) => setMonths(Number(e.target.value))}
+            className="wellness-input"
+          >
+            {ANALYTICS_PERIODS.map(period => (
+              <option key={period.months} value={period.months}>{period.label}</option>
+            ))}
+          </select>
+          <Button variant="outline" icon={RefreshCw} onClick={loadAnalytics} loading={loading}>
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <Card variant="minimal" className="border-red-200 bg-red-50">
+          <CardContent>
+            <div className="flex items-center space-x-3">
+              <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {loading && funnel.length === 0 ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="w-8 h-8 border-4 border-wellness-sage-200 border-t-wellness-sage-600 rounded-full animate-spin"></div>
+        </div>
+      ) : (
+        <>
+          <AcquisitionChart rows={acquisition} range={range} />
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <OnboardingFunnel rows={funnel} />
+            <ScanVolumeChart rows={scanVolumes} range={range} />
+          </div>
+          <BookingUtilisation rows={utilisation} practitioners={practitioners} />
+          <RevenueChart rows={revenue} />
+        </>
+      )}
+    </div>
+  )
+}
@@ -6,6 +6,8 @@ import { FormTemplate } from '../components/forms/FormBuilder'
 import { useAuth } from '../hooks/useAuth'
 import { supabase } from '../lib/supabase'
 import { generateClientCode } from '../lib/utils'
+import { FormProgress } from '../lib/formPages'
+import { FormSubmission, FormSubmissions } from '../lib/formSubmissions'
 
 export function ClientOnboarding() {
   const navigate = useNavigate()
@@ -13,6 +15,10 @@ export function ClientOnboarding() {
   const [onboardingForm, setOnboardingForm] = useState<FormTemplate | null>(null)
   const [loading, setLoading] = useState(true)
   const [useCustomForm, setUseCustomForm] = useState(false)
+  // Saved draft of the custom form, if the client started it before
+  const [draftId, setDraftId] = useState<string | null>(null)
+  const [draftData, setDraftData] = useState<FormSubmission['answers']>({})
+  const [draftProgress, setDraftProgress] = useState<FormProgress | undefined>()
 
   useEffect(() => {
     if (user) {
@@ -74,6 +80,7 @@ export function ClientOnboarding() {
         } else {
           const latestTemplate = template && template.length > 0 ? template[0] : null
           if (latestTemplate) {
+            await loadDraft(latestTemplate.id)
             setOnboardingForm(latestTemplate)
             setUseCustomForm(true)
           }
@@ -87,7 +94,31 @@ export function ClientOnboarding() {
     }
   }
 
+  const loadDraft = async (templateId: string) => {
+    if (!user) return
+
+    try {
+      const draft = await FormSubmissions.findDraft(templateId, user.id)
+      if (draft) {
+        setDraftId(draft.id)
+        setDraftData(draft.answers || {})
+        setDraftProgress(draft.progress?.page_count ? draft.progress : undefined)
+      }
+    } catch (error) {
+      console.error('Error loading saved onboarding progress:', error)
+    }
+  }
+
+  // Keeps the draft as an unsubmitted form submission until the form is submitted
+  const handleCustomFormSaveProgress = async (formData: FormSubmission['answers'], progress: FormProgress) => {
+    if (!onboardingForm) return
+
+    setDraftId(await FormSubmissions.saveDraft(draftId, onboardingForm, formData, progress))
+  }
+
   const handleCustomFormSubmit = async (formData: any) => {
+    if (!onboardingForm) return
+
     try {
       console.log('Processing custom form submission:', formData)
       
@@ -146,47 +177,9 @@ export function ClientOnboarding() {
         }
       }
 
-      // Store the custom form submission data with completion flag
-      const onboardingData = {
-        client_id: user?.id,
-        
-        // Store the custom form data in a structured way
-        custom_form_data: formData,
-        custom_form_template_id: onboardingForm?.id,
-        onboarding_completed: true, // CRITICAL: Mark as completed
-        
-        // Set default values for required fields
-        terms_accepted: true,
-        country: 'South Africa',
-        current_medications: [],
-        chronic_conditions: [],
-        current_treatments: [],
-        previous_procedures: [],
-        medical_implants: [],
-        transformation_reasons: [],
-        primary_goals: [],
-        medications: '',
-        allergies: '',
-        previous_surgeries: '',
-        activity_level: 'not_specified',
-        dietary_preferences: '',
-        marketing_consent: false,
-        
-        // Update timestamps
-        updated_at: new Date().toISOString(),
-        last_saved_at: new Date().toISOString()
-      }
-
-      console.log('Saving custom form data with completion flag:', { onboarding_completed: onboardingData.onboarding_completed })
-
-      const { error: onboardingError } = await supabase
-        .from('client_onboarding_data')
-        .upsert(onboardingData)
-
-      if (onboardingError) {
-        console.error('Error saving custom form data:', onboardingError)
-        throw onboardingError
-      }
+      // Complete the saved draft rather than leaving it behind as a second submission,
+      // marking onboarding complete in the same step
+      await FormSubmissions.completeOnboarding(draftId, onboardingForm, formData)
 
       console.log('Custom form onboarding completed successfully, redirecting to dashboard')
       
@@ -275,6 +268,9 @@ export function ClientOnboarding() {
           <FormRenderer
             template={onboardingForm}
             onSubmit={handleCustomFormSubmit}
+            initialData={draftData}
+            initialProgress={draftProgress}
+            onSaveProgress={handleCustomFormSaveProgress}
           />
         </div>
       </div>
@@ -0,0 +1,226 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Plus, Target, AlertCircle, CheckCircle } from 'lucide-react'
+import { Card, CardHeader, CardContent } from '../components/ui/Card'
+import { Button } from '../components/ui/Button'
+import { MetricHistoryChart } from '../components/progress/MetricHistoryChart'
+import { GoalCard } from '../components/progress/GoalCard'
+import { GoalForm } from '../components/progress/GoalForm'
+import { useAuth } from '../hooks/useAuth'
+import { ClientGoal, GoalStatus, ProgressData, ProgressGoals, TRANSFORMATION_REASONS } from '../lib/progressGoals'
+
+export function Progress() {
+  const [progress, setProgress] = useState<ProgressData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [showForm, setShowForm] = useState(false)
+  const [editingGoal, setEditingGoal] = useState<ClientGoal | null>(null)
+  const [showArchived, setShowArchived] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+  const { user } = useAuth()
+
+  const loadProgress = useCallback(async () => {
+    if (!user) return
+
+    try {
+      setProgress(await ProgressGoals.load(user.id))
+    } catch (error) {
+      console.error('Error loading progress:', error)
+      setError('Error loading your progress. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }, [user])
+
+  useEffect(() => {
+    loadProgress()
+  }, [loadProgress])
+
+  useEffect(() => {
+    if (error || success) {
+      const timer = setTimeout(() => {
+        setError(null)
+        setSuccess(null)
+      }, 5000)
+      return () => clearTimeout(timer)
+    }
+  }, [error, success])
+
+  const handleSaved = (message: string) => {
+    setSuccess(message)
+    setShowForm(false)
+    setEditingGoal(null)
+    loadProgress()
+  }
+
+  const changeStatus = async (goal: ClientGoal, status: GoalStatus) => {
+    try {
+      await ProgressGoals.setStatus(goal, status)
+      handleSaved(status === 'archived' ? 'Goal archived.' : 'Goal restored.')
+    } catch (error) {
+      console.error('Error updating goal:', error)
+      setError('Error updating the goal. Please try again.')
+    }
+  }
+
+  const deleteGoal = async (goal: ClientGoal) => {
+    if (!confirm(`Are you sure you want to delete the ${ProgressGoals.metricLabel(goal.metric)} goal?`)) return
+
+    try {
+      await ProgressGoals.remove(goal)
+      handleSaved('Goal deleted.')
+    } catch (error) {
+      console.error('Error deleting goal:', error)
+      setError('Error deleting the goal. Please try again.')
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="w-8 h-8 border-4 border-wellness-sage-200 border-t-wellness-sage-600 rounded-full animate-spin"></div>
+      </div>
+    )
+  }
+
+  const scans = progress?.scans || []
+  const goals = progress?.goals || []
+  // Clients who skipped the transformation step can still link goals to any reason
+  const reasons = progress?.reasons.length
+    ? progress.reasons
+    : TRANSFORMATION_REASONS.filter(reason => reason !== 'Other')
+  const activeGoals = goals.filter(goal => goal.status === 'active')
+  const archivedGoals = goals.filter(goal => goal.status === 'archived')
+  const goalReasons = Array.from(new Set([...reasons, ...activeGoals.map(goal => goal.transformation_reason)]))
+    .filter(reason => activeGoals.some(goal => goal.transformation_reason === reason))
+
+  const goalCard = (goal: ClientGoal) => (
+    <GoalCard
+      key={goal.id}
+      goal={goal}
+      scans={scans}
+      onEdit={setEditingGoal}
+      onArchive={(target) => changeStatus(target, 'archived')}
+      onRestore={(target) => changeStatus(target, 'active')}
+      onDelete={deleteGoal}
+    />
+  )
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Progress</h1>
+          <p className="text-gray-600 mt-1">Track your scan results against the goals that matter to you</p>
+        </div>
+        <Button
+          variant="primary"
+          icon={Plus}
+          onClick={() => setShowForm(true)}
+          disabled={!progress?.clientId}
+        >
+          New Goal
+        </Button>
+      </div>
+
+      {/* Status Messages */}
+      {error && (
+        <Card variant="minimal" className="border-red-200 bg-red-50">
+          <CardContent>
+            <div className="flex items-center space-x-3">
+              <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {success && (
+        <Card variant="minimal" className="border-green-200 bg-green-50">
+          <CardContent>
+            <div className="flex items-center space-x-3">
+              <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0" />
+              <p className="text-sm text-green-700">{success}</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {progress && !progress.clientId && (
+        <Card variant="minimal" className="border-amber-200 bg-amber-50">
+          <CardContent>
+            <p className="text-sm text-amber-800">
+              Your client record hasn't been set up yet. Your progress will appear here after your first scan.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      <MetricHistoryChart scans={scans} goals={goals} />
+
+      {/* Goals by transformation reason */}
+      {activeGoals.length === 0 ? (
+        <Card hover={false}>
+          <CardContent>
+            <div className="text-center py-8">
+              <Target className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No goals yet</h3>
+              <p className="text-gray-600 mb-4">
+                Set a target for a scan measurement to track your progress towards {reasons.length === 1 ? 'your reason' : 'your reasons'} for transformation.
+              </p>
+              {progress?.clientId && (
+                <Button variant="primary" icon={Plus} onClick={() => setShowForm(true)}>
+                  Set Your First Goal
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        goalReasons.map(reason => (
+          <div key={reason} className="space-y-4">
+            <h2 className="text-xl font-semibold text-gray-900">{reason}</h2>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {activeGoals.filter(goal => goal.transformation_reason === reason).map(goalCard)}
+            </div>
+          </div>
+        ))
+      )}
+
+      {archivedGoals.length > 0 && (
+        <Card hover={false}>
+          <CardHeader
+            title="Archived Goals"
+            description={`${archivedGoals.length} archived`}
+            action={
+              <Button variant="ghost" size="sm" onClick={() => setShowArchived(!showArchived)}>
+                {showArchived ? 'Hide' : 'Show'}
+              </Button>
+            }
+          />
+          {showArchived && (
+            <CardContent>
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                {archivedGoals.map(goalCard)}
+              </div>
+            </CardContent>
+          )}
+        </Card>
+      )}
+
+      {(showForm || editingGoal) && progress?.clientId && (
+        <GoalForm
+          clientId={progress.clientId}
+          reasons={reasons}
+          scans={scans}
+          goal={editingGoal || undefined}
+          onClose={() => {
+            setShowForm(false)
+            setEditingGoal(null)
+          }}
+          onSaved={handleSaved}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,17 @@
+import { ReportManager } from '../components/reports/ReportManager'
+import { ClientReports } from '../components/reports/ClientReports'
+import { useAuth } from '../hooks/useAuth'
+
+export function Reports() {
+  const { profile } = useAuth()
+
+  if (!profile) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="w-8 h-8 border-4 border-wellness-sage-200 border-t-wellness-sage-600 rounded-full animate-spin"></div>
+      </div>
+    )
+  }
+
+  return profile.role === 'client' ? <ClientReports /> : <ReportManager />
+}
@@ -9,22 +9,32 @@ import {
   Database,
   Mail,
   Globe,
-  CreditCard
+  CreditCard,
+  BookOpen,
+  LayoutGrid,
+  CalendarClock
 } from 'lucide-react'
 import { Card, CardHeader, CardContent } from '../components/ui/Card'
 import { Button } from '../components/ui/Button'
 import { FormTemplateManager } from '../components/forms/FormTemplateManager'
+import { PathIDDictionaryManager } from '../components/scans/PathIDDictionaryManager'
+import { ScanLayoutProfileManager } from '../components/scans/ScanLayoutProfileManager'
+import { BookingSetupManager } from '../components/bookings/BookingSetupManager'
+import { InvoiceSettingsManager } from '../components/invoices/InvoiceSettingsManager'
 
-type SettingsTab = 'forms' | 'users' | 'security' | 'notifications' | 'appearance' | 'integrations' | 'billing'
+type SettingsTab = 'forms' | 'pathids' | 'scanlayouts' | 'bookings' | 'users' | 'security' | 'notifications' | 'appearance' | 'integrations' | 'billing'
 
 const settingsTabs = [
   { id: 'forms' as SettingsTab, name: 'Form Templates', icon: FormInput, description: 'Create and manage form templates' },
+  { id: 'pathids' as SettingsTab, name: 'Path ID Dictionary', icon: BookOpen, description: 'Name and categorise scan Path IDs' },
+  { id: 'scanlayouts' as SettingsTab, name: 'Scan Layouts', icon: LayoutGrid, description: 'Scanner export layout profiles' },
+  { id: 'bookings' as SettingsTab, name: 'Booking Setup', icon: CalendarClock, description: 'Services, rooms and availability' },
   { id: 'users' as SettingsTab, name: 'User Management', icon: Users, description: 'Manage user accounts and permissions' },
   { id: 'security' as SettingsTab, name: 'Security', icon: Shield, description: 'Security settings and access control' },
   { id: 'notifications' as SettingsTab, name: 'Notifications', icon: Bell, description: 'Email and system notifications' },
   { id: 'appearance' as SettingsTab, name: 'Appearance', icon: Palette, description: 'Customize the look and feel' },
   { id: 'integrations' as SettingsTab, name: 'Integrations', icon: Database, description: 'Third-party integrations' },
-  { id: 'billing' as SettingsTab, name: 'Billing', icon: CreditCard, description: 'Subscription and billing settings' },
+  { id: 'billing' as SettingsTab, name: 'Invoicing', icon: CreditCard, description: 'Tax invoice details, VAT and numbering' },
 ]
 
 export function Settings() {
@@ -34,6 +44,15 @@ export function Settings() {
     switch (activeTab) {
       case 'forms':
         return <FormTemplateManager />
+
+      case 'pathids':
+        return <PathIDDictionaryManager />
+
+      case 'scanlayouts':
+        return <ScanLayoutProfileManager />
+
+      case 'bookings':
+        return <BookingSetupManager />
       
       case 'users':
         return (
@@ -131,23 +150,7 @@ export function Settings() {
         )
       
       case 'billing':
-        return (
-          <div className="space-y-6">
-            <div>
-              <h2 className="text-2xl font-bold text-gray-900 mb-2">Billing & Subscription</h2>
-              <p className="text-gray-600">Manage your subscription and billing information.</p>
-            </div>
-            <Card>
-              <CardContent>
-                <div className="text-center py-12">
-                  <CreditCard className="w-12 h-12 text-gray-400 mx-auto mb-4" />
-                  <h3 className="text-lg font-medium text-gray-900 mb-2">Billing & Subscription</h3>
-                  <p className="text-gray-600">Coming soon...</p>
-                </div>
-              </CardContent>
-            </Card>
-          </div>
-        )
+        return <InvoiceSettingsManager />
       
       default:
         return null
@@ -0,0 +1,160 @@
+import { useState, useEffect, useCallback } from 'react'
+import { format } from 'date-fns'
+import { Shield, Printer, AlertCircle } from 'lucide-react'
+import { Card, CardHeader, CardContent } from '../components/ui/Card'
+import { Button } from '../components/ui/Button'
+import { PassportSummaryCards } from '../components/passport/PassportSummaryCards'
+import { PassportTimeline } from '../components/passport/PassportTimeline'
+import { useAuth } from '../hooks/useAuth'
+import { supabase } from '../lib/supabase'
+import { PassportData, WellnessPassport as Passport } from '../lib/wellnessPassport'
+
+export function WellnessPassport() {
+  const [passport, setPassport] = useState<PassportData | null>(null)
+  const [clientCode, setClientCode] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const { user, profile } = useAuth()
+
+  const loadPassport = useCallback(async () => {
+    if (!user) return
+
+    try {
+      // RLS limits every query below to the signed-in client's own rows
+      const [clientResponse, onboardingResponse] = await Promise.all([
+        supabase
+          .from('clients')
+          .select('id, client_code')
+          .eq('profile_id', user.id)
+          .order('created_at', { ascending: false })
+          .limit(1),
+        supabase
+          .from('client_onboarding_data')
+          .select('onboarding_completed, created_at, updated_at, last_saved_at')
+          .eq('client_id', user.id)
+          .order('created_at', { ascending: false })
+          .limit(1)
+      ])
+
+      if (clientResponse.error) throw clientResponse.error
+
+      const client = clientResponse.data?.[0]
+      const onboarding = onboardingResponse.data?.[0] || null
+
+      if (!client) {
+        setPassport({ onboarding, scans: [], bookings: [], reports: [] })
+        return
+      }
+
+      const [scansResponse, bookingsResponse, reportsResponse] = await Promise.all([
+        supabase
+          .from('scans')
+          .select('id, scan_date, body_score, body_fat_percentage, muscle_mass, visceral_fat, metabolic_age, hydration_level')
+          .eq('client_id', client.id)
+          .order('scan_date', { ascending: true }),
+        supabase
+          .from('bookings')
+          .select('id, appointment_date, duration_minutes, service_type, status, notes')
+          .eq('client_id', client.id)
+          .order('appointment_date', { ascending: true }),
+        supabase
+          .from('wellness_reports')
+          .select('id, scan_id, report_data, generated_at')
+          .eq('client_id', client.id)
+          .order('generated_at', { ascending: true })
+      ])
+
+      if (scansResponse.error) throw scansResponse.error
+      if (bookingsResponse.error) throw bookingsResponse.error
+      if (reportsResponse.error) throw reportsResponse.error
+
+      setClientCode(client.client_code)
+      setPassport({
+        onboarding,
+        scans: scansResponse.data || [],
+        bookings: bookingsResponse.data || [],
+        reports: reportsResponse.data || []
+      })
+    } catch (error) {
+      console.error('Error loading wellness passport:', error)
+      setError('Your wellness passport could not be loaded. Please try again later.')
+    } finally {
+      setLoading(false)
+    }
+  }, [user])
+
+  useEffect(() => {
+    loadPassport()
+  }, [loadPassport])
+
+  const clientName = [profile?.first_name, profile?.last_name].filter(Boolean).join(' ') || 'Client'
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="w-8 h-8 border-4 border-wellness-sage-600 border-t-transparent rounded-full animate-spin" />
+      </div>
+    )
+  }
+
+  if (error || !passport) {
+    return (
+      <Card variant="minimal" className="border-red-200 bg-red-50">
+        <CardContent>
+          <div className="flex items-center space-x-2 text-red-700">
+            <AlertCircle className="w-5 h-5" />
+            <p>{error}</p>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const events = Passport.buildTimeline(passport)
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div className="flex items-start justify-between">
+        <div className="flex items-center space-x-4">
+          <div className="w-14 h-14 bg-wellness-sage-100 rounded-xl flex items-center justify-center">
+            <Shield className="w-7 h-7 text-wellness-sage-600" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Wellness Passport</h1>
+            <p className="text-gray-600">
+              {clientName}
+              {clientCode && <span className="ml-2 text-sm text-gray-500">({clientCode})</span>}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-3">
+          <p className="hidden print:block text-sm text-gray-500">
+            Printed {format(new Date(), 'd MMMM yyyy')}
+          </p>
+          <Button variant="outline" icon={Printer} onClick={() => window.print()} className="print:hidden">
+            Print / Save PDF
+          </Button>
+        </div>
+      </div>
+
+      {/* Summary cards */}
+      <PassportSummaryCards
+        clientName={clientName}
+        scans={passport.scans}
+        bookings={passport.bookings}
+      />
+
+      {/* Timeline */}
+      <Card hover={false}>
+        <CardHeader
+          title="Your Wellness Journey"
+          description="Onboarding, scans, sessions and practitioner notes in date order"
+        />
+        <CardContent>
+          <PassportTimeline events={events} />
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,170 @@
+/*
+  # Path ID dictionary
+
+  1. New Tables
+    - `path_id_definitions` - Managed dictionary of scanner Path IDs
+      - `path_id` (text, primary key)
+      - `name` (text) - Short human label
+      - `description` (text)
+      - `unit` (text) - Canonical unit
+      - `category` (text) - Body-system category used for grouping
+      - `display_order` (integer)
+    - `unknown_path_ids` - Path IDs seen during processing that have no definition yet
+      - `path_id` (text, primary key)
+      - `occurrences` (integer)
+      - `sample_value`, `sample_unit`, `source_file` (text)
+      - `first_seen_at`, `last_seen_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on both tables
+    - All authenticated users can read definitions (clients view their own scans)
+    - Only admins can manage definitions
+    - Staff and admin can queue unknown Path IDs; admins resolve them
+
+  3. Functions
+    - `queue_unknown_path_ids(path_ids, sample_values, sample_units, source_file)`
+      upserts unknown Path IDs and increments their occurrence count
+*/
+
+CREATE TABLE IF NOT EXISTS path_id_definitions (
+  path_id text PRIMARY KEY,
+  name text NOT NULL,
+  description text DEFAULT '',
+  unit text DEFAULT '',
+  category text NOT NULL DEFAULT 'Other',
+  display_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS unknown_path_ids (
+  path_id text PRIMARY KEY,
+  occurrences integer NOT NULL DEFAULT 1,
+  sample_value text,
+  sample_unit text,
+  source_file text,
+  first_seen_at timestamptz DEFAULT now(),
+  last_seen_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE path_id_definitions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE unknown_path_ids ENABLE ROW LEVEL SECURITY;
+
+-- Path ID definition policies
+CREATE POLICY "Authenticated users can view path id definitions"
+  ON path_id_definitions
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admin can manage path id definitions"
+  ON path_id_definitions
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+-- Unknown Path ID queue policies
+CREATE POLICY "Admin and staff can view unknown path ids"
+  ON unknown_path_ids
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'staff')
+    )
+  );
+
+CREATE POLICY "Admin can manage unknown path ids"
+  ON unknown_path_ids
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_path_id_definitions_category ON path_id_definitions(category, display_order);
+CREATE INDEX IF NOT EXISTS idx_unknown_path_ids_last_seen ON unknown_path_ids(last_seen_at);
+
+-- Create trigger for updated_at
+CREATE TRIGGER update_path_id_definitions_updated_at
+  BEFORE UPDATE ON path_id_definitions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Queue unknown Path IDs from the scan processor (staff cannot write the table directly)
+CREATE OR REPLACE FUNCTION queue_unknown_path_ids(
+  path_ids text[],
+  sample_values text[],
+  sample_units text[],
+  source_file text
+)
+RETURNS void AS $$
+BEGIN
+  IF NOT user_has_role('staff') THEN
+    RAISE EXCEPTION 'Only staff and admin can queue unknown Path IDs';
+  END IF;
+
+  -- One row per id: a batch from a multi-page report often repeats an id, and ON CONFLICT
+  -- can't update the same row twice. The last sample wins and every sighting is counted.
+  INSERT INTO unknown_path_ids (path_id, occurrences, sample_value, sample_unit, source_file)
+  SELECT DISTINCT ON (ids.path_id)
+    ids.path_id,
+    count(*) OVER (PARTITION BY ids.path_id),
+    ids.sample_value,
+    ids.sample_unit,
+    source_file
+  FROM unnest(path_ids, sample_values, sample_units) WITH ORDINALITY AS ids(path_id, sample_value, sample_unit, position)
+  WHERE NOT EXISTS (
+    SELECT 1 FROM path_id_definitions d WHERE d.path_id = ids.path_id
+  )
+  ORDER BY ids.path_id, ids.position DESC
+  ON CONFLICT (path_id) DO UPDATE
+  SET occurrences = unknown_path_ids.occurrences + EXCLUDED.occurrences,
+      sample_value = EXCLUDED.sample_value,
+      sample_unit = EXCLUDED.sample_unit,
+      source_file = EXCLUDED.source_file,
+      last_seen_at = now();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION queue_unknown_path_ids(text[], text[], text[], text) TO authenticated;
+
+-- Remove queued entries once they have been defined
+CREATE OR REPLACE FUNCTION clear_defined_unknown_path_id()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM unknown_path_ids WHERE path_id = NEW.path_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER clear_defined_unknown_path_id_trigger
+  AFTER INSERT ON path_id_definitions
+  FOR EACH ROW
+  EXECUTE FUNCTION clear_defined_unknown_path_id();
+
+-- Seed definitions for the standard body composition metrics
+INSERT INTO path_id_definitions (path_id, name, description, unit, category, display_order)
+VALUES
+  ('body_score', 'Body Score', 'Overall cellular wellness score', '', 'Overview', 0),
+  ('body_fat_percentage', 'Body Fat', 'Total body fat as a percentage of body weight', '%', 'Body Composition', 10),
+  ('muscle_mass', 'Muscle Mass', 'Total skeletal and smooth muscle mass', 'kg', 'Body Composition', 20),
+  ('visceral_fat', 'Visceral Fat', 'Visceral fat rating around the internal organs', '', 'Body Composition', 30),
+  ('bone_density', 'Bone Mass', 'Estimated mineral bone mass', 'kg', 'Musculoskeletal', 40),
+  ('hydration_level', 'Hydration', 'Total body water as a percentage of body weight', '%', 'Hydration', 50),
+  ('metabolic_age', 'Metabolic Age', 'Age equivalent of the basal metabolic rate', 'years', 'Metabolic', 60)
+ON CONFLICT (path_id) DO NOTHING;
@@ -0,0 +1,70 @@
+/*
+  # Scan layout profiles
+
+  1. New Tables
+    - `scan_layout_profiles` - Admin-defined descriptions of scanner export layouts
+      - `id` (uuid, primary key)
+      - `name` (text)
+      - `vendor` (text) - Scanner vendor or device the layout belongs to
+      - `description` (text)
+      - `file_types` (text[]) - File extensions the profile applies to (empty = all)
+      - `priority` (integer) - Tie-breaker when several profiles match equally well
+      - `is_active` (boolean)
+      - `layout` (jsonb) - Orientation, cell ranges/header names for Path IDs, values,
+        units, dates and client identifiers, JSON paths and match rules
+
+  2. Security
+    - Enable RLS
+    - Admin and staff can read profiles (the scan processor runs as staff)
+    - Only admins can manage profiles
+*/
+
+CREATE TABLE IF NOT EXISTS scan_layout_profiles (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  name text NOT NULL,
+  vendor text DEFAULT '',
+  description text DEFAULT '',
+  file_types text[] DEFAULT '{}',
+  priority integer NOT NULL DEFAULT 0,
+  is_active boolean NOT NULL DEFAULT true,
+  layout jsonb NOT NULL DEFAULT '{"orientation": "rows"}',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE scan_layout_profiles ENABLE ROW LEVEL SECURITY;
+
+-- Scan layout profile policies
+CREATE POLICY "Admin and staff can view scan layout profiles"
+  ON scan_layout_profiles
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'staff')
+    )
+  );
+
+CREATE POLICY "Admin can manage scan layout profiles"
+  ON scan_layout_profiles
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_scan_layout_profiles_active ON scan_layout_profiles(is_active, priority);
+
+-- Create trigger for updated_at
+CREATE TRIGGER update_scan_layout_profiles_updated_at
+  BEFORE UPDATE ON scan_layout_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,55 @@
+/*
+  # Scan file storage
+
+  1. Storage
+    - `scan-files` private bucket holding the original uploaded scan files
+    - Objects are stored as `<clients.id>/<timestamp>-<file name>`
+
+  2. Changes
+    - `scans.file_size` (bigint) - Size of the original file in bytes
+    - `scans.file_checksum` (text) - SHA-256 hex digest of the original file
+
+  3. Security
+    - Storage policies mirror the `scans` policies: admin and staff manage all
+      scan files, clients can only read files stored under their own client id
+*/
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('scan-files', 'scan-files', false, 52428800)
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE scans ADD COLUMN IF NOT EXISTS file_size bigint;
+ALTER TABLE scans ADD COLUMN IF NOT EXISTS file_checksum text;
+
+-- Scan file policies
+CREATE POLICY "Staff and admin can manage scan files"
+  ON storage.objects
+  FOR ALL
+  TO authenticated
+  USING (
+    bucket_id = 'scan-files'
+    AND EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'staff')
+    )
+  )
+  WITH CHECK (
+    bucket_id = 'scan-files'
+    AND EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'staff')
+    )
+  );
+
+CREATE POLICY "Clients can view own scan files"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'scan-files'
+    AND (storage.foldername(name))[1] IN (
+      SELECT id::text FROM clients WHERE profile_id = auth.uid()
+    )
+  );
@@ -0,0 +1,70 @@
+/*
+  # Typed scan processing columns
+
+  1. Changes
+    - `scans.processing_status` (text) - pending, processing, completed or failed
+    - `scans.automation_status` (text) - automated, manual or failed client association
+    - `scans.upload_source` (text) - manual, dropbox or api
+    - `scans.quality_score` (numeric) - Extraction quality score (0-100)
+    - `scans.file_name` (text) - Original file name
+    - `scans.file_type` (text) - MIME type of the original file
+    - `scans.error_message` (text) - Processing error, if any
+    - `scans.processed_at` (timestamptz)
+
+  2. Data
+    - Existing rows are backfilled from `raw_data`; values that don't fit the
+      new constraints are left at their defaults
+
+  3. Performance
+    - Indexes for the status, source and automation filters used by scan management
+*/
+
+ALTER TABLE scans ADD COLUMN IF NOT EXISTS processing_status text NOT NULL DEFAULT 'pending'
+  CHECK (processing_status IN ('pending', 'processing', 'completed', 'failed'));
+ALTER TABLE scans ADD COLUMN IF NOT EXISTS automation_status text
+  CHECK (automation_status IN ('automated', 'manual', 'failed'));
+ALTER TABLE scans ADD COLUMN IF NOT EXISTS upload_source text NOT NULL DEFAULT 'manual'
+  CHECK (upload_source IN ('manual', 'dropbox', 'api'));
+ALTER TABLE scans ADD COLUMN IF NOT EXISTS quality_score numeric(5,2)
+  CHECK (quality_score IS NULL OR quality_score BETWEEN 0 AND 100);
+ALTER TABLE scans ADD COLUMN IF NOT EXISTS file_name text;
+ALTER TABLE scans ADD COLUMN IF NOT EXISTS file_type text;
+ALTER TABLE scans ADD COLUMN IF NOT EXISTS error_message text;
+ALTER TABLE scans ADD COLUMN IF NOT EXISTS processed_at timestamptz;
+
+-- Backfill from the JSON blob written by earlier versions of the uploader
+UPDATE scans SET
+  processing_status = CASE
+    WHEN raw_data IS NULL THEN 'pending'
+    WHEN raw_data->>'error_message' IS NOT NULL THEN 'failed'
+    ELSE 'completed'
+  END,
+  automation_status = CASE
+    WHEN raw_data->>'automation_status' IN ('automated', 'manual', 'failed') THEN raw_data->>'automation_status'
+  END,
+  upload_source = CASE
+    WHEN raw_data->>'upload_source' IN ('manual', 'dropbox', 'api') THEN raw_data->>'upload_source'
+    ELSE 'manual'
+  END,
+  quality_score = CASE
+    WHEN jsonb_typeof(raw_data->'quality_score') = 'number'
+      THEN LEAST(100, GREATEST(0, (raw_data->>'quality_score')::numeric))
+  END,
+  file_name = COALESCE(raw_data->'file_metadata'->>'name', regexp_replace(file_path, '^.*/', '')),
+  file_type = NULLIF(raw_data->'file_metadata'->>'type', ''),
+  file_size = COALESCE(file_size, CASE
+    WHEN jsonb_typeof(raw_data->'file_metadata'->'size') = 'number'
+      THEN (raw_data->'file_metadata'->>'size')::bigint
+  END),
+  file_checksum = COALESCE(file_checksum, raw_data->'file_metadata'->>'checksum'),
+  error_message = raw_data->>'error_message',
+  processed_at = CASE
+    WHEN raw_data->>'processed_at' ~ '^\d{4}-\d{2}-\d{2}T'
+      THEN (raw_data->>'processed_at')::timestamptz
+  END;
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_scans_processing_status ON scans(processing_status);
+CREATE INDEX IF NOT EXISTS idx_scans_automation_status ON scans(automation_status);
+CREATE INDEX IF NOT EXISTS idx_scans_upload_source ON scans(upload_source);
+CREATE INDEX IF NOT EXISTS idx_scans_created_at ON scans(created_at);
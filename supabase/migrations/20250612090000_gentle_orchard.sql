@@ -0,0 +1,342 @@
+/*
+  # Booking and appointment scheduling
+
+  1. New Tables
+    - `service_types` - Services that can be booked
+      - `id` (uuid, primary key)
+      - `name` (text, unique) - Copied to `bookings.service_type`
+      - `description` (text)
+      - `duration_minutes` (integer)
+      - `price` (numeric) - ZAR, VAT inclusive
+      - `client_bookable` (boolean) - Whether clients can book the service themselves
+      - `is_active` (boolean)
+    - `treatment_rooms` - Rooms at each treatment centre
+      - `id` (uuid, primary key)
+      - `treatment_centre` (text)
+      - `name` (text)
+      - `is_active` (boolean)
+    - `staff_availability` - Weekly working hours per practitioner
+      - `id` (uuid, primary key)
+      - `staff_id` (uuid, references profiles)
+      - `weekday` (smallint) - 0 = Sunday ... 6 = Saturday
+      - `start_time`, `end_time` (time) - South African time
+      - `treatment_centre` (text)
+      - `is_active` (boolean)
+
+  2. Changes
+    - `bookings.staff_id`, `bookings.room_id`, `bookings.service_type_id`
+    - `bookings.ends_at` (timestamptz) - Maintained from appointment_date and duration
+    - `bookings.client_notes` (text) - Notes left by the client; `notes` stays practitioner-only
+    - `bookings.cancelled_at`, `bookings.cancellation_reason`
+
+  3. Integrity
+    - Exclusion constraints stop a practitioner, room or client from being double-booked.
+      Cancelled bookings don't hold their slot. Overlapping legacy bookings must be
+      cancelled or moved before this migration is applied.
+    - Only scheduled bookings can change status or be rescheduled; completed and
+      no-show can only be recorded once the appointment has started
+    - Clients can only book and reschedule client-bookable services into future slots
+      inside the practitioner's availability, and can only cancel
+    - Client bookings always last as long as their service; only staff can change the length
+
+  4. Security
+    - Enable RLS on the new tables; authenticated users can read them, admins manage them
+      and staff manage availability
+    - Clients can update their own bookings (reschedule and cancel)
+    - `get_booking_busy_times` returns occupied time ranges without client details
+    - `get_bookable_staff` returns the names of practitioners with availability
+*/
+
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+CREATE TABLE IF NOT EXISTS service_types (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  name text NOT NULL UNIQUE,
+  description text DEFAULT '',
+  duration_minutes integer NOT NULL DEFAULT 60 CHECK (duration_minutes BETWEEN 5 AND 480),
+  price numeric(10,2) CHECK (price IS NULL OR price >= 0),
+  client_bookable boolean NOT NULL DEFAULT true,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS treatment_rooms (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  treatment_centre text NOT NULL,
+  name text NOT NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (treatment_centre, name)
+);
+
+CREATE TABLE IF NOT EXISTS staff_availability (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  staff_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  weekday smallint NOT NULL CHECK (weekday BETWEEN 0 AND 6),
+  start_time time NOT NULL,
+  end_time time NOT NULL,
+  treatment_centre text NOT NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (end_time > start_time)
+);
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS staff_id uuid REFERENCES profiles(id) ON DELETE SET NULL;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS room_id uuid REFERENCES treatment_rooms(id) ON DELETE SET NULL;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS service_type_id uuid REFERENCES service_types(id) ON DELETE SET NULL;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS ends_at timestamptz;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS client_notes text;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS cancelled_at timestamptz;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS cancellation_reason text;
+
+UPDATE bookings
+SET ends_at = appointment_date + make_interval(mins => COALESCE(duration_minutes, 60))
+WHERE ends_at IS NULL;
+
+ALTER TABLE bookings ALTER COLUMN ends_at SET NOT NULL;
+ALTER TABLE bookings ADD CONSTRAINT bookings_duration_positive CHECK (duration_minutes > 0);
+
+-- Double-booking prevention
+ALTER TABLE bookings ADD CONSTRAINT bookings_no_staff_overlap
+  EXCLUDE USING gist (staff_id WITH =, tstzrange(appointment_date, ends_at) WITH &&)
+  WHERE (status <> 'cancelled' AND staff_id IS NOT NULL);
+
+ALTER TABLE bookings ADD CONSTRAINT bookings_no_room_overlap
+  EXCLUDE USING gist (room_id WITH =, tstzrange(appointment_date, ends_at) WITH &&)
+  WHERE (status <> 'cancelled' AND room_id IS NOT NULL);
+
+ALTER TABLE bookings ADD CONSTRAINT bookings_no_client_overlap
+  EXCLUDE USING gist (client_id WITH =, tstzrange(appointment_date, ends_at) WITH &&)
+  WHERE (status <> 'cancelled');
+
+-- Validate bookings before they are written
+CREATE OR REPLACE FUNCTION validate_booking()
+RETURNS TRIGGER AS $$
+DECLARE
+  is_staff boolean := user_has_role('staff');
+  service service_types%ROWTYPE;
+  local_start timestamp;
+  local_end timestamp;
+  slot_changed boolean;
+BEGIN
+  -- Services fix the booking's label and duration
+  IF NEW.service_type_id IS NOT NULL THEN
+    SELECT * INTO service FROM service_types WHERE id = NEW.service_type_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Unknown service type';
+    END IF;
+
+    IF TG_OP = 'INSERT' OR NEW.service_type_id IS DISTINCT FROM OLD.service_type_id THEN
+      NEW.service_type := service.name;
+      NEW.duration_minutes := service.duration_minutes;
+    END IF;
+
+    -- Only staff can give a booking a longer or shorter slot than its service
+    IF NOT is_staff THEN
+      NEW.duration_minutes := service.duration_minutes;
+    END IF;
+  ELSIF TG_OP = 'UPDATE' AND NOT is_staff THEN
+    NEW.duration_minutes := OLD.duration_minutes;
+  END IF;
+
+  NEW.ends_at := NEW.appointment_date + make_interval(mins => NEW.duration_minutes);
+
+  slot_changed := TG_OP = 'INSERT'
+    OR NEW.appointment_date IS DISTINCT FROM OLD.appointment_date
+    OR NEW.duration_minutes IS DISTINCT FROM OLD.duration_minutes
+    OR NEW.staff_id IS DISTINCT FROM OLD.staff_id
+    OR NEW.room_id IS DISTINCT FROM OLD.room_id;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'scheduled' AND NOT is_staff THEN
+      RAISE EXCEPTION 'New bookings must be scheduled' USING ERRCODE = 'check_violation';
+    END IF;
+  ELSE
+    IF OLD.status <> 'scheduled' AND (NEW.status IS DISTINCT FROM OLD.status OR slot_changed) THEN
+      RAISE EXCEPTION 'A % booking cannot be changed', OLD.status USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NEW.status IN ('completed', 'no_show') AND NEW.status IS DISTINCT FROM OLD.status AND NEW.appointment_date > now() THEN
+      RAISE EXCEPTION 'A booking can only be marked % once the appointment has started', NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NEW.status = 'cancelled' AND OLD.status <> 'cancelled' THEN
+      NEW.cancelled_at := now();
+    END IF;
+  END IF;
+
+  IF NOT is_staff THEN
+    -- Practitioner notes and assignments are staff-only
+    IF TG_OP = 'INSERT' THEN
+      NEW.notes := NULL;
+    ELSE
+      NEW.notes := OLD.notes;
+
+      IF OLD.appointment_date <= now() THEN
+        RAISE EXCEPTION 'Past appointments cannot be changed' USING ERRCODE = 'check_violation';
+      END IF;
+
+      IF NEW.status NOT IN ('scheduled', 'cancelled') THEN
+        RAISE EXCEPTION 'Clients can only cancel bookings' USING ERRCODE = 'check_violation';
+      END IF;
+    END IF;
+
+    IF NEW.status = 'scheduled' AND (slot_changed OR NEW.service_type_id IS DISTINCT FROM OLD.service_type_id) THEN
+      IF NEW.appointment_date <= now() THEN
+        RAISE EXCEPTION 'Appointments must be booked in the future' USING ERRCODE = 'check_violation';
+      END IF;
+
+      IF NEW.service_type_id IS NULL OR NOT service.client_bookable OR NOT service.is_active THEN
+        RAISE EXCEPTION 'This service cannot be booked online' USING ERRCODE = 'check_violation';
+      END IF;
+
+      local_start := NEW.appointment_date AT TIME ZONE 'Africa/Johannesburg';
+      local_end := NEW.ends_at AT TIME ZONE 'Africa/Johannesburg';
+
+      IF NOT EXISTS (
+        SELECT 1 FROM staff_availability a
+        WHERE a.staff_id = NEW.staff_id
+        AND a.is_active
+        AND a.weekday = EXTRACT(DOW FROM local_start)
+        AND local_start::date = local_end::date
+        AND local_start::time >= a.start_time
+        AND local_end::time <= a.end_time
+      ) THEN
+        RAISE EXCEPTION 'The selected time is outside the practitioner''s availability'
+          USING ERRCODE = 'check_violation';
+      END IF;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER validate_booking_trigger
+  BEFORE INSERT OR UPDATE ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_booking();
+
+-- Enable RLS
+ALTER TABLE service_types ENABLE ROW LEVEL SECURITY;
+ALTER TABLE treatment_rooms ENABLE ROW LEVEL SECURITY;
+ALTER TABLE staff_availability ENABLE ROW LEVEL SECURITY;
+
+-- Service type policies
+CREATE POLICY "Authenticated users can view service types"
+  ON service_types
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admin can manage service types"
+  ON service_types
+  FOR ALL
+  TO authenticated
+  USING (user_has_role('admin'));
+
+-- Treatment room policies
+CREATE POLICY "Authenticated users can view treatment rooms"
+  ON treatment_rooms
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admin can manage treatment rooms"
+  ON treatment_rooms
+  FOR ALL
+  TO authenticated
+  USING (user_has_role('admin'));
+
+-- Staff availability policies
+CREATE POLICY "Authenticated users can view staff availability"
+  ON staff_availability
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Staff and admin can manage staff availability"
+  ON staff_availability
+  FOR ALL
+  TO authenticated
+  USING (user_has_role('staff'));
+
+-- Bookings policies
+CREATE POLICY "Clients can update own bookings"
+  ON bookings
+  FOR UPDATE
+  TO authenticated
+  USING (
+    client_id IN (SELECT id FROM clients WHERE profile_id = auth.uid())
+  )
+  WITH CHECK (
+    client_id IN (SELECT id FROM clients WHERE profile_id = auth.uid())
+  );
+
+-- Occupied slots for the booking form; clients can't read other clients' bookings
+CREATE OR REPLACE FUNCTION get_booking_busy_times(range_start timestamptz, range_end timestamptz)
+RETURNS TABLE (booking_id uuid, staff_id uuid, room_id uuid, starts_at timestamptz, ends_at timestamptz) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT b.id, b.staff_id, b.room_id, b.appointment_date, b.ends_at
+  FROM bookings b
+  WHERE b.status <> 'cancelled'
+  AND b.appointment_date < range_end
+  AND b.ends_at > range_start;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_booking_busy_times(timestamptz, timestamptz) TO authenticated;
+
+-- Practitioners clients can book with
+CREATE OR REPLACE FUNCTION get_bookable_staff()
+RETURNS TABLE (id uuid, first_name text, last_name text) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT DISTINCT p.id, p.first_name, p.last_name
+  FROM profiles p
+  JOIN staff_availability a ON a.staff_id = p.id
+  WHERE a.is_active
+  AND p.role IN ('admin', 'staff');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_bookable_staff() TO authenticated;
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_bookings_staff_id ON bookings(staff_id);
+CREATE INDEX IF NOT EXISTS idx_bookings_status ON bookings(status);
+CREATE INDEX IF NOT EXISTS idx_staff_availability_staff ON staff_availability(staff_id, weekday);
+
+-- Create triggers for updated_at
+CREATE TRIGGER update_service_types_updated_at
+  BEFORE UPDATE ON service_types
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_treatment_rooms_updated_at
+  BEFORE UPDATE ON treatment_rooms
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_staff_availability_updated_at
+  BEFORE UPDATE ON staff_availability
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Default services and rooms
+INSERT INTO service_types (name, description, duration_minutes, client_bookable) VALUES
+  ('Initial Consultation', 'First consultation and baseline body scan', 90, true),
+  ('Body Scan', 'Follow-up body composition scan', 30, true),
+  ('Wellness Consultation', 'Review of results and wellness plan', 60, true),
+  ('Treatment Session', 'Practitioner-led treatment', 60, false)
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO treatment_rooms (treatment_centre, name) VALUES
+  ('Pretoria - Life Arrow Silverwoods', 'Consultation Room'),
+  ('Pretoria - Life Arrow Silverwoods', 'Scan Room')
+ON CONFLICT (treatment_centre, name) DO NOTHING;
@@ -0,0 +1,415 @@
+/*
+  # Invoicing and payments
+
+  1. New Tables
+    - `invoice_settings` - Single row with the practice's tax invoice details
+      - `business_name`, `registration_number`, `vat_number`, `address`, `email`, `phone`
+      - `bank_details` (text) - Printed on invoices for EFT payments
+      - `vat_rate` (numeric) - 0.15
+      - `invoice_prefix` (text), `next_invoice_number` (integer)
+      - `payment_terms_days` (integer)
+    - `invoices` - Tax invoices, optionally tied to a booking
+      - `id` (uuid, primary key)
+      - `invoice_number` (text, unique) - Sequential and gapless, assigned on insert
+      - `client_id` (uuid, references clients), `booking_id` (uuid, references bookings)
+      - `issue_date`, `due_date` (date)
+      - `line_items` (jsonb) - [{ description, quantity, unit_price }], prices VAT inclusive
+      - `subtotal`, `vat_rate`, `vat_amount`, `total` (numeric) - Calculated on insert
+      - `amount_paid` (numeric) - Completed payments less refunds
+      - `status` (text) - issued, partially_paid, paid, refunded or void
+      - `supplier` (jsonb) - Snapshot of invoice_settings when issued
+      - `bill_to` (jsonb) - Client name, email, address and VAT number when issued
+
+  2. Changes
+    - `payments.invoice_id`, `payments.payment_type` (payment or refund), `payments.refund_of`,
+      `payments.processed_at`, `payments.recorded_by`, `payments.notes`
+    - `payments.payment_processor` also accepts `mock` for the local test provider
+
+  3. Integrity
+    - Issued invoices can't be edited; only voided (and only while nothing is paid)
+    - Invoice status and amount paid follow the completed payments and refunds and can't
+      be set directly
+    - Payments, pending ones included, can't exceed the invoice balance and refunds can't
+      exceed the payment they refund
+    - Only pending payments can be updated, to record what the processor answered
+    - A booking has at most one invoice that isn't void
+
+  4. Security
+    - Enable RLS on new tables
+    - Staff and admin issue, void and pay invoices and record refunds; invoices and payments
+      are never deleted, so invoice numbers stay gapless
+    - Clients view their own invoices
+    - Staff can read invoice settings, only admins change them
+*/
+
+CREATE TABLE IF NOT EXISTS invoice_settings (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  business_name text NOT NULL DEFAULT 'Life Arrow',
+  registration_number text DEFAULT '',
+  vat_number text DEFAULT '',
+  address text DEFAULT '',
+  email text DEFAULT '',
+  phone text DEFAULT '',
+  bank_details text DEFAULT '',
+  vat_rate numeric(5,4) NOT NULL DEFAULT 0.15 CHECK (vat_rate >= 0 AND vat_rate < 1),
+  invoice_prefix text NOT NULL DEFAULT 'INV-',
+  next_invoice_number integer NOT NULL DEFAULT 1 CHECK (next_invoice_number > 0),
+  payment_terms_days integer NOT NULL DEFAULT 7 CHECK (payment_terms_days >= 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO invoice_settings (business_name)
+SELECT 'Life Arrow'
+WHERE NOT EXISTS (SELECT 1 FROM invoice_settings);
+
+CREATE TABLE IF NOT EXISTS invoices (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  invoice_number text UNIQUE,
+  client_id uuid NOT NULL REFERENCES clients(id) ON DELETE RESTRICT,
+  booking_id uuid REFERENCES bookings(id) ON DELETE SET NULL,
+  issue_date date NOT NULL DEFAULT CURRENT_DATE,
+  due_date date,
+  line_items jsonb NOT NULL DEFAULT '[]',
+  subtotal numeric(10,2) NOT NULL DEFAULT 0,
+  vat_rate numeric(5,4) NOT NULL DEFAULT 0.15,
+  vat_amount numeric(10,2) NOT NULL DEFAULT 0,
+  total numeric(10,2) NOT NULL DEFAULT 0,
+  amount_paid numeric(10,2) NOT NULL DEFAULT 0,
+  currency text NOT NULL DEFAULT 'ZAR',
+  status text NOT NULL DEFAULT 'issued'
+    CHECK (status IN ('issued', 'partially_paid', 'paid', 'refunded', 'void')),
+  supplier jsonb NOT NULL DEFAULT '{}',
+  bill_to jsonb NOT NULL DEFAULT '{}',
+  notes text,
+  voided_at timestamptz,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (jsonb_typeof(line_items) = 'array' AND jsonb_array_length(line_items) > 0)
+);
+
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS invoice_id uuid REFERENCES invoices(id) ON DELETE RESTRICT;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS payment_type text NOT NULL DEFAULT 'payment'
+  CHECK (payment_type IN ('payment', 'refund'));
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS refund_of uuid REFERENCES payments(id) ON DELETE RESTRICT;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS processed_at timestamptz;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS recorded_by uuid REFERENCES profiles(id) ON DELETE SET NULL;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS notes text;
+
+ALTER TABLE payments DROP CONSTRAINT IF EXISTS payments_payment_processor_check;
+ALTER TABLE payments ADD CONSTRAINT payments_payment_processor_check
+  CHECK (payment_processor IN ('paygate', 'ozow', 'peach', 'yoco', 'snapscan', 'zapper', 'stripe', 'mock'));
+ALTER TABLE payments ADD CONSTRAINT payments_amount_positive CHECK (amount > 0);
+
+-- Number, snapshot and total new invoices (definer rights: staff can't update invoice_settings)
+CREATE OR REPLACE FUNCTION prepare_invoice()
+RETURNS TRIGGER AS $$
+DECLARE
+  settings invoice_settings%ROWTYPE;
+  gross numeric;
+BEGIN
+  -- Row lock keeps invoice numbers sequential without gaps
+  SELECT * INTO settings FROM invoice_settings ORDER BY created_at LIMIT 1 FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice settings are missing';
+  END IF;
+
+  NEW.invoice_number := settings.invoice_prefix || lpad(settings.next_invoice_number::text, 6, '0');
+  UPDATE invoice_settings SET next_invoice_number = next_invoice_number + 1 WHERE id = settings.id;
+
+  NEW.supplier := jsonb_build_object(
+    'business_name', settings.business_name,
+    'registration_number', settings.registration_number,
+    'vat_number', settings.vat_number,
+    'address', settings.address,
+    'email', settings.email,
+    'phone', settings.phone,
+    'bank_details', settings.bank_details
+  );
+
+  SELECT COALESCE(SUM(
+    ROUND((item->>'quantity')::numeric * (item->>'unit_price')::numeric, 2)
+  ), 0)
+  INTO gross
+  FROM jsonb_array_elements(NEW.line_items) AS item;
+
+  -- Prices include VAT, so VAT is the tax fraction of the total
+  NEW.vat_rate := settings.vat_rate;
+  NEW.total := gross;
+  NEW.vat_amount := ROUND(gross * settings.vat_rate / (1 + settings.vat_rate), 2);
+  NEW.subtotal := gross - NEW.vat_amount;
+  NEW.amount_paid := 0;
+  NEW.status := 'issued';
+  NEW.due_date := COALESCE(NEW.due_date, NEW.issue_date + settings.payment_terms_days);
+  NEW.created_by := auth.uid();
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER prepare_invoice_trigger
+  BEFORE INSERT ON invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION prepare_invoice();
+
+-- Issued tax invoices are immutable apart from notes and voiding. Amount paid and the
+-- paid statuses are only written by refresh_invoice_balance, which runs as a trigger on
+-- payments, so a change made at trigger depth 1 is a direct edit.
+CREATE OR REPLACE FUNCTION protect_issued_invoice()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.invoice_number IS DISTINCT FROM OLD.invoice_number
+    OR NEW.client_id IS DISTINCT FROM OLD.client_id
+    OR NEW.issue_date IS DISTINCT FROM OLD.issue_date
+    OR NEW.line_items IS DISTINCT FROM OLD.line_items
+    OR NEW.subtotal IS DISTINCT FROM OLD.subtotal
+    OR NEW.vat_rate IS DISTINCT FROM OLD.vat_rate
+    OR NEW.total IS DISTINCT FROM OLD.total
+    OR NEW.vat_amount IS DISTINCT FROM OLD.vat_amount
+    OR NEW.supplier IS DISTINCT FROM OLD.supplier
+    OR NEW.bill_to IS DISTINCT FROM OLD.bill_to THEN
+    RAISE EXCEPTION 'Issued invoices cannot be edited; void it and issue a new one'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF pg_trigger_depth() = 1 AND (
+    NEW.amount_paid IS DISTINCT FROM OLD.amount_paid
+    OR (NEW.status IS DISTINCT FROM OLD.status AND NEW.status <> 'void')
+  ) THEN
+    RAISE EXCEPTION 'Invoice payments and statuses follow the recorded payments and cannot be set directly'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF OLD.status = 'void' AND NEW.status <> 'void' THEN
+    RAISE EXCEPTION 'Void invoices cannot be reopened' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.status = 'void' AND OLD.status <> 'void' THEN
+    IF OLD.amount_paid > 0 THEN
+      RAISE EXCEPTION 'Refund the payments before voiding this invoice' USING ERRCODE = 'check_violation';
+    END IF;
+    NEW.voided_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_issued_invoice_trigger
+  BEFORE UPDATE ON invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_issued_invoice();
+
+-- Payments must fit the invoice balance and refunds must reference a completed payment on
+-- the same invoice and not exceed it. Pending payments and refunds are still with the
+-- processor and count against both, and the invoice or original payment is locked so
+-- concurrent ones are checked one after the other.
+CREATE OR REPLACE FUNCTION validate_payment()
+RETURNS TRIGGER AS $$
+DECLARE
+  original payments%ROWTYPE;
+  invoice invoices%ROWTYPE;
+  refunded numeric;
+  paid numeric;
+BEGIN
+  -- Only a pending payment changes afterwards, when the processor answers; marking fully
+  -- refunded payments is left to refresh_invoice_balance
+  IF TG_OP = 'UPDATE' AND pg_trigger_depth() = 1 AND (
+    OLD.payment_status <> 'pending'
+    OR NEW.payment_status = 'refunded'
+    OR NEW.amount IS DISTINCT FROM OLD.amount
+    OR NEW.invoice_id IS DISTINCT FROM OLD.invoice_id
+    OR NEW.client_id IS DISTINCT FROM OLD.client_id
+    OR NEW.payment_type IS DISTINCT FROM OLD.payment_type
+    OR NEW.refund_of IS DISTINCT FROM OLD.refund_of
+  ) THEN
+    RAISE EXCEPTION 'Recorded payments cannot be changed; refund them instead' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.invoice_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM invoices WHERE id = NEW.invoice_id AND status = 'void'
+  ) THEN
+    RAISE EXCEPTION 'Payments cannot be recorded against a void invoice' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.payment_type = 'payment' AND NEW.invoice_id IS NOT NULL AND NEW.payment_status IN ('pending', 'completed') THEN
+    SELECT * INTO invoice FROM invoices WHERE id = NEW.invoice_id FOR UPDATE;
+
+    SELECT
+      COALESCE(SUM(amount) FILTER (WHERE payment_type = 'payment' AND payment_status IN ('pending', 'completed', 'refunded')), 0)
+      - COALESCE(SUM(amount) FILTER (WHERE payment_type = 'refund' AND payment_status = 'completed'), 0)
+    INTO paid
+    FROM payments
+    WHERE invoice_id = NEW.invoice_id
+    AND id IS DISTINCT FROM NEW.id;
+
+    IF paid + NEW.amount > invoice.total THEN
+      RAISE EXCEPTION 'Payments cannot exceed the invoice balance of %', GREATEST(invoice.total - paid, 0)
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  IF NEW.payment_type = 'refund' AND NEW.payment_status IN ('pending', 'completed') THEN
+    SELECT * INTO original FROM payments WHERE id = NEW.refund_of FOR UPDATE;
+    IF NOT FOUND OR original.payment_type <> 'payment' OR original.payment_status <> 'completed' THEN
+      RAISE EXCEPTION 'Refunds must reference a completed payment' USING ERRCODE = 'check_violation';
+    END IF;
+
+    SELECT COALESCE(SUM(amount), 0) INTO refunded
+    FROM payments
+    WHERE refund_of = NEW.refund_of
+    AND payment_status IN ('pending', 'completed')
+    AND id IS DISTINCT FROM NEW.id;
+
+    IF refunded + NEW.amount > original.amount THEN
+      RAISE EXCEPTION 'Refunds cannot exceed the original payment of %', original.amount
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    NEW.invoice_id := original.invoice_id;
+    NEW.client_id := original.client_id;
+  END IF;
+
+  IF NEW.payment_status = 'completed' AND NEW.processed_at IS NULL THEN
+    NEW.processed_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER validate_payment_trigger
+  BEFORE INSERT OR UPDATE ON payments
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_payment();
+
+-- Keep invoice balances and statuses in step with their payments
+CREATE OR REPLACE FUNCTION refresh_invoice_balance()
+RETURNS TRIGGER AS $$
+DECLARE
+  target uuid := COALESCE(NEW.invoice_id, OLD.invoice_id);
+  paid numeric;
+  refunds numeric;
+BEGIN
+  IF target IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Refunded payments still count; their refunds are subtracted
+  SELECT
+    COALESCE(SUM(amount) FILTER (WHERE payment_type = 'payment' AND payment_status IN ('completed', 'refunded')), 0),
+    COALESCE(SUM(amount) FILTER (WHERE payment_type = 'refund' AND payment_status = 'completed'), 0)
+  INTO paid, refunds
+  FROM payments
+  WHERE invoice_id = target;
+
+  UPDATE invoices SET
+    amount_paid = paid - refunds,
+    status = CASE
+      WHEN status = 'void' THEN 'void'
+      WHEN paid - refunds >= total THEN 'paid'
+      WHEN paid - refunds > 0 THEN 'partially_paid'
+      WHEN refunds > 0 THEN 'refunded'
+      ELSE 'issued'
+    END
+  WHERE id = target;
+
+  -- Fully refunded payments are marked as such
+  UPDATE payments p SET payment_status = 'refunded'
+  WHERE p.invoice_id = target
+  AND p.payment_type = 'payment'
+  AND p.payment_status = 'completed'
+  AND p.amount <= (
+    SELECT COALESCE(SUM(r.amount), 0) FROM payments r
+    WHERE r.refund_of = p.id AND r.payment_status = 'completed'
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER refresh_invoice_balance_trigger
+  AFTER INSERT OR UPDATE OF amount, payment_status, invoice_id ON payments
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_invoice_balance();
+
+-- Enable RLS
+ALTER TABLE invoice_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoices ENABLE ROW LEVEL SECURITY;
+
+-- Invoice settings policies
+CREATE POLICY "Staff and admin can view invoice settings"
+  ON invoice_settings
+  FOR SELECT
+  TO authenticated
+  USING (user_has_role('staff'));
+
+CREATE POLICY "Admin can manage invoice settings"
+  ON invoice_settings
+  FOR ALL
+  TO authenticated
+  USING (user_has_role('admin'));
+
+-- Invoice policies. There is no delete policy: invoices are voided instead, keeping the
+-- numbering gapless
+CREATE POLICY "Staff and admin can view invoices"
+  ON invoices
+  FOR SELECT
+  TO authenticated
+  USING (user_has_role('staff'));
+
+CREATE POLICY "Staff and admin can issue invoices"
+  ON invoices
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_has_role('staff'));
+
+CREATE POLICY "Staff and admin can update invoices"
+  ON invoices
+  FOR UPDATE
+  TO authenticated
+  USING (user_has_role('staff'))
+  WITH CHECK (user_has_role('staff'));
+
+CREATE POLICY "Clients can view own invoices"
+  ON invoices
+  FOR SELECT
+  TO authenticated
+  USING (
+    client_id IN (SELECT id FROM clients WHERE profile_id = auth.uid())
+  );
+
+-- Payments policies. Staff can already view all payments; payments are refunded rather
+-- than deleted and only pending ones can be updated (see validate_payment)
+CREATE POLICY "Staff and admin can record payments"
+  ON payments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_has_role('staff'));
+
+CREATE POLICY "Staff and admin can update payments"
+  ON payments
+  FOR UPDATE
+  TO authenticated
+  USING (user_has_role('staff'))
+  WITH CHECK (user_has_role('staff'));
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_invoices_client_id ON invoices(client_id);
+CREATE INDEX IF NOT EXISTS idx_invoices_status ON invoices(status);
+CREATE INDEX IF NOT EXISTS idx_invoices_issue_date ON invoices(issue_date);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_booking_id ON invoices(booking_id) WHERE status <> 'void';
+CREATE INDEX IF NOT EXISTS idx_payments_invoice_id ON payments(invoice_id);
+CREATE INDEX IF NOT EXISTS idx_payments_refund_of ON payments(refund_of);
+
+-- Create triggers for updated_at
+CREATE TRIGGER update_invoice_settings_updated_at
+  BEFORE UPDATE ON invoice_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_invoices_updated_at
+  BEFORE UPDATE ON invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,218 @@
+/*
+  # Analytics aggregations
+
+  1. New Functions
+    - `get_client_acquisition(range_start, range_end)` - New clients per month by referral source and treatment centre
+    - `get_onboarding_funnel(range_start, range_end)` - Clients who got past each onboarding wizard step
+    - `get_scan_volumes(range_start, range_end)` - Scans per month by upload source, automation and processing status
+    - `get_booking_utilisation(range_start, range_end)` - Available versus booked minutes and outcomes per practitioner
+    - `get_revenue_summary(range_start, range_end)` - Invoiced, VAT, collected and refunded amounts per month
+
+  2. Conventions
+    - Ranges are dates in South African time; `range_end` is exclusive
+    - Months are returned as the first day of the month
+
+  3. Indexes
+    - `profiles(role, created_at)` and `payments(processed_at)` for the range filters
+
+  4. Security
+    - Functions aggregate across all clients, so they run with definer rights and only answer admins
+*/
+
+-- Aggregations span every client; only admins may call them
+CREATE OR REPLACE FUNCTION require_analytics_access()
+RETURNS void AS $$
+BEGIN
+  IF NOT user_has_role('admin') THEN
+    RAISE EXCEPTION 'Only administrators can view analytics' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Latest onboarding record per client, which carries source, centre and wizard progress
+CREATE OR REPLACE FUNCTION get_client_acquisition(range_start date, range_end date)
+RETURNS TABLE (period date, source text, treatment_centre text, clients bigint) AS $$
+BEGIN
+  PERFORM require_analytics_access();
+
+  RETURN QUERY
+  SELECT
+    date_trunc('month', p.created_at AT TIME ZONE 'Africa/Johannesburg')::date,
+    COALESCE(o.hear_about_us, 'unknown'),
+    COALESCE(NULLIF(o.treatment_centre, ''), 'Not selected'),
+    COUNT(*)
+  FROM profiles p
+  LEFT JOIN LATERAL (
+    SELECT cod.hear_about_us, cod.treatment_centre
+    FROM client_onboarding_data cod
+    WHERE cod.client_id = p.id
+    ORDER BY cod.created_at DESC
+    LIMIT 1
+  ) o ON true
+  WHERE p.role = 'client'
+  AND p.created_at >= range_start::timestamp AT TIME ZONE 'Africa/Johannesburg'
+  AND p.created_at < range_end::timestamp AT TIME ZONE 'Africa/Johannesburg'
+  GROUP BY 1, 2, 3
+  ORDER BY 1, 2, 3;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Step 0 is registration; the wizard records the last step completed in onboarding_progress
+CREATE OR REPLACE FUNCTION get_onboarding_funnel(range_start date, range_end date)
+RETURNS TABLE (step integer, clients bigint) AS $$
+BEGIN
+  PERFORM require_analytics_access();
+
+  RETURN QUERY
+  WITH progress AS (
+    SELECT
+      CASE
+        WHEN o.onboarding_completed THEN 6
+        ELSE COALESCE((o.onboarding_progress->>'last_step_completed')::integer, 0)
+      END AS last_step
+    FROM profiles p
+    LEFT JOIN LATERAL (
+      SELECT cod.onboarding_completed, cod.onboarding_progress
+      FROM client_onboarding_data cod
+      WHERE cod.client_id = p.id
+      ORDER BY cod.onboarding_completed DESC, cod.last_saved_at DESC
+      LIMIT 1
+    ) o ON true
+    WHERE p.role = 'client'
+    AND p.created_at >= range_start::timestamp AT TIME ZONE 'Africa/Johannesburg'
+    AND p.created_at < range_end::timestamp AT TIME ZONE 'Africa/Johannesburg'
+  )
+  SELECT s.n, COUNT(pr.last_step)
+  FROM generate_series(0, 6) AS s(n)
+  LEFT JOIN progress pr ON pr.last_step >= s.n
+  GROUP BY s.n
+  ORDER BY s.n;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_scan_volumes(range_start date, range_end date)
+RETURNS TABLE (period date, upload_source text, automation_status text, processing_status text, scans bigint) AS $$
+BEGIN
+  PERFORM require_analytics_access();
+
+  RETURN QUERY
+  SELECT
+    date_trunc('month', s.scan_date AT TIME ZONE 'Africa/Johannesburg')::date,
+    COALESCE(s.upload_source, 'manual'),
+    COALESCE(s.automation_status, 'manual'),
+    COALESCE(s.processing_status, 'pending'),
+    COUNT(*)
+  FROM scans s
+  WHERE s.scan_date >= range_start::timestamp AT TIME ZONE 'Africa/Johannesburg'
+  AND s.scan_date < range_end::timestamp AT TIME ZONE 'Africa/Johannesburg'
+  GROUP BY 1, 2, 3, 4
+  ORDER BY 1;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Available minutes come from weekly availability across the range; cancelled bookings free their time
+CREATE OR REPLACE FUNCTION get_booking_utilisation(range_start date, range_end date)
+RETURNS TABLE (
+  staff_id uuid,
+  available_minutes bigint,
+  booked_minutes bigint,
+  bookings bigint,
+  completed bigint,
+  cancelled bigint,
+  no_show bigint
+) AS $$
+BEGIN
+  PERFORM require_analytics_access();
+
+  RETURN QUERY
+  WITH available AS (
+    SELECT
+      a.staff_id AS practitioner,
+      SUM(EXTRACT(EPOCH FROM (a.end_time - a.start_time)) / 60)::bigint AS minutes
+    FROM generate_series(range_start::timestamp, (range_end - 1)::timestamp, interval '1 day') AS d(day)
+    JOIN staff_availability a ON a.weekday = EXTRACT(DOW FROM d.day) AND a.is_active
+    GROUP BY a.staff_id
+  ),
+  booked AS (
+    SELECT
+      b.staff_id AS practitioner,
+      COALESCE(SUM(b.duration_minutes) FILTER (WHERE b.status <> 'cancelled'), 0)::bigint AS minutes,
+      COUNT(*) AS total,
+      COUNT(*) FILTER (WHERE b.status = 'completed') AS completed_count,
+      COUNT(*) FILTER (WHERE b.status = 'cancelled') AS cancelled_count,
+      COUNT(*) FILTER (WHERE b.status = 'no_show') AS no_show_count
+    FROM bookings b
+    WHERE b.staff_id IS NOT NULL
+    AND b.appointment_date >= range_start::timestamp AT TIME ZONE 'Africa/Johannesburg'
+    AND b.appointment_date < range_end::timestamp AT TIME ZONE 'Africa/Johannesburg'
+    GROUP BY b.staff_id
+  )
+  SELECT
+    COALESCE(av.practitioner, bk.practitioner),
+    COALESCE(av.minutes, 0),
+    COALESCE(bk.minutes, 0),
+    COALESCE(bk.total, 0),
+    COALESCE(bk.completed_count, 0),
+    COALESCE(bk.cancelled_count, 0),
+    COALESCE(bk.no_show_count, 0)
+  FROM available av
+  FULL OUTER JOIN booked bk ON bk.practitioner = av.practitioner;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Invoiced by issue date; collected and refunded by when the money moved
+CREATE OR REPLACE FUNCTION get_revenue_summary(range_start date, range_end date)
+RETURNS TABLE (period date, invoiced numeric, vat numeric, collected numeric, refunded numeric) AS $$
+BEGIN
+  PERFORM require_analytics_access();
+
+  RETURN QUERY
+  WITH months AS (
+    SELECT generate_series(
+      date_trunc('month', range_start::timestamp),
+      date_trunc('month', (range_end - 1)::timestamp),
+      interval '1 month'
+    )::date AS month
+  ),
+  invoiced_totals AS (
+    SELECT date_trunc('month', i.issue_date::timestamp)::date AS month, SUM(i.total) AS total, SUM(i.vat_amount) AS vat_total
+    FROM invoices i
+    WHERE i.status <> 'void'
+    AND i.issue_date >= range_start
+    AND i.issue_date < range_end
+    GROUP BY 1
+  ),
+  payment_totals AS (
+    SELECT
+      date_trunc('month', pm.processed_at AT TIME ZONE 'Africa/Johannesburg')::date AS month,
+      SUM(pm.amount) FILTER (WHERE pm.payment_type = 'payment' AND pm.payment_status IN ('completed', 'refunded')) AS paid,
+      SUM(pm.amount) FILTER (WHERE pm.payment_type = 'refund' AND pm.payment_status = 'completed') AS refunds
+    FROM payments pm
+    WHERE pm.processed_at IS NOT NULL
+    AND pm.processed_at >= range_start::timestamp AT TIME ZONE 'Africa/Johannesburg'
+    AND pm.processed_at < range_end::timestamp AT TIME ZONE 'Africa/Johannesburg'
+    GROUP BY 1
+  )
+  SELECT
+    m.month,
+    COALESCE(it.total, 0),
+    COALESCE(it.vat_total, 0),
+    COALESCE(pt.paid, 0),
+    COALESCE(pt.refunds, 0)
+  FROM months m
+  LEFT JOIN invoiced_totals it ON it.month = m.month
+  LEFT JOIN payment_totals pt ON pt.month = m.month
+  ORDER BY m.month;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Grant execute permissions
+GRANT EXECUTE ON FUNCTION get_client_acquisition(date, date) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_onboarding_funnel(date, date) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_scan_volumes(date, date) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_booking_utilisation(date, date) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_revenue_summary(date, date) TO authenticated;
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_profiles_role_created_at ON profiles(role, created_at);
+CREATE INDEX IF NOT EXISTS idx_payments_processed_at ON payments(processed_at);
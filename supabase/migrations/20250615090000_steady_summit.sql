@@ -0,0 +1,71 @@
+/*
+  # Client progress goals
+
+  1. New Tables
+    - `client_goals` - Scan metric targets clients set for themselves
+      - `id` (uuid, primary key)
+      - `client_id` (uuid, references clients)
+      - `transformation_reason` (text) - One of the reasons chosen during onboarding
+      - `metric` (text) - Scan column the goal tracks
+      - `start_value` (numeric) - Value when the goal was set, normally the latest scan
+      - `target_value` (numeric)
+      - `start_date` (timestamptz) - Only scans from this date count towards the goal
+      - `target_date` (date, optional)
+      - `notes` (text)
+      - `status` (text) - active or archived
+      - `created_by` (uuid, references profiles)
+
+  2. Integrity
+    - The target must differ from the starting value, which sets the goal's direction
+
+  3. Security
+    - Enable RLS on `client_goals`
+    - Clients manage their own goals; staff and admin manage everyone's
+*/
+
+CREATE TABLE IF NOT EXISTS client_goals (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  client_id uuid NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  transformation_reason text NOT NULL,
+  metric text NOT NULL CHECK (metric IN (
+    'body_score', 'body_fat_percentage', 'muscle_mass', 'visceral_fat', 'metabolic_age', 'hydration_level'
+  )),
+  start_value numeric(6,2) NOT NULL,
+  target_value numeric(6,2) NOT NULL,
+  start_date timestamptz NOT NULL DEFAULT now(),
+  target_date date,
+  notes text DEFAULT '',
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'archived')),
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (target_value <> start_value)
+);
+
+ALTER TABLE client_goals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Clients can manage own goals"
+  ON client_goals
+  FOR ALL
+  TO authenticated
+  USING (
+    client_id IN (SELECT id FROM clients WHERE profile_id = auth.uid())
+  )
+  WITH CHECK (
+    client_id IN (SELECT id FROM clients WHERE profile_id = auth.uid())
+  );
+
+CREATE POLICY "Staff and admin can manage goals"
+  ON client_goals
+  FOR ALL
+  TO authenticated
+  USING (user_has_role('staff'));
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_client_goals_client ON client_goals(client_id, status);
+
+-- Create triggers for updated_at
+CREATE TRIGGER update_client_goals_updated_at
+  BEFORE UPDATE ON client_goals
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
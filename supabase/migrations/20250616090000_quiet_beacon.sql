@@ -0,0 +1,125 @@
+/*
+  # Live dashboard metrics
+
+  1. New Functions
+    - `get_dashboard_metrics()` - Headline metrics for the signed-in user's dashboard as JSON
+      - Admin and staff: today's bookings, scans awaiting client assignment (no client, or
+        automatic matching failed), onboarding in progress and revenue this month
+      - Clients: latest and previous body score, last scan date and next appointment
+
+  2. Realtime
+    - Adds the tables behind the metrics to the `supabase_realtime` publication so the
+      dashboard refreshes when they change. Row level security still applies to the events.
+
+  3. Security
+    - Runs with definer rights so counts don't depend on per-table policies; clients only
+      ever receive their own figures
+*/
+
+CREATE OR REPLACE FUNCTION get_dashboard_metrics()
+RETURNS jsonb AS $$
+DECLARE
+  today_start timestamptz := date_trunc('day', now() AT TIME ZONE 'Africa/Johannesburg') AT TIME ZONE 'Africa/Johannesburg';
+  month_start timestamptz := date_trunc('month', now() AT TIME ZONE 'Africa/Johannesburg') AT TIME ZONE 'Africa/Johannesburg';
+  last_month_start timestamptz := (date_trunc('month', now() AT TIME ZONE 'Africa/Johannesburg') - interval '1 month') AT TIME ZONE 'Africa/Johannesburg';
+  current_client uuid;
+  result jsonb;
+BEGIN
+  IF user_has_role('staff') THEN
+    SELECT jsonb_build_object(
+      'role', 'staff',
+      'today_bookings', (
+        SELECT COUNT(*) FROM bookings
+        WHERE appointment_date >= today_start AND appointment_date < today_start + interval '1 day'
+        AND status <> 'cancelled'
+      ),
+      'today_completed', (
+        SELECT COUNT(*) FROM bookings
+        WHERE appointment_date >= today_start AND appointment_date < today_start + interval '1 day'
+        AND status = 'completed'
+      ),
+      'pending_scan_assignments', (
+        SELECT COUNT(*) FROM scans WHERE client_id IS NULL OR automation_status = 'failed'
+      ),
+      'onboarding_in_progress', (
+        SELECT COUNT(DISTINCT cod.client_id) FROM client_onboarding_data cod
+        WHERE NOT EXISTS (
+          SELECT 1 FROM client_onboarding_data done
+          WHERE done.client_id = cod.client_id AND done.onboarding_completed
+        )
+      ),
+      'revenue_this_month', (
+        SELECT COALESCE(SUM(CASE WHEN payment_type = 'refund' THEN -amount ELSE amount END), 0)
+        FROM payments
+        WHERE processed_at >= month_start
+        AND ((payment_type = 'payment' AND payment_status IN ('completed', 'refunded'))
+          OR (payment_type = 'refund' AND payment_status = 'completed'))
+      ),
+      'revenue_last_month', (
+        SELECT COALESCE(SUM(CASE WHEN payment_type = 'refund' THEN -amount ELSE amount END), 0)
+        FROM payments
+        WHERE processed_at >= last_month_start AND processed_at < month_start
+        AND ((payment_type = 'payment' AND payment_status IN ('completed', 'refunded'))
+          OR (payment_type = 'refund' AND payment_status = 'completed'))
+      )
+    ) INTO result;
+
+    RETURN result;
+  END IF;
+
+  SELECT id INTO current_client
+  FROM clients
+  WHERE profile_id = auth.uid()
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF current_client IS NULL THEN
+    RETURN jsonb_build_object('role', 'client', 'client_id', NULL);
+  END IF;
+
+  SELECT jsonb_build_object(
+    'role', 'client',
+    'client_id', current_client,
+    'scan_count', (SELECT COUNT(*) FROM scans WHERE client_id = current_client),
+    'last_scan_date', (SELECT MAX(scan_date) FROM scans WHERE client_id = current_client),
+    'latest_score', (
+      SELECT body_score FROM scans
+      WHERE client_id = current_client AND body_score IS NOT NULL
+      ORDER BY scan_date DESC LIMIT 1
+    ),
+    'previous_score', (
+      SELECT body_score FROM scans
+      WHERE client_id = current_client AND body_score IS NOT NULL
+      ORDER BY scan_date DESC OFFSET 1 LIMIT 1
+    ),
+    'next_appointment', (
+      SELECT jsonb_build_object('appointment_date', appointment_date, 'service_type', service_type)
+      FROM bookings
+      WHERE client_id = current_client AND status = 'scheduled' AND appointment_date > now()
+      ORDER BY appointment_date LIMIT 1
+    )
+  ) INTO result;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Grant execute permissions
+GRANT EXECUTE ON FUNCTION get_dashboard_metrics() TO authenticated;
+
+-- Publish changes to the dashboard's source tables
+DO $$
+DECLARE
+  source_table text;
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    FOREACH source_table IN ARRAY ARRAY['bookings', 'scans', 'client_onboarding_data', 'payments'] LOOP
+      IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = source_table
+      ) THEN
+        EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', source_table);
+      END IF;
+    END LOOP;
+  END IF;
+END $$;
@@ -0,0 +1,37 @@
+/*
+  # Resumable custom onboarding forms
+
+  1. Security
+    - Signed-in users can read the `onboarding_form_template` system setting, so clients can
+      tell whether a custom onboarding form is configured
+    - Signed-in users can read the form template that setting points to while it's enabled;
+      every other template stays visible to admin and staff only
+
+  2. Notes
+    - Drafts of a custom onboarding form are kept in `client_onboarding_data` as an incomplete
+      row with `custom_form_data` and the page reached in `onboarding_progress`
+*/
+
+CREATE POLICY "Authenticated users can read the onboarding form setting"
+  ON system_settings
+  FOR SELECT
+  TO authenticated
+  USING (key = 'onboarding_form_template');
+
+CREATE POLICY "Authenticated users can read the onboarding form template"
+  ON form_templates
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM system_settings
+      WHERE system_settings.key = 'onboarding_form_template'
+      AND (system_settings.value->>'enabled')::boolean
+      AND system_settings.value->>'template_id' = form_templates.id::text
+    )
+  );
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_client_onboarding_custom_form_drafts
+  ON client_onboarding_data(client_id, custom_form_template_id)
+  WHERE onboarding_completed = false;
@@ -0,0 +1,44 @@
+/*
+  # Form signature storage
+
+  1. Storage
+    - `form-signatures` private bucket holding signatures drawn on forms as PNG images
+    - Objects are stored as `<profiles.id>/<timestamp>-<field id>.png` under the signer's id
+
+  2. Security
+    - Signers can upload and read their own signatures but can't replace or delete them,
+      so a stored signature always matches the hash recorded with the submission
+    - Admin and staff can read all signatures to verify submissions
+*/
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('form-signatures', 'form-signatures', false, 1048576, ARRAY['image/png'])
+ON CONFLICT (id) DO NOTHING;
+
+-- Signature policies
+CREATE POLICY "Users can upload own signatures"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'form-signatures'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can view own signatures"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'form-signatures'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Staff and admin can view all signatures"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'form-signatures'
+    AND user_has_role('staff')
+  );
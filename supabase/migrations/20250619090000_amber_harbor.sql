@@ -0,0 +1,54 @@
+/*
+  # Form upload storage
+
+  1. Storage
+    - `form-uploads` private bucket holding files and images uploaded through custom forms
+    - Objects are stored as `<profiles.id>/<timestamp>-<file name>` under the uploader's id;
+      submissions keep only the storage path
+
+  2. Security
+    - Users can upload, read and remove their own files, e.g. when replacing an upload
+      before submitting
+    - Admin and staff can read all uploads to review submissions
+*/
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('form-uploads', 'form-uploads', false, 52428800)
+ON CONFLICT (id) DO NOTHING;
+
+-- Upload policies
+CREATE POLICY "Users can upload own form files"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'form-uploads'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can view own form files"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'form-uploads'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can remove own form files"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'form-uploads'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Staff and admin can view all form files"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'form-uploads'
+    AND user_has_role('staff')
+  );
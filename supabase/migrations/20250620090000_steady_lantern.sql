@@ -0,0 +1,128 @@
+/*
+  # Form submissions
+
+  1. Changes
+    - `form_templates.version` (integer) - Starts at 1 and goes up whenever the template's
+      fields change, so submissions record which version of the questions they answered
+
+  2. New Tables
+    - `form_submissions` - Answers to custom form templates
+      - `id` (uuid, primary key)
+      - `template_id` (text, references form_templates)
+      - `template_version` (integer) - Template version when the submission was last saved
+      - `respondent_id` (uuid, references profiles)
+      - `answers` (jsonb) - Keyed by field id
+      - `progress` (jsonb) - Page reached in a paged form while it's a draft
+      - `status` (text) - draft, submitted or reviewed
+      - `submitted_at` (timestamptz)
+
+  3. Data
+    - Custom form answers previously kept in `client_onboarding_data.custom_form_data` are
+      copied across; onboarding rows still record whether onboarding is complete
+
+  4. Security
+    - Enable RLS on `form_submissions`
+    - Respondents create and read their own submissions and can only change drafts
+    - Staff and admin can read and review all submissions
+    - Templates with submissions can't be deleted
+*/
+
+ALTER TABLE form_templates
+ADD COLUMN IF NOT EXISTS version integer NOT NULL DEFAULT 1;
+
+CREATE OR REPLACE FUNCTION bump_form_template_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.fields IS DISTINCT FROM OLD.fields THEN
+    NEW.version := OLD.version + 1;
+  ELSE
+    NEW.version := OLD.version;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER bump_form_template_version
+  BEFORE UPDATE ON form_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION bump_form_template_version();
+
+CREATE TABLE IF NOT EXISTS form_submissions (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  template_id text NOT NULL REFERENCES form_templates(id) ON DELETE RESTRICT,
+  template_version integer NOT NULL DEFAULT 1,
+  respondent_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  answers jsonb NOT NULL DEFAULT '{}'::jsonb,
+  progress jsonb,
+  status text NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'submitted', 'reviewed')),
+  submitted_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (status = 'draft' OR submitted_at IS NOT NULL)
+);
+
+ALTER TABLE form_submissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Respondents can view own form submissions"
+  ON form_submissions
+  FOR SELECT
+  TO authenticated
+  USING (respondent_id = auth.uid());
+
+CREATE POLICY "Respondents can create own form submissions"
+  ON form_submissions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    respondent_id = auth.uid()
+    AND status IN ('draft', 'submitted')
+  );
+
+CREATE POLICY "Respondents can update own draft submissions"
+  ON form_submissions
+  FOR UPDATE
+  TO authenticated
+  USING (
+    respondent_id = auth.uid()
+    AND status = 'draft'
+  )
+  WITH CHECK (
+    respondent_id = auth.uid()
+    AND status IN ('draft', 'submitted')
+  );
+
+CREATE POLICY "Staff and admin can manage form submissions"
+  ON form_submissions
+  FOR ALL
+  TO authenticated
+  USING (user_has_role('staff'));
+
+-- Copy existing custom onboarding answers
+INSERT INTO form_submissions (
+  template_id, respondent_id, answers, progress, status, submitted_at, created_at, updated_at
+)
+SELECT
+  custom_form_template_id,
+  client_id,
+  custom_form_data,
+  CASE WHEN onboarding_completed THEN NULL ELSE onboarding_progress END,
+  CASE WHEN onboarding_completed THEN 'submitted' ELSE 'draft' END,
+  CASE WHEN onboarding_completed THEN COALESCE(last_saved_at, updated_at, created_at) END,
+  created_at,
+  updated_at
+FROM client_onboarding_data
+WHERE custom_form_template_id IS NOT NULL
+AND custom_form_data IS NOT NULL
+AND custom_form_data <> '{}'::jsonb;
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_form_submissions_template
+  ON form_submissions(template_id, submitted_at DESC);
+CREATE INDEX IF NOT EXISTS idx_form_submissions_respondent
+  ON form_submissions(respondent_id, template_id, status);
+
+-- Create triggers for updated_at
+CREATE TRIGGER update_form_submissions_updated_at
+  BEFORE UPDATE ON form_submissions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
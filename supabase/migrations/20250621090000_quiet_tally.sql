@@ -0,0 +1,21 @@
+/*
+  # Scan storage total
+
+  1. Functions
+    - `get_scan_storage_used()` - Total size in bytes of the original files behind the scans the
+      caller can see, counting a file shared by several scans from one workbook once
+
+  2. Security
+    - Runs with the caller's rights, so the `scans` policies decide what is counted
+*/
+
+CREATE OR REPLACE FUNCTION get_scan_storage_used()
+RETURNS bigint AS $$
+  SELECT COALESCE(sum(file_size), 0)::bigint
+  FROM (
+    SELECT DISTINCT ON (file_path) file_size
+    FROM scans
+    WHERE file_path IS NOT NULL
+    AND file_size IS NOT NULL
+  ) AS files;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,141 @@
+/*
+  # Form signature records
+
+  1. New Tables
+    - `form_signatures` - Signatures drawn on custom forms, stamped by the database
+      - `id` (uuid, primary key)
+      - `template_id` (text, references form_templates)
+      - `field_id` (text) - The signature field signed
+      - `signer_id` (uuid, references profiles) - The signed-in user who signed
+      - `signed_at` (timestamptz) - When the database recorded the signature
+      - `path` (text) - PNG in the `form-signatures` bucket
+      - `image_hash` (text) - SHA-256 of the PNG
+      - `content` (jsonb) - The questions and answers signed, as [field id, label, answer]
+        in form order, so later edits to the template don't change what was signed
+      - `content_hash` (text) - SHA-256 of the content together with the details above
+
+  2. New Functions
+    - `form_signature_hash(signature, content)` - Hash of the signed content with a signature's details
+    - `record_form_signature(...)` - Stamps and stores a signature for the signed-in user
+    - `verify_form_signature(signature_id, answers)` - Whether a submission's answers to the
+      questions signed still match a signature
+
+  3. Security
+    - Enable RLS on `form_signatures`
+    - Signers can view their own signatures and staff and admin can view all of them
+    - Nobody writes the table directly; `record_form_signature` sets the signer, time and
+      hashes itself, so a respondent can't backdate a signature or forge a matching hash
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE TABLE IF NOT EXISTS form_signatures (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  template_id text NOT NULL REFERENCES form_templates(id) ON DELETE RESTRICT,
+  field_id text NOT NULL,
+  signer_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  signed_at timestamptz NOT NULL DEFAULT now(),
+  path text NOT NULL UNIQUE,
+  image_hash text NOT NULL,
+  content jsonb NOT NULL,
+  content_hash text NOT NULL
+);
+
+ALTER TABLE form_signatures ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own form signatures"
+  ON form_signatures
+  FOR SELECT
+  TO authenticated
+  USING (signer_id = auth.uid());
+
+CREATE POLICY "Staff and admin can view all form signatures"
+  ON form_signatures
+  FOR SELECT
+  TO authenticated
+  USING (user_has_role('staff'));
+
+-- The time is hashed in UTC so the result doesn't depend on the session's time zone
+CREATE OR REPLACE FUNCTION form_signature_hash(signature form_signatures, content jsonb)
+RETURNS text AS $$
+  SELECT encode(extensions.digest(jsonb_build_object(
+    'template_id', signature.template_id,
+    'field_id', signature.field_id,
+    'signer_id', signature.signer_id,
+    'signed_at', to_char(signature.signed_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"'),
+    'image_hash', signature.image_hash,
+    'content', content
+  )::text, 'sha256'), 'hex');
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION record_form_signature(
+  signature_template_id text,
+  signature_field_id text,
+  signature_path text,
+  signature_image_hash text,
+  content jsonb
+)
+RETURNS form_signatures AS $$
+DECLARE
+  signature form_signatures;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You need to be signed in to sign this form' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM form_templates, jsonb_array_elements(fields) AS field
+    WHERE id = signature_template_id
+    AND field->>'id' = signature_field_id
+    AND field->>'type' = 'signature'
+  ) THEN
+    RAISE EXCEPTION 'The form has no such signature field' USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- The image must already be in the signer's own folder, where it can't be replaced
+  IF NOT EXISTS (
+    SELECT 1 FROM storage.objects
+    WHERE bucket_id = 'form-signatures'
+    AND name = signature_path
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  ) THEN
+    RAISE EXCEPTION 'The signature image was not found' USING ERRCODE = 'check_violation';
+  END IF;
+
+  signature.id := gen_random_uuid();
+  signature.template_id := signature_template_id;
+  signature.field_id := signature_field_id;
+  signature.signer_id := auth.uid();
+  signature.signed_at := now();
+  signature.path := signature_path;
+  signature.image_hash := signature_image_hash;
+  signature.content := content;
+  signature.content_hash := form_signature_hash(signature, content);
+
+  INSERT INTO form_signatures SELECT signature.*;
+  RETURN signature;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Rebuilds the signed content from the answers to the questions as they were signed, so
+-- renaming, adding or removing questions afterwards doesn't look like tampering. Runs with
+-- the caller's rights, so only signatures they can view are checked.
+CREATE OR REPLACE FUNCTION verify_form_signature(signature_id uuid, answers jsonb)
+RETURNS boolean AS $$
+  SELECT form_signature_hash(signature, COALESCE((
+    SELECT jsonb_agg(
+      jsonb_build_array(item->0, item->1, COALESCE(answers->(item->>0), 'null'::jsonb))
+      ORDER BY position
+    )
+    FROM jsonb_array_elements(signature.content) WITH ORDINALITY AS signed(item, position)
+  ), '[]'::jsonb)) = signature.content_hash
+  FROM form_signatures signature
+  WHERE signature.id = signature_id;
+$$ LANGUAGE sql STABLE;
+
+-- Grant execute permissions
+GRANT EXECUTE ON FUNCTION record_form_signature(text, text, text, text, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION verify_form_signature(uuid, jsonb) TO authenticated;
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_form_signatures_signer ON form_signatures(signer_id);
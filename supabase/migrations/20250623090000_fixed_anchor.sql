@@ -0,0 +1,30 @@
+/*
+  # Keep submitted form uploads
+
+  1. Security
+    - Users can still remove their own form uploads, e.g. when replacing a file before
+      submitting, but no longer once a submitted or reviewed form submission refers to
+      the file, so the files staff review can't disappear from under them
+*/
+
+DROP POLICY IF EXISTS "Users can remove own form files" ON storage.objects;
+
+CREATE POLICY "Users can remove own form files"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'form-uploads'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+    AND NOT EXISTS (
+      SELECT 1 FROM form_submissions
+      WHERE form_submissions.respondent_id = auth.uid()
+      AND form_submissions.status <> 'draft'
+      -- Upload answers are arrays of { path, name, size, ... } keyed by field id
+      AND jsonb_path_exists(
+        form_submissions.answers,
+        '$.*[*] ? (@.path == $path)',
+        jsonb_build_object('path', objects.name)
+      )
+    )
+  );
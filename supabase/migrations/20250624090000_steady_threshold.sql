@@ -0,0 +1,58 @@
+/*
+  # Complete custom onboarding in one step
+
+  1. New Functions
+    - `complete_custom_onboarding(draft_id, form_template_id, form_template_version, form_answers)`
+      - Submits the client's custom onboarding form, completing their draft if they have one,
+        and records onboarding as complete
+      - Both writes happen in one transaction, so a failure leaves the draft in place to
+        submit again rather than a submitted form with onboarding still unfinished
+
+  2. Security
+    - Runs with the caller's rights; the form_submissions and client_onboarding_data
+      policies still apply
+*/
+
+CREATE OR REPLACE FUNCTION complete_custom_onboarding(
+  draft_id uuid,
+  form_template_id text,
+  form_template_version integer,
+  form_answers jsonb
+)
+RETURNS uuid AS $$
+DECLARE
+  submission_id uuid;
+BEGIN
+  IF draft_id IS NOT NULL THEN
+    UPDATE form_submissions SET
+      template_version = form_template_version,
+      answers = form_answers,
+      progress = NULL,
+      status = 'submitted',
+      submitted_at = now()
+    WHERE id = draft_id
+    AND template_id = form_template_id
+    AND status = 'draft'
+    RETURNING id INTO submission_id;
+
+    IF submission_id IS NULL THEN
+      RAISE EXCEPTION 'The saved draft can no longer be submitted' USING ERRCODE = 'check_violation';
+    END IF;
+  ELSE
+    INSERT INTO form_submissions (template_id, template_version, answers, status, submitted_at)
+    VALUES (form_template_id, form_template_version, form_answers, 'submitted', now())
+    RETURNING id INTO submission_id;
+  END IF;
+
+  -- The onboarding record only marks completion; the answers live in the submission
+  INSERT INTO client_onboarding_data (
+    client_id, custom_form_template_id, onboarding_completed, updated_at, last_saved_at
+  )
+  VALUES (auth.uid(), form_template_id, true, now(), now());
+
+  RETURN submission_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Grant execute permissions
+GRANT EXECUTE ON FUNCTION complete_custom_onboarding(uuid, text, integer, jsonb) TO authenticated;
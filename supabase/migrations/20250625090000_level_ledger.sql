@@ -0,0 +1,57 @@
+/*
+  # Scan headline metric columns
+
+  1. Changes
+    - `scans.body_score`, `body_fat_percentage`, `muscle_mass`, `visceral_fat`,
+      `metabolic_age` and `hydration_level` become plain numeric, so readings are stored as
+      the scanner reported them rather than rounded or rejected for their size
+    - The uploader now fills these columns from the scan's readings when it saves a scan
+
+  2. Data
+    - Scans uploaded before that have the columns filled once from `raw_data.path_ids`,
+      where the readings are kept under the same ids, converted to the units the columns
+      hold (kg for muscle mass, years for metabolic age)
+*/
+
+ALTER TABLE scans
+  ALTER COLUMN body_score TYPE numeric,
+  ALTER COLUMN body_fat_percentage TYPE numeric,
+  ALTER COLUMN muscle_mass TYPE numeric,
+  ALTER COLUMN visceral_fat TYPE numeric,
+  ALTER COLUMN metabolic_age TYPE numeric,
+  ALTER COLUMN hydration_level TYPE numeric;
+
+-- Reads a reading the way the uploader does: the leading number, accepting a decimal comma,
+-- converted from the units scanners export to the column's unit
+CREATE FUNCTION pg_temp.scan_metric(raw_data jsonb, metric text, metric_unit text)
+RETURNS numeric AS $$
+  SELECT CASE
+    WHEN metric_unit = '' OR reading_unit = '' OR reading_unit = metric_unit THEN reading_value
+    WHEN metric_unit = 'kg' AND reading_unit = 'g' THEN reading_value * 0.001
+    WHEN metric_unit = 'kg' AND reading_unit IN ('lb', 'lbs') THEN reading_value * 0.45359237
+    WHEN metric_unit = 'kg' AND reading_unit = 'st' THEN reading_value * 6.35029318
+    WHEN metric_unit = 'years' AND reading_unit = 'yrs' THEN reading_value
+    WHEN metric_unit = 'years' AND reading_unit = 'months' THEN reading_value / 12
+  END
+  FROM (
+    SELECT
+      substring(replace(reading->>'value', ',', '.') FROM '^\s*(-?\d+(?:\.\d+)?)')::numeric AS reading_value,
+      rtrim(lower(trim(COALESCE(reading->>'unit', ''))), '.') AS reading_unit
+    FROM jsonb_array_elements(
+      CASE WHEN jsonb_typeof(raw_data->'path_ids') = 'array' THEN raw_data->'path_ids' ELSE '[]'::jsonb END
+    ) AS reading
+    WHERE reading->>'path_id' = metric
+    LIMIT 1
+  ) found;
+$$ LANGUAGE sql IMMUTABLE;
+
+UPDATE scans SET
+  body_score = COALESCE(body_score, pg_temp.scan_metric(raw_data, 'body_score', '')),
+  body_fat_percentage = COALESCE(body_fat_percentage, pg_temp.scan_metric(raw_data, 'body_fat_percentage', '%')),
+  muscle_mass = COALESCE(muscle_mass, pg_temp.scan_metric(raw_data, 'muscle_mass', 'kg')),
+  visceral_fat = COALESCE(visceral_fat, pg_temp.scan_metric(raw_data, 'visceral_fat', '')),
+  metabolic_age = COALESCE(metabolic_age, pg_temp.scan_metric(raw_data, 'metabolic_age', 'years')),
+  hydration_level = COALESCE(hydration_level, pg_temp.scan_metric(raw_data, 'hydration_level', '%'))
+WHERE raw_data ? 'path_ids';
+
+DROP FUNCTION pg_temp.scan_metric(jsonb, text, text);